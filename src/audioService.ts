@@ -32,7 +32,7 @@ export class AudioService {
     try {
       // Step 1: Get media URL from WhatsApp
       const mediaUrlResponse = await axios.get(
-        `https://graph.facebook.com/v18.0/${mediaId}`,
+        `${config.whatsapp.apiUrl}/${mediaId}`,
         {
           headers: {
             Authorization: `Bearer ${config.whatsapp.accessToken}`,
@@ -1,6 +1,7 @@
 import * as readline from 'readline';
 import { FieldAgent } from './fieldAgent';
 import { config } from './config';
+import { getConfiguredModel } from './providers/factory';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -39,7 +40,7 @@ async function main() {
   console.log('║     Halı Saha Bot - Local CLI Testing                     ║');
   console.log('╚════════════════════════════════════════════════════════════╝\n');
   console.log(`🤖 LLM Provider: ${config.llm.provider.toUpperCase()}`);
-  console.log(`📦 Model: ${config.llm.provider === 'openai' ? config.llm.openai.model : config.llm.gemini.model}`);
+  console.log(`📦 Model: ${getConfiguredModel(config.llm.provider)}`);
   console.log(`\n💡 Type your messages as if you're chatting on WhatsApp`);
   console.log(`💡 Type 'exit' or 'quit' to end the session\n`);
   console.log('─'.repeat(60) + '\n');
@@ -55,6 +56,11 @@ async function main() {
     process.exit(1);
   }
 
+  if (config.llm.provider === 'anthropic' && !config.llm.anthropic.apiKey) {
+    console.error('❌ Error: ANTHROPIC_API_KEY not configured in .env');
+    process.exit(1);
+  }
+
   const mockWhatsAppClient = new MockWhatsAppClient();
   const fieldAgent = new FieldAgent(mockWhatsAppClient as any);
 
@@ -64,7 +70,8 @@ async function main() {
     prompt: '👤 You: '
   });
 
-  const testUserId = 'cli-test-user';
+  // Staff tools need an owner: talk as OWNER_PHONE_NUMBER when it is set, as a customer otherwise
+  const testUserId = config.whatsapp.ownerPhoneNumber || 'cli-test-user';
 
   rl.prompt();
 
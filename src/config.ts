@@ -1,4 +1,7 @@
 import dotenv from 'dotenv';
+import { LLMProviderName } from './providers/types';
+import type { LocalToolMode } from './providers/local.provider';
+import { ToolRoutingStrategyName } from './routing/types';
 
 dotenv.config();
 
@@ -7,13 +10,53 @@ export const config = {
     phoneNumberId: process.env.WHATSAPP_PHONE_NUMBER_ID || '',
     accessToken: process.env.WHATSAPP_ACCESS_TOKEN || '',
     verifyToken: process.env.WHATSAPP_VERIFY_TOKEN || '',
+    // Signs every webhook call (X-Hub-Signature-256); unsigned or badly signed calls are rejected
+    appSecret: process.env.WHATSAPP_APP_SECRET || '',
+    // Local development only, e.g. when posting webhook payloads by hand
+    skipSignatureCheck: process.env.WHATSAPP_SKIP_SIGNATURE_CHECK === 'true',
+    // Business numbers (phone_number_id) that are onboarded as tenants on their first message.
+    // Messages to any other unknown number are ignored.
+    allowedPhoneNumberIds: (process.env.WHATSAPP_ALLOWED_PHONE_NUMBER_IDS || '')
+      .split(',')
+      .map(id => id.trim())
+      .filter(id => id.length > 0),
+    // Personal WhatsApp number of the business owner, registered as owner of a tenant that has
+    // no staff yet. Without it every sender is a customer until an owner is added.
+    ownerPhoneNumber: process.env.OWNER_PHONE_NUMBER || '',
+    // Point at the fake Graph API (npm run fake:graph) to run without a Meta account
+    apiUrl: process.env.WHATSAPP_API_URL || 'https://graph.facebook.com/v18.0',
   },
   llm: {
-    provider: (process.env.LLM_PROVIDER || 'gemini') as 'openai' | 'gemini',
+    provider: (process.env.LLM_PROVIDER || 'gemini') as LLMProviderName,
+    // Tried in this order when the primary provider fails, e.g. "openai"
+    fallbackProviders: (process.env.LLM_FALLBACK_PROVIDERS || '')
+      .split(',')
+      .map(name => name.trim())
+      .filter(name => name.length > 0) as LLMProviderName[],
+    timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '30000', 10),
+    maxRetries: parseInt(process.env.LLM_MAX_RETRIES || '2', 10),
+    retryBackoffMs: parseInt(process.env.LLM_RETRY_BACKOFF_MS || '500', 10),
+    // A provider failing this many times in a row is skipped for LLM_CIRCUIT_COOLDOWN_MS
+    circuitFailureThreshold: parseInt(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD || '5', 10),
+    circuitCooldownMs: parseInt(process.env.LLM_CIRCUIT_COOLDOWN_MS || '60000', 10),
     openai: {
       apiKey: process.env.OPENAI_API_KEY || '',
       model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
     },
+    anthropic: {
+      apiKey: process.env.ANTHROPIC_API_KEY || '',
+      model: process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-5',
+      // Point at a local stub (npm run fake:anthropic) to test without an account
+      baseUrl: process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com',
+    },
+    // Any OpenAI-compatible server on your own hardware: Ollama, llama.cpp server, vLLM
+    local: {
+      baseUrl: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+      model: process.env.LOCAL_LLM_MODEL || 'qwen2.5:7b-instruct',
+      apiKey: process.env.LOCAL_LLM_API_KEY || '',
+      // native, json (tools described in the prompt) or auto (native, json when the server rejects tools)
+      toolMode: (process.env.LOCAL_LLM_TOOL_MODE || 'auto') as LocalToolMode,
+    },
     gemini: {
       project: process.env.GOOGLE_CLOUD_PROJECT || '',
       location: process.env.GOOGLE_CLOUD_LOCATION || 'us-central1',
@@ -33,6 +76,21 @@ export const config = {
   redis: {
     url: process.env.REDIS_URL || 'redis://localhost:6379',
   },
+  toolRouting: {
+    // keyword (local TF-IDF scoring, no network), llm (an extra LLM call per message)
+    // or hybrid (keyword, asking the LLM only when the keywords are not conclusive)
+    strategy: (process.env.TOOL_ROUTING_STRATEGY || 'hybrid') as ToolRoutingStrategyName,
+    // Keyword matches scoring below this count as unsure
+    minScore: parseFloat(process.env.TOOL_ROUTING_MIN_SCORE || '0.2'),
+    // Tools scoring less than this share of the best keyword match are not sent
+    relativeScore: parseFloat(process.env.TOOL_ROUTING_RELATIVE_SCORE || '0.5'),
+  },
+  messageQueue: {
+    // Messages processed at the same time; one sender's messages always run one after another
+    concurrency: parseInt(process.env.MESSAGE_QUEUE_CONCURRENCY || '4', 10),
+    // Tries per message before it goes to the dead letters
+    maxAttempts: parseInt(process.env.MESSAGE_QUEUE_MAX_ATTEMPTS || '4', 10),
+  },
   server: {
     port: parseInt(process.env.PORT || '3000', 10),
   },
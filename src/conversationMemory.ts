@@ -0,0 +1,210 @@
+import { LLMProvider, Message } from './providers/types';
+import { db } from './database/db';
+import { tenantService } from './services/tenantService';
+
+export interface ConversationHistory {
+  // LLM-written summary of the messages that no longer fit, null until the first one is written
+  summary: string | null;
+  messages: Message[];
+}
+
+/**
+ * Conversation history stored in Postgres per tenant and sender. Tool calls are dropped before
+ * saving and, once a conversation grows long, its older messages are folded into a running
+ * summary instead of being cut off, so earlier reservations can still be referred to.
+ */
+export class ConversationMemory {
+  private llmProvider: LLMProvider;
+
+  // Summarize once this many messages are stored, keeping the newest KEEP_RECENT as they are
+  private readonly MAX_MESSAGES = 20;
+  private readonly KEEP_RECENT = 8;
+  // Without a summary (the LLM failed) the oldest messages are dropped beyond this
+  private readonly HARD_LIMIT = 40;
+  // A conversation starts over after a day of silence
+  private readonly IDLE_EXPIRY_MS = 24 * 60 * 60 * 1000;
+
+  // Conversations being summarized by this process
+  private summarizing = new Set<number>();
+
+  constructor(llmProvider: LLMProvider) {
+    this.llmProvider = llmProvider;
+  }
+
+  async load(tenantId: number, userId: string): Promise<ConversationHistory> {
+    const conversation = await db.getConversation(tenantId, userId);
+    if (!conversation) {
+      return { summary: null, messages: [] };
+    }
+
+    if (Date.now() - new Date(conversation.last_message_at).getTime() > this.IDLE_EXPIRY_MS) {
+      await db.clearConversation(tenantId, userId);
+      return { summary: null, messages: [] };
+    }
+
+    const rows = await db.getConversationMessages(conversation.id);
+
+    return {
+      summary: conversation.summary,
+      messages: rows.map((row: any) => ({ role: row.role, content: row.content })),
+    };
+  }
+
+  /**
+   * Store the messages of a new turn. Summarizing runs in the background and never delays the reply.
+   */
+  async append(tenantId: number, userId: string, messages: Message[]): Promise<void> {
+    const optimizedMessages = this.optimizeMessages(messages);
+    if (optimizedMessages.length === 0) {
+      return;
+    }
+
+    const conversation = await db.appendConversationMessages(tenantId, userId, optimizedMessages);
+
+    if (parseInt(conversation.message_count, 10) > this.MAX_MESSAGES && !this.summarizing.has(conversation.id)) {
+      this.summarizing.add(conversation.id);
+      this.summarize(conversation)
+        .catch(err => console.error('Failed to summarize conversation:', err))
+        .finally(() => this.summarizing.delete(conversation.id));
+    }
+  }
+
+  async clear(tenantId: number, userId: string): Promise<void> {
+    await db.clearConversation(tenantId, userId);
+  }
+
+  /**
+   * Extra system prompt lines carrying the summary of the earlier conversation
+   */
+  formatSummary(summary: string | null): string {
+    if (!summary) {
+      return '';
+    }
+
+    return `\n\nÖNCEKİ KONUŞMA ÖZETİ (bu kullanıcıyla daha önce konuşulanlar):\n${summary}`;
+  }
+
+  private async summarize(conversation: any): Promise<void> {
+    const rows = await db.getConversationMessages(conversation.id);
+    const toSummarize = rows.slice(0, -this.KEEP_RECENT);
+    if (toSummarize.length === 0) {
+      return;
+    }
+
+    let summary: string;
+    try {
+      summary = await this.writeSummary(conversation.tenant_id, conversation.summary, toSummarize);
+    } catch (error) {
+      console.error('Error writing conversation summary:', error);
+
+      if (rows.length > this.HARD_LIMIT) {
+        await db.trimConversationMessages(conversation.id, this.MAX_MESSAGES);
+      }
+      return;
+    }
+
+    const saved = await db.saveConversationSummary(
+      conversation.id,
+      summary,
+      conversation.summarized_through,
+      toSummarize[toSummarize.length - 1].id
+    );
+
+    if (!saved) {
+      console.log(`Conversation ${conversation.id} was summarized elsewhere in the meantime`);
+    }
+  }
+
+  private async writeSummary(tenantId: number, previousSummary: string | null, rows: any[]): Promise<string> {
+    const transcript = rows
+      .map(row => `[${this.formatTimestamp(new Date(row.created_at))}] ${row.role === 'user' ? 'Kullanıcı' : 'Asistan'}: ${row.content}`)
+      .join('\n');
+
+    const prompt: Message[] = [
+      {
+        role: 'system',
+        content: `Bir halı saha rezervasyon asistanının bir kullanıcıyla konuşmasını özetliyorsun.
+Önceki özeti ve yeni mesajları birleştirip tek bir güncel özet yaz.
+
+KURALLAR:
+- Rezervasyon ID'lerini, müşteri isimlerini, telefon numaralarını, sahaları, tarih ve saatleri aynen koru
+- Yapılan işlemleri (oluşturma, iptal, saat değişikliği, ödeme) ne zaman yapıldıklarıyla birlikte yaz
+- Yarım kalan istekleri ve kullanıcının tercihlerini belirt
+- Selamlaşma ve tekrarları atla
+- En fazla 15 kısa madde, sadece özeti yaz`
+      },
+      {
+        role: 'user',
+        content: `ÖNCEKİ ÖZET:\n${previousSummary || '(yok)'}\n\nYENİ MESAJLAR:\n${transcript}`
+      }
+    ];
+
+    const response = await this.llmProvider.createCompletion(prompt, [], 800, {
+      preferredProvider: await tenantService.getLLMProviderPreference(tenantId),
+    });
+    const summary = response.message.content?.trim();
+
+    if (!summary) {
+      throw new Error('Empty conversation summary');
+    }
+
+    return summary;
+  }
+
+  /**
+   * Keep the user's messages and the agent's final answers; tool calls and their results are
+   * only needed within the turn that made them
+   */
+  private optimizeMessages(messages: Message[]): Message[] {
+    const optimized: Message[] = [];
+    let i = 0;
+
+    while (i < messages.length) {
+      const msg = messages[i];
+
+      // Always keep user messages
+      if (msg.role === 'user') {
+        optimized.push(msg);
+        i++;
+        continue;
+      }
+
+      // For assistant messages, check if they're followed by tool calls
+      if (msg.role === 'assistant') {
+        // If assistant message has content (not just tool calls), keep it
+        if (msg.content && msg.content.trim()) {
+          optimized.push(msg);
+          i++;
+          continue;
+        }
+
+        // If it has tool calls, skip the entire tool call sequence and keep only the final response
+        if (msg.tool_calls) {
+          // Skip this assistant message with tool calls
+          i++;
+
+          // Skip all tool responses
+          while (i < messages.length && messages[i].role === 'tool') {
+            i++;
+          }
+
+          // The next message should be the assistant's final response - keep that
+          if (i < messages.length && messages[i].role === 'assistant' && messages[i].content?.trim()) {
+            optimized.push(messages[i]);
+            i++;
+          }
+          continue;
+        }
+      }
+
+      // System prompts are rebuilt every turn, empty answers and stray tool messages carry nothing
+      i++;
+    }
+
+    return optimized.map(msg => ({ role: msg.role, content: msg.content }));
+  }
+
+  private formatTimestamp(date: Date): string {
+    return date.toLocaleString('tr-TR', { weekday: 'long', day: 'numeric', month: 'long', hour: '2-digit', minute: '2-digit' });
+  }
+}
@@ -0,0 +1,24 @@
+-- Audit Log Migration
+-- Every change to a reservation is recorded with its before/after state, who asked for it and
+-- the message that led to it, so the last change of a user can be undone
+
+-- 1. Before/after snapshots of the reservation, the originating message and the action it belongs to
+ALTER TABLE reservation_history
+ADD COLUMN IF NOT EXISTS before_state JSONB;
+
+ALTER TABLE reservation_history
+ADD COLUMN IF NOT EXISTS after_state JSONB;
+
+ALTER TABLE reservation_history
+ADD COLUMN IF NOT EXISTS source_message TEXT;
+
+-- Entries written by one request (e.g. cancelling a whole week) share an action id and are undone together
+ALTER TABLE reservation_history
+ADD COLUMN IF NOT EXISTS action_id VARCHAR(36);
+
+ALTER TABLE reservation_history
+ADD COLUMN IF NOT EXISTS undone_at TIMESTAMP;
+
+-- 2. Find a user's latest action quickly
+CREATE INDEX IF NOT EXISTS idx_reservation_history_actor ON reservation_history(tenant_id, created_by, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reservation_history_action_id ON reservation_history(action_id);
@@ -0,0 +1,22 @@
+-- Cancellation Policy Migration
+-- Late-cancel fees and a per-reservation history of what happened to a booking
+
+-- 1. Record when a reservation was cancelled and what the customer was charged for it
+ALTER TABLE reservations
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP;
+
+ALTER TABLE reservations
+ADD COLUMN IF NOT EXISTS cancellation_fee DECIMAL(10, 2);
+
+-- 2. Create reservation_history table
+CREATE TABLE IF NOT EXISTS reservation_history (
+    id SERIAL PRIMARY KEY,
+    tenant_id INTEGER NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    reservation_id INTEGER NOT NULL REFERENCES reservations(id) ON DELETE CASCADE,
+    event VARCHAR(50) NOT NULL,
+    details JSONB DEFAULT '{}'::jsonb,
+    created_by VARCHAR(50), -- WhatsApp number of the user who triggered it
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_reservation_history_reservation_id ON reservation_history(reservation_id);
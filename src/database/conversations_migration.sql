@@ -0,0 +1,28 @@
+-- Conversations Migration
+-- Agent conversation history per tenant and sender, kept across restarts and shared by all replicas
+
+-- 1. Create conversations table
+-- Older messages are folded into an LLM-written summary; summarized_through is the id of the
+-- last message the summary covers
+CREATE TABLE IF NOT EXISTS conversations (
+    id SERIAL PRIMARY KEY,
+    tenant_id INTEGER NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    user_id VARCHAR(50) NOT NULL,
+    summary TEXT,
+    summarized_through BIGINT NOT NULL DEFAULT 0,
+    last_message_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (tenant_id, user_id)
+);
+
+-- 2. Create conversation_messages table
+-- Only the user's messages and the agent's final answers are kept, not the tool calls in between
+CREATE TABLE IF NOT EXISTS conversation_messages (
+    id BIGSERIAL PRIMARY KEY,
+    conversation_id INTEGER NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    role VARCHAR(20) NOT NULL CHECK (role IN ('user', 'assistant')),
+    content TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_messages_conversation_id ON conversation_messages(conversation_id, id);
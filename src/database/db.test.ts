@@ -0,0 +1,118 @@
+import { db } from './db';
+
+const state = (start: string, extra: Record<string, any> = {}) => ({
+  id: 7,
+  status: 'active',
+  customer_id: 3,
+  customer_name: 'Ahmet',
+  phone_number: '05551112233',
+  pitch_id: 1,
+  start_time: start,
+  end_time: new Date(new Date(start).getTime() + 60 * 60 * 1000).toISOString(),
+  price: '1200.00',
+  cancelled_at: null,
+  cancellation_fee: null,
+  ...extra,
+});
+
+describe('db.revertReservationAction', () => {
+  let statements: { text: string; params?: any[] }[];
+  let release: jest.Mock;
+
+  const reservationUpdates = () => statements.filter(({ text }) => /^UPDATE reservations\b/.test(text.trim()));
+  const undoEntries = () => statements.filter(({ text }) => text.includes('INSERT INTO reservation_history'));
+
+  beforeEach(() => {
+    statements = [];
+    release = jest.fn();
+    jest.spyOn(db, 'getClient').mockResolvedValue({
+      query: jest.fn(async (text: string, params?: any[]) => {
+        statements.push({ text, params });
+        return { rows: [], rowCount: 0 };
+      }),
+      release,
+    } as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reactivates a cancelled reservation and clears its fee', async () => {
+    await db.revertReservationAction(1, [{
+      id: 41,
+      reservation_id: 7,
+      event: 'cancelled',
+      action_id: 'action-1',
+      before_state: state('2025-11-12T20:00:00.000Z'),
+      after_state: state('2025-11-12T20:00:00.000Z', { status: 'cancelled', cancelled_at: '2025-11-12T18:00:00.000Z', cancellation_fee: '600.00' }),
+    }], '905551112233', 'geri al');
+
+    expect(reservationUpdates()[0].params).toEqual([
+      'active', 1, new Date('2025-11-12T20:00:00.000Z'), new Date('2025-11-12T21:00:00.000Z'), '1200.00', null, null, 7, 1,
+    ]);
+    expect(undoEntries()[0].params).toEqual([
+      1, 7, JSON.stringify({ undoneEvent: 'cancelled', undoneActionId: 'action-1' }), '905551112233',
+      expect.stringContaining('"status":"cancelled"'), expect.stringContaining('"status":"active"'), 'geri al',
+    ]);
+    expect(statements[0].text).toBe('BEGIN');
+    expect(statements[statements.length - 1].text).toBe('COMMIT');
+    expect(release).toHaveBeenCalled();
+  });
+
+  it('puts a moved reservation back on its old pitch, time and price', async () => {
+    await db.revertReservationAction(1, [{
+      id: 42,
+      reservation_id: 7,
+      event: 'updated',
+      action_id: 'action-2',
+      before_state: state('2025-11-12T20:00:00.000Z'),
+      after_state: state('2025-11-17T22:00:00.000Z', { pitch_id: 2, price: '1500.00' }),
+    }], '905551112233');
+
+    expect(reservationUpdates()[0].params).toEqual([
+      'active', 1, new Date('2025-11-12T20:00:00.000Z'), new Date('2025-11-12T21:00:00.000Z'), '1200.00', null, null, 7, 1,
+    ]);
+  });
+
+  it('ends a reservation changed twice in one action in its oldest state', async () => {
+    const moved = state('2025-11-12T22:00:00.000Z');
+
+    await db.revertReservationAction(1, [
+      { id: 42, reservation_id: 7, event: 'updated', action_id: 'action-3', before_state: state('2025-11-12T20:00:00.000Z'), after_state: moved },
+      { id: 43, reservation_id: 7, event: 'updated', action_id: 'action-3', before_state: moved, after_state: state('2025-11-12T23:00:00.000Z') },
+    ], '905551112233');
+
+    const updates = reservationUpdates();
+    expect(updates.map(update => update.params![2])).toEqual([
+      new Date('2025-11-12T22:00:00.000Z'),
+      new Date('2025-11-12T20:00:00.000Z'),
+    ]);
+  });
+
+  it('rolls back when the old slot is taken', async () => {
+    const overlap = Object.assign(new Error('conflicting key value violates exclusion constraint'), { code: '23P01' });
+    jest.spyOn(db, 'getClient').mockResolvedValue({
+      query: jest.fn(async (text: string) => {
+        statements.push({ text });
+        if (/^UPDATE reservations\b/.test(text.trim())) {
+          throw overlap;
+        }
+        return { rows: [], rowCount: 0 };
+      }),
+      release,
+    } as any);
+
+    await expect(db.revertReservationAction(1, [{
+      id: 42,
+      reservation_id: 7,
+      event: 'updated',
+      action_id: 'action-2',
+      before_state: state('2025-11-12T20:00:00.000Z'),
+      after_state: state('2025-11-12T22:00:00.000Z'),
+    }], '905551112233')).rejects.toBe(overlap);
+
+    expect(statements.map(({ text }) => text.trim().split(/\s+/)[0])).toEqual(['BEGIN', 'UPDATE', 'ROLLBACK']);
+    expect(release).toHaveBeenCalled();
+  });
+});
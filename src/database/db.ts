@@ -95,42 +95,379 @@ class Database {
     return result.rows[0];
   }
 
+  async getCustomerByPhoneDigits(phoneNumber: string, tenantId: number) {
+    // Compare the last 10 digits so "0555..." and "90555..." match
+    const query = `
+      SELECT * FROM customers
+      WHERE tenant_id = $1
+      AND RIGHT(regexp_replace(phone_number, '\\D', '', 'g'), 10) = RIGHT(regexp_replace($2, '\\D', '', 'g'), 10)
+      ORDER BY id
+      LIMIT 1
+    `;
+    const result = await this.query(query, [tenantId, phoneNumber]);
+    return result.rows[0];
+  }
+
+  async touchCustomerLastMessage(tenantId: number, phoneNumber: string) {
+    // Compare the last 10 digits so "0555..." and "90555..." match
+    const query = `
+      UPDATE customers
+      SET last_message_at = NOW()
+      WHERE tenant_id = $1
+      AND RIGHT(regexp_replace(phone_number, '\\D', '', 'g'), 10) = RIGHT(regexp_replace($2, '\\D', '', 'g'), 10)
+    `;
+    const result = await this.query(query, [tenantId, phoneNumber]);
+    return result.rowCount || 0;
+  }
+
+  // Staff operations
+  async getStaffMembers(tenantId: number) {
+    const query = 'SELECT * FROM staff_members WHERE tenant_id = $1 ORDER BY created_at, id';
+    const result = await this.query(query, [tenantId]);
+    return result.rows;
+  }
+
+  async addStaffMember(tenantId: number, phoneNumber: string, role: string, name?: string) {
+    const query = `
+      INSERT INTO staff_members (tenant_id, phone_number, role, name)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (tenant_id, phone_number)
+      DO UPDATE SET role = EXCLUDED.role, name = COALESCE(EXCLUDED.name, staff_members.name)
+      RETURNING *
+    `;
+    const result = await this.query(query, [tenantId, phoneNumber, role, name || null]);
+    return result.rows[0];
+  }
+
+  async removeStaffMember(id: number, tenantId: number) {
+    const query = 'DELETE FROM staff_members WHERE id = $1 AND tenant_id = $2 RETURNING *';
+    const result = await this.query(query, [id, tenantId]);
+    return result.rows[0];
+  }
+
+  // Pitch operations
+  async getPitches(tenantId: number) {
+    const query = `
+      SELECT * FROM pitches
+      WHERE tenant_id = $1 AND is_active = true
+      ORDER BY sort_order, id
+    `;
+    const result = await this.query(query, [tenantId]);
+    return result.rows;
+  }
+
+  async getPitchById(id: number, tenantId: number) {
+    const query = 'SELECT * FROM pitches WHERE id = $1 AND tenant_id = $2';
+    const result = await this.query(query, [id, tenantId]);
+    return result.rows[0];
+  }
+
+  async createPitch(tenantId: number, name: string, sortOrder: number = 0) {
+    const query = `
+      INSERT INTO pitches (tenant_id, name, sort_order)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (tenant_id, name)
+      DO UPDATE SET is_active = true
+      RETURNING *
+    `;
+    const result = await this.query(query, [tenantId, name, sortOrder]);
+    return result.rows[0];
+  }
+
   // Reservation operations
   async createReservation(
     customerId: number,
     tenantId: number,
+    pitchId: number,
     startTime: Date,
     endTime: Date,
     price?: number,
+    notes?: string,
+    seriesId?: number
+  ) {
+    const query = `
+      INSERT INTO reservations (customer_id, tenant_id, pitch_id, start_time, end_time, price, notes, series_id, status)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'active')
+      RETURNING *
+    `;
+    const result = await this.query(query, [customerId, tenantId, pitchId, startTime, endTime, price, notes, seriesId || null]);
+    return result.rows[0];
+  }
+
+  async getOverlappingReservations(
+    tenantId: number,
+    pitchId: number,
+    startTime: Date,
+    endTime: Date,
+    excludeReservationId?: number
+  ) {
+    let query = `
+      SELECT r.*, c.name as customer_name, c.phone_number, p.name as pitch_name
+      FROM reservations r
+      JOIN customers c ON r.customer_id = c.id
+      JOIN pitches p ON r.pitch_id = p.id
+      WHERE r.tenant_id = $1
+      AND r.pitch_id = $2
+      AND r.status = 'active'
+      AND tsrange($3::timestamp, $4::timestamp) && tsrange(r.start_time, r.end_time)
+    `;
+    const params: any[] = [tenantId, pitchId, startTime, endTime];
+
+    if (excludeReservationId) {
+      query += ' AND r.id != $5';
+      params.push(excludeReservationId);
+    }
+
+    query += ' ORDER BY r.start_time';
+
+    const result = await this.query(query, params);
+    return result.rows;
+  }
+
+  async getReservationsOverlappingRange(startDate: Date, endDate: Date, tenantId: number) {
+    const query = `
+      SELECT r.*, c.name as customer_name, c.phone_number, p.name as pitch_name
+      FROM reservations r
+      JOIN customers c ON r.customer_id = c.id
+      JOIN pitches p ON r.pitch_id = p.id
+      WHERE r.tenant_id = $1
+      AND r.status = 'active'
+      AND tsrange($2::timestamp, $3::timestamp) && tsrange(r.start_time, r.end_time)
+      ORDER BY r.start_time
+    `;
+    const result = await this.query(query, [tenantId, startDate, endDate]);
+    return result.rows;
+  }
+
+  // Reservation series operations
+  async createReservationSeries(
+    tenantId: number,
+    customerId: number,
+    pitchId: number,
+    startDate: Date,
+    endDate: Date,
+    startTime: string,
+    endTime: string,
+    intervalWeeks: number,
+    occurrenceCount: number,
+    price?: number,
     notes?: string
   ) {
     const query = `
-      INSERT INTO reservations (customer_id, tenant_id, start_time, end_time, price, notes, status)
-      VALUES ($1, $2, $3, $4, $5, $6, 'active')
+      INSERT INTO reservation_series (
+        tenant_id, customer_id, pitch_id, start_date, end_date, start_time, end_time,
+        interval_weeks, occurrence_count, price, notes, status
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, 'active')
       RETURNING *
     `;
-    const result = await this.query(query, [customerId, tenantId, startTime, endTime, price, notes]);
+    const result = await this.query(query, [
+      tenantId,
+      customerId,
+      pitchId,
+      startDate,
+      endDate,
+      startTime,
+      endTime,
+      intervalWeeks,
+      occurrenceCount,
+      price,
+      notes,
+    ]);
     return result.rows[0];
   }
 
-  async getReservationsByDateRange(startDate: Date, endDate: Date, tenantId: number) {
+  async getReservationSeriesById(id: number, tenantId: number) {
     const query = `
-      SELECT r.*, c.name as customer_name, c.phone_number
+      SELECT s.*, c.name as customer_name, c.phone_number, p.name as pitch_name
+      FROM reservation_series s
+      JOIN customers c ON s.customer_id = c.id
+      JOIN pitches p ON s.pitch_id = p.id
+      WHERE s.id = $1 AND s.tenant_id = $2
+    `;
+    const result = await this.query(query, [id, tenantId]);
+    return result.rows[0];
+  }
+
+  async getActiveReservationSeries(tenantId: number, customerName?: string) {
+    let query = `
+      SELECT s.*, c.name as customer_name, c.phone_number, p.name as pitch_name,
+        (SELECT COUNT(*) FROM reservations r
+          WHERE r.series_id = s.id AND r.status = 'active' AND r.start_time >= NOW()) as upcoming_count
+      FROM reservation_series s
+      JOIN customers c ON s.customer_id = c.id
+      JOIN pitches p ON s.pitch_id = p.id
+      WHERE s.tenant_id = $1
+      AND s.status = 'active'
+    `;
+    const params: any[] = [tenantId];
+
+    if (customerName) {
+      query += ' AND LOWER(c.name) LIKE LOWER($2)';
+      params.push(`%${customerName}%`);
+    }
+
+    query += ' ORDER BY s.start_date';
+
+    const result = await this.query(query, params);
+    return result.rows;
+  }
+
+  async getSeriesReservations(seriesId: number, tenantId: number, fromDate?: Date) {
+    let query = `
+      SELECT r.*, c.name as customer_name, c.phone_number, p.name as pitch_name
       FROM reservations r
       JOIN customers c ON r.customer_id = c.id
+      JOIN pitches p ON r.pitch_id = p.id
+      WHERE r.series_id = $1
+      AND r.tenant_id = $2
+      AND r.status = 'active'
+    `;
+    const params: any[] = [seriesId, tenantId];
+
+    if (fromDate) {
+      query += ' AND r.start_time >= $3';
+      params.push(fromDate);
+    }
+
+    query += ' ORDER BY r.start_time';
+
+    const result = await this.query(query, params);
+    return result.rows;
+  }
+
+  async cancelReservationSeries(id: number, tenantId: number) {
+    const query = `
+      UPDATE reservation_series
+      SET status = 'cancelled'
+      WHERE id = $1 AND tenant_id = $2
+      RETURNING *
+    `;
+    const result = await this.query(query, [id, tenantId]);
+    return result.rows[0];
+  }
+
+  // Pricing rule operations
+  async getPricingRules(tenantId: number) {
+    const query = `
+      SELECT pr.*, p.name as pitch_name
+      FROM pricing_rules pr
+      LEFT JOIN pitches p ON pr.pitch_id = p.id
+      WHERE pr.tenant_id = $1 AND pr.is_active = true
+      ORDER BY pr.valid_from NULLS FIRST, pr.start_time, pr.id
+    `;
+    const result = await this.query(query, [tenantId]);
+    return result.rows;
+  }
+
+  async createPricingRule(
+    tenantId: number,
+    name: string,
+    hourlyPrice: number,
+    startTime: string,
+    endTime: string,
+    pitchId?: number,
+    weekdays?: number[],
+    minDurationMinutes?: number,
+    maxDurationMinutes?: number,
+    validFrom?: Date,
+    validTo?: Date,
+    priority: number = 0
+  ) {
+    const query = `
+      INSERT INTO pricing_rules (
+        tenant_id, name, hourly_price, start_time, end_time, pitch_id, weekdays,
+        min_duration_minutes, max_duration_minutes, valid_from, valid_to, priority
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      RETURNING *
+    `;
+    const result = await this.query(query, [
+      tenantId,
+      name,
+      hourlyPrice,
+      startTime,
+      endTime,
+      pitchId || null,
+      weekdays || null,
+      minDurationMinutes || null,
+      maxDurationMinutes || null,
+      validFrom || null,
+      validTo || null,
+      priority,
+    ]);
+    return result.rows[0];
+  }
+
+  async deactivatePricingRule(id: number, tenantId: number) {
+    const query = `
+      UPDATE pricing_rules
+      SET is_active = false
+      WHERE id = $1 AND tenant_id = $2 AND is_active = true
+      RETURNING *
+    `;
+    const result = await this.query(query, [id, tenantId]);
+    return result.rows[0];
+  }
+
+  async getReservationsByDateRange(startDate: Date, endDate: Date, tenantId: number, pitchId?: number) {
+    let query = `
+      SELECT r.*, c.name as customer_name, c.phone_number, p.name as pitch_name
+      FROM reservations r
+      JOIN customers c ON r.customer_id = c.id
+      JOIN pitches p ON r.pitch_id = p.id
       WHERE r.start_time >= $1 AND r.end_time <= $2
       AND r.tenant_id = $3
-      AND r.status = 'active'
-      ORDER BY r.start_time
+      AND r.status IN ('active', 'completed', 'no_show')
     `;
-    const result = await this.query(query, [startDate, endDate, tenantId]);
+    const params: any[] = [startDate, endDate, tenantId];
+
+    if (pitchId) {
+      query += ' AND r.pitch_id = $4';
+      params.push(pitchId);
+    }
+
+    query += ' ORDER BY r.start_time, p.sort_order';
+
+    const result = await this.query(query, params);
+    return result.rows;
+  }
+
+  async getAllReservations(tenantId: number) {
+    const query = `
+      SELECT r.*, c.name as customer_name, c.phone_number, p.name as pitch_name
+      FROM reservations r
+      JOIN customers c ON r.customer_id = c.id
+      JOIN pitches p ON r.pitch_id = p.id
+      WHERE r.tenant_id = $1
+      ORDER BY r.start_time, p.sort_order
+    `;
+    const result = await this.query(query, [tenantId]);
     return result.rows;
   }
 
-  async cancelReservation(id: number, tenantId: number) {
+  async completePastReservations() {
+    const query = `
+      WITH completed AS (
+        UPDATE reservations
+        SET status = 'completed'
+        WHERE status = 'active' AND end_time <= NOW()
+        RETURNING id, tenant_id, start_time
+      ), logged AS (
+        INSERT INTO reservation_history (tenant_id, reservation_id, event, before_state, after_state)
+        SELECT tenant_id, id, 'completed', '{"status": "active"}'::jsonb, '{"status": "completed"}'::jsonb
+        FROM completed
+      )
+      SELECT * FROM completed
+    `;
+    const result = await this.query(query);
+    return result.rows;
+  }
+
+  async markReservationNoShow(id: number, tenantId: number) {
     const query = `
       UPDATE reservations
-      SET status = 'cancelled'
+      SET status = 'no_show'
       WHERE id = $1 AND tenant_id = $2
       RETURNING *
     `;
@@ -138,11 +475,205 @@ class Database {
     return result.rows[0];
   }
 
+  async cancelReservation(id: number, tenantId: number, cancellationFee?: number) {
+    const query = `
+      UPDATE reservations
+      SET status = 'cancelled', cancelled_at = NOW(), cancellation_fee = $3
+      WHERE id = $1 AND tenant_id = $2
+      RETURNING *
+    `;
+    const result = await this.query(query, [id, tenantId, cancellationFee || null]);
+    return result.rows[0];
+  }
+
+  async addReservationHistory(
+    tenantId: number,
+    reservationId: number,
+    event: string,
+    details: Record<string, any> = {},
+    createdBy?: string,
+    change: { beforeState?: any; afterState?: any; sourceMessage?: string; actionId?: string } = {}
+  ) {
+    const query = `
+      INSERT INTO reservation_history
+        (tenant_id, reservation_id, event, details, created_by, before_state, after_state, source_message, action_id)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING *
+    `;
+    const result = await this.query(query, [
+      tenantId,
+      reservationId,
+      event,
+      JSON.stringify(details),
+      createdBy || null,
+      change.beforeState ? JSON.stringify(change.beforeState) : null,
+      change.afterState ? JSON.stringify(change.afterState) : null,
+      change.sourceMessage || null,
+      change.actionId || null,
+    ]);
+    return result.rows[0];
+  }
+
+  /**
+   * All history entries of the latest action by this user that has not been undone yet
+   */
+  async getLastReservationAction(tenantId: number, createdBy: string) {
+    const query = `
+      SELECT * FROM reservation_history
+      WHERE tenant_id = $1 AND action_id = (
+        SELECT action_id FROM reservation_history
+        WHERE tenant_id = $1 AND created_by = $2
+        AND action_id IS NOT NULL AND undone_at IS NULL
+        ORDER BY created_at DESC, id DESC
+        LIMIT 1
+      )
+      ORDER BY id
+    `;
+    const result = await this.query(query, [tenantId, createdBy]);
+    return result.rows;
+  }
+
+  /**
+   * Whether anything changed these reservations after the given history entry. Reminders,
+   * confirmations, undone changes and the undo entries themselves do not count.
+   */
+  async hasLaterReservationChanges(tenantId: number, reservationIds: number[], afterHistoryId: number) {
+    const query = `
+      SELECT 1 FROM reservation_history
+      WHERE tenant_id = $1 AND reservation_id = ANY($2::int[]) AND id > $3
+      AND event NOT IN ('reminder_sent', 'confirmed', 'undone')
+      AND undone_at IS NULL
+      LIMIT 1
+    `;
+    const result = await this.query(query, [tenantId, reservationIds, afterHistoryId]);
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Put the reservations of an action back to their state before it, in one transaction.
+   * Created reservations are cancelled; the entries are marked undone and the undo itself is recorded.
+   */
+  async revertReservationAction(
+    tenantId: number,
+    entries: any[],
+    createdBy: string,
+    sourceMessage?: string
+  ) {
+    const client = await this.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      // Newest first, so a reservation changed twice in one action ends up in its oldest state
+      for (const entry of [...entries].reverse()) {
+        const before = entry.before_state;
+
+        if (entry.event === 'created') {
+          await client.query(
+            `UPDATE reservations
+             SET status = 'cancelled', cancelled_at = NOW(), cancellation_fee = NULL
+             WHERE id = $1 AND tenant_id = $2`,
+            [entry.reservation_id, tenantId]
+          );
+        } else if (entry.event === 'customer_updated') {
+          await client.query(
+            `UPDATE customers SET name = $1, phone_number = $2 WHERE id = $3 AND tenant_id = $4`,
+            [before.customer_name, before.phone_number, before.customer_id, tenantId]
+          );
+        } else {
+          await client.query(
+            `UPDATE reservations
+             SET status = $1, pitch_id = $2, start_time = $3, end_time = $4, price = $5,
+                 cancelled_at = $6, cancellation_fee = $7
+             WHERE id = $8 AND tenant_id = $9`,
+            [
+              before.status,
+              before.pitch_id,
+              new Date(before.start_time),
+              new Date(before.end_time),
+              before.price ?? null,
+              before.cancelled_at ? new Date(before.cancelled_at) : null,
+              before.cancellation_fee ?? null,
+              entry.reservation_id,
+              tenantId,
+            ]
+          );
+        }
+
+        await client.query(
+          `INSERT INTO reservation_history
+             (tenant_id, reservation_id, event, details, created_by, before_state, after_state, source_message)
+           VALUES ($1, $2, 'undone', $3, $4, $5, $6, $7)`,
+          [
+            tenantId,
+            entry.reservation_id,
+            JSON.stringify({ undoneEvent: entry.event, undoneActionId: entry.action_id }),
+            createdBy,
+            entry.after_state ? JSON.stringify(entry.after_state) : null,
+            before ? JSON.stringify(before) : null,
+            sourceMessage || null,
+          ]
+        );
+      }
+
+      await client.query(
+        `UPDATE reservation_history SET undone_at = NOW() WHERE tenant_id = $1 AND action_id = $2`,
+        [tenantId, entries[0].action_id]
+      );
+
+      // A series stays active as long as one of its reservations is
+      await client.query(
+        `UPDATE reservation_series s
+         SET status = CASE WHEN EXISTS (
+           SELECT 1 FROM reservations r WHERE r.series_id = s.id AND r.status = 'active'
+         ) THEN 'active' ELSE 'cancelled' END
+         WHERE s.tenant_id = $1 AND s.id IN (
+           SELECT series_id FROM reservations WHERE id = ANY($2::int[]) AND series_id IS NOT NULL
+         )`,
+        [tenantId, entries.map(entry => entry.reservation_id)]
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getReservationHistory(reservationId: number, tenantId: number) {
+    const query = `
+      SELECT * FROM reservation_history
+      WHERE reservation_id = $1 AND tenant_id = $2
+      ORDER BY created_at, id
+    `;
+    const result = await this.query(query, [reservationId, tenantId]);
+    return result.rows;
+  }
+
+  async getUpcomingReservationsByPhone(phoneNumber: string, tenantId: number) {
+    const query = `
+      SELECT r.*, c.name as customer_name, c.phone_number, p.name as pitch_name
+      FROM reservations r
+      JOIN customers c ON r.customer_id = c.id
+      JOIN pitches p ON r.pitch_id = p.id
+      WHERE r.tenant_id = $1
+      AND r.status = 'active'
+      AND r.end_time > NOW()
+      AND RIGHT(regexp_replace(c.phone_number, '\\D', '', 'g'), 10) = RIGHT(regexp_replace($2, '\\D', '', 'g'), 10)
+      ORDER BY r.start_time
+    `;
+    const result = await this.query(query, [tenantId, phoneNumber]);
+    return result.rows;
+  }
+
   async getReservationById(id: number, tenantId: number) {
     const query = `
-      SELECT r.*, c.name as customer_name, c.phone_number
+      SELECT r.*, c.name as customer_name, c.phone_number, p.name as pitch_name
       FROM reservations r
       JOIN customers c ON r.customer_id = c.id
+      JOIN pitches p ON r.pitch_id = p.id
       WHERE r.id = $1 AND r.tenant_id = $2
     `;
     const result = await this.query(query, [id, tenantId]);
@@ -155,7 +686,8 @@ class Database {
     startTime?: Date,
     endTime?: Date,
     price?: number,
-    notes?: string
+    notes?: string,
+    pitchId?: number
   ) {
     const updates: string[] = [];
     const params: any[] = [];
@@ -181,6 +713,11 @@ class Database {
       params.push(notes);
     }
 
+    if (pitchId) {
+      updates.push(`pitch_id = $${paramIndex++}`);
+      params.push(pitchId);
+    }
+
     if (updates.length === 0) {
       throw new Error('No fields to update');
     }
@@ -198,18 +735,321 @@ class Database {
     return result.rows[0];
   }
 
+  // Waitlist operations
+  async createWaitlistEntry(
+    tenantId: number,
+    customerId: number,
+    pitchId: number | null,
+    windowStart: Date,
+    windowEnd: Date,
+    durationMinutes: number,
+    notes?: string
+  ) {
+    const query = `
+      INSERT INTO waitlist_entries (tenant_id, customer_id, pitch_id, window_start, window_end, duration_minutes, notes)
+      VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *
+    `;
+    const result = await this.query(query, [tenantId, customerId, pitchId, windowStart, windowEnd, durationMinutes, notes || null]);
+    return result.rows[0];
+  }
+
+  async getWaitlistEntryById(id: number, tenantId: number) {
+    const query = `
+      SELECT w.*, c.name as customer_name, c.phone_number, p.name as pitch_name
+      FROM waitlist_entries w
+      JOIN customers c ON w.customer_id = c.id
+      LEFT JOIN pitches p ON w.pitch_id = p.id
+      WHERE w.id = $1 AND w.tenant_id = $2
+    `;
+    const result = await this.query(query, [id, tenantId]);
+    return result.rows[0];
+  }
+
+  async getOpenWaitlistEntries(tenantId: number, startDate?: Date, endDate?: Date) {
+    const params: any[] = [tenantId];
+    let dateFilter = '';
+    if (startDate && endDate) {
+      dateFilter = 'AND w.window_start < $3 AND w.window_end > $2';
+      params.push(startDate, endDate);
+    }
+
+    const query = `
+      SELECT w.*, c.name as customer_name, c.phone_number, p.name as pitch_name
+      FROM waitlist_entries w
+      JOIN customers c ON w.customer_id = c.id
+      LEFT JOIN pitches p ON w.pitch_id = p.id
+      WHERE w.tenant_id = $1
+      AND w.status IN ('waiting', 'offered')
+      AND w.window_end > NOW()
+      ${dateFilter}
+      ORDER BY w.window_start, w.created_at, w.id
+    `;
+    const result = await this.query(query, params);
+    return result.rows;
+  }
+
+  async getWaitingEntriesForSlot(tenantId: number, pitchId: number, startTime: Date, endTime: Date) {
+    const query = `
+      SELECT w.*, c.name as customer_name, c.phone_number
+      FROM waitlist_entries w
+      JOIN customers c ON w.customer_id = c.id
+      WHERE w.tenant_id = $1
+      AND w.status = 'waiting'
+      AND (w.pitch_id IS NULL OR w.pitch_id = $2)
+      AND w.window_start < $4
+      AND w.window_end > $3
+      ORDER BY w.created_at, w.id
+    `;
+    const result = await this.query(query, [tenantId, pitchId, startTime, endTime]);
+    return result.rows;
+  }
+
+  async offerWaitlistEntry(id: number, pitchId: number, startTime: Date, endTime: Date, holdExpiresAt: Date) {
+    const query = `
+      UPDATE waitlist_entries
+      SET status = 'offered', offered_pitch_id = $2, offered_start_time = $3, offered_end_time = $4, hold_expires_at = $5
+      WHERE id = $1 AND status = 'waiting'
+      RETURNING *
+    `;
+    const result = await this.query(query, [id, pitchId, startTime, endTime, holdExpiresAt]);
+    return result.rows[0];
+  }
+
+  async updateWaitlistEntryStatus(id: number, tenantId: number, status: string, reservationId?: number) {
+    const query = `
+      UPDATE waitlist_entries
+      SET status = $3, reservation_id = COALESCE($4, reservation_id)
+      WHERE id = $1 AND tenant_id = $2
+      RETURNING *
+    `;
+    const result = await this.query(query, [id, tenantId, status, reservationId || null]);
+    return result.rows[0];
+  }
+
+  async getActiveWaitlistHolds(tenantId: number, pitchId: number, startTime: Date, endTime: Date) {
+    const query = `
+      SELECT w.*, c.name as customer_name, c.phone_number
+      FROM waitlist_entries w
+      JOIN customers c ON w.customer_id = c.id
+      WHERE w.tenant_id = $1
+      AND w.status = 'offered'
+      AND w.hold_expires_at > NOW()
+      AND w.offered_pitch_id = $2
+      AND w.offered_start_time < $4
+      AND w.offered_end_time > $3
+    `;
+    const result = await this.query(query, [tenantId, pitchId, startTime, endTime]);
+    return result.rows;
+  }
+
+  async getActiveWaitlistOfferByPhone(tenantId: number, phoneNumber: string) {
+    // Compare the last 10 digits so "0555..." and "90555..." match
+    const query = `
+      SELECT w.*, c.name as customer_name, c.phone_number, p.name as pitch_name
+      FROM waitlist_entries w
+      JOIN customers c ON w.customer_id = c.id
+      LEFT JOIN pitches p ON w.offered_pitch_id = p.id
+      WHERE w.tenant_id = $1
+      AND w.status = 'offered'
+      AND w.hold_expires_at > NOW()
+      AND RIGHT(regexp_replace(c.phone_number, '\\D', '', 'g'), 10) = RIGHT(regexp_replace($2, '\\D', '', 'g'), 10)
+      ORDER BY w.hold_expires_at
+      LIMIT 1
+    `;
+    const result = await this.query(query, [tenantId, phoneNumber]);
+    return result.rows[0];
+  }
+
+  async getExpiredWaitlistOffers() {
+    const query = `
+      SELECT * FROM waitlist_entries
+      WHERE status = 'offered' AND hold_expires_at <= NOW()
+      ORDER BY hold_expires_at
+    `;
+    const result = await this.query(query);
+    return result.rows;
+  }
+
+  async expirePastWaitlistEntries() {
+    const query = `
+      UPDATE waitlist_entries
+      SET status = 'expired'
+      WHERE status = 'waiting' AND window_end <= NOW()
+    `;
+    const result = await this.query(query);
+    return result.rowCount || 0;
+  }
+
+  // Reminder operations
+  async getReservationsForReminders(tenantId: number, withinMinutes: number) {
+    const query = `
+      SELECT r.*, c.name as customer_name, c.phone_number, c.last_message_at, p.name as pitch_name,
+        COALESCE(
+          ARRAY_AGG(rr.offset_minutes) FILTER (WHERE rr.id IS NOT NULL),
+          '{}'
+        ) as reminded_offsets
+      FROM reservations r
+      JOIN customers c ON r.customer_id = c.id
+      JOIN pitches p ON r.pitch_id = p.id
+      LEFT JOIN reservation_reminders rr ON rr.reservation_id = r.id AND rr.start_time = r.start_time
+      WHERE r.tenant_id = $1
+      AND r.status = 'active'
+      AND r.start_time > NOW()
+      AND r.start_time <= NOW() + make_interval(mins => $2::int)
+      GROUP BY r.id, c.id, p.id
+      ORDER BY r.start_time
+    `;
+    const result = await this.query(query, [tenantId, withinMinutes]);
+    return result.rows;
+  }
+
+  async claimReminder(tenantId: number, reservationId: number, offsetMinutes: number, startTime: Date, status: string = 'sending') {
+    // Returns undefined when another run already claimed this reminder
+    const query = `
+      INSERT INTO reservation_reminders (tenant_id, reservation_id, offset_minutes, start_time, status)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (reservation_id, offset_minutes, start_time) DO NOTHING
+      RETURNING *
+    `;
+    const result = await this.query(query, [tenantId, reservationId, offsetMinutes, startTime, status]);
+    return result.rows[0];
+  }
+
+  async updateReminderStatus(id: number, status: string, channel?: string, error?: string) {
+    const query = `
+      UPDATE reservation_reminders
+      SET status = $2, channel = $3, error = $4,
+        sent_at = CASE WHEN $2 = 'sent' THEN NOW() ELSE sent_at END
+      WHERE id = $1
+      RETURNING *
+    `;
+    const result = await this.query(query, [id, status, channel || null, error || null]);
+    return result.rows[0];
+  }
+
+  async getRemindedReservationByPhone(tenantId: number, phoneNumber: string) {
+    // The customer's next match that a reminder was sent for
+    const query = `
+      SELECT r.*, c.name as customer_name, c.phone_number, p.name as pitch_name
+      FROM reservations r
+      JOIN customers c ON r.customer_id = c.id
+      JOIN pitches p ON r.pitch_id = p.id
+      WHERE r.tenant_id = $1
+      AND r.status = 'active'
+      AND r.start_time > NOW()
+      AND RIGHT(regexp_replace(c.phone_number, '\\D', '', 'g'), 10) = RIGHT(regexp_replace($2, '\\D', '', 'g'), 10)
+      AND EXISTS (
+        SELECT 1 FROM reservation_reminders rr
+        WHERE rr.reservation_id = r.id AND rr.start_time = r.start_time AND rr.status = 'sent'
+      )
+      ORDER BY r.start_time
+      LIMIT 1
+    `;
+    const result = await this.query(query, [tenantId, phoneNumber]);
+    return result.rows[0];
+  }
+
+  async confirmReservation(id: number, tenantId: number) {
+    const query = `
+      UPDATE reservations
+      SET confirmed_at = NOW()
+      WHERE id = $1 AND tenant_id = $2
+      RETURNING *
+    `;
+    const result = await this.query(query, [id, tenantId]);
+    return result.rows[0];
+  }
+
+  // Payment operations
+  async createPayment(
+    tenantId: number,
+    reservationId: number,
+    customerId: number,
+    amount: number,
+    method: string,
+    type: string,
+    recordedBy?: string,
+    notes?: string
+  ) {
+    const query = `
+      INSERT INTO payments (tenant_id, reservation_id, customer_id, amount, method, type, recorded_by, notes)
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      RETURNING *
+    `;
+    const result = await this.query(query, [tenantId, reservationId, customerId, amount, method, type, recordedBy || null, notes || null]);
+    return result.rows[0];
+  }
+
+  async getPaymentsByReservation(reservationId: number, tenantId: number) {
+    const query = `
+      SELECT * FROM payments
+      WHERE reservation_id = $1 AND tenant_id = $2
+      ORDER BY paid_at, id
+    `;
+    const result = await this.query(query, [reservationId, tenantId]);
+    return result.rows;
+  }
+
+  async getUnpaidReservations(tenantId: number, startDate?: Date, endDate?: Date) {
+    const params: any[] = [tenantId];
+    let dateFilter = '';
+    if (startDate && endDate) {
+      dateFilter = 'AND r.start_time >= $2 AND r.start_time <= $3';
+      params.push(startDate, endDate);
+    }
+
+    const query = `
+      SELECT r.*, c.name as customer_name, c.phone_number, p.name as pitch_name,
+        COALESCE(paid.total, 0) as paid_amount,
+        CASE WHEN r.status = 'cancelled' THEN r.cancellation_fee ELSE r.price END as amount_due
+      FROM reservations r
+      JOIN customers c ON r.customer_id = c.id
+      JOIN pitches p ON r.pitch_id = p.id
+      LEFT JOIN (
+        SELECT reservation_id, SUM(CASE WHEN type = 'refund' THEN -amount ELSE amount END) as total
+        FROM payments
+        GROUP BY reservation_id
+      ) paid ON paid.reservation_id = r.id
+      WHERE r.tenant_id = $1
+      AND (
+        (r.status IN ('active', 'completed') AND r.price IS NOT NULL AND COALESCE(paid.total, 0) < r.price)
+        OR (r.status = 'cancelled' AND r.cancellation_fee IS NOT NULL AND COALESCE(paid.total, 0) < r.cancellation_fee)
+      )
+      ${dateFilter}
+      ORDER BY r.start_time
+      LIMIT 50
+    `;
+    const result = await this.query(query, params);
+    return result.rows;
+  }
+
   // Analytics operations
   async getTotalHoursSold(startDate: Date, endDate: Date, tenantId: number) {
+    // No-shows and late cancellations are not sold hours, but what they paid is collected
+    // revenue and an unpaid cancellation fee is outstanding
     const query = `
       SELECT
-        COUNT(*) as total_reservations,
-        SUM(EXTRACT(EPOCH FROM (end_time - start_time)) / 3600) as total_hours,
-        SUM(price) as total_revenue
-      FROM reservations
-      WHERE start_time >= $1
-      AND end_time <= $2
-      AND tenant_id = $3
-      AND status IN ('active', 'completed')
+        COUNT(*) FILTER (WHERE r.status IN ('active', 'completed')) as total_reservations,
+        COUNT(*) FILTER (WHERE r.status = 'completed') as completed_reservations,
+        COUNT(*) FILTER (WHERE r.status = 'no_show') as no_show_reservations,
+        SUM(EXTRACT(EPOCH FROM (r.end_time - r.start_time)) / 3600) FILTER (WHERE r.status IN ('active', 'completed')) as total_hours,
+        SUM(r.price) FILTER (WHERE r.status IN ('active', 'completed')) as total_revenue,
+        SUM(r.cancellation_fee) FILTER (WHERE r.status = 'cancelled') as cancellation_fee_revenue,
+        COALESCE(SUM(paid.total), 0) as collected_revenue,
+        COALESCE(SUM(GREATEST(COALESCE(r.price, 0) - COALESCE(paid.total, 0), 0)) FILTER (WHERE r.status IN ('active', 'completed')), 0)
+          + COALESCE(SUM(GREATEST(r.cancellation_fee - COALESCE(paid.total, 0), 0)) FILTER (WHERE r.status = 'cancelled'), 0)
+          as outstanding_revenue
+      FROM reservations r
+      LEFT JOIN (
+        SELECT reservation_id, SUM(CASE WHEN type = 'refund' THEN -amount ELSE amount END) as total
+        FROM payments
+        GROUP BY reservation_id
+      ) paid ON paid.reservation_id = r.id
+      WHERE r.start_time >= $1
+      AND r.end_time <= $2
+      AND r.tenant_id = $3
+      AND r.status IN ('active', 'completed', 'no_show', 'cancelled')
     `;
     const result = await this.query(query, [startDate, endDate, tenantId]);
     return result.rows[0];
@@ -258,13 +1098,36 @@ class Database {
         c.id,
         c.name,
         c.phone_number,
-        COUNT(r.id) as cancellation_count
+        COUNT(r.id) FILTER (WHERE r.status = 'cancelled') as cancellation_count,
+        COUNT(r.id) FILTER (WHERE r.status = 'no_show') as no_show_count
       FROM customers c
       JOIN reservations r ON c.id = r.customer_id
-      WHERE r.status = 'cancelled'
+      WHERE r.status IN ('cancelled', 'no_show')
       AND r.tenant_id = $1
       GROUP BY c.id
-      ORDER BY cancellation_count DESC
+      HAVING COUNT(r.id) FILTER (WHERE r.status = 'cancelled') > 0
+      ORDER BY cancellation_count DESC, no_show_count DESC
+      LIMIT $2
+    `;
+    const result = await this.query(query, [tenantId, limit]);
+    return result.rows;
+  }
+
+  async getCustomersWithMostNoShows(tenantId: number, limit: number = 10) {
+    const query = `
+      SELECT
+        c.id,
+        c.name,
+        c.phone_number,
+        COUNT(r.id) FILTER (WHERE r.status = 'no_show') as no_show_count,
+        COUNT(r.id) FILTER (WHERE r.status = 'cancelled') as cancellation_count
+      FROM customers c
+      JOIN reservations r ON c.id = r.customer_id
+      WHERE r.status IN ('cancelled', 'no_show')
+      AND r.tenant_id = $1
+      GROUP BY c.id
+      HAVING COUNT(r.id) FILTER (WHERE r.status = 'no_show') > 0
+      ORDER BY no_show_count DESC, cancellation_count DESC
       LIMIT $2
     `;
     const result = await this.query(query, [tenantId, limit]);
@@ -288,6 +1151,112 @@ class Database {
     return result.rows;
   }
 
+  // Message queue operations
+  async enqueueMessageJob(tenantId: number, userId: string, messageId: string, payload: any) {
+    const query = `
+      INSERT INTO message_jobs (tenant_id, user_id, message_id, payload)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (message_id) DO NOTHING
+      RETURNING *
+    `;
+    const result = await this.query(query, [tenantId, userId, messageId, JSON.stringify(payload)]);
+    return result.rows[0];
+  }
+
+  /**
+   * Lock the next job that is due and whose sender has no earlier unfinished job, so each
+   * sender's messages are processed one at a time and in order, even across replicas
+   */
+  async claimNextMessageJob() {
+    const query = `
+      UPDATE message_jobs
+      SET status = 'processing', locked_at = NOW(), attempts = attempts + 1
+      WHERE id = (
+        SELECT j.id FROM message_jobs j
+        WHERE j.status = 'pending'
+        AND j.run_at <= NOW()
+        AND NOT EXISTS (
+          SELECT 1 FROM message_jobs earlier
+          WHERE earlier.tenant_id = j.tenant_id
+          AND earlier.user_id = j.user_id
+          AND earlier.id < j.id
+          AND earlier.status IN ('pending', 'processing')
+        )
+        ORDER BY j.run_at, j.id
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+    const result = await this.query(query);
+    return result.rows[0];
+  }
+
+  async completeMessageJob(id: number) {
+    const query = `
+      UPDATE message_jobs
+      SET status = 'done', locked_at = NULL, completed_at = NOW()
+      WHERE id = $1
+    `;
+    await this.query(query, [id]);
+  }
+
+  async retryMessageJob(id: number, delaySeconds: number, error: string) {
+    const query = `
+      UPDATE message_jobs
+      SET status = 'pending', locked_at = NULL, last_error = $3,
+          run_at = NOW() + make_interval(secs => $2::int)
+      WHERE id = $1
+    `;
+    await this.query(query, [id, delaySeconds, error]);
+  }
+
+  async deadLetterMessageJob(id: number, error: string) {
+    const query = `
+      UPDATE message_jobs
+      SET status = 'dead', locked_at = NULL, last_error = $2, completed_at = NOW()
+      WHERE id = $1
+    `;
+    await this.query(query, [id, error]);
+  }
+
+  /**
+   * Put jobs back whose worker died mid-processing. Jobs out of attempts go to the dead letters.
+   */
+  async releaseStaleMessageJobs(staleMinutes: number, maxAttempts: number) {
+    const query = `
+      UPDATE message_jobs
+      SET status = CASE WHEN attempts >= $2 THEN 'dead' ELSE 'pending' END,
+          completed_at = CASE WHEN attempts >= $2 THEN NOW() ELSE NULL END,
+          locked_at = NULL,
+          last_error = 'Worker stopped while processing the message'
+      WHERE status = 'processing'
+      AND locked_at < NOW() - make_interval(mins => $1::int)
+    `;
+    const result = await this.query(query, [staleMinutes, maxAttempts]);
+    return result.rowCount || 0;
+  }
+
+  async deleteFinishedMessageJobs(olderThanDays: number) {
+    const query = `
+      DELETE FROM message_jobs
+      WHERE status = 'done'
+      AND completed_at < NOW() - make_interval(days => $1::int)
+    `;
+    const result = await this.query(query, [olderThanDays]);
+    return result.rowCount || 0;
+  }
+
+  async getMessageQueueStats() {
+    const query = `
+      SELECT status, COUNT(*) as job_count
+      FROM message_jobs
+      GROUP BY status
+    `;
+    const result = await this.query(query);
+    return result.rows;
+  }
+
   // Token usage tracking operations
   async logTokenUsage(
     userId: string,
@@ -417,120 +1386,104 @@ class Database {
     return result.rows[0];
   }
 
-  // Conversation history operations (in-memory for now, can be moved to DB later)
-  // Tenant-scoped conversation history: key format is "tenantId:userId"
-  private conversationHistory: Map<string, any[]> = new Map();
-  private readonly MAX_HISTORY_MESSAGES = 10; // Keep last 10 messages per user (reduced from 20)
-  private readonly HISTORY_EXPIRY_MS = 15 * 60 * 1000; // 15 minutes (reduced from 30)
-  private lastActivityTime: Map<string, number> = new Map();
-
-  private getTenantKey(tenantId: number, userId: string): string {
-    return `${tenantId}:${userId}`;
+  // Conversation history operations
+  async getConversation(tenantId: number, userId: string) {
+    const query = 'SELECT * FROM conversations WHERE tenant_id = $1 AND user_id = $2';
+    const result = await this.query(query, [tenantId, userId]);
+    return result.rows[0];
   }
 
-  getConversationHistory(tenantId: number, userId: string): any[] {
-    const key = this.getTenantKey(tenantId, userId);
-    this.cleanExpiredHistory(key);
-    return this.conversationHistory.get(key) || [];
+  async getConversationMessages(conversationId: number) {
+    const query = `
+      SELECT id, role, content, created_at
+      FROM conversation_messages
+      WHERE conversation_id = $1
+      ORDER BY id
+    `;
+    const result = await this.query(query, [conversationId]);
+    return result.rows;
   }
 
-  setConversationHistory(tenantId: number, userId: string, messages: any[]) {
-    const key = this.getTenantKey(tenantId, userId);
-    this.cleanExpiredHistory(key);
-
-    // Optimize: Remove intermediate tool calls/responses, keep only final user/assistant exchanges
-    const optimizedMessages = this.optimizeMessages(messages);
-
-    // Keep only the last N messages (excluding system message)
-    const systemMessage = optimizedMessages.find(m => m.role === 'system');
-    const otherMessages = optimizedMessages.filter(m => m.role !== 'system');
-
-    if (otherMessages.length > this.MAX_HISTORY_MESSAGES) {
-      const trimmedMessages = otherMessages.slice(-this.MAX_HISTORY_MESSAGES);
-      this.conversationHistory.set(
-        key,
-        systemMessage ? [systemMessage, ...trimmedMessages] : trimmedMessages
-      );
-    } else {
-      this.conversationHistory.set(key, optimizedMessages);
-    }
-
-    this.lastActivityTime.set(key, Date.now());
+  /**
+   * Append messages to the sender's conversation, starting it when needed.
+   * Returns the conversation with its number of stored messages.
+   */
+  async appendConversationMessages(tenantId: number, userId: string, messages: { role: string; content: string }[]) {
+    const query = `
+      WITH conversation AS (
+        INSERT INTO conversations (tenant_id, user_id, last_message_at)
+        VALUES ($1, $2, NOW())
+        ON CONFLICT (tenant_id, user_id)
+        DO UPDATE SET last_message_at = NOW()
+        RETURNING *
+      ),
+      inserted AS (
+        INSERT INTO conversation_messages (conversation_id, role, content)
+        SELECT conversation.id, message.role, message.content
+        FROM conversation, unnest($3::text[], $4::text[]) WITH ORDINALITY AS message(role, content, position)
+        ORDER BY message.position
+        RETURNING id
+      )
+      SELECT conversation.*,
+        (SELECT COUNT(*) FROM conversation_messages cm WHERE cm.conversation_id = conversation.id)
+          + (SELECT COUNT(*) FROM inserted) as message_count
+      FROM conversation
+    `;
+    const result = await this.query(query, [
+      tenantId,
+      userId,
+      messages.map(message => message.role),
+      messages.map(message => message.content),
+    ]);
+    return result.rows[0];
   }
 
-  private optimizeMessages(messages: any[]): any[] {
-    const optimized: any[] = [];
-    let i = 0;
-
-    while (i < messages.length) {
-      const msg = messages[i];
-
-      // Always keep system messages
-      if (msg.role === 'system') {
-        optimized.push(msg);
-        i++;
-        continue;
-      }
-
-      // Always keep user messages
-      if (msg.role === 'user') {
-        optimized.push(msg);
-        i++;
-        continue;
-      }
-
-      // For assistant messages, check if they're followed by tool calls
-      if (msg.role === 'assistant') {
-        // If assistant message has content (not just tool calls), keep it
-        if (msg.content && msg.content.trim()) {
-          optimized.push(msg);
-          i++;
-          continue;
-        }
-
-        // If it has tool calls, skip the entire tool call sequence and keep only the final response
-        if (msg.tool_calls) {
-          // Skip this assistant message with tool calls
-          i++;
-
-          // Skip all tool responses
-          while (i < messages.length && messages[i].role === 'tool') {
-            i++;
-          }
-
-          // The next message should be the assistant's final response - keep that
-          if (i < messages.length && messages[i].role === 'assistant') {
-            optimized.push(messages[i]);
-            i++;
-          }
-          continue;
-        }
-
-        // Regular assistant message without tool calls
-        optimized.push(msg);
-        i++;
-        continue;
-      }
-
-      // Skip standalone tool messages (shouldn't happen with above logic)
-      i++;
-    }
-
-    return optimized;
+  /**
+   * Replace the messages up to throughId with the new summary. Returns false when another
+   * summary was saved since summarizedThrough was read; nothing is changed then.
+   */
+  async saveConversationSummary(conversationId: number, summary: string, summarizedThrough: number, throughId: number) {
+    const query = `
+      WITH updated AS (
+        UPDATE conversations
+        SET summary = $2, summarized_through = $4
+        WHERE id = $1 AND summarized_through = $3
+        RETURNING id
+      ),
+      deleted AS (
+        DELETE FROM conversation_messages
+        WHERE conversation_id IN (SELECT id FROM updated) AND id <= $4
+        RETURNING id
+      )
+      SELECT (SELECT COUNT(*) FROM updated) as updated_count, (SELECT COUNT(*) FROM deleted) as deleted_count
+    `;
+    const result = await this.query(query, [conversationId, summary, summarizedThrough, throughId]);
+    return parseInt(result.rows[0].updated_count, 10) === 1;
   }
 
-  clearConversationHistory(tenantId: number, userId: string) {
-    const key = this.getTenantKey(tenantId, userId);
-    this.conversationHistory.delete(key);
-    this.lastActivityTime.delete(key);
+  /**
+   * Drop the oldest messages beyond the newest keep; the fallback when no summary can be written
+   */
+  async trimConversationMessages(conversationId: number, keep: number) {
+    const query = `
+      DELETE FROM conversation_messages
+      WHERE conversation_id = $1
+      AND id < (
+        SELECT MIN(id) FROM (
+          SELECT id FROM conversation_messages
+          WHERE conversation_id = $1
+          ORDER BY id DESC
+          LIMIT $2
+        ) newest
+      )
+    `;
+    const result = await this.query(query, [conversationId, keep]);
+    return result.rowCount || 0;
   }
 
-  private cleanExpiredHistory(key: string) {
-    const lastActivity = this.lastActivityTime.get(key);
-    if (lastActivity && Date.now() - lastActivity > this.HISTORY_EXPIRY_MS) {
-      this.conversationHistory.delete(key);
-      this.lastActivityTime.delete(key);
-    }
+  async clearConversation(tenantId: number, userId: string) {
+    const query = 'DELETE FROM conversations WHERE tenant_id = $1 AND user_id = $2';
+    await this.query(query, [tenantId, userId]);
   }
 }
 
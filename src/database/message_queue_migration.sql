@@ -0,0 +1,26 @@
+-- Message Queue Migration
+-- Incoming WhatsApp messages are stored here before the webhook is acknowledged and processed
+-- in the background, so a restart or a slow LLM call never loses a message
+
+-- 1. Create message_jobs table
+-- Jobs of one sender run strictly in arrival order. Failed jobs are retried with a delay (run_at)
+-- and end up as 'dead' after the last attempt.
+CREATE TABLE IF NOT EXISTS message_jobs (
+    id BIGSERIAL PRIMARY KEY,
+    tenant_id INTEGER NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    user_id VARCHAR(50) NOT NULL,
+    message_id VARCHAR(255) NOT NULL UNIQUE,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'processing', 'done', 'dead')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    run_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    locked_at TIMESTAMP,
+    last_error TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    completed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_jobs_status_run_at ON message_jobs(status, run_at);
+CREATE INDEX IF NOT EXISTS idx_message_jobs_open_by_user ON message_jobs(tenant_id, user_id, id)
+    WHERE status IN ('pending', 'processing');
@@ -9,23 +9,37 @@ const pool = new Pool({
   connectionString: process.env.DATABASE_URL,
 });
 
+const MIGRATIONS: { name: string; file: string }[] = [
+  { name: 'Base schema', file: 'schema.sql' },
+  { name: 'Multitenancy', file: 'multitenancy_migration.sql' },
+  { name: 'Pitches', file: 'pitches_migration.sql' },
+  { name: 'Reservation series', file: 'reservation_series_migration.sql' },
+  { name: 'Pricing rules', file: 'pricing_rules_migration.sql' },
+  { name: 'Payments', file: 'payments_migration.sql' },
+  { name: 'Waitlist', file: 'waitlist_migration.sql' },
+  { name: 'Reservation status', file: 'reservation_status_migration.sql' },
+  { name: 'Cancellation policy', file: 'cancellation_policy_migration.sql' },
+  { name: 'Reminders', file: 'reminders_migration.sql' },
+  { name: 'Staff', file: 'staff_migration.sql' },
+  { name: 'Staff roles', file: 'staff_roles_migration.sql' },
+  { name: 'Audit log', file: 'audit_log_migration.sql' },
+  { name: 'Message queue', file: 'message_queue_migration.sql' },
+  { name: 'Conversations', file: 'conversations_migration.sql' },
+];
+
 async function runMigration() {
   const client = await pool.connect();
 
   try {
     console.log('Starting database migration...');
 
-    // Read and execute base schema file
-    const schemaPath = join(__dirname, 'schema.sql');
-    const schema = readFileSync(schemaPath, 'utf-8');
-    await client.query(schema);
-    console.log('✅ Base schema migration completed');
-
-    // Read and execute multitenancy migration
-    const multitenancyPath = join(__dirname, 'multitenancy_migration.sql');
-    const multitenancySchema = readFileSync(multitenancyPath, 'utf-8');
-    await client.query(multitenancySchema);
-    console.log('✅ Multitenancy migration completed');
+    // Migrations run in order on every startup, so each file must be idempotent
+    for (const migration of MIGRATIONS) {
+      const migrationPath = join(__dirname, migration.file);
+      const sql = readFileSync(migrationPath, 'utf-8');
+      await client.query(sql);
+      console.log(`✅ ${migration.name} migration completed`);
+    }
 
     console.log('🎉 All database migrations completed successfully!');
   } catch (error) {
@@ -56,8 +56,13 @@ ALTER TABLE reservations DROP CONSTRAINT IF EXISTS no_overlapping_reservations;
 -- Add new tenant-scoped constraint
 DO $$
 BEGIN
+    -- Skip if the pitches migration already replaced it with a per-pitch constraint
     IF NOT EXISTS (
-        SELECT 1 FROM pg_constraint WHERE conname = 'no_overlapping_reservations_per_tenant'
+        SELECT 1 FROM pg_constraint
+        WHERE conname IN (
+            'no_overlapping_reservations_per_tenant',
+            'no_overlapping_reservations_per_pitch'
+        )
     ) THEN
         ALTER TABLE reservations
         ADD CONSTRAINT no_overlapping_reservations_per_tenant
@@ -0,0 +1,77 @@
+-- Pitches Migration
+-- Adds multiple pitches (fields) per tenant and scopes reservations to a pitch
+
+-- 1. Create pitches table
+CREATE TABLE IF NOT EXISTS pitches (
+    id SERIAL PRIMARY KEY,
+    tenant_id INTEGER NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    sort_order INTEGER DEFAULT 0,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT pitches_name_tenant_unique UNIQUE (tenant_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pitches_tenant_id ON pitches(tenant_id);
+
+DROP TRIGGER IF EXISTS update_pitches_updated_at ON pitches;
+CREATE TRIGGER update_pitches_updated_at BEFORE UPDATE ON pitches
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. Every tenant gets a default pitch on creation
+CREATE OR REPLACE FUNCTION create_default_pitch()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO pitches (tenant_id, name, sort_order)
+    VALUES (NEW.id, 'Saha 1', 1)
+    ON CONFLICT (tenant_id, name) DO NOTHING;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS create_tenant_default_pitch ON tenants;
+CREATE TRIGGER create_tenant_default_pitch AFTER INSERT ON tenants
+    FOR EACH ROW EXECUTE FUNCTION create_default_pitch();
+
+-- 3. Backfill a default pitch for existing tenants without one
+INSERT INTO pitches (tenant_id, name, sort_order)
+SELECT t.id, 'Saha 1', 1
+FROM tenants t
+WHERE NOT EXISTS (SELECT 1 FROM pitches p WHERE p.tenant_id = t.id);
+
+-- 4. Add pitch_id to reservations and assign existing rows to the tenant's first pitch
+ALTER TABLE reservations
+ADD COLUMN IF NOT EXISTS pitch_id INTEGER REFERENCES pitches(id) ON DELETE CASCADE;
+
+UPDATE reservations r
+SET pitch_id = (
+    SELECT p.id FROM pitches p
+    WHERE p.tenant_id = r.tenant_id
+    ORDER BY p.sort_order, p.id
+    LIMIT 1
+)
+WHERE r.pitch_id IS NULL;
+
+ALTER TABLE reservations ALTER COLUMN pitch_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reservations_pitch_id ON reservations(pitch_id);
+
+-- 5. Replace the tenant-wide overlap constraint with a per-pitch one
+ALTER TABLE reservations DROP CONSTRAINT IF EXISTS no_overlapping_reservations_per_tenant;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'no_overlapping_reservations_per_pitch'
+    ) THEN
+        ALTER TABLE reservations
+        ADD CONSTRAINT no_overlapping_reservations_per_pitch
+        EXCLUDE USING GIST (
+            tenant_id WITH =,
+            pitch_id WITH =,
+            tsrange(start_time, end_time) WITH &&
+        )
+        WHERE (status = 'active');
+    END IF;
+END $$;
@@ -0,0 +1,28 @@
+-- Pricing Rules Migration
+-- Per-tenant hourly tariffs by weekday, hour range, pitch and duration, plus holiday periods
+
+-- 1. Create pricing_rules table
+CREATE TABLE IF NOT EXISTS pricing_rules (
+    id SERIAL PRIMARY KEY,
+    tenant_id INTEGER NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    pitch_id INTEGER REFERENCES pitches(id) ON DELETE CASCADE, -- NULL = all pitches
+    weekdays INTEGER[], -- JS weekday numbers (0 = Sunday), NULL = every day
+    start_time TIME NOT NULL DEFAULT '06:00', -- times before 06:00 belong to the previous business day
+    end_time TIME NOT NULL DEFAULT '06:00',
+    min_duration_minutes INTEGER,
+    max_duration_minutes INTEGER,
+    valid_from DATE, -- holiday / special period; NULL = always
+    valid_to DATE,
+    hourly_price DECIMAL(10, 2) NOT NULL CHECK (hourly_price >= 0),
+    priority INTEGER NOT NULL DEFAULT 0,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_pricing_rules_tenant_id ON pricing_rules(tenant_id);
+
+DROP TRIGGER IF EXISTS update_pricing_rules_updated_at ON pricing_rules;
+CREATE TRIGGER update_pricing_rules_updated_at BEFORE UPDATE ON pricing_rules
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
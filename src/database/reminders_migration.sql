@@ -0,0 +1,31 @@
+-- Reminders Migration
+-- WhatsApp reminders sent to customers before their match, and their "geliyoruz"/"iptal" answers
+
+-- 1. Track when a customer last wrote to us; free-form messages are only allowed within 24 hours of it
+ALTER TABLE customers
+ADD COLUMN IF NOT EXISTS last_message_at TIMESTAMP;
+
+-- 2. Record when the customer confirmed they are coming
+ALTER TABLE reservations
+ADD COLUMN IF NOT EXISTS confirmed_at TIMESTAMP;
+
+-- 3. Create reservation_reminders table
+-- One row per reminder offset and start time, written before sending so a restart never sends twice.
+-- A rescheduled reservation gets a new start time and therefore fresh reminders.
+CREATE TABLE IF NOT EXISTS reservation_reminders (
+    id SERIAL PRIMARY KEY,
+    tenant_id INTEGER NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    reservation_id INTEGER NOT NULL REFERENCES reservations(id) ON DELETE CASCADE,
+    offset_minutes INTEGER NOT NULL,
+    start_time TIMESTAMP NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'sending'
+        CHECK (status IN ('sending', 'sent', 'failed', 'skipped')),
+    channel VARCHAR(20) CHECK (channel IN ('text', 'template')),
+    error TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    sent_at TIMESTAMP,
+    UNIQUE (reservation_id, offset_minutes, start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reservation_reminders_reservation_id ON reservation_reminders(reservation_id);
+CREATE INDEX IF NOT EXISTS idx_reservations_status_start_time ON reservations(status, start_time);
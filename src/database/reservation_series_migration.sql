@@ -0,0 +1,34 @@
+-- Reservation Series Migration
+-- Recurring ("abonelik") reservations: a team plays the same slot every week or every other week
+
+-- 1. Create reservation_series table
+CREATE TABLE IF NOT EXISTS reservation_series (
+    id SERIAL PRIMARY KEY,
+    tenant_id INTEGER NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    customer_id INTEGER NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    pitch_id INTEGER NOT NULL REFERENCES pitches(id) ON DELETE CASCADE,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    interval_weeks INTEGER NOT NULL DEFAULT 1 CHECK (interval_weeks IN (1, 2)),
+    occurrence_count INTEGER NOT NULL,
+    status VARCHAR(50) DEFAULT 'active' CHECK (status IN ('active', 'cancelled')),
+    price DECIMAL(10, 2),
+    notes TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_reservation_series_tenant_id ON reservation_series(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_reservation_series_customer_id ON reservation_series(customer_id);
+
+DROP TRIGGER IF EXISTS update_reservation_series_updated_at ON reservation_series;
+CREATE TRIGGER update_reservation_series_updated_at BEFORE UPDATE ON reservation_series
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. Link generated reservations to their series
+ALTER TABLE reservations
+ADD COLUMN IF NOT EXISTS series_id INTEGER REFERENCES reservation_series(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reservations_series_id ON reservations(series_id);
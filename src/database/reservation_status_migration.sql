@@ -0,0 +1,20 @@
+-- Reservation Status Migration
+-- Adds the no_show status; past reservations are moved to completed by a scheduled job
+
+-- 1. Allow 'no_show' in reservations.status
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'reservations_status_check'
+        AND pg_get_constraintdef(oid) LIKE '%no_show%'
+    ) THEN
+        ALTER TABLE reservations DROP CONSTRAINT IF EXISTS reservations_status_check;
+        ALTER TABLE reservations
+        ADD CONSTRAINT reservations_status_check
+        CHECK (status IN ('active', 'cancelled', 'completed', 'no_show'));
+    END IF;
+END $$;
+
+-- 2. Speed up the completion job, which scans active reservations by end time
+CREATE INDEX IF NOT EXISTS idx_reservations_status_end_time ON reservations(status, end_time);
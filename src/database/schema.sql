@@ -25,8 +25,14 @@ CREATE TABLE IF NOT EXISTS reservations (
 -- Add exclusion constraint separately (so it doesn't fail if table already exists)
 DO $$
 BEGIN
+    -- Skip if a later migration already replaced it with a scoped constraint
     IF NOT EXISTS (
-        SELECT 1 FROM pg_constraint WHERE conname = 'no_overlapping_reservations'
+        SELECT 1 FROM pg_constraint
+        WHERE conname IN (
+            'no_overlapping_reservations',
+            'no_overlapping_reservations_per_tenant',
+            'no_overlapping_reservations_per_pitch'
+        )
     ) THEN
         ALTER TABLE reservations ADD CONSTRAINT no_overlapping_reservations
         EXCLUDE USING GIST (tsrange(start_time, end_time) WITH &&)
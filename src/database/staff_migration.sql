@@ -0,0 +1,15 @@
+-- Staff Migration
+-- WhatsApp numbers of the people who run the facility. Everyone else talking to the
+-- business number is treated as a customer.
+
+-- 1. Create staff_members table
+CREATE TABLE IF NOT EXISTS staff_members (
+    id SERIAL PRIMARY KEY,
+    tenant_id INTEGER NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    phone_number VARCHAR(20) NOT NULL,
+    name VARCHAR(255),
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (tenant_id, phone_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_members_tenant_id ON staff_members(tenant_id);
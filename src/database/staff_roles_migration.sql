@@ -0,0 +1,13 @@
+-- Staff Roles Migration
+-- Owners run everything, desk staff handle day-to-day bookings, accountants only read
+
+-- 1. Add role to staff_members; numbers registered before roles existed keep full access
+ALTER TABLE staff_members
+ADD COLUMN IF NOT EXISTS role VARCHAR(20) NOT NULL DEFAULT 'owner';
+
+ALTER TABLE staff_members
+ALTER COLUMN role SET DEFAULT 'desk';
+
+ALTER TABLE staff_members DROP CONSTRAINT IF EXISTS staff_members_role_check;
+ALTER TABLE staff_members
+ADD CONSTRAINT staff_members_role_check CHECK (role IN ('owner', 'desk', 'accountant'));
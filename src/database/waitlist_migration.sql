@@ -0,0 +1,32 @@
+-- Waitlist Migration
+-- Customers waiting for a fully booked slot; a freed slot is offered to them in order and
+-- held for a limited time
+
+-- 1. Create waitlist_entries table
+CREATE TABLE IF NOT EXISTS waitlist_entries (
+    id SERIAL PRIMARY KEY,
+    tenant_id INTEGER NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    customer_id INTEGER NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    pitch_id INTEGER REFERENCES pitches(id) ON DELETE CASCADE, -- NULL = any pitch
+    window_start TIMESTAMP NOT NULL, -- time window the customer can play in
+    window_end TIMESTAMP NOT NULL,
+    duration_minutes INTEGER NOT NULL DEFAULT 60,
+    status VARCHAR(20) NOT NULL DEFAULT 'waiting'
+        CHECK (status IN ('waiting', 'offered', 'booked', 'declined', 'expired', 'cancelled')),
+    offered_pitch_id INTEGER REFERENCES pitches(id) ON DELETE SET NULL,
+    offered_start_time TIMESTAMP,
+    offered_end_time TIMESTAMP,
+    hold_expires_at TIMESTAMP,
+    reservation_id INTEGER REFERENCES reservations(id) ON DELETE SET NULL,
+    notes TEXT,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    CHECK (window_end > window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_tenant_status ON waitlist_entries(tenant_id, status);
+CREATE INDEX IF NOT EXISTS idx_waitlist_entries_window ON waitlist_entries(window_start, window_end);
+
+DROP TRIGGER IF EXISTS update_waitlist_entries_updated_at ON waitlist_entries;
+CREATE TRIGGER update_waitlist_entries_updated_at BEFORE UPDATE ON waitlist_entries
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
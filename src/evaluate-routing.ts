@@ -0,0 +1,156 @@
+import * as fs from 'fs';
+import { FieldAgent } from './fieldAgent';
+import { MockProvider } from './providers/mock.provider';
+import { createLLMProvider } from './providers/factory';
+import { createRoutingStrategy } from './routing/factory';
+import { ToolDefinition } from './providers/types';
+import { ToolRoutingStrategy, ToolRoutingStrategyName, TOOL_ROUTING_STRATEGY_NAMES } from './routing/types';
+import { LABELED_MESSAGES, LabeledMessage } from './routing/labeledMessages';
+import { cacheService } from './services/cacheService';
+
+/**
+ * Compares the tool routing strategies on a labeled message set (src/routing/labeledMessages.ts
+ * or a JSON file of { "message", "tools" } objects). The keyword strategy runs offline; llm and
+ * hybrid call the configured LLM provider.
+ *
+ *   npm run eval:routing                                  (every strategy)
+ *   npm run eval:routing -- --strategies keyword --verbose
+ *   npm run eval:routing -- --file messages.json --top 3
+ *
+ * Metrics per strategy:
+ *   top-1      the first chosen tool is one of the labeled tools
+ *   recall     a labeled tool is among the chosen ones (routing left it out otherwise)
+ *   all tools  the strategy was unsure, so every tool was sent
+ *   sent       tools sent per message on average, counting the all-tools fallbacks
+ *   llm calls  routing calls made to the LLM, with their tokens
+ */
+
+interface StrategyReport {
+  strategy: ToolRoutingStrategyName;
+  top1: number;
+  recall: number;
+  allTools: number;
+  toolsSent: number;
+  llmCalls: number;
+  llmTokens: number;
+  totalMs: number;
+  misses: string[];
+}
+
+function getArg(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+function percent(count: number, total: number): string {
+  return `${((count / total) * 100).toFixed(1)}%`;
+}
+
+async function evaluate(
+  strategy: ToolRoutingStrategy,
+  messages: LabeledMessage[],
+  tools: ToolDefinition[],
+  topN: number
+): Promise<StrategyReport> {
+  const report: StrategyReport = {
+    strategy: strategy.name, top1: 0, recall: 0, allTools: 0, toolsSent: 0, llmCalls: 0, llmTokens: 0, totalMs: 0, misses: [],
+  };
+
+  for (const labeled of messages) {
+    const started = Date.now();
+    const decision = await strategy.route(labeled.message, tools, topN);
+    report.totalMs += Date.now() - started;
+
+    if (decision.strategy === 'llm') {
+      report.llmCalls++;
+      report.llmTokens += decision.tokens || 0;
+    }
+
+    // The router sends every tool when the strategy is unsure
+    if (!decision.confident || decision.tools.length === 0) {
+      report.allTools++;
+      report.toolsSent += tools.length;
+      report.recall++;
+      continue;
+    }
+
+    const chosen = decision.tools.map(tool => tool.name);
+    report.toolsSent += chosen.length;
+
+    if (labeled.tools.includes(chosen[0])) {
+      report.top1++;
+    }
+    if (chosen.some(name => labeled.tools.includes(name))) {
+      report.recall++;
+    } else {
+      report.misses.push(`"${labeled.message}" → [${chosen.join(', ')}], expected ${labeled.tools.join(' or ')}`);
+    }
+  }
+
+  return report;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const topN = parseInt(getArg(args, '--top') || '3', 10);
+  const verbose = args.includes('--verbose');
+  const file = getArg(args, '--file');
+  const strategies = (getArg(args, '--strategies') || TOOL_ROUTING_STRATEGY_NAMES.join(','))
+    .split(',')
+    .map(name => name.trim()) as ToolRoutingStrategyName[];
+
+  const unknown = strategies.filter(name => !TOOL_ROUTING_STRATEGY_NAMES.includes(name));
+  if (unknown.length > 0) {
+    console.error(`Unknown strategies: ${unknown.join(', ')} (expected ${TOOL_ROUTING_STRATEGY_NAMES.join(', ')})`);
+    process.exit(1);
+  }
+
+  const messages: LabeledMessage[] = file ? JSON.parse(fs.readFileSync(file, 'utf-8')) : LABELED_MESSAGES;
+  const tools = new FieldAgent(null as any, new MockProvider()).getTools();
+
+  const unknownTools = messages.flatMap(labeled => labeled.tools).filter(name => !tools.some(tool => tool.name === name));
+  if (unknownTools.length > 0) {
+    console.error(`Labeled tools that do not exist: ${Array.from(new Set(unknownTools)).join(', ')}`);
+    process.exit(1);
+  }
+
+  // Only created when a strategy needs it, so the keyword strategy runs without credentials
+  const llmProvider = strategies.some(name => name !== 'keyword') ? createLLMProvider() : new MockProvider();
+
+  console.log(`🧪 Tool routing on ${messages.length} labeled messages, ${tools.length} tools, top ${topN}\n`);
+
+  const reports: StrategyReport[] = [];
+  for (const strategyName of strategies) {
+    const strategy = createRoutingStrategy(strategyName, llmProvider);
+    const report = await evaluate(strategy, messages, tools, topN);
+    reports.push(report);
+
+    if (verbose && report.misses.length > 0) {
+      console.log(`❌ ${strategyName} misses:`);
+      report.misses.forEach(miss => console.log(`   - ${miss}`));
+      console.log('');
+    }
+  }
+
+  const total = messages.length;
+  console.table(reports.map(report => ({
+    strategy: report.strategy,
+    'top-1': percent(report.top1, total),
+    recall: percent(report.recall, total),
+    'all tools': percent(report.allTools, total),
+    sent: (report.toolsSent / total).toFixed(1),
+    'llm calls': report.llmCalls,
+    'llm tokens': report.llmTokens,
+    'avg ms': Math.round(report.totalMs / total),
+  })));
+
+  await cacheService.disconnect();
+  process.exit(0);
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('Routing evaluation failed:', error);
+    process.exit(1);
+  });
+}
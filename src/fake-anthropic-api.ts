@@ -0,0 +1,213 @@
+import express, { Request, Response } from 'express';
+import { Server } from 'http';
+
+/**
+ * A local stand-in for the Anthropic Messages API. Run it and set
+ * ANTHROPIC_BASE_URL=http://localhost:4020 to exercise the Anthropic provider without an
+ * account. Requests are checked the way the real API checks them and kept in memory at
+ * GET /fake/requests; answers are scripted through POST /fake/responses.
+ */
+
+export interface FakeAnthropicResponse {
+  // Content blocks of the answer: { "type": "text", "text": "..." } or
+  // { "type": "tool_use", "name": "...", "input": {...} } (the id is filled in)
+  content: any[];
+  stop_reason?: string;
+}
+
+export interface FakeAnthropicApi {
+  app: express.Express;
+  requests: any[];
+  // Answered in order; once empty every request gets a short text answer
+  responses: FakeAnthropicResponse[];
+}
+
+export function createFakeAnthropicApi(): FakeAnthropicApi {
+  const app = express();
+  app.use(express.json({ limit: '5mb' }));
+
+  const requests: any[] = [];
+  const responses: FakeAnthropicResponse[] = [];
+  let counter = 0;
+
+  const apiError = (res: Response, status: number, type: string, message: string) => {
+    res.status(status).json({ type: 'error', error: { type, message } });
+  };
+
+  app.use((req: Request, res: Response, next) => {
+    if (req.path.startsWith('/fake/')) {
+      return next();
+    }
+    if (!req.headers['x-api-key']) {
+      return apiError(res, 401, 'authentication_error', 'x-api-key header is required');
+    }
+    if (!req.headers['anthropic-version']) {
+      return apiError(res, 400, 'invalid_request_error', 'anthropic-version header is required');
+    }
+    next();
+  });
+
+  app.post('/v1/messages', (req: Request, res: Response) => {
+    const body = req.body || {};
+
+    const problem = validateRequest(body);
+    if (problem) {
+      return apiError(res, 400, 'invalid_request_error', problem);
+    }
+
+    requests.push(body);
+    const lastTurn = body.messages[body.messages.length - 1];
+    console.log(`📥 [fake anthropic] ${body.messages.length} message(s), ${(body.tools || []).length} tool(s), last:`, JSON.stringify(lastTurn.content));
+
+    const scripted = responses.shift();
+    const content = scripted
+      ? scripted.content.map(block => block.type === 'tool_use' ? { id: `toolu_fake_${++counter}`, ...block } : block)
+      : [{ type: 'text', text: 'Tamam.' }];
+
+    // Rough token counts, enough to see usage being recorded
+    const inputTokens = Math.ceil(JSON.stringify([body.system, body.messages, body.tools]).length / 4);
+    const outputTokens = Math.ceil(JSON.stringify(content).length / 4);
+
+    res.status(200).json({
+      id: `msg_fake_${++counter}`,
+      type: 'message',
+      role: 'assistant',
+      model: body.model,
+      content,
+      stop_reason: scripted?.stop_reason || (content.some(block => block.type === 'tool_use') ? 'tool_use' : 'end_turn'),
+      stop_sequence: null,
+      usage: { input_tokens: inputTokens, output_tokens: outputTokens },
+    });
+  });
+
+  app.get('/fake/requests', (req: Request, res: Response) => {
+    res.status(200).json(requests);
+  });
+
+  app.delete('/fake/requests', (req: Request, res: Response) => {
+    requests.length = 0;
+    res.sendStatus(204);
+  });
+
+  // Queue answers: a single response object or an array of them
+  app.post('/fake/responses', (req: Request, res: Response) => {
+    const queued: FakeAnthropicResponse[] = Array.isArray(req.body) ? req.body : [req.body];
+    if (queued.some(response => !Array.isArray(response?.content))) {
+      return res.status(400).json({ error: 'Each response needs a "content" array' });
+    }
+    responses.push(...queued);
+    res.status(200).json({ queued: responses.length });
+  });
+
+  return { app, requests, responses };
+}
+
+/**
+ * The checks the Messages API makes on the requests the bot sends; null when valid
+ */
+function validateRequest(body: any): string | null {
+  if (!body.model) {
+    return 'model: Field required';
+  }
+  if (!Number.isInteger(body.max_tokens) || body.max_tokens < 1) {
+    return 'max_tokens: must be a positive integer';
+  }
+  if (body.system !== undefined && typeof body.system !== 'string' && !Array.isArray(body.system)) {
+    return 'system: must be a string or a list of text blocks';
+  }
+
+  const messages: any[] = body.messages;
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return 'messages: at least one message is required';
+  }
+  if (messages[0].role !== 'user') {
+    return 'messages: first message must use the "user" role';
+  }
+
+  const toolNames = new Set<string>();
+  for (const tool of body.tools || []) {
+    if (!tool.name || !/^[a-zA-Z0-9_-]{1,64}$/.test(tool.name)) {
+      return `tools: invalid tool name "${tool.name}"`;
+    }
+    if (tool.input_schema?.type !== 'object') {
+      return `tools.${tool.name}.input_schema: type must be "object"`;
+    }
+    toolNames.add(tool.name);
+  }
+
+  for (const [index, message] of messages.entries()) {
+    if (message.role !== 'user' && message.role !== 'assistant') {
+      return `messages.${index}.role: must be "user" or "assistant"`;
+    }
+    if (index > 0 && messages[index - 1].role === message.role) {
+      return `messages.${index}: roles must alternate between "user" and "assistant"`;
+    }
+
+    const blocks: any[] = typeof message.content === 'string' ? [{ type: 'text', text: message.content }] : message.content;
+    if (!Array.isArray(blocks) || blocks.length === 0) {
+      return `messages.${index}.content: must not be empty`;
+    }
+
+    // Every tool_use must be answered by a tool_result in the very next message
+    const previous = messages[index - 1];
+    const openToolUses: string[] = previous?.role === 'assistant' && Array.isArray(previous.content)
+      ? previous.content.filter((block: any) => block.type === 'tool_use').map((block: any) => block.id)
+      : [];
+    const results: string[] = blocks.filter(block => block.type === 'tool_result').map(block => block.tool_use_id);
+    const missing = openToolUses.filter(id => !results.includes(id));
+    if (missing.length > 0) {
+      return `messages.${index}: tool_use ids without a tool_result block immediately after: ${missing.join(', ')}`;
+    }
+
+    for (const block of blocks) {
+      switch (block.type) {
+        case 'text':
+          if (!block.text?.trim()) {
+            return `messages.${index}: text content blocks must be non-empty`;
+          }
+          break;
+        case 'tool_use':
+          if (message.role !== 'assistant') {
+            return `messages.${index}: tool_use blocks are only allowed in assistant messages`;
+          }
+          if (!block.id || !/^[a-zA-Z0-9_-]+$/.test(block.id)) {
+            return `messages.${index}: tool_use.id must match ^[a-zA-Z0-9_-]+$`;
+          }
+          if (toolNames.size > 0 && !toolNames.has(block.name)) {
+            return `messages.${index}: tool_use references unknown tool "${block.name}"`;
+          }
+          if (typeof block.input !== 'object' || block.input === null || Array.isArray(block.input)) {
+            return `messages.${index}: tool_use.input must be an object`;
+          }
+          break;
+        case 'tool_result':
+          if (message.role !== 'user') {
+            return `messages.${index}: tool_result blocks are only allowed in user messages`;
+          }
+          if (!openToolUses.includes(block.tool_use_id)) {
+            return `messages.${index}: unexpected tool_use_id "${block.tool_use_id}" in tool_result blocks`;
+          }
+          break;
+        default:
+          return `messages.${index}: unsupported content block type "${block.type}"`;
+      }
+    }
+  }
+
+  return null;
+}
+
+export function startFakeAnthropicApi(port: number = 4020): Server {
+  const { app } = createFakeAnthropicApi();
+
+  return app.listen(port, () => {
+    console.log(`🧪 Fake Anthropic Messages API is running on port ${port}`);
+    console.log(`   Set ANTHROPIC_BASE_URL=http://localhost:${port}`);
+    console.log(`   Received requests: http://localhost:${port}/fake/requests`);
+  });
+}
+
+// Run the server if this file is executed directly
+if (require.main === module) {
+  startFakeAnthropicApi(parseInt(process.env.FAKE_ANTHROPIC_PORT || '4020', 10));
+}
@@ -0,0 +1,192 @@
+import axios from 'axios';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { config } from './config';
+import { FakeSentMessage, startFakeGraphApi } from './fake-graph-api';
+import { WhatsAppClient } from './whatsappClient';
+import { tenantService } from './services/tenantService';
+
+jest.mock('./database/db', () => ({ db: {} }));
+jest.mock('./services/cacheService', () => ({
+  cacheService: { get: jest.fn(), set: jest.fn(), del: jest.fn() },
+}));
+jest.mock('./services/tenantService', () => ({
+  tenantService: { getTenantById: jest.fn() },
+}));
+
+const CUSTOMER = '905327778899';
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('WhatsApp sends against the fake Graph API', () => {
+  let server: Server;
+  let fakeUrl: string;
+  let client: WhatsAppClient;
+  // Imported once the client URL points at the fake, the service builds its client on import
+  let notificationService: typeof import('./services/notificationService').notificationService;
+
+  const recorded = async (): Promise<FakeSentMessage[]> => (await axios.get(`${fakeUrl}/fake/messages`)).data;
+
+  beforeAll(async () => {
+    server = startFakeGraphApi(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    fakeUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    config.whatsapp.apiUrl = `${fakeUrl}/v18.0`;
+    config.whatsapp.phoneNumberId = '106540352242922';
+    config.whatsapp.accessToken = 'fake-token';
+    client = new WhatsAppClient();
+    ({ notificationService } = await import('./services/notificationService'));
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(async () => {
+    await axios.delete(`${fakeUrl}/fake/messages`);
+    await axios.post(`${fakeUrl}/fake/windows`, { to: CUSTOMER, closed: false });
+    jest.mocked(tenantService.getTenantById).mockReset().mockResolvedValue({ settings: {} } as any);
+    // The fake logs every message it receives, the client every send
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('records a template with positional parameters', async () => {
+    await client.sendTemplate(CUSTOMER, 'reservation_reminder', 'tr', ['Kerem', '14.11.2025', '21:00', 'Saha 1']);
+
+    const [message] = await recorded();
+    expect(message).toMatchObject({ phoneNumberId: '106540352242922', to: CUSTOMER, type: 'template' });
+    expect(message.payload).toEqual({
+      name: 'reservation_reminder',
+      language: { code: 'tr' },
+      components: [{
+        type: 'body',
+        parameters: [
+          { type: 'text', text: 'Kerem' },
+          { type: 'text', text: '14.11.2025' },
+          { type: 'text', text: '21:00' },
+          { type: 'text', text: 'Saha 1' },
+        ],
+      }],
+    });
+  });
+
+  it('records a template with named parameters', async () => {
+    await client.sendTemplate(CUSTOMER, 'waitlist_offer', 'en_US', { customer_name: 'Kerem', hold_until: '20:15' });
+
+    const [message] = await recorded();
+    expect(message.payload.language).toEqual({ code: 'en_US' });
+    expect(message.payload.components[0].parameters).toEqual([
+      { type: 'text', parameter_name: 'customer_name', text: 'Kerem' },
+      { type: 'text', parameter_name: 'hold_until', text: '20:15' },
+    ]);
+  });
+
+  it('records reply buttons, at most three with titles cut to 20 characters', async () => {
+    await client.sendButtons(CUSTOMER, 'Cuma 21:00 iptal edilecek. Onaylıyor musunuz?', [
+      { id: 'confirm:4821', title: '✅ Onayla' },
+      { id: 'cancel:4821', title: 'Vazgeç, rezervasyon kalsın lütfen' },
+      { id: 'later', title: 'Sonra' },
+      { id: 'dropped', title: 'Fazla' },
+    ]);
+
+    const [message] = await recorded();
+    expect(message.type).toBe('interactive');
+    expect(message.payload).toEqual({
+      type: 'button',
+      body: { text: 'Cuma 21:00 iptal edilecek. Onaylıyor musunuz?' },
+      action: {
+        buttons: [
+          { type: 'reply', reply: { id: 'confirm:4821', title: '✅ Onayla' } },
+          { type: 'reply', reply: { id: 'cancel:4821', title: 'Vazgeç, rezervasyon ' } },
+          { type: 'reply', reply: { id: 'later', title: 'Sonra' } },
+        ],
+      },
+    });
+  });
+
+  it('records a list, keeping at most ten rows across sections', async () => {
+    const rows = (from: number, count: number) => Array.from({ length: count }, (_, i) => ({
+      id: `slot:${from + i}`,
+      title: `${from + i}:00-${from + i + 1}:00`,
+    }));
+
+    await client.sendList(CUSTOMER, {
+      body: 'Yarın boş saatler',
+      buttonText: 'Saat seç',
+      sections: [
+        { title: 'Saha 1', rows: [{ ...rows(8, 1)[0], description: 'Açık saha' }, ...rows(9, 5)] },
+        { title: 'Saha 2', rows: rows(14, 6) },
+        { title: 'Saha 3', rows: rows(20, 2) },
+      ],
+    });
+
+    const [message] = await recorded();
+    expect(message.payload.type).toBe('list');
+    expect(message.payload.body).toEqual({ text: 'Yarın boş saatler' });
+    expect(message.payload.action.button).toBe('Saat seç');
+    expect(message.payload.action.sections.map((section: any) => section.title)).toEqual(['Saha 1', 'Saha 2']);
+    expect(message.payload.action.sections[0].rows[0]).toEqual({ id: 'slot:8', title: '8:00-9:00', description: 'Açık saha' });
+    expect(message.payload.action.sections[1].rows.map((row: any) => row.id)).toEqual(['slot:14', 'slot:15', 'slot:16', 'slot:17']);
+  });
+
+  it('rejects free-form text once the 24-hour window is closed but still takes a template', async () => {
+    await axios.post(`${fakeUrl}/fake/windows`, { to: CUSTOMER, closed: true });
+
+    await expect(client.sendMessage(CUSTOMER, 'Maçınız yarın 21:00')).rejects.toMatchObject({
+      response: { status: 400, data: { error: { code: 131047 } } },
+    });
+    await client.sendTemplate(CUSTOMER, 'reservation_reminder', 'tr', ['Kerem', '14.11.2025', '21:00', 'Saha 1']);
+
+    expect((await recorded()).map(message => message.type)).toEqual(['template']);
+  });
+
+  describe('notificationService.send', () => {
+    const reminder = (lastMessageAt: Date | null) => ({
+      type: 'reservation_reminder' as const,
+      phoneNumber: '0532 777 88 99',
+      text: '⏰ Kerem, maçınız yarın 21:00 Saha 1',
+      parameters: { customer_name: 'Kerem', date: '14.11.2025', time: '21:00' },
+      lastMessageAt,
+    });
+
+    it('sends free-form text while the customer wrote in the last 24 hours', async () => {
+      const channel = await notificationService.send(1, reminder(new Date(Date.now() - 23 * HOUR_MS)));
+
+      expect(channel).toBe('text');
+      const [message] = await recorded();
+      expect(message).toMatchObject({ to: CUSTOMER, type: 'text', payload: { body: '⏰ Kerem, maçınız yarın 21:00 Saha 1' } });
+    });
+
+    it('falls back to the template after 24 hours, filling a missing value with "-"', async () => {
+      await axios.post(`${fakeUrl}/fake/windows`, { to: CUSTOMER, closed: true });
+
+      const channel = await notificationService.send(1, reminder(new Date(Date.now() - 25 * HOUR_MS)));
+
+      expect(channel).toBe('template');
+      const [message] = await recorded();
+      expect(message).toMatchObject({ to: CUSTOMER, type: 'template' });
+      expect(message.payload.name).toBe('reservation_reminder');
+      expect(message.payload.components[0].parameters.map((parameter: any) => parameter.text))
+        .toEqual(['Kerem', '14.11.2025', '21:00', '-']);
+    });
+
+    it('uses the template of a customer who never wrote, named the way the tenant configured it', async () => {
+      jest.mocked(tenantService.getTenantById).mockResolvedValue({
+        settings: { templates: { reservation_reminder: { name: 'mac_hatirlatma', language: 'tr', parameterFormat: 'named' } } },
+      } as any);
+
+      await notificationService.send(2, reminder(null));
+
+      const [message] = await recorded();
+      expect(message.payload.name).toBe('mac_hatirlatma');
+      expect(message.payload.components[0].parameters).toContainEqual(
+        { type: 'text', parameter_name: 'customer_name', text: 'Kerem' }
+      );
+    });
+  });
+});
@@ -0,0 +1,222 @@
+import express, { Request, Response } from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * A local stand-in for the WhatsApp Cloud (Graph) API. Run it and set
+ * WHATSAPP_API_URL=http://localhost:4010/v18.0 to exercise outbound messages, templates and
+ * interactive messages without a Meta account. Everything sent is kept in memory and can be
+ * inspected at GET /fake/messages.
+ */
+
+export interface FakeSentMessage {
+  id: string;
+  phoneNumberId: string;
+  to: string;
+  type: string;
+  payload: any;
+  receivedAt: string;
+}
+
+export interface FakeGraphApi {
+  app: express.Express;
+  sent: FakeSentMessage[];
+  // Numbers whose 24-hour customer service window is closed: free-form messages to them fail
+  closedWindows: Set<string>;
+}
+
+// Graph API error codes the bot may run into
+const INVALID_PARAMETER = 100;
+const RE_ENGAGEMENT_REQUIRED = 131047;
+
+export function createFakeGraphApi(): FakeGraphApi {
+  const app = express();
+  app.use(express.json());
+
+  const sent: FakeSentMessage[] = [];
+  const closedWindows = new Set<string>();
+  let counter = 0;
+
+  const graphError = (res: Response, status: number, code: number, message: string) => {
+    res.status(status).json({
+      error: { message, type: 'OAuthException', code, fbtrace_id: `fake-${Date.now()}` },
+    });
+  };
+
+  // Every Graph API call needs a bearer token
+  app.use((req: Request, res: Response, next) => {
+    if (req.path.startsWith('/fake/')) {
+      return next();
+    }
+    if (!req.headers.authorization?.startsWith('Bearer ')) {
+      return graphError(res, 401, 190, 'Invalid OAuth access token');
+    }
+    next();
+  });
+
+  app.post('/:version/:phoneNumberId/messages', (req: Request, res: Response) => {
+    const body = req.body || {};
+
+    if (body.messaging_product !== 'whatsapp') {
+      return graphError(res, 400, INVALID_PARAMETER, 'messaging_product must be "whatsapp"');
+    }
+
+    // Read receipts
+    if (body.status === 'read') {
+      return res.status(200).json({ success: true });
+    }
+
+    if (!body.to) {
+      return graphError(res, 400, INVALID_PARAMETER, 'Missing recipient "to"');
+    }
+
+    const problem = validateMessage(body);
+    if (problem) {
+      return graphError(res, 400, INVALID_PARAMETER, problem);
+    }
+
+    if (body.type !== 'template' && closedWindows.has(body.to)) {
+      return graphError(res, 400, RE_ENGAGEMENT_REQUIRED, 'Re-engagement message: more than 24 hours have passed since the customer last replied');
+    }
+
+    const message: FakeSentMessage = {
+      id: `wamid.fake.${++counter}`,
+      phoneNumberId: String(req.params.phoneNumberId),
+      to: body.to,
+      type: body.type,
+      payload: body[body.type],
+      receivedAt: new Date().toISOString(),
+    };
+    sent.push(message);
+    console.log(`📤 [fake graph] ${message.type} to ${message.to}:`, JSON.stringify(message.payload));
+
+    res.status(200).json({
+      messaging_product: 'whatsapp',
+      contacts: [{ input: body.to, wa_id: body.to }],
+      messages: [{ id: message.id }],
+    });
+  });
+
+  app.post('/:version/:phoneNumberId/media', (req: Request, res: Response) => {
+    res.status(200).json({ id: `media.fake.${++counter}` });
+  });
+
+  app.get('/fake/messages', (req: Request, res: Response) => {
+    const to = typeof req.query.to === 'string' ? req.query.to : undefined;
+    res.status(200).json(to ? sent.filter(message => message.to === to) : sent);
+  });
+
+  app.delete('/fake/messages', (req: Request, res: Response) => {
+    sent.length = 0;
+    res.sendStatus(204);
+  });
+
+  // Close or reopen a number's customer service window: { "to": "905551234567", "closed": true }
+  app.post('/fake/windows', (req: Request, res: Response) => {
+    if (!req.body?.to) {
+      return res.status(400).json({ error: 'Missing "to"' });
+    }
+    if (req.body.closed === false) {
+      closedWindows.delete(req.body.to);
+    } else {
+      closedWindows.add(req.body.to);
+    }
+    res.status(200).json({ closed: Array.from(closedWindows) });
+  });
+
+  return { app, sent, closedWindows };
+}
+
+/**
+ * The same checks the Graph API makes on the message types the bot sends; null when valid
+ */
+function validateMessage(body: any): string | null {
+  switch (body.type) {
+    case 'text':
+      return body.text?.body ? null : 'text.body is required';
+
+    case 'image':
+      return body.image?.id || body.image?.link ? null : 'image.id or image.link is required';
+
+    case 'template': {
+      const template = body.template;
+      if (!template?.name) {
+        return 'template.name is required';
+      }
+      if (!template.language?.code) {
+        return 'template.language.code is required';
+      }
+
+      for (const component of template.components || []) {
+        const parameters: any[] = component.parameters || [];
+        if (parameters.some(parameter => parameter.type === 'text' && !parameter.text)) {
+          return `Parameter text of component ${component.type} cannot be empty`;
+        }
+
+        // A template uses either {{1}} or {{name}} placeholders, never both
+        const named = parameters.filter(parameter => parameter.parameter_name).length;
+        if (named > 0 && named !== parameters.length) {
+          return `Component ${component.type} mixes named and positional parameters`;
+        }
+      }
+      return null;
+    }
+
+    case 'interactive': {
+      const interactive = body.interactive;
+      if (!interactive?.body?.text) {
+        return 'interactive.body.text is required';
+      }
+
+      if (interactive.type === 'button') {
+        const buttons: any[] = interactive.action?.buttons || [];
+        if (buttons.length < 1 || buttons.length > 3) {
+          return 'Interactive button messages need 1 to 3 buttons';
+        }
+        if (buttons.some(button => !button.reply?.id || !button.reply?.title || button.reply.title.length > 20)) {
+          return 'Each button needs an id and a title of at most 20 characters';
+        }
+        return null;
+      }
+
+      if (interactive.type === 'list') {
+        const sections: any[] = interactive.action?.sections || [];
+        const rows = sections.flatMap(section => section.rows || []);
+        if (!interactive.action?.button || interactive.action.button.length > 20) {
+          return 'List messages need a button label of at most 20 characters';
+        }
+        if (rows.length < 1 || rows.length > 10) {
+          return 'List messages need 1 to 10 rows';
+        }
+        if (rows.some((row: any) => !row.id || !row.title || row.title.length > 24 || (row.description?.length || 0) > 72)) {
+          return 'Each row needs an id, a title of at most 24 and a description of at most 72 characters';
+        }
+        return null;
+      }
+
+      return `Unsupported interactive type: ${interactive.type}`;
+    }
+
+    default:
+      return `Unsupported message type: ${body.type}`;
+  }
+}
+
+export function startFakeGraphApi(port: number = 4010): Server {
+  const { app } = createFakeGraphApi();
+
+  const server = app.listen(port, () => {
+    // Port 0 picks a free port, report the one we got
+    const { port: listening } = server.address() as AddressInfo;
+    console.log(`🧪 Fake WhatsApp Graph API is running on port ${listening}`);
+    console.log(`   Set WHATSAPP_API_URL=http://localhost:${listening}/v18.0`);
+    console.log(`   Sent messages: http://localhost:${listening}/fake/messages`);
+  });
+
+  return server;
+}
+
+// Run the server if this file is executed directly
+if (require.main === module) {
+  startFakeGraphApi(parseInt(process.env.FAKE_GRAPH_PORT || '4010', 10));
+}
@@ -1,18 +1,65 @@
 import { config } from './config';
-import { reservationService } from './services/reservationService';
+import { reservationService, AuditContext, FreeSlot, ReservationDetails } from './services/reservationService';
 import { analyticsService } from './services/analyticsService';
 import { tableVisualizationService } from './services/tableVisualizationService';
-import { WhatsAppClient } from './whatsappClient';
+import { pitchService } from './services/pitchService';
+import { recurringReservationService } from './services/recurringReservationService';
+import { scheduleService } from './services/scheduleService';
+import { pricingService } from './services/pricingService';
+import { paymentService } from './services/paymentService';
+import { waitlistService } from './services/waitlistService';
+import { cancellationPolicyService } from './services/cancellationPolicyService';
+import { reminderService } from './services/reminderService';
+import { notificationService } from './services/notificationService';
+import { staffService, SenderRole } from './services/staffService';
+import { pendingActionService, PendingStep } from './services/pendingActionService';
+import { tenantService } from './services/tenantService';
+import { turkishDateParser } from './turkishDateParser';
+import { WhatsAppClient, InteractiveList, InteractiveListRow, InteractiveReply } from './whatsappClient';
 import { db } from './database/db';
 import { LLMProvider, ToolDefinition, Message } from './providers/types';
-import { OpenAIProvider } from './providers/openai.provider';
-import { GeminiProvider } from './providers/gemini.provider';
+import { createLLMProvider, getConfiguredModel } from './providers/factory';
+import { ConversationMemory } from './conversationMemory';
 import { ToolRouter } from './toolRouter';
 
+// Tools that only run after the user confirms them in their next message
+const CONFIRMATION_REQUIRED_TOOLS = [
+  'cancel_reservation',
+  'cancel_all_week_reservations',
+  'cancel_recurring_occurrence',
+  'cancel_recurring_series',
+  'cancel_my_reservation',
+];
+
+// Typed commands that undo the sender's last change without asking the LLM
+const UNDO_COMMANDS = ['/geri al', '/gerial', '/undo'];
+
+/**
+ * State shared by the tools that run for one incoming message
+ */
+interface TurnContext {
+  sourceMessage?: string;
+  // Tap-to-select options offered by a tool, sent as a list after the answer
+  selection?: InteractiveList;
+}
+
+/**
+ * A tool the agent ran, or parked for confirmation, with the result it got back
+ */
+export interface ToolCallTrace {
+  name: string;
+  args: any;
+  result: string;
+}
+
 export class FieldAgent {
+  // Called for every tool call; the scenario runner uses it to assert on tool results
+  onToolCall?: (trace: ToolCallTrace) => void;
+
   private llmProvider: LLMProvider;
   private whatsappClient: WhatsAppClient;
   private toolRouter: ToolRouter;
+  private conversationMemory: ConversationMemory;
 
   private tools: ToolDefinition[] = [
     {
@@ -23,13 +70,67 @@ export class FieldAgent {
         properties: {
           customer_name: { type: 'string', description: 'Müşteri adı (soyisim opsiyonel, sadece isim de olabilir)' },
           customer_phone: { type: 'string', description: 'Müşteri telefon numarası (ZORUNLU - yoksa kullanıcıya sor)' },
-          time_slot: { type: 'string', description: 'Saat aralığı. ÖNEMLI: Eğer kullanıcı "sabah" derse "sabah 9-10" yaz, yoksa sadece "9-10" yaz. Örnekler: "9-10", "sabah 9-10", "14-15"' },
-          week_offset: { type: 'number', description: 'Hafta offset (0: bu hafta/bugün, 1: gelecek hafta/yarın, -1: geçen hafta/dün). "bugün"=0, "yarın"=0 (bugünün ertesi günü için day_of_week kullan)' },
-          day_of_week: { type: 'string', description: 'Haftanın günü (pazartesi, salı, çarşamba, perşembe, cuma, cumartesi, pazar)' },
-          price: { type: 'number', description: 'Rezervasyon fiyatı (opsiyonel)' },
+          time_slot: { type: 'string', description: 'Saat aralığı, kullanıcının dediği gibi ("sabah", "akşam", "gece" kelimeleriyle). Örnekler: "9-10", "sabah 9-10", "akşam 9-10", "20:30-22:00", "gece 1-2"' },
+          date: { type: 'string', description: 'Tarih: kullanıcının dediği gibi yaz ("bugün", "yarın", "cuma", "haftaya salı", "önümüzdeki cuma", "15 Kasım") veya ISO tarih ("2025-11-15"). Hesaplama yapma' },
+          pitch: { type: 'string', description: 'Saha adı veya numarası (örn: "Saha 2", "2"). Tek saha varsa boş bırak, birden fazla saha varsa ZORUNLU' },
+          price: { type: 'number', description: 'Rezervasyon fiyatı (opsiyonel, verilmezse fiyat listesinden hesaplanır)' },
+          notes: { type: 'string', description: 'Ek notlar (opsiyonel)' }
+        },
+        required: ['customer_name', 'customer_phone', 'time_slot', 'date']
+      }
+    },
+    {
+      name: 'create_recurring_reservation',
+      description: 'Abonelik (her hafta veya iki haftada bir aynı gün/saat) rezervasyonu oluşturur. Çakışan haftalar önce raporlanır.',
+      parameters: {
+        type: 'object',
+        properties: {
+          customer_name: { type: 'string', description: 'Müşteri / takım adı' },
+          customer_phone: { type: 'string', description: 'Müşteri telefon numarası (ZORUNLU - yoksa kullanıcıya sor)' },
+          time_slot: { type: 'string', description: 'Saat aralığı, create_reservation ile aynı format ("9-10", "sabah 9-10")' },
+          date: { type: 'string', description: 'İlk maçın tarihi, kullanıcının dediği gibi ("salı", "haftaya salı", "15 Kasım") veya ISO tarih' },
+          frequency: { type: 'string', enum: ['weekly', 'biweekly'], description: 'weekly: her hafta, biweekly: iki haftada bir' },
+          occurrences: { type: 'number', description: 'Kaç kez tekrarlanacak (end_date yoksa ZORUNLU)' },
+          end_date: { type: 'string', description: 'Son tarih ("31 Aralık", "2025-12-31", "31.12.2025") (occurrences yoksa ZORUNLU)' },
+          pitch: { type: 'string', description: 'Saha adı veya numarası (birden fazla saha varsa ZORUNLU)' },
+          skip_conflicts: { type: 'boolean', description: 'true ise çakışan haftalar atlanır, diğerleri oluşturulur. Kullanıcı onaylamadan true yapma.' },
+          price: { type: 'number', description: 'Maç başı fiyat (opsiyonel, verilmezse fiyat listesinden hesaplanır)' },
           notes: { type: 'string', description: 'Ek notlar (opsiyonel)' }
         },
-        required: ['customer_name', 'customer_phone', 'time_slot', 'week_offset', 'day_of_week']
+        required: ['customer_name', 'customer_phone', 'time_slot', 'date', 'frequency']
+      }
+    },
+    {
+      name: 'list_recurring_reservations',
+      description: 'Aktif abonelikleri (tekrarlayan rezervasyonları) listeler',
+      parameters: {
+        type: 'object',
+        properties: {
+          customer_name: { type: 'string', description: 'Müşteri adına göre filtre (opsiyonel)' }
+        }
+      }
+    },
+    {
+      name: 'cancel_recurring_occurrence',
+      description: 'Aboneliğin SADECE belirtilen haftadaki maçını iptal eder, abonelik devam eder ("sadece bu haftayı iptal et")',
+      parameters: {
+        type: 'object',
+        properties: {
+          series_id: { type: 'number', description: 'Abonelik ID\'si (list_recurring_reservations ile bulunur)' },
+          week_offset: { type: 'number', description: 'İptal edilecek hafta (0: bu hafta, 1: gelecek hafta)' }
+        },
+        required: ['series_id', 'week_offset']
+      }
+    },
+    {
+      name: 'cancel_recurring_series',
+      description: 'Aboneliği tamamen iptal eder, gelecekteki TÜM haftalar iptal olur',
+      parameters: {
+        type: 'object',
+        properties: {
+          series_id: { type: 'number', description: 'Abonelik ID\'si (list_recurring_reservations ile bulunur)' }
+        },
+        required: ['series_id']
       }
     },
     {
@@ -38,7 +139,8 @@ export class FieldAgent {
       parameters: {
         type: 'object',
         properties: {
-          week_offset: { type: 'number', description: 'Hafta offset (0: bu hafta, -1: geçen hafta, -2: 2 hafta önce)' }
+          week_offset: { type: 'number', description: 'Hafta offset (0: bu hafta, -1: geçen hafta, -2: 2 hafta önce)' },
+          pitch: { type: 'string', description: 'Sadece bu sahanın tablosu (opsiyonel, boş bırakılırsa tüm sahalar yan yana gösterilir)' }
         },
         required: ['week_offset']
       }
@@ -49,11 +151,310 @@ export class FieldAgent {
       parameters: {
         type: 'object',
         properties: {
-          week_offset: { type: 'number', description: 'Hafta offset (0: bu hafta, -1: geçen hafta)' }
+          week_offset: { type: 'number', description: 'Hafta offset (0: bu hafta, -1: geçen hafta)' },
+          pitch: { type: 'string', description: 'Sadece bu sahanın rezervasyonları (opsiyonel)' }
         },
         required: ['week_offset']
       }
     },
+    {
+      name: 'find_free_slots',
+      description: 'Boş saatleri bulur. "dolu mu", "boş mu", "ne zaman boş", "boş saha var mı" sorularında bunu kullan.',
+      parameters: {
+        type: 'object',
+        properties: {
+          date: { type: 'string', description: 'Sadece bu gün, kullanıcının dediği gibi ("bugün", "yarın", "cuma") veya ISO tarih (opsiyonel)' },
+          week_offset: { type: 'number', description: 'date yoksa tüm hafta taranır (0: bu hafta, 1: gelecek hafta, varsayılan: 0)' },
+          time_range: { type: 'string', description: 'Saat aralığı filtresi, time_slot formatında (örn: "8-12" akşam 20:00-24:00, "sabah 10-12"). Opsiyonel' },
+          min_duration_hours: { type: 'number', description: 'En az kaç saatlik boşluk aranıyor (varsayılan: 1)' },
+          pitch: { type: 'string', description: 'Sadece bu saha (opsiyonel)' }
+        },
+        required: []
+      }
+    },
+    {
+      name: 'list_pitches',
+      description: 'İşletmedeki sahaları (Saha 1, Saha 2...) listeler',
+      parameters: {
+        type: 'object',
+        properties: {},
+        required: []
+      }
+    },
+    {
+      name: 'get_schedule_settings',
+      description: 'Tesisin çalışma saatlerini, kapalı günlerini ve slot süresini gösterir',
+      parameters: {
+        type: 'object',
+        properties: {},
+        required: []
+      }
+    },
+    {
+      name: 'update_schedule_settings',
+      description: 'Çalışma saatlerini değiştirir, bir günü kapatır/açar, tatil/bakım günü ekler veya slot süresini (30/60/90 dk) ayarlar',
+      parameters: {
+        type: 'object',
+        properties: {
+          day_of_week: { type: 'string', description: 'Saatleri değişecek gün: "pazartesi", "salı"...' },
+          open: { type: 'string', description: 'Açılış saati SS:DD (örn: "16:00")' },
+          close: { type: 'string', description: 'Kapanış saati SS:DD, gece yarısını geçiyorsa da öyle yaz (örn: "02:00")' },
+          closed: { type: 'boolean', description: 'true: day_of_week her hafta kapalı, false: tekrar aç' },
+          closure_date: { type: 'string', description: 'Tek seferlik kapalı gün (tatil, bakım): "15 Kasım", "yarın"...' },
+          remove_closure_date: { type: 'string', description: 'Kapalı gün listesinden çıkarılacak tarih' },
+          slot_minutes: { type: 'number', description: 'Slot süresi dakika: 30, 60 veya 90' }
+        },
+        required: []
+      }
+    },
+    {
+      name: 'get_cancellation_policy',
+      description: 'İptal politikasını gösterir: ücretsiz iptal süresi, geç iptal ücreti ve kapora iadesi',
+      parameters: {
+        type: 'object',
+        properties: {},
+        required: []
+      }
+    },
+    {
+      name: 'update_cancellation_policy',
+      description: 'İptal politikasını değiştirir ("24 saatten sonra iptal %50", "kapora iade edilmesin")',
+      parameters: {
+        type: 'object',
+        properties: {
+          free_window_hours: { type: 'number', description: 'Maçtan en az kaç saat önce iptal ücretsiz (örn: 24)' },
+          fee_percent: { type: 'number', description: 'Geç iptalde fiyatın yüzde kaçı alınır (0-100)' },
+          deposit_refund: {
+            type: 'string',
+            enum: ['always', 'free_window_only', 'never'],
+            description: 'Kapora iadesi: always (her zaman), free_window_only (sadece ücretsiz süre içinde), never (hiç)'
+          }
+        },
+        required: []
+      }
+    },
+    {
+      name: 'get_reminder_settings',
+      description: 'Müşterilere maçtan önce gönderilen WhatsApp hatırlatma ayarlarını gösterir',
+      parameters: {
+        type: 'object',
+        properties: {},
+        required: []
+      }
+    },
+    {
+      name: 'update_reminder_settings',
+      description: 'Hatırlatmaları açar/kapatır veya ne kadar önce gönderileceğini değiştirir ("maçtan 3 saat önce hatırlat")',
+      parameters: {
+        type: 'object',
+        properties: {
+          enabled: { type: 'boolean', description: 'true: hatırlatmalar açık, false: kapalı' },
+          offsets_hours: {
+            type: 'array',
+            items: { type: 'number' },
+            description: 'Maçtan kaç saat önce hatırlatma gönderilsin, birden fazla olabilir (örn: [24, 2])'
+          }
+        },
+        required: []
+      }
+    },
+    {
+      name: 'get_message_templates',
+      description: 'Müşteri 24 saattir yazmadığında hatırlatma ve bekleme listesi bildirimlerinde kullanılan WhatsApp şablonlarını gösterir',
+      parameters: {
+        type: 'object',
+        properties: {},
+        required: []
+      }
+    },
+    {
+      name: 'update_message_template',
+      description: 'Bir bildirim türü için Meta\'da onaylı WhatsApp şablonunun adını, dilini veya parametre biçimini değiştirir',
+      parameters: {
+        type: 'object',
+        properties: {
+          notification_type: {
+            type: 'string',
+            enum: ['reservation_reminder', 'waitlist_offer'],
+            description: 'reservation_reminder: maç hatırlatması, waitlist_offer: bekleme listesi teklifi'
+          },
+          template_name: { type: 'string', description: 'Meta\'daki şablon adı (örn: mac_hatirlatma)' },
+          language: { type: 'string', description: 'Şablon dil kodu (örn: tr, en_US)' },
+          parameter_format: {
+            type: 'string',
+            enum: ['positional', 'named'],
+            description: 'positional: {{1}} {{2}} yer tutucular, named: {{customer_name}} gibi isimli yer tutucular'
+          }
+        },
+        required: ['notification_type']
+      }
+    },
+    {
+      name: 'list_staff',
+      description: 'İşletme yetkilisi (personel) olarak kayıtlı WhatsApp numaralarını listeler',
+      parameters: {
+        type: 'object',
+        properties: {},
+        required: []
+      }
+    },
+    {
+      name: 'add_staff',
+      description: 'Bir WhatsApp numarasını personel olarak ekler veya kayıtlı personelin rolünü değiştirir. Personel olmayanlar sadece müşteri işlemleri yapabilir',
+      parameters: {
+        type: 'object',
+        properties: {
+          phone: { type: 'string', description: 'Personelin telefon numarası. "beni ekle" denirse boş bırak, yazan kişinin numarası kullanılır' },
+          name: { type: 'string', description: 'Personelin adı (opsiyonel)' },
+          role: {
+            type: 'string',
+            enum: ['owner', 'desk', 'accountant'],
+            description: 'owner: işletme sahibi, her şey; desk: rezervasyon ve ödeme işleri (varsayılan); accountant: sadece görüntüleme'
+          }
+        },
+        required: []
+      }
+    },
+    {
+      name: 'remove_staff',
+      description: 'Bir numarayı personel listesinden çıkarır',
+      parameters: {
+        type: 'object',
+        properties: {
+          phone: { type: 'string', description: 'Çıkarılacak telefon numarası' }
+        },
+        required: ['phone']
+      }
+    },
+    {
+      name: 'update_unknown_sender_mode',
+      description: 'Personel olarak kayıtlı olmayan numaralara ne yapılacağını ayarlar: müşteri olarak karşılamak veya kibarca reddetmek',
+      parameters: {
+        type: 'object',
+        properties: {
+          mode: { type: 'string', enum: ['customer', 'refuse'], description: 'customer: müşteri modu (rezervasyon yapabilir), refuse: hizmet verme' }
+        },
+        required: ['mode']
+      }
+    },
+    {
+      name: 'get_price_list',
+      description: 'Fiyat listesini gösterir; tarih ve saat verilirse o rezervasyonun fiyatını hesaplar',
+      parameters: {
+        type: 'object',
+        properties: {
+          date: { type: 'string', description: 'Tarih: "yarın", "cuma", "15 Kasım"... (opsiyonel)' },
+          time_slot: { type: 'string', description: 'Saat aralığı: "20-22", "akşam 9-10" (opsiyonel)' },
+          pitch: { type: 'string', description: 'Saha adı veya numarası (opsiyonel)' }
+        },
+        required: []
+      }
+    },
+    {
+      name: 'add_price_rule',
+      description: 'Fiyat kuralı ekler: gün, saat aralığı, saha, süre veya bayram/tatil dönemine göre saatlik fiyat',
+      parameters: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Kural adı: "Hafta içi akşam", "Bayram"...' },
+          hourly_price: { type: 'number', description: 'Saatlik fiyat (TL)' },
+          days: { type: 'string', description: '"hafta içi", "hafta sonu", "cuma, cumartesi" (boşsa her gün)' },
+          time_range: { type: 'string', description: 'Saat aralığı: "18-24", "gece 0-6" (boşsa tüm gün)' },
+          pitch: { type: 'string', description: 'Sadece bu saha (boşsa tüm sahalar)' },
+          min_duration_hours: { type: 'number', description: 'En az bu kadar saatlik rezervasyonlarda geçerli' },
+          max_duration_hours: { type: 'number', description: 'En fazla bu kadar saatlik rezervasyonlarda geçerli' },
+          period_start: { type: 'string', description: 'Bayram/tatil dönemi başlangıç tarihi' },
+          period_end: { type: 'string', description: 'Bayram/tatil dönemi bitiş tarihi' }
+        },
+        required: ['name', 'hourly_price']
+      }
+    },
+    {
+      name: 'delete_price_rule',
+      description: 'Fiyat kuralını siler',
+      parameters: {
+        type: 'object',
+        properties: {
+          rule_id: { type: 'number', description: 'Fiyat kuralı ID' }
+        },
+        required: ['rule_id']
+      }
+    },
+    {
+      name: 'join_waitlist',
+      description: 'Dolu bir saat için müşteriyi bekleme listesine ekler; saat boşalırsa müşteriye WhatsApp ile haber verilir',
+      parameters: {
+        type: 'object',
+        properties: {
+          customer_name: { type: 'string', description: 'Müşteri adı soyadı' },
+          customer_phone: { type: 'string', description: 'Müşteri telefonu' },
+          date: { type: 'string', description: 'Tarih: "bugün", "cuma", "15 Kasım"...' },
+          time_slot: { type: 'string', description: 'İstenen saat veya aralık: "21-22", "akşam 8-11 arası"' },
+          duration_hours: { type: 'number', description: 'Aralık verildiyse kaç saatlik maç (varsayılan: aralığın tamamı)' },
+          pitch: { type: 'string', description: 'Sadece bu saha (boşsa herhangi bir saha)' }
+        },
+        required: ['customer_name', 'customer_phone', 'date', 'time_slot']
+      }
+    },
+    {
+      name: 'list_waitlist',
+      description: 'Bekleme listesindeki müşterileri gösterir',
+      parameters: {
+        type: 'object',
+        properties: {
+          week_offset: { type: 'number', description: 'Bu hafta: 0, gelecek hafta: 1 (boşsa tümü)' }
+        },
+        required: []
+      }
+    },
+    {
+      name: 'remove_from_waitlist',
+      description: 'Müşteriyi bekleme listesinden çıkarır',
+      parameters: {
+        type: 'object',
+        properties: {
+          entry_id: { type: 'number', description: 'Bekleme kaydı ID' }
+        },
+        required: ['entry_id']
+      }
+    },
+    {
+      name: 'record_payment',
+      description: 'Rezervasyon için kapora, ödeme veya iade kaydeder (nakit, kart, IBAN)',
+      parameters: {
+        type: 'object',
+        properties: {
+          reservation_id: { type: 'number', description: 'Rezervasyon ID' },
+          amount: { type: 'number', description: 'Tutar (TL)' },
+          method: { type: 'string', enum: ['nakit', 'kart', 'iban'], description: 'Ödeme yöntemi' },
+          type: { type: 'string', enum: ['deposit', 'payment', 'refund'], description: 'deposit: kapora, payment: ödeme (varsayılan), refund: iade' },
+          notes: { type: 'string', description: 'Not (opsiyonel)' }
+        },
+        required: ['reservation_id', 'amount', 'method']
+      }
+    },
+    {
+      name: 'get_reservation_payments',
+      description: 'Bir rezervasyonun ödemelerini, ödenen ve kalan tutarı gösterir',
+      parameters: {
+        type: 'object',
+        properties: {
+          reservation_id: { type: 'number', description: 'Rezervasyon ID' }
+        },
+        required: ['reservation_id']
+      }
+    },
+    {
+      name: 'list_unpaid_reservations',
+      description: 'Ödemesi tamamlanmamış (borçlu) rezervasyonları listeler',
+      parameters: {
+        type: 'object',
+        properties: {
+          week_offset: { type: 'number', description: 'Sadece bu hafta: 0, geçen hafta: -1 (boşsa tümü)' }
+        },
+        required: []
+      }
+    },
     {
       name: 'get_sales_analytics',
       description: 'Bu hafta veya bu ay kaç saat satıldığını, gelir bilgilerini gösterir',
@@ -85,9 +486,38 @@ export class FieldAgent {
         }
       }
     },
+    {
+      name: 'get_no_show_customers',
+      description: 'Rezervasyon yapıp gelmeyen müşterileri listeler',
+      parameters: {
+        type: 'object',
+        properties: {
+          limit: { type: 'number', description: 'Kaç müşteri gösterilsin (varsayılan: 10)' }
+        }
+      }
+    },
+    {
+      name: 'mark_no_show',
+      description: 'Müşterinin rezervasyona gelmediğini işaretler',
+      parameters: {
+        type: 'object',
+        properties: {
+          reservation_id: { type: 'number', description: 'Rezervasyon ID' }
+        },
+        required: ['reservation_id']
+      }
+    },
+    {
+      name: 'undo_last_action',
+      description: 'Kullanıcının kendi yaptığı son rezervasyon değişikliğini (oluşturma, iptal, saat/müşteri değişikliği) geri alır',
+      parameters: {
+        type: 'object',
+        properties: {}
+      }
+    },
     {
       name: 'find_reservations_by_name',
-      description: 'Müşteri adına göre aktif rezervasyonları bulur',
+      description: 'Müşteri adına göre rezervasyonları (geçmiş dahil) bulur',
       parameters: {
         type: 'object',
         properties: {
@@ -102,7 +532,8 @@ export class FieldAgent {
       parameters: {
         type: 'object',
         properties: {
-          reservation_id: { type: 'number', description: 'İptal edilecek rezervasyonun ID\'si' }
+          reservation_id: { type: 'number', description: 'İptal edilecek rezervasyonun ID\'si' },
+          waive_fee: { type: 'boolean', description: 'true: geç iptal ücreti alınmasın (kullanıcı açıkça "ücret alma" derse)' }
         },
         required: ['reservation_id']
       }
@@ -113,7 +544,8 @@ export class FieldAgent {
       parameters: {
         type: 'object',
         properties: {
-          week_offset: { type: 'number', description: 'Hangi haftanın rezervasyonları iptal edilecek (0: bu hafta, 1: gelecek hafta)' }
+          week_offset: { type: 'number', description: 'Hangi haftanın rezervasyonları iptal edilecek (0: bu hafta, 1: gelecek hafta)' },
+          waive_fee: { type: 'boolean', description: 'true: geç iptal ücreti alınmasın (örn. tesis kapandığı için iptal)' }
         },
         required: ['week_offset']
       }
@@ -147,9 +579,9 @@ export class FieldAgent {
         type: 'object',
         properties: {
           reservation_id: { type: 'number', description: 'Güncellenecek rezervasyonun ID\'si' },
-          time_slot: { type: 'string', description: 'Yeni saat aralığı. ÖNEMLI: Eğer kullanıcı "sabah" derse "sabah 9-10" yaz, yoksa sadece "9-10" yaz - opsiyonel' },
-          week_offset: { type: 'number', description: 'Yeni hafta offset - opsiyonel' },
-          day_of_week: { type: 'string', description: 'Yeni haftanın günü - opsiyonel' },
+          time_slot: { type: 'string', description: 'Yeni saat aralığı, kullanıcının dediği gibi ("9-10", "sabah 9-10", "20:30-22:00") - opsiyonel' },
+          date: { type: 'string', description: 'Yeni tarih, kullanıcının dediği gibi ("yarın", "cuma", "15 Kasım") veya ISO tarih - opsiyonel, verilmezse mevcut gün korunur' },
+          pitch: { type: 'string', description: 'Yeni saha adı veya numarası (rezervasyonu başka sahaya taşımak için) - opsiyonel' },
           price: { type: 'number', description: 'Yeni fiyat - opsiyonel' }
         },
         required: ['reservation_id']
@@ -157,36 +589,72 @@ export class FieldAgent {
     }
   ];
 
-  constructor(whatsappClient: WhatsAppClient) {
-    // Initialize the appropriate LLM provider based on config
-    if (config.llm.provider === 'openai') {
-      this.llmProvider = new OpenAIProvider(
-        config.llm.openai.apiKey,
-        config.llm.openai.model
-      );
-    } else {
-      this.llmProvider = new GeminiProvider(
-        config.llm.gemini.project,
-        config.llm.gemini.location,
-        config.llm.gemini.model
-      );
+  private customerTools: ToolDefinition[] = [
+    ...this.tools.filter(tool => staffService.canUseTool('customer', tool.name)),
+    {
+      name: 'book_reservation',
+      description: 'Müşterinin kendisi için rezervasyon yapar. Telefon numarası gerekmez, yazan kişinin WhatsApp numarası kullanılır',
+      parameters: {
+        type: 'object',
+        properties: {
+          time_slot: { type: 'string', description: 'Saat aralığı, kullanıcının dediği gibi ("9-10", "akşam 9-10", "20:30-22:00", "gece 1-2")' },
+          date: { type: 'string', description: 'Tarih: kullanıcının dediği gibi yaz ("bugün", "yarın", "cuma", "15 Kasım"). Hesaplama yapma' },
+          pitch: { type: 'string', description: 'Saha adı veya numarası. Tek saha varsa boş bırak' },
+          customer_name: { type: 'string', description: 'Müşterinin adı. Daha önce rezervasyon yaptıysa boş bırakılabilir' }
+        },
+        required: ['time_slot', 'date']
+      }
+    },
+    {
+      name: 'list_my_reservations',
+      description: 'Müşterinin kendi yaklaşan rezervasyonlarını listeler',
+      parameters: {
+        type: 'object',
+        properties: {},
+        required: []
+      }
+    },
+    {
+      name: 'cancel_my_reservation',
+      description: 'Müşterinin kendi rezervasyonunu iptal eder (önce list_my_reservations ile ID bulunmalı)',
+      parameters: {
+        type: 'object',
+        properties: {
+          reservation_id: { type: 'number', description: 'İptal edilecek rezervasyonun ID\'si' }
+        },
+        required: ['reservation_id']
+      }
     }
+  ];
+
+  constructor(whatsappClient: WhatsAppClient, llmProvider?: LLMProvider) {
+    // The configured provider with its fallbacks, timeouts and retries, unless one is given (e.g. a mock)
+    this.llmProvider = llmProvider || createLLMProvider();
     this.whatsappClient = whatsappClient;
 
     // Initialize tool router with LLM provider and tools
     this.toolRouter = new ToolRouter(this.llmProvider, this.tools);
+    this.conversationMemory = new ConversationMemory(this.llmProvider);
+  }
+
+  /**
+   * The staff toolset the router chooses from
+   */
+  getTools(): ToolDefinition[] {
+    return this.tools;
   }
 
   async processMessage(userId: string, message: string, tenantId: number = 1): Promise<string> {
     try {
       // Handle special commands
       if (message.trim().toLowerCase() === '/yenile' || message.trim().toLowerCase() === '/reset') {
-        db.clearConversationHistory(tenantId, userId);
+        await this.conversationMemory.clear(tenantId, userId);
         return '✅ Konuşma geçmişi temizlendi. Yeni bir konuşma başlayabilirsiniz.';
       }
 
       // Get conversation history for this user
-      const history = db.getConversationHistory(tenantId, userId);
+      const conversation = await this.conversationMemory.load(tenantId, userId);
+      const history = conversation.messages;
 
       if (process.env.NODE_ENV === 'development') {
         console.log(`\n=== Processing message for user ${userId} ===`);
@@ -199,66 +667,84 @@ export class FieldAgent {
         }
       }
 
-      // Create messages array - either from history or fresh with system prompt
-      let messages: Message[];
-      if (history.length > 0) {
-        // Continue existing conversation
-        messages = [...history];
-      } else {
-        // Start new conversation with system prompt
-        messages = [
-          {
-            role: 'system',
-            content: `Halı saha rezervasyon asistanısın. Rezervasyon oluştur/iptal/düzenle, tablo göster, analiz yap.
-
-KURALLAR:
-- Her rezervasyon için isim+TELEFON gerekli. Eksikse sor.
-- Kullanıcı bilgi verince (telefon vs.) hemen işlemi tamamla!
-- Çoklu işlem yapılabilir: "Ahmet 9-10, Mehmet 10-11" → iki rezervasyon
-- Tarih/saat sorularında get_current_time kullan
-- "bugün", "yarın" için get_current_time çağır
+      // Staff manage the facility with role-based permissions, everyone else gets the restricted customer mode
+      const role = await staffService.getSenderRole(tenantId, userId);
+      if (!role) {
+        return 'Merhaba! Bu numara yalnızca işletme personeli tarafından kullanılmaktadır. ' +
+          'Rezervasyon için lütfen işletmeyi arayın. Anlayışınız için teşekkürler 🙏';
+      }
+      const isStaff = role !== 'customer';
+
+      // Continue the existing conversation, always with the system prompt for the sender's current role
+      const messages: Message[] = [
+        {
+          role: 'system',
+          content: (isStaff ? this.getStaffSystemPrompt(role) : this.getCustomerSystemPrompt()) +
+            this.conversationMemory.formatSummary(conversation.summary),
+        },
+        ...history,
+      ];
 
-SORGULAMA:
-- "kim var o saatte", "cumartesi 6-7 kimde" gibi sorularda:
-  * list_week_reservations ile haftanın tüm rezervasyonlarını al
-  * Liste içinden ilgili gün/saati kendin bul ve kullanıcıya söyle
-  * ASLA "bilgi öğrenemiyorum" deme, listeyi kullan!
-- "dolu mu", "boş mu" sorularında da aynı yöntemi kullan
+      // Everything after this point is new in this turn and gets saved
+      const historyLength = messages.length;
 
-SAAT:
-- "9-10" → akşam 21:00-22:00
-- "sabah 9-10" → sabah 09:00-10:00
-- time_slot: kullanıcının dediği gibi yaz
+      // Add new user message
+      messages.push({
+        role: 'user',
+        content: message,
+      });
 
-TARİH:
-- İLK get_current_time çağır, bugünün gününü öğren
-- Kullanıcı spesifik hafta belirtmediyse → bu hafta demektir
-- Kullanıcı bir gün adı söylerse (pazartesi, salı vb.):
-  * O gün bu hafta GEÇMEDİYSE → week_offset:0
-  * O gün bu hafta GEÇTİYSE → week_offset:1 (gelecek hafta)
-  * Örnek: Bugün Cuma, kullanıcı "pazartesi" derse → geçti, week_offset:1
-  * Örnek: Bugün Cuma, kullanıcı "pazar" derse → gelmedi, week_offset:0
-- "bugün" → week_offset:0, day_of_week: bugünün günü
-- "yarın" → yarının gününü hesapla, uygun week_offset ver
+      // A destructive action from the previous message runs only if this message confirms it
+      const pendingAction = await pendingActionService.take(tenantId, userId, 'agent');
+      if (pendingAction) {
+        const reply = pendingActionService.parseReply(message, pendingAction);
 
-FORMATLAMA:
-- Tool sonuçları zaten formatlanmış, AYNEN kullan
-- Tool sonucuna ekstra * veya ** ekleme
-- Sadece kendi cümlelerinde WhatsApp formatı (*kalın*, _italik_) kullanabilirsin
+        if (reply) {
+          const results: string[] = [];
 
-Türkçe konuş, profesyonel+samimi ol.`,
+          if (reply === 'confirm') {
+            const turn: TurnContext = { sourceMessage: pendingAction.sourceMessage };
+            for (const step of pendingAction.steps) {
+              const stepResult = await this.runFunction(step.functionName, step.args, userId, tenantId, role, turn);
+              this.onToolCall?.({ name: step.functionName, args: step.args, result: stepResult });
+              results.push(stepResult);
+            }
+          } else {
+            results.push('👍 Vazgeçildi, hiçbir değişiklik yapılmadı.');
           }
-        ];
+
+          const result = results.join('\n\n');
+
+          messages.push({ role: 'assistant', content: result });
+          await this.saveConversation(tenantId, userId, messages.slice(historyLength));
+
+          return result;
+        }
+        // Anything else drops the pending action and is handled as a new request
       }
 
-      // Add new user message
-      messages.push({
-        role: 'user',
-        content: message,
-      });
+      if (UNDO_COMMANDS.includes(message.trim().toLocaleLowerCase('tr-TR'))) {
+        const result = await this.runFunction('undo_last_action', {}, userId, tenantId, role, { sourceMessage: message });
+        this.onToolCall?.({ name: 'undo_last_action', args: {}, result });
 
-      // Stage 1: Smart routing - select relevant tools
-      const relevantTools = await this.toolRouter.selectRelevantTools(message, 3);
+        messages.push({ role: 'assistant', content: result });
+        await this.saveConversation(tenantId, userId, messages.slice(historyLength));
+
+        return result;
+      }
+
+      // Every LLM call of the turn starts with the tenant's preferred provider
+      const completionOptions = { preferredProvider: await tenantService.getLLMProviderPreference(tenantId) };
+
+      // Stage 1: Smart routing - select relevant tools. The customer toolset is small enough to send whole.
+      const relevantTools = isStaff
+        ? await this.toolRouter.selectRelevantTools(
+          message,
+          3,
+          this.tools.filter(tool => staffService.canUseTool(role, tool.name)).map(tool => tool.name),
+          completionOptions
+        )
+        : this.customerTools;
 
       if (process.env.NODE_ENV === 'development') {
         console.log(`\n=== Smart Tool Routing ===`);
@@ -270,18 +756,19 @@ Türkçe konuş, profesyonel+samimi ol.`,
       let response = await this.llmProvider.createCompletion(
         messages,
         relevantTools,
-        config.llm.maxTokens
+        config.llm.maxTokens,
+        completionOptions
       );
 
-      // Log token usage
+      // Log token usage under the model that actually answered, which differs after a fallback
       let totalTokens = 0;
-      const modelName = config.llm.provider === 'openai' ? config.llm.openai.model : config.llm.gemini.model;
+      const modelName = getConfiguredModel(config.llm.provider);
 
       if (response.usage) {
         totalTokens += response.usage.total_tokens;
         await db.logTokenUsage(
           userId,
-          modelName,
+          response.model || modelName,
           'chat',
           response.usage.prompt_tokens,
           response.usage.completion_tokens,
@@ -302,6 +789,10 @@ Türkçe konuş, profesyonel+samimi ol.`,
       const maxIterations = 7;
       let iteration = 0;
 
+      // Destructive calls of this turn, all asked for in one confirmation
+      const confirmationSteps: PendingStep[] = [];
+      const turn: TurnContext = { sourceMessage: message };
+
       while (assistantMessage.tool_calls && iteration < maxIterations) {
         iteration++;
 
@@ -316,7 +807,21 @@ Türkçe konuş, profesyonel+samimi ol.`,
 
             console.log(`Executing function: ${functionName}`, functionArgs);
 
-            const functionResult = await this.executeFunction(functionName, functionArgs, userId, tenantId);
+            let functionResult: string;
+            if (CONFIRMATION_REQUIRED_TOOLS.includes(this.cleanFunctionName(functionName))) {
+              const confirmation = await this.requestConfirmation(functionName, functionArgs, userId, tenantId, role);
+              functionResult = confirmation.message;
+              const step = confirmation.step;
+              const isDuplicate = step && confirmationSteps.some(pending =>
+                pending.functionName === step.functionName && JSON.stringify(pending.args) === JSON.stringify(step.args)
+              );
+              if (step && !isDuplicate) {
+                confirmationSteps.push(step);
+              }
+            } else {
+              functionResult = await this.runFunction(functionName, functionArgs, userId, tenantId, role, turn);
+            }
+            this.onToolCall?.({ name: this.cleanFunctionName(functionName), args: functionArgs, result: functionResult });
 
             messages.push({
               role: 'tool',
@@ -326,10 +831,27 @@ Türkçe konuş, profesyonel+samimi ol.`,
           }
         }
 
+        // Stop here and ask the user; the action runs when they confirm in their next message
+        if (confirmationSteps.length > 0) {
+          const confirmationAction = await pendingActionService.create(tenantId, userId, confirmationSteps, message);
+          const prompt = pendingActionService.formatPrompt(confirmationAction);
+          messages.push({ role: 'assistant', content: prompt });
+          await this.saveConversation(tenantId, userId, messages.slice(historyLength));
+
+          try {
+            await this.whatsappClient.sendButtons(userId, prompt, pendingActionService.getButtons(confirmationAction));
+            return '';
+          } catch (error) {
+            // Buttons are a convenience, the typed "evet"/"hayır" works too
+            return prompt;
+          }
+        }
+
         response = await this.llmProvider.createCompletion(
           messages,
           relevantTools,
-          config.llm.maxTokens
+          config.llm.maxTokens,
+          completionOptions
         );
 
         // Log token usage for tool call iteration
@@ -337,7 +859,7 @@ Türkçe konuş, profesyonel+samimi ol.`,
           totalTokens += response.usage.total_tokens;
           await db.logTokenUsage(
             userId,
-            modelName,
+            response.model || modelName,
             'chat',
             response.usage.prompt_tokens,
             response.usage.completion_tokens,
@@ -363,13 +885,31 @@ Türkçe konuş, profesyonel+samimi ol.`,
       }
 
       // Save updated conversation history
-      db.setConversationHistory(tenantId, userId, messages);
+      await this.saveConversation(tenantId, userId, messages.slice(historyLength));
 
       // Add token usage info in development
       if (process.env.NODE_ENV !== 'production') {
         finalResponse += `\n\n(Tokens: ${totalTokens})`;
       }
 
+      // Options a tool offered go out as a list right after the answer
+      if (turn.selection) {
+        try {
+          await this.whatsappClient.sendMessage(userId, finalResponse);
+        } catch (error) {
+          return finalResponse;
+        }
+
+        try {
+          await this.whatsappClient.sendList(userId, turn.selection);
+        } catch (error) {
+          // The answer already lists the options, tapping is a convenience
+          console.error('Error sending selection list:', error);
+        }
+
+        return '';
+      }
+
       return finalResponse;
     } catch (error) {
       console.error('Error in Field Agent:', error);
@@ -377,39 +917,294 @@ Türkçe konuş, profesyonel+samimi ol.`,
     }
   }
 
-  private async executeFunction(functionName: string, args: any, userId: string, tenantId: number): Promise<string> {
-    try {
-      // Strip namespace prefix if present (e.g., "default_api.function_name" -> "function_name")
-      const cleanFunctionName = functionName.includes('.') ? functionName.split('.').pop()! : functionName;
+  private async runFunction(
+    functionName: string,
+    args: any,
+    userId: string,
+    tenantId: number,
+    role: SenderRole,
+    turn: TurnContext = {}
+  ): Promise<string> {
+    return role === 'customer'
+      ? await this.executeCustomerFunction(functionName, args, userId, tenantId, turn)
+      : await this.executeFunction(functionName, args, userId, tenantId, role, turn);
+  }
+
+  /**
+   * Instead of running a destructive tool, describe what it would do. The turn parks the
+   * returned step until the user confirms.
+   */
+  private async requestConfirmation(
+    functionName: string,
+    args: any,
+    userId: string,
+    tenantId: number,
+    role: SenderRole
+  ): Promise<{ message: string; step?: PendingStep }> {
+    const cleanFunctionName = this.cleanFunctionName(functionName);
+
+    if (!staffService.canUseTool(role, cleanFunctionName)) {
+      return { message: `❌ Bu işlem için yetkiniz yok (${staffService.getRoleLabel(role)}).` };
+    }
+
+    try {
+      const summary = await this.describeAction(cleanFunctionName, args, userId, tenantId, role);
+
+      return {
+        message: `${summary}\n\n⚠️ Kullanıcının onayı bekleniyor, işlem henüz yapılmadı.`,
+        step: { functionName: cleanFunctionName, args, summary },
+      };
+    } catch (error: any) {
+      console.error(`Error preparing confirmation for ${functionName}:`, error);
+      return { message: `❌ Hata: ${error.message || 'İşlem hazırlanamadı'}` };
+    }
+  }
+
+  private async describeAction(functionName: string, args: any, userId: string, tenantId: number, role: SenderRole): Promise<string> {
+    switch (functionName) {
+      case 'cancel_reservation':
+      case 'cancel_my_reservation': {
+        const reservation = await reservationService.getReservationById(args.reservation_id, tenantId);
+
+        if (role === 'customer' && !reservationService.isSamePhoneNumber(reservation.phone_number, userId)) {
+          throw new Error('Rezervasyon bulunamadı');
+        }
+        if (reservation.status !== 'active') {
+          throw new Error('Sadece aktif rezervasyonlar iptal edilebilir');
+        }
+
+        return `🗑️ Bu rezervasyon iptal edilecek:\n\n` +
+          `👤 ${reservation.customer_name}\n` +
+          `🏟️ ${reservation.pitch_name}\n` +
+          `📅 ${this.formatSlot(reservation)}` +
+          `${args.waive_fee ? '\n💸 İptal ücreti alınmayacak' : ''}`;
+      }
+
+      case 'cancel_all_week_reservations': {
+        // The same uncached read the cancellation runs on, so the user confirms what gets cancelled
+        const reservations = await reservationService.getActiveWeekReservations(args.week_offset, tenantId);
+
+        if (reservations.length === 0) {
+          throw new Error('Bu hafta için iptal edilecek rezervasyon bulunamadı');
+        }
+
+        const weekStart = reservationService.getWeekStartDate(args.week_offset);
+        let summary = `🗑️ ${weekStart.toLocaleDateString('tr-TR')} haftasındaki TÜM rezervasyonlar (${reservations.length} adet) iptal edilecek:\n\n`;
+        reservations.slice(0, 10).forEach((res, index) => {
+          summary += `${index + 1}. ${res.customer_name} - ${this.formatSlot(res)}\n`;
+        });
+        if (reservations.length > 10) {
+          summary += `... ve ${reservations.length - 10} rezervasyon daha\n`;
+        }
+
+        return summary.trimEnd() + `${args.waive_fee ? '\n💸 İptal ücreti alınmayacak' : ''}`;
+      }
+
+      case 'cancel_recurring_occurrence': {
+        const series = await recurringReservationService.getSeries(args.series_id, tenantId);
+        const occurrence = await recurringReservationService.findOccurrence(args.series_id, args.week_offset, tenantId);
+
+        return `🗑️ ${series.customer_name} aboneliğinin bu maçı iptal edilecek, abonelik devam edecek:\n\n` +
+          `🏟️ ${occurrence.pitch_name}\n` +
+          `📅 ${this.formatSlot(occurrence)}`;
+      }
+
+      case 'cancel_recurring_series': {
+        const series = await recurringReservationService.getSeries(args.series_id, tenantId);
+
+        if (series.status === 'cancelled') {
+          throw new Error('Bu abonelik zaten iptal edilmiş');
+        }
+
+        return `🗑️ Abonelik tamamen iptal edilecek, gelecekteki TÜM maçları silinecek:\n\n` +
+          `👤 ${series.customer_name}\n` +
+          `🔁 ${recurringReservationService.formatSeriesSchedule(series)}\n` +
+          `🏟️ ${series.pitch_name}`;
+      }
+
+      default:
+        throw new Error(`Onay özeti tanımlı değil: ${functionName}`);
+    }
+  }
+
+  private formatSlot(reservation: { start_time: Date; end_time: Date }): string {
+    const startTime = new Date(reservation.start_time);
+    const endTime = new Date(reservation.end_time);
+
+    return `${startTime.toLocaleDateString('tr-TR', { weekday: 'long', day: 'numeric', month: 'long' })} ` +
+      `${startTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}-` +
+      `${endTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}`;
+  }
+
+  /**
+   * Turn a tapped button or list row into the message the agent sees. Reservation and slot
+   * rows carry their ids, so the agent gets the exact choice instead of a guess from the title.
+   */
+  async describeInteractiveReply(reply: InteractiveReply, tenantId: number): Promise<string> {
+    const [kind, ...parts] = reply.id.split(':');
+
+    if (kind === 'reservation' && parts.length === 1) {
+      return `Seçilen rezervasyon: ID ${parts[0]} - ${reply.title}${reply.description ? ` (${reply.description})` : ''}`;
+    }
+
+    if (kind === 'slot' && parts.length === 3) {
+      const pitch = (await pitchService.listPitches(tenantId)).find(p => p.id === Number(parts[0]));
+      const slot = this.formatSlot({ start_time: new Date(Number(parts[1])), end_time: new Date(Number(parts[2])) });
+      return `Seçilen boş saat: ${slot}${pitch ? `, ${pitch.name}` : ''}`;
+    }
+
+    // Confirmation buttons and anything else are handled as typed text
+    return reply.id;
+  }
+
+  private buildReservationSelection(reservations: ReservationDetails[]): InteractiveList {
+    const rows: InteractiveListRow[] = reservations.slice(0, 10).map(res => ({
+      id: `reservation:${res.id}`,
+      title: res.customer_name,
+      description: `${this.formatSlot(res)}${res.pitch_name ? ` · ${res.pitch_name}` : ''}`,
+    }));
+
+    return {
+      body: 'İşlem yapmak istediğiniz rezervasyonu seçin 👇',
+      buttonText: 'Rezervasyon seç',
+      sections: [{ title: 'Rezervasyonlar', rows }],
+    };
+  }
+
+  private buildSlotSelection(slots: FreeSlot[]): InteractiveList {
+    const rows: InteractiveListRow[] = slots.slice(0, 10).map(slot => ({
+      id: `slot:${slot.pitchId}:${slot.startTime.getTime()}:${slot.endTime.getTime()}`,
+      title: `${slot.startTime.toLocaleDateString('tr-TR', { day: 'numeric', month: 'short' })} ` +
+        `${slot.startTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}-` +
+        `${slot.endTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}`,
+      description: `${slot.startTime.toLocaleDateString('tr-TR', { weekday: 'long' })} · ${slot.pitchName}`,
+    }));
+
+    return {
+      body: 'Uygun saati seçin 👇',
+      buttonText: 'Saat seç',
+      sections: [{ title: 'Boş saatler', rows }],
+    };
+  }
+
+  /**
+   * A failed save costs the next turn some context, never the reply to this one
+   */
+  private async saveConversation(tenantId: number, userId: string, newMessages: Message[]): Promise<void> {
+    await this.conversationMemory.append(tenantId, userId, newMessages)
+      .catch(err => console.error('Failed to save conversation history:', err));
+  }
+
+  // Strip namespace prefix if present (e.g., "default_api.function_name" -> "function_name")
+  private cleanFunctionName(functionName: string): string {
+    return functionName.includes('.') ? functionName.split('.').pop()! : functionName;
+  }
+
+  private getStaffSystemPrompt(role: SenderRole): string {
+    return `Halı saha rezervasyon asistanısın. Rezervasyon oluştur/iptal/düzenle, tablo göster, analiz yap.
+Konuştuğun kişinin rolü: ${staffService.getRoleLabel(role)}. Yetkisi olmayan işlemler reddedilir, bunu kibarca söyle.
+
+KURALLAR:
+- Her rezervasyon için isim+TELEFON gerekli. Eksikse sor.
+- Kullanıcı bilgi verince (telefon vs.) hemen işlemi tamamla!
+- Çoklu işlem yapılabilir: "Ahmet 9-10, Mehmet 10-11" → iki rezervasyon
+- "her salı", "abonelik" gibi tekrarlayan isteklerde create_recurring_reservation kullan
+- Abonelikte "sadece bu hafta iptal" → cancel_recurring_occurrence, "aboneliği bitir" → cancel_recurring_series
+- Birden fazla saha varsa hangi saha olduğunu sor (list_pitches ile sahaları öğren)
+- "Saat kaç", "bugün ayın kaçı" sorularında get_current_time kullan
+- Çalışma saati, kapalı gün, slot süresi değişikliklerinde update_schedule_settings kullan
+- Fiyat sorulursa get_price_list kullan. Kullanıcı fiyat söylemediyse price gönderme, sistem hesaplar
+- "kapora aldım", "500 nakit ödedi" gibi mesajlarda record_payment kullan (rezervasyon ID'sini bul)
+- Müşteri maça gelmediyse ("gelmediler", "gelmedi") mark_no_show kullan
+- "geri al", "son yaptığımı iptal et", "yanlışlıkla oldu" gibi isteklerde undo_last_action kullan
+- Müşteri hatırlatmalarını açma/kapama ve zamanlaması için update_reminder_settings kullan
+- WhatsApp şablon adı/dili değişikliklerinde update_message_template kullan
+- İptal ücretini sistem politikaya göre hesaplar. Kullanıcı "ücret alma" demedikçe waive_fee gönderme
+- Personel eklemek, rolünü değiştirmek veya çıkarmak için add_staff/remove_staff kullan
+
+SORGULAMA:
+- "kim var o saatte", "cumartesi 6-7 kimde" gibi sorularda:
+  * list_week_reservations ile haftanın tüm rezervasyonlarını al
+  * Liste içinden ilgili gün/saati kendin bul ve kullanıcıya söyle
+  * ASLA "bilgi öğrenemiyorum" deme, listeyi kullan!
+- "dolu mu", "boş mu", "ne zaman boş" sorularında find_free_slots kullan, kendin hesaplama
+- Rezervasyon çakışırsa tool sonucundaki alternatifleri öner, müşteri beklemek isterse join_waitlist kullan
+
+${this.getCommonPromptRules()}
+
+Türkçe konuş, profesyonel+samimi ol.`;
+  }
+
+  private getCustomerSystemPrompt(): string {
+    return `Halı saha rezervasyon asistanısın. Tesisin müşterisiyle konuşuyorsun: boş saatleri göster, kendisi için rezervasyon yap, rezervasyonlarını göster veya iptal et.
+
+KURALLAR:
+- Rezervasyon sadece yazan müşterinin kendisi için yapılır. Telefon numarası SORMA, WhatsApp numarası kullanılır
+- İsmini bilmiyorsan rezervasyon için adını sor
+- "dolu mu", "boş mu", "ne zaman boş" sorularında find_free_slots kullan, kendin hesaplama
+- Rezervasyon için book_reservation, rezervasyonlarını görmek için list_my_reservations kullan
+- İptal için önce list_my_reservations ile rezervasyonu bul, sonra cancel_my_reservation kullan
+- Son yaptığı işlemi geri almak isterse ("geri al") undo_last_action kullan
+- Fiyat sorulursa get_price_list, iptal koşulları sorulursa get_cancellation_policy kullan
+- Başka müşterilerin bilgilerini paylaşma. Tesis ayarları, analiz, ödeme gibi işletme işlerini yapamazsın, işletmeyle görüşmesini söyle
+
+${this.getCommonPromptRules()}
+
+Türkçe konuş, kibar+samimi ol.`;
+  }
+
+  private getCommonPromptRules(): string {
+    return `SAAT:
+- time_slot: kullanıcının dediği gibi yaz ("9-10", "sabah 9-10", "gece 1-2")
+- Gece yarısından sonraki saatler ("bu gece 1-2") o günün devamı sayılır, sistem ayarlar
+
+TARİH:
+- date: kullanıcının dediği gibi yaz ("bugün", "yarın", "cuma", "haftaya salı", "15 Kasım")
+- Gün/hafta hesabı YAPMA, sistem hesaplar
+
+SEÇİM:
+- "Seçilen rezervasyon: ID ..." veya "Seçilen boş saat: ..." mesajları kullanıcının listeden dokunarak yaptığı seçimdir
+- Önceki isteğe bu seçimle devam et (ör. iptal edilecek rezervasyon, rezervasyon yapılacak saat)
 
-      switch (cleanFunctionName) {
-        case 'create_reservation': {
-          const dayMap: { [key: string]: number } = {
-            'pazartesi': 0, 'salı': 1, 'çarşamba': 2, 'perşembe': 3,
-            'cuma': 4, 'cumartesi': 5, 'pazar': 6
-          };
+FORMATLAMA:
+- Tool sonuçları zaten formatlanmış, AYNEN kullan
+- Tool sonucuna ekstra * veya ** ekleme
+- Sadece kendi cümlelerinde WhatsApp formatı (*kalın*, _italik_) kullanabilirsin`;
+  }
 
-          const dayOffset = dayMap[args.day_of_week.toLowerCase()];
-          if (dayOffset === undefined) {
-            return '❌ Geçersiz gün. Lütfen pazartesi-pazar arası bir gün belirtin.';
-          }
+  private async executeFunction(
+    functionName: string,
+    args: any,
+    userId: string,
+    tenantId: number,
+    role: SenderRole,
+    turn: TurnContext = {}
+  ): Promise<string> {
+    try {
+      const cleanFunctionName = this.cleanFunctionName(functionName);
 
-          const weekStartDate = reservationService.getWeekStartDate(args.week_offset);
-          const reservationDate = new Date(weekStartDate);
-          reservationDate.setDate(weekStartDate.getDate() + dayOffset);
+      if (!staffService.canUseTool(role, cleanFunctionName)) {
+        return `❌ Bu işlem için yetkiniz yok (${staffService.getRoleLabel(role)}).`;
+      }
 
-          const { startHour, endHour } = reservationService.parseTimeSlot(args.time_slot);
+      // Recorded in the reservation history with every change made below
+      const audit: AuditContext = { actor: userId, sourceMessage: turn.sourceMessage };
 
-          const startTime = reservationService.createReservationTime(reservationDate, startHour);
-          const endTime = reservationService.createReservationTime(reservationDate, endHour);
+      switch (cleanFunctionName) {
+        case 'create_reservation': {
+          const { startTime, endTime } = reservationService.parseSlot(args.date, args.time_slot);
 
           const phone = args.customer_phone.replace(/\s+/g, '');
 
+          const pitch = await pitchService.resolvePitch(tenantId, args.pitch);
+
           // Check for duplicate reservation
           const isDuplicate = await reservationService.checkDuplicateReservation(
             phone,
             startTime,
-            endTime
+            endTime,
+            undefined,
+            tenantId
           );
 
           if (isDuplicate) {
@@ -421,32 +1216,150 @@ Türkçe konuş, profesyonel+samimi ol.`,
               `❌ Rezervasyon oluşturulamadı.`;
           }
 
+          // Slot taken by someone else: suggest the nearest free alternatives
+          const conflicts = await reservationService.findConflictingReservations(pitch.id, startTime, endTime, tenantId);
+          if (conflicts.length > 0) {
+            const alternatives = await reservationService.findAlternativeSlots(startTime, endTime, tenantId, pitch.id);
+            if (alternatives.length > 0) {
+              turn.selection = this.buildSlotSelection(alternatives);
+            }
+
+            return `⚠️ ${pitch.name} ${startTime.toLocaleDateString('tr-TR')} ${args.time_slot} saatinde dolu ` +
+              `(${conflicts[0].customer_name}).\n\n` +
+              (alternatives.length > 0
+                ? `💡 En yakın boş alternatifler:\n${reservationService.formatFreeSlots(alternatives)}\n\n`
+                : '') +
+              `⏳ Müşteri isterse bekleme listesine eklenebilir (join_waitlist), saat boşalırsa haber verilir.\n\n` +
+              `❌ Rezervasyon oluşturulamadı.`;
+          }
+
           const reservation = await reservationService.createReservation({
             customerName: args.customer_name,
             customerPhone: phone,
+            pitchId: pitch.id,
             startTime,
             endTime,
             price: args.price,
             notes: args.notes,
-          }, tenantId);
+          }, tenantId, audit);
 
           return `✅ Rezervasyon oluşturuldu!\n\n` +
             `👤 Müşteri: ${reservation.customer_name}\n` +
             `📞 Telefon: ${reservation.phone_number}\n` +
+            `🏟️ Saha: ${reservation.pitch_name}\n` +
             `📅 Tarih: ${startTime.toLocaleDateString('tr-TR')}\n` +
             `⏰ Saat: ${args.time_slot}\n` +
-            `${args.price ? `💰 Fiyat: ${args.price} TL\n` : ''}` +
+            `${reservation.price ? `💰 Fiyat: ${reservation.price} TL\n` : ''}` +
             `${args.notes ? `📝 Not: ${args.notes}` : ''}`;
         }
 
+        case 'create_recurring_reservation': {
+          const firstSlot = reservationService.parseSlot(args.date, args.time_slot);
+          const endDate = args.end_date ? reservationService.parseDate(args.end_date) : undefined;
+
+          const pitch = await pitchService.resolvePitch(tenantId, args.pitch);
+
+          const result = await recurringReservationService.createSeries({
+            customerName: args.customer_name,
+            customerPhone: args.customer_phone.replace(/\s+/g, ''),
+            pitchId: pitch.id,
+            firstStartTime: firstSlot.startTime,
+            firstEndTime: firstSlot.endTime,
+            intervalWeeks: args.frequency === 'biweekly' ? 2 : 1,
+            endDate,
+            occurrences: args.occurrences,
+            price: args.price,
+            notes: args.notes,
+          }, tenantId, args.skip_conflicts === true, audit);
+
+          const formatConflicts = () => result.conflicts.map(conflict => {
+            const detail = conflict.conflictingReservations[0]?.customer_name || conflict.reason;
+            return `   • ${conflict.startTime.toLocaleDateString('tr-TR')}${detail ? ` (${detail})` : ''}`;
+          }).join('\n');
+
+          if (!result.series) {
+            return `⚠️ Abonelik oluşturulmadı, ${result.conflicts.length} hafta dolu:\n\n` +
+              `${formatConflicts()}\n\n` +
+              `💡 Bu haftaları atlayıp diğerlerini oluşturmak için kullanıcıdan onay al (skip_conflicts: true).`;
+          }
+
+          let message = `✅ Abonelik oluşturuldu! (🆔 Abonelik ID: ${result.series.id})\n\n` +
+            `👤 Müşteri: ${result.series.customer_name}\n` +
+            `📞 Telefon: ${result.series.phone_number}\n` +
+            `🏟️ Saha: ${result.series.pitch_name}\n` +
+            `🔁 ${recurringReservationService.formatSeriesSchedule(result.series)}\n` +
+            `📅 ${new Date(result.series.start_date).toLocaleDateString('tr-TR')} - ${new Date(result.series.end_date).toLocaleDateString('tr-TR')}\n` +
+            `✅ ${result.created.length} rezervasyon oluşturuldu\n` +
+            `${(args.price ?? result.created[0]?.price) ? `💰 Fiyat: ${args.price ?? result.created[0].price} TL / maç\n` : ''}`;
+
+          if (result.conflicts.length > 0) {
+            message += `\n⚠️ Uygun olmadığı için atlanan haftalar:\n${formatConflicts()}`;
+          }
+
+          return message;
+        }
+
+        case 'list_recurring_reservations': {
+          const seriesList = await recurringReservationService.listActiveSeries(tenantId, args.customer_name);
+
+          if (seriesList.length === 0) {
+            return '❌ Aktif abonelik bulunamadı.';
+          }
+
+          let message = `🔁 ${seriesList.length} aktif abonelik var:\n\n`;
+
+          seriesList.forEach((series, index) => {
+            message += `${index + 1}. 🆔 Abonelik ID: ${series.id}\n`;
+            message += `   👤 ${series.customer_name}\n`;
+            message += `   📞 ${series.phone_number}\n`;
+            message += `   🏟️ ${series.pitch_name}\n`;
+            message += `   ⏰ ${recurringReservationService.formatSeriesSchedule(series)}\n`;
+            message += `   📅 Bitiş: ${new Date(series.end_date).toLocaleDateString('tr-TR')} (${series.upcoming_count} maç kaldı)\n`;
+            message += '\n';
+          });
+
+          return message;
+        }
+
+        case 'cancel_recurring_occurrence': {
+          const reservation = await recurringReservationService.cancelOccurrence(args.series_id, args.week_offset, tenantId, audit);
+
+          const startTime = new Date(reservation.start_time);
+          const endTime = new Date(reservation.end_time);
+
+          return `✅ Aboneliğin bu haftaki maçı iptal edildi, abonelik devam ediyor.\n\n` +
+            `👤 Müşteri: ${reservation.customer_name}\n` +
+            `🏟️ Saha: ${reservation.pitch_name}\n` +
+            `📅 Tarih: ${startTime.toLocaleDateString('tr-TR')}\n` +
+            `⏰ Saat: ${startTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}-${endTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}`;
+        }
+
+        case 'cancel_recurring_series': {
+          const result = await recurringReservationService.cancelSeries(args.series_id, tenantId, audit);
+
+          return `✅ Abonelik iptal edildi!\n\n` +
+            `👤 Müşteri: ${result.series.customer_name}\n` +
+            `🔁 ${recurringReservationService.formatSeriesSchedule(result.series)}\n` +
+            `❌ ${result.cancelled.length} gelecek rezervasyon iptal edildi`;
+        }
+
         case 'show_week_table': {
-          const reservations = await reservationService.getReservationsByWeek(args.week_offset);
+          // One pitch if requested, otherwise all pitches side by side
+          const pitches = args.pitch
+            ? [await pitchService.resolvePitch(tenantId, args.pitch)]
+            : await pitchService.listPitches(tenantId);
+          const pitchId = args.pitch ? pitches[0].id : undefined;
+
+          const reservations = await reservationService.getReservationsByWeek(args.week_offset, tenantId, pitchId);
           const weekStartDate = reservationService.getWeekStartDate(args.week_offset);
+          const schedule = await scheduleService.getSettings(tenantId);
 
           const imageBuffer = await tableVisualizationService.generateWeekTableWithTitle(
             reservations,
             weekStartDate,
-            args.week_offset
+            args.week_offset,
+            pitches,
+            schedule
           );
 
           // Send image via WhatsApp
@@ -456,7 +1369,8 @@ Türkçe konuş, profesyonel+samimi ol.`,
         }
 
         case 'list_week_reservations': {
-          const reservations = await reservationService.getReservationsByWeek(args.week_offset);
+          const pitchId = args.pitch ? (await pitchService.resolvePitch(tenantId, args.pitch)).id : undefined;
+          const reservations = await reservationService.getReservationsByWeek(args.week_offset, tenantId, pitchId);
 
           if (reservations.length === 0) {
             return '❌ Bu hafta için rezervasyon bulunamadı.';
@@ -472,10 +1386,12 @@ Türkçe konuş, profesyonel+samimi ol.`,
             message += `${index + 1}. 🆔 ID: ${res.id}\n`;
             message += `   👤 ${res.customer_name}\n`;
             message += `   📞 ${res.phone_number}\n`;
+            if (res.pitch_name) message += `   🏟️ ${res.pitch_name}\n`;
             message += `   📅 ${dayName}, ${startTime.toLocaleDateString('tr-TR')}\n`;
             message += `   ⏰ ${startTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}-${endTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}\n`;
             if (res.price) message += `   💰 ${res.price} TL\n`;
             if (res.notes) message += `   📝 ${res.notes}\n`;
+            if (res.status !== 'active') message += `   ${reservationService.formatStatus(res.status)}\n`;
             message += '\n';
           });
 
@@ -484,14 +1400,327 @@ Türkçe konuş, profesyonel+samimi ol.`,
           return message;
         }
 
+        case 'find_free_slots': {
+          let startDate: Date;
+          let days = 7;
+
+          if (args.date) {
+            startDate = reservationService.parseDate(args.date);
+            days = 1;
+          } else {
+            startDate = reservationService.getWeekStartDate(args.week_offset || 0);
+          }
+
+          let fromHour: number | undefined;
+          let toHour: number | undefined;
+          if (args.time_range) {
+            ({ startHour: fromHour, endHour: toHour } = reservationService.parseTimeSlot(args.time_range));
+          }
+
+          const pitchId = args.pitch ? (await pitchService.resolvePitch(tenantId, args.pitch)).id : undefined;
+          const pitches = await pitchService.listPitches(tenantId);
+
+          const slots = await reservationService.findFreeSlots({
+            startDate,
+            days,
+            pitchId,
+            fromHour,
+            toHour,
+            minDurationMinutes: (args.min_duration_hours || 1) * 60,
+          }, tenantId);
+
+          if (slots.length === 0) {
+            return '❌ Bu aralıkta boş saat bulunamadı.';
+          }
+
+          turn.selection = this.buildSlotSelection(slots);
+
+          return `✅ Boş saatler:\n\n${reservationService.formatFreeSlots(slots, pitches.length > 1 && !pitchId)}`;
+        }
+
+        case 'list_pitches': {
+          const pitches = await pitchService.listPitches(tenantId);
+
+          if (pitches.length === 0) {
+            return '❌ Tanımlı saha bulunamadı.';
+          }
+
+          let message = `🏟️ ${pitches.length} saha var:\n\n`;
+          pitches.forEach((pitch, index) => {
+            message += `${index + 1}. ${pitch.name}\n`;
+          });
+
+          return message;
+        }
+
+        case 'get_schedule_settings': {
+          const settings = await scheduleService.getSettings(tenantId);
+          return scheduleService.formatSettingsMessage(settings);
+        }
+
+        case 'update_schedule_settings': {
+          let settings = await scheduleService.getSettings(tenantId);
+
+          if (args.day_of_week) {
+            const weekday = reservationService.parseDate(args.day_of_week).getDay();
+
+            if (args.closed === true) {
+              settings = await scheduleService.setDayHours(tenantId, weekday, null);
+            } else {
+              const current = settings.openingHours[weekday.toString()];
+              const open = args.open || current?.open;
+              const close = args.close || current?.close;
+
+              if (!open || !close) {
+                return '❌ Bu gün kapalı, açmak için açılış ve kapanış saatini belirtin.';
+              }
+
+              settings = await scheduleService.setDayHours(tenantId, weekday, { open, close });
+            }
+          }
+
+          if (args.closure_date) {
+            settings = await scheduleService.addClosedDate(tenantId, reservationService.parseDate(args.closure_date));
+          }
+
+          if (args.remove_closure_date) {
+            settings = await scheduleService.removeClosedDate(tenantId, reservationService.parseDate(args.remove_closure_date));
+          }
+
+          if (args.slot_minutes) {
+            settings = await scheduleService.updateSettings(tenantId, { slotMinutes: args.slot_minutes });
+          }
+
+          return `✅ Ayarlar güncellendi!\n\n${scheduleService.formatSettingsMessage(settings)}`;
+        }
+
+        case 'get_cancellation_policy': {
+          const policy = await cancellationPolicyService.getPolicy(tenantId);
+          return cancellationPolicyService.formatPolicyMessage(policy);
+        }
+
+        case 'update_cancellation_policy': {
+          const policy = await cancellationPolicyService.updatePolicy(tenantId, {
+            freeWindowHours: args.free_window_hours,
+            feePercent: args.fee_percent,
+            depositRefund: args.deposit_refund,
+          });
+
+          return `✅ İptal politikası güncellendi!\n\n${cancellationPolicyService.formatPolicyMessage(policy)}`;
+        }
+
+        case 'get_reminder_settings': {
+          const settings = await reminderService.getSettings(tenantId);
+          return reminderService.formatSettingsMessage(settings);
+        }
+
+        case 'update_reminder_settings': {
+          const settings = await reminderService.updateSettings(tenantId, {
+            enabled: args.enabled,
+            offsetsMinutes: Array.isArray(args.offsets_hours)
+              ? args.offsets_hours.map((hours: number) => hours * 60)
+              : undefined,
+          });
+
+          return `✅ Hatırlatma ayarları güncellendi!\n\n${reminderService.formatSettingsMessage(settings)}`;
+        }
+
+        case 'get_message_templates': {
+          const templates = await notificationService.getTemplates(tenantId);
+          return notificationService.formatTemplatesMessage(templates);
+        }
+
+        case 'update_message_template': {
+          const templates = await notificationService.updateTemplate(tenantId, args.notification_type, {
+            name: args.template_name,
+            language: args.language,
+            parameterFormat: args.parameter_format,
+          });
+
+          return `✅ Şablon güncellendi!\n\n${notificationService.formatTemplatesMessage(templates)}`;
+        }
+
+        case 'list_staff': {
+          const staff = await staffService.listStaff(tenantId);
+          return staffService.formatStaffMessage(staff, await staffService.getUnknownSenderMode(tenantId));
+        }
+
+        case 'add_staff': {
+          const member = await staffService.addStaff(
+            tenantId,
+            args.phone || this.whatsappClient.toLocalNumber(userId),
+            args.role || 'desk',
+            args.name
+          );
+          const staff = await staffService.listStaff(tenantId);
+
+          return `✅ ${member.name || member.phone_number} ${staffService.getRoleLabel(member.role)} olarak kaydedildi.\n\n` +
+            staffService.formatStaffMessage(staff, await staffService.getUnknownSenderMode(tenantId));
+        }
+
+        case 'remove_staff': {
+          const member = await staffService.removeStaff(tenantId, args.phone);
+          const staff = await staffService.listStaff(tenantId);
+
+          const mode = await staffService.getUnknownSenderMode(tenantId);
+
+          return `✅ ${member.name || member.phone_number} personel listesinden çıkarıldı.\n\n` +
+            staffService.formatStaffMessage(staff, mode);
+        }
+
+        case 'update_unknown_sender_mode': {
+          const mode = await staffService.setUnknownSenderMode(tenantId, args.mode);
+
+          return mode === 'refuse'
+            ? '✅ Kayıtlı olmayan numaralara artık hizmet verilmeyecek, kibarca reddedilecek.'
+            : '✅ Kayıtlı olmayan numaralar artık müşteri olarak karşılanacak (boş saat, rezervasyon, iptal).';
+        }
+
+        case 'get_price_list': {
+          if (args.time_slot) {
+            const { startTime, endTime } = reservationService.parseSlot(args.date || 'bugün', args.time_slot);
+            const pitch = await pitchService.resolvePitch(tenantId, args.pitch);
+            const quote = await pricingService.calculatePrice(tenantId, pitch.id, startTime, endTime);
+
+            if (!quote) {
+              return '❌ Bu saat için tanımlı fiyat yok. Fiyatı kullanıcıdan öğren.';
+            }
+
+            return `📅 ${startTime.toLocaleDateString('tr-TR', { weekday: 'long', day: 'numeric', month: 'long' })} ${args.time_slot}\n` +
+              `🏟️ ${pitch.name}\n` +
+              pricingService.formatQuote(quote);
+          }
+
+          const rules = await pricingService.listRules(tenantId);
+
+          if (rules.length === 0) {
+            return '❌ Henüz fiyat kuralı tanımlanmamış.';
+          }
+
+          return pricingService.formatPriceList(rules);
+        }
+
+        case 'add_price_rule': {
+          const timeRange = args.time_range ? turkishDateParser.parseTimeRange(args.time_range) : null;
+          if (args.time_range && !timeRange) {
+            return `❌ Saat aralığı anlaşılamadı: "${args.time_range}"`;
+          }
+
+          const weekdays = args.days ? turkishDateParser.parseWeekdays(args.days) : null;
+          const pitchId = args.pitch ? (await pitchService.resolvePitch(tenantId, args.pitch)).id : undefined;
+
+          const rule = await pricingService.addRule(tenantId, {
+            name: args.name,
+            hourlyPrice: args.hourly_price,
+            startMinutes: timeRange?.startMinutes,
+            endMinutes: timeRange?.endMinutes,
+            pitchId,
+            weekdays: weekdays || undefined,
+            minDurationMinutes: args.min_duration_hours ? args.min_duration_hours * 60 : undefined,
+            maxDurationMinutes: args.max_duration_hours ? args.max_duration_hours * 60 : undefined,
+            validFrom: args.period_start ? reservationService.parseDate(args.period_start) : undefined,
+            validTo: args.period_end ? reservationService.parseDate(args.period_end) : undefined,
+          });
+
+          return `✅ Fiyat kuralı eklendi! (🆔 ${rule.id})\n\n` +
+            pricingService.formatPriceList(await pricingService.listRules(tenantId));
+        }
+
+        case 'delete_price_rule': {
+          const rule = await pricingService.deleteRule(tenantId, args.rule_id);
+          return `✅ "${rule.name}" fiyat kuralı silindi.`;
+        }
+
+        case 'join_waitlist': {
+          const { startTime, endTime } = reservationService.parseSlot(args.date, args.time_slot);
+          const pitchId = args.pitch ? (await pitchService.resolvePitch(tenantId, args.pitch)).id : undefined;
+
+          const entry = await waitlistService.joinWaitlist({
+            customerName: args.customer_name,
+            customerPhone: args.customer_phone.replace(/\s+/g, ''),
+            pitchId,
+            windowStart: startTime,
+            windowEnd: endTime,
+            durationMinutes: args.duration_hours ? args.duration_hours * 60 : undefined,
+          }, tenantId);
+
+          return `✅ Bekleme listesine eklendi! (🆔 ${entry.id})\n\n` +
+            `👤 Müşteri: ${entry.customer_name}\n` +
+            `📞 Telefon: ${entry.phone_number}\n` +
+            `🏟️ Saha: ${entry.pitch_name || 'Herhangi bir saha'}\n` +
+            `📅 Tarih: ${startTime.toLocaleDateString('tr-TR')}\n` +
+            `⏰ Saat: ${args.time_slot} (${entry.duration_minutes} dk)\n\n` +
+            `📣 Saat boşalırsa müşteriye WhatsApp ile haber verilecek.`;
+        }
+
+        case 'list_waitlist': {
+          const entries = args.week_offset !== undefined
+            ? await waitlistService.listEntries(
+                tenantId,
+                reservationService.getWeekStartDate(args.week_offset),
+                reservationService.getWeekEndDate(args.week_offset)
+              )
+            : await waitlistService.listEntries(tenantId);
+
+          if (entries.length === 0) {
+            return '✅ Bekleme listesi boş.';
+          }
+
+          return waitlistService.formatEntriesMessage(entries);
+        }
+
+        case 'remove_from_waitlist': {
+          const entry = await waitlistService.removeEntry(args.entry_id, tenantId);
+          return `✅ ${entry.customer_name} bekleme listesinden çıkarıldı.`;
+        }
+
+        case 'record_payment': {
+          const { payment, summary } = await paymentService.recordPayment({
+            reservationId: args.reservation_id,
+            amount: args.amount,
+            method: paymentService.parseMethod(args.method),
+            type: args.type,
+            recordedBy: userId,
+            notes: args.notes,
+          }, tenantId);
+
+          return `✅ ${paymentService.getTypeLabel(payment.type)} kaydedildi: ${Number(payment.amount)} TL (${paymentService.getMethodLabel(payment.method)})\n\n` +
+            `🆔 Rezervasyon: ${summary.reservation.id} - ${summary.reservation.customer_name}\n` +
+            paymentService.formatSummary(summary);
+        }
+
+        case 'get_reservation_payments': {
+          const summary = await paymentService.getPaymentSummary(args.reservation_id, tenantId);
+
+          return `🆔 Rezervasyon: ${summary.reservation.id} - ${summary.reservation.customer_name}\n` +
+            `📅 ${new Date(summary.reservation.start_time).toLocaleDateString('tr-TR')}\n` +
+            paymentService.formatSummary(summary);
+        }
+
+        case 'list_unpaid_reservations': {
+          const reservations = args.week_offset !== undefined
+            ? await paymentService.listUnpaidReservations(
+                tenantId,
+                reservationService.getWeekStartDate(args.week_offset),
+                reservationService.getWeekEndDate(args.week_offset)
+              )
+            : await paymentService.listUnpaidReservations(tenantId);
+
+          if (reservations.length === 0) {
+            return '✅ Ödemesi eksik rezervasyon yok.';
+          }
+
+          return paymentService.formatUnpaidMessage(reservations);
+        }
+
         case 'get_sales_analytics': {
           let analytics;
           if (args.period === 'week') {
-            analytics = await analyticsService.getThisWeekAnalytics();
+            analytics = await analyticsService.getThisWeekAnalytics(tenantId);
           } else if (args.period === 'month') {
-            analytics = await analyticsService.getThisMonthAnalytics();
+            analytics = await analyticsService.getThisMonthAnalytics(tenantId);
           } else if (args.period === 'last_month') {
-            analytics = await analyticsService.getLastMonthAnalytics();
+            analytics = await analyticsService.getLastMonthAnalytics(tenantId);
           } else {
             return '❌ Geçersiz dönem. week, month veya last_month kullanın.';
           }
@@ -505,15 +1734,42 @@ Türkçe konuş, profesyonel+samimi ol.`,
         }
 
         case 'get_cancellation_customers': {
-          const customers = await analyticsService.getCustomersWithMostCancellations(args.limit || 10);
+          const customers = await analyticsService.getCustomersWithMostCancellations(args.limit || 10, tenantId);
           return analyticsService.formatCancellationCustomersMessage(customers);
         }
 
+        case 'get_no_show_customers': {
+          const customers = await analyticsService.getCustomersWithMostNoShows(args.limit || 10, tenantId);
+          return analyticsService.formatNoShowCustomersMessage(customers);
+        }
+
+        case 'undo_last_action': {
+          const results = await reservationService.undoLastAction(tenantId, audit);
+          return reservationService.formatUndoMessage(results);
+        }
+
+        case 'mark_no_show': {
+          const reservation = await reservationService.markNoShow(args.reservation_id, tenantId, audit);
+          const startTime = new Date(reservation.start_time);
+          const endTime = new Date(reservation.end_time);
+
+          return `🚫 Rezervasyon "gelmedi" olarak işaretlendi.\n\n` +
+            `👤 Müşteri: ${reservation.customer_name}\n` +
+            `📞 Telefon: ${reservation.phone_number}\n` +
+            `📅 Tarih: ${startTime.toLocaleDateString('tr-TR')}\n` +
+            `⏰ Saat: ${startTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}-${endTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}`;
+        }
+
         case 'find_reservations_by_name': {
-          const reservations = await reservationService.findReservationsByCustomerName(args.customer_name);
+          const reservations = await reservationService.findReservationsByCustomerName(args.customer_name, tenantId);
 
           if (reservations.length === 0) {
-            return `❌ "${args.customer_name}" adına aktif rezervasyon bulunamadı.`;
+            return `❌ "${args.customer_name}" adına rezervasyon bulunamadı.`;
+          }
+
+          const selectable = reservations.filter(res => res.status === 'active');
+          if (selectable.length > 1) {
+            turn.selection = this.buildReservationSelection(selectable);
           }
 
           let message = `📋 "${args.customer_name}" için bulunan rezervasyonlar:\n\n`;
@@ -525,9 +1781,11 @@ Türkçe konuş, profesyonel+samimi ol.`,
             message += `${index + 1}. *ID:* ${res.id}\n`;
             message += `   *Adı Soyadı:* ${res.customer_name}\n`;
             message += `   *Telefon:* ${res.phone_number}\n`;
+            if (res.pitch_name) message += `   *Saha:* ${res.pitch_name}\n`;
             message += `   *Tarih:* ${startTime.toLocaleDateString('tr-TR', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' })}\n`;
             message += `   *Saat:* ${startTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}-${endTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}\n`;
             if (res.price) message += `   *Fiyat:* ${res.price} TL\n`;
+            if (res.status !== 'active') message += `   *Durum:* ${reservationService.formatStatus(res.status)}\n`;
             message += '\n';
           });
 
@@ -535,7 +1793,10 @@ Türkçe konuş, profesyonel+samimi ol.`,
         }
 
         case 'cancel_reservation': {
-          const reservation = await reservationService.cancelReservation(args.reservation_id);
+          const reservation = await reservationService.cancelReservation(args.reservation_id, tenantId, {
+            ...audit,
+            waiveFee: args.waive_fee === true,
+          });
 
           const startTime = new Date(reservation.start_time);
           const endTime = new Date(reservation.end_time);
@@ -543,13 +1804,19 @@ Türkçe konuş, profesyonel+samimi ol.`,
           return `✅ Rezervasyon iptal edildi!\n\n` +
             `👤 Müşteri: ${reservation.customer_name}\n` +
             `📞 Telefon: ${reservation.phone_number}\n` +
+            `🏟️ Saha: ${reservation.pitch_name}\n` +
             `📅 Tarih: ${startTime.toLocaleDateString('tr-TR')}\n` +
             `⏰ Saat: ${startTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}-${endTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}\n` +
-            `${reservation.price ? `💰 Fiyat: ${reservation.price} TL\n` : ''}`;
+            `${reservation.price ? `💰 Fiyat: ${reservation.price} TL\n` : ''}` +
+            `${reservation.cancellation_charge ? `\n${cancellationPolicyService.formatChargeMessage(reservation.cancellation_charge)}\n` : ''}` +
+            `${reservation.waitlist_offered_to ? `\n📣 Boşalan saat bekleme listesindeki ${reservation.waitlist_offered_to}'a teklif edildi.` : ''}`;
         }
 
         case 'cancel_all_week_reservations': {
-          const result = await reservationService.cancelAllWeekReservations(args.week_offset);
+          const result = await reservationService.cancelAllWeekReservations(args.week_offset, tenantId, {
+            ...audit,
+            waiveFee: args.waive_fee === true,
+          });
 
           if (result.cancelled === 0) {
             return '❌ Bu hafta için iptal edilecek rezervasyon bulunamadı.';
@@ -559,9 +1826,16 @@ Türkçe konuş, profesyonel+samimi ol.`,
 
           result.reservations.forEach((res, index) => {
             const startTime = new Date(res.start_time);
-            message += `${index + 1}. ${res.customer_name} - ${startTime.toLocaleDateString('tr-TR')} ${startTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}\n`;
+            const balance = res.cancellation_charge?.balance || 0;
+            message += `${index + 1}. ${res.customer_name} - ${startTime.toLocaleDateString('tr-TR')} ${startTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}` +
+              `${balance > 0 ? ` (💸 ${balance} TL borç)` : balance < 0 ? ` (↩️ ${-balance} TL iade)` : ''}\n`;
           });
 
+          const totalOwed = result.reservations.reduce((sum, res) => sum + Math.max(res.cancellation_charge?.balance || 0, 0), 0);
+          if (totalOwed > 0) {
+            message += `\n💸 Toplam iptal ücreti alacağı: ${Math.round(totalOwed * 100) / 100} TL`;
+          }
+
           return message;
         }
 
@@ -582,7 +1856,9 @@ Türkçe konuş, profesyonel+samimi ol.`,
           const reservation = await reservationService.updateCustomerInfo(
             args.reservation_id,
             args.new_name,
-            args.new_phone
+            args.new_phone,
+            tenantId,
+            audit
           );
 
           const startTime = new Date(reservation.start_time);
@@ -600,32 +1876,37 @@ Türkçe konuş, profesyonel+samimi ol.`,
           let newStartTime: Date | undefined;
           let newEndTime: Date | undefined;
 
-          if (args.time_slot && args.day_of_week !== undefined && args.week_offset !== undefined) {
-            const dayMap: { [key: string]: number } = {
-              'pazartesi': 0, 'salı': 1, 'çarşamba': 2, 'perşembe': 3,
-              'cuma': 4, 'cumartesi': 5, 'pazar': 6
-            };
-
-            const dayOffset = dayMap[args.day_of_week.toLowerCase()];
-            if (dayOffset === undefined) {
-              return '❌ Geçersiz gün. Lütfen pazartesi-pazar arası bir gün belirtin.';
+          if (args.date || args.time_slot) {
+            const current = await reservationService.getReservationById(args.reservation_id, tenantId);
+            const currentStart = new Date(current.start_time);
+            const currentEnd = new Date(current.end_time);
+
+            // Keep the current business day or time range when only one of them changes
+            const reservationDate = args.date
+              ? reservationService.parseDate(args.date)
+              : turkishDateParser.getBusinessDay(currentStart);
+
+            if (args.time_slot) {
+              const { startHour, endHour } = reservationService.parseTimeSlot(args.time_slot);
+              newStartTime = reservationService.createReservationTime(reservationDate, startHour);
+              newEndTime = reservationService.createReservationTime(reservationDate, endHour);
+            } else {
+              const dayShiftMs = reservationDate.getTime() - turkishDateParser.getBusinessDay(currentStart).getTime();
+              newStartTime = new Date(currentStart.getTime() + dayShiftMs);
+              newEndTime = new Date(currentEnd.getTime() + dayShiftMs);
             }
-
-            const weekStartDate = reservationService.getWeekStartDate(args.week_offset);
-            const reservationDate = new Date(weekStartDate);
-            reservationDate.setDate(weekStartDate.getDate() + dayOffset);
-
-            const { startHour, endHour } = reservationService.parseTimeSlot(args.time_slot);
-
-            newStartTime = reservationService.createReservationTime(reservationDate, startHour);
-            newEndTime = reservationService.createReservationTime(reservationDate, endHour);
           }
 
+          const newPitchId = args.pitch ? (await pitchService.resolvePitch(tenantId, args.pitch)).id : undefined;
+
           const reservation = await reservationService.updateReservationTime(
             args.reservation_id,
             newStartTime,
             newEndTime,
-            args.price
+            args.price,
+            newPitchId,
+            tenantId,
+            audit
           );
 
           const startTime = new Date(reservation.start_time);
@@ -634,6 +1915,7 @@ Türkçe konuş, profesyonel+samimi ol.`,
           return `✅ Rezervasyon güncellendi!\n\n` +
             `👤 Müşteri: ${reservation.customer_name}\n` +
             `📞 Telefon: ${reservation.phone_number}\n` +
+            `🏟️ Saha: ${reservation.pitch_name}\n` +
             `📅 Yeni Tarih: ${startTime.toLocaleDateString('tr-TR')}\n` +
             `⏰ Yeni Saat: ${startTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}-${endTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}\n` +
             `${reservation.price ? `💰 Fiyat: ${reservation.price} TL` : ''}`;
@@ -648,4 +1930,135 @@ Türkçe konuş, profesyonel+samimi ol.`,
     }
   }
 
+  /**
+   * Tools for customers writing to the business number. Everything is scoped to the sender's
+   * own WhatsApp number; anything else is refused.
+   */
+  private async executeCustomerFunction(
+    functionName: string,
+    args: any,
+    userId: string,
+    tenantId: number,
+    turn: TurnContext = {}
+  ): Promise<string> {
+    try {
+      const cleanFunctionName = this.cleanFunctionName(functionName);
+
+      // Shared read-only tools run as for staff; the permission matrix refuses everything else
+      if (this.tools.some(tool => tool.name === cleanFunctionName)) {
+        return await this.executeFunction(cleanFunctionName, args, userId, tenantId, 'customer', turn);
+      }
+
+      const audit: AuditContext = { actor: userId, sourceMessage: turn.sourceMessage };
+
+      const customer = await reservationService.findCustomerByWhatsAppNumber(userId, tenantId);
+      const customerPhone = customer?.phone_number || this.whatsappClient.toLocalNumber(userId);
+
+      switch (cleanFunctionName) {
+        case 'book_reservation': {
+          const customerName = args.customer_name || customer?.name;
+          if (!customerName) {
+            return '❌ Rezervasyon için müşterinin adı gerekli, adını sor.';
+          }
+
+          const { startTime, endTime } = reservationService.parseSlot(args.date, args.time_slot);
+          if (startTime <= new Date()) {
+            return '❌ Geçmiş bir saate rezervasyon yapılamaz.';
+          }
+
+          const pitch = await pitchService.resolvePitch(tenantId, args.pitch);
+
+          const isDuplicate = await reservationService.checkDuplicateReservation(customerPhone, startTime, endTime, undefined, tenantId);
+          if (isDuplicate) {
+            return '⚠️ Bu saatte zaten bir rezervasyonunuz var.';
+          }
+
+          // Other customers' names are never shown to a customer
+          const conflicts = await reservationService.findConflictingReservations(pitch.id, startTime, endTime, tenantId);
+          if (conflicts.length > 0) {
+            const alternatives = await reservationService.findAlternativeSlots(startTime, endTime, tenantId, pitch.id);
+            if (alternatives.length > 0) {
+              turn.selection = this.buildSlotSelection(alternatives);
+            }
+
+            return `⚠️ ${pitch.name} ${startTime.toLocaleDateString('tr-TR')} ${args.time_slot} saatinde dolu.\n\n` +
+              (alternatives.length > 0
+                ? `💡 En yakın boş saatler:\n${reservationService.formatFreeSlots(alternatives)}\n\n`
+                : '') +
+              `❌ Rezervasyon oluşturulamadı.`;
+          }
+
+          const reservation = await reservationService.createReservation({
+            customerName,
+            customerPhone,
+            pitchId: pitch.id,
+            startTime,
+            endTime,
+            notes: 'Müşteri WhatsApp üzerinden oluşturdu',
+          }, tenantId, audit);
+
+          return `✅ Rezervasyonunuz oluşturuldu!\n\n` +
+            `🆔 ID: ${reservation.id}\n` +
+            `👤 ${reservation.customer_name}\n` +
+            `🏟️ Saha: ${reservation.pitch_name}\n` +
+            `📅 Tarih: ${startTime.toLocaleDateString('tr-TR')}\n` +
+            `⏰ Saat: ${startTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}-${endTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}\n` +
+            `${reservation.price ? `💰 Fiyat: ${reservation.price} TL` : ''}`;
+        }
+
+        case 'list_my_reservations': {
+          const reservations = await reservationService.getUpcomingReservationsByPhone(customerPhone, tenantId);
+
+          if (reservations.length === 0) {
+            return '📭 Yaklaşan rezervasyonunuz yok.';
+          }
+
+          if (reservations.length > 1) {
+            turn.selection = this.buildReservationSelection(reservations);
+          }
+
+          let message = `📋 ${reservations.length} yaklaşan rezervasyonunuz var:\n\n`;
+          reservations.forEach((res, index) => {
+            const startTime = new Date(res.start_time);
+            const endTime = new Date(res.end_time);
+            message += `${index + 1}. 🆔 ID: ${res.id} - ${res.pitch_name}\n`;
+            message += `   📅 ${startTime.toLocaleDateString('tr-TR', { weekday: 'long', day: 'numeric', month: 'long' })} ` +
+              `${startTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}-${endTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}\n`;
+            if (res.price) {
+              message += `   💰 ${res.price} TL\n`;
+            }
+            message += '\n';
+          });
+
+          return message.trimEnd();
+        }
+
+        case 'cancel_my_reservation': {
+          const existing = await reservationService.getReservationById(args.reservation_id, tenantId);
+
+          // Someone else's reservation looks the same as a missing one
+          if (!reservationService.isSamePhoneNumber(existing.phone_number, userId)) {
+            return '❌ Hata: Rezervasyon bulunamadı';
+          }
+
+          const reservation = await reservationService.cancelReservation(existing.id, tenantId, audit);
+          const startTime = new Date(reservation.start_time);
+          const balance = reservation.cancellation_charge?.balance || 0;
+
+          return `✅ Rezervasyonunuz iptal edildi.\n\n` +
+            `🏟️ ${reservation.pitch_name}\n` +
+            `📅 ${startTime.toLocaleDateString('tr-TR')} ${startTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}` +
+            `${balance > 0 ? `\n\n💸 İptal politikası gereği ${balance} TL iptal ücreti uygulanmıştır.` : ''}` +
+            `${balance < 0 ? `\n\n↩️ ${-balance} TL iadeniz işletme tarafından yapılacaktır.` : ''}`;
+        }
+
+        default:
+          return '❌ Bu işlem için yetkiniz yok. Lütfen işletmeyle iletişime geçin.';
+      }
+    } catch (error: any) {
+      console.error(`Error executing customer function ${functionName}:`, error);
+      return `❌ Hata: ${error.message || 'Fonksiyon çalıştırılamadı'}`;
+    }
+  }
+
 }
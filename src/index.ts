@@ -5,146 +5,48 @@ import { FieldAgent } from './fieldAgent';
 import { AudioService } from './audioService';
 import { runMigration } from './database/migrate';
 import { db } from './database/db';
-import { tenantService } from './services/tenantService';
+import { messageQueueService } from './services/messageQueueService';
+import { startScheduledJobs } from './scheduler';
+import { jsonWithRawBody, webhookRouter } from './webhook';
+import { MessageHandler } from './messageHandler';
 
 const app = express();
-app.use(express.json());
+app.use(jsonWithRawBody);
+app.use(webhookRouter);
+
+if (!config.whatsapp.appSecret && !config.whatsapp.skipSignatureCheck) {
+  console.warn('⚠️ WHATSAPP_APP_SECRET is not set, all webhook messages will be rejected');
+}
 
 const whatsappClient = new WhatsAppClient();
 const fieldAgent = new FieldAgent(whatsappClient);
 const audioService = new AudioService();
+const messageHandler = new MessageHandler(whatsappClient, fieldAgent, audioService);
 
-// Run database migration on startup
+// Run database migration on startup, then start background jobs that depend on the schema
 runMigration()
-  .then(() => console.log('✅ Database is ready'))
+  .then(() => {
+    console.log('✅ Database is ready');
+    startScheduledJobs();
+    messageQueueService.start(job => messageHandler.handle(job));
+  })
   .catch((err) => console.error('❌ Database migration failed:', err));
 
-// Webhook verification endpoint (GET)
-app.get('/webhook', (req: Request, res: Response) => {
-  const mode = req.query['hub.mode'];
-  const token = req.query['hub.verify_token'];
-  const challenge = req.query['hub.challenge'];
-
-  if (mode === 'subscribe' && token === config.whatsapp.verifyToken) {
-    console.log('Webhook verified successfully');
-    res.status(200).send(challenge);
-  } else {
-    console.log('Webhook verification failed');
-    res.sendStatus(403);
-  }
+// Health check endpoint
+app.get('/health', (req: Request, res: Response) => {
+  res.status(200).json({ status: 'ok' });
 });
 
-// Webhook endpoint to receive messages (POST)
-app.post('/webhook', async (req: Request, res: Response) => {
+// Message queue backlog by status. Counts only: the jobs hold customer numbers and messages
+app.get('/message-queue', async (req: Request, res: Response) => {
   try {
-    const body = req.body;
-
-    // Check if it's a WhatsApp message
-    if (body.object === 'whatsapp_business_account') {
-      // Process each entry
-      for (const entry of body.entry || []) {
-        for (const change of entry.changes || []) {
-          if (change.field === 'messages') {
-            const value = change.value;
-
-            // Extract tenant information (business WhatsApp phone number)
-            const businessPhoneNumber = value.metadata?.phone_number_id || value.metadata?.display_phone_number || config.whatsapp.phoneNumberId;
-
-            // Get or create tenant for this WhatsApp business number
-            const tenantId = await tenantService.getOrCreateTenant(businessPhoneNumber);
-
-            // Process messages
-            if (value.messages && value.messages.length > 0) {
-              for (const message of value.messages) {
-                const from = message.from; // Sender's phone number
-                const messageId = message.id;
-                const messageType = message.type;
-
-                // Check if message was already processed (deduplication)
-                if (processedMessages.has(messageId)) {
-                  console.log(`Skipping duplicate message: ${messageId}`);
-                  continue;
-                }
-
-                // Add to processed messages cache
-                processedMessages.add(messageId);
-
-                // Mark message as read
-                await whatsappClient.markAsRead(messageId);
-
-                let messageText = '';
-
-                // Process text messages
-                if (messageType === 'text') {
-                  messageText = message.text.body;
-                  console.log(`Received text from ${from}: ${messageText}`);
-                }
-                // Process voice/audio messages
-                else if (messageType === 'audio' || messageType === 'voice') {
-                  const mediaId = message.audio?.id || message.voice?.id;
-
-                  if (mediaId) {
-                    console.log(`Received voice message from ${from}, media ID: ${mediaId}`);
-
-                    try {
-                      // Send "typing" indicator
-                      await whatsappClient.sendMessage(from, '🎤 Ses kaydınızı dinliyorum...');
-
-                      // Transcribe audio
-                      messageText = await audioService.processVoiceMessage(mediaId);
-                      console.log(`Transcribed text from ${from}: ${messageText}`);
-
-                      if (!messageText || messageText.trim() === '') {
-                        await whatsappClient.sendMessage(from, 'Üzgünüm, ses kaydınızı anlayamadım. Lütfen tekrar deneyin veya yazılı mesaj gönderin.');
-                        continue;
-                      }
-                    } catch (error) {
-                      console.error('Error processing voice message:', error);
-                      await whatsappClient.sendMessage(from, 'Ses kaydınızı işlerken bir hata oluştu. Lütfen tekrar deneyin.');
-                      continue;
-                    }
-                  } else {
-                    console.log(`Voice message from ${from} has no media ID`);
-                    continue;
-                  }
-                }
-                // Ignore other message types
-                else {
-                  console.log(`Ignoring message type: ${messageType} from ${from}`);
-                  continue;
-                }
-
-                // Get Field Agent response for the text (either from text message or transcribed audio)
-                if (messageText && messageText.trim() !== '') {
-                  const agentResponse = await fieldAgent.processMessage(from, messageText, tenantId);
-                  await whatsappClient.sendMessage(from, agentResponse);
-                }
-              }
-            }
-
-            // Handle message status updates (optional)
-            if (value.statuses && value.statuses.length > 0) {
-              console.log('Message status update:', value.statuses);
-            }
-          }
-        }
-      }
-
-      res.sendStatus(200);
-    } else {
-      res.sendStatus(404);
-    }
+    res.status(200).json(await messageQueueService.getStats());
   } catch (error) {
-    console.error('Error processing webhook:', error);
-    res.sendStatus(500);
+    console.error('Error fetching message queue stats:', error);
+    res.status(500).json({ error: 'Failed to fetch message queue statistics' });
   }
 });
 
-// Health check endpoint
-app.get('/health', (req: Request, res: Response) => {
-  res.status(200).json({ status: 'ok' });
-});
-
 // Token usage analytics endpoint
 app.get('/token-usage', async (req: Request, res: Response) => {
   try {
@@ -209,15 +111,6 @@ app.get('/token-usage', async (req: Request, res: Response) => {
 });
 
 // Start server
-// Message deduplication cache (stores message IDs for 5 minutes)
-const processedMessages = new Set<string>();
-const MESSAGE_CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
-
-// Clean up old message IDs every minute
-setInterval(() => {
-  processedMessages.clear();
-}, MESSAGE_CACHE_DURATION);
-
 const PORT = config.server.port;
 app.listen(PORT, () => {
   console.log(`⚽ WhatsApp Football Field Reservation Bot is running on port ${PORT}`);
@@ -0,0 +1,137 @@
+import { WhatsAppClient } from './whatsappClient';
+import { FieldAgent } from './fieldAgent';
+import { AudioService } from './audioService';
+import { waitlistService } from './services/waitlistService';
+import { reminderService } from './services/reminderService';
+import { MessageJob } from './services/messageQueueService';
+
+/**
+ * Processes one queued WhatsApp message: transcribes voice notes, resolves button and list
+ * replies, answers reminder and waitlist replies, and hands everything else to the agent.
+ * Throwing makes the queue retry the message.
+ */
+export class MessageHandler {
+  constructor(
+    private whatsappClient: WhatsAppClient,
+    private fieldAgent: FieldAgent,
+    private audioService: AudioService
+  ) {}
+
+  async handle(job: MessageJob): Promise<void> {
+    const message = job.payload;
+    const tenantId = job.tenant_id;
+    const from = message.from; // Sender's phone number
+    const messageType = message.type;
+
+    // Mark message as read
+    await this.whatsappClient.markAsRead(message.id);
+
+    let messageText = '';
+
+    // Process text messages
+    if (messageType === 'text') {
+      messageText = message.text.body;
+      console.log(`Received text from ${from}: ${messageText}`);
+    }
+    // Process voice/audio messages
+    else if (messageType === 'audio' || messageType === 'voice') {
+      const mediaId = message.audio?.id || message.voice?.id;
+
+      if (mediaId) {
+        console.log(`Received voice message from ${from}, media ID: ${mediaId}`);
+
+        try {
+          // Send "typing" indicator
+          await this.whatsappClient.sendMessage(from, '🎤 Ses kaydınızı dinliyorum...');
+
+          // Transcribe audio
+          messageText = await this.audioService.processVoiceMessage(mediaId);
+          console.log(`Transcribed text from ${from}: ${messageText}`);
+
+          if (!messageText || messageText.trim() === '') {
+            await this.whatsappClient.sendMessage(from, 'Üzgünüm, ses kaydınızı anlayamadım. Lütfen tekrar deneyin veya yazılı mesaj gönderin.');
+            return;
+          }
+        } catch (error) {
+          console.error('Error processing voice message:', error);
+          await this.whatsappClient.sendMessage(from, 'Ses kaydınızı işlerken bir hata oluştu. Lütfen tekrar deneyin.');
+          return;
+        }
+      } else {
+        console.log(`Voice message from ${from} has no media ID`);
+        return;
+      }
+    }
+    // Tapped reply buttons and list rows come back with the id we gave them
+    else if (messageType === 'interactive') {
+      const reply = this.whatsappClient.parseInteractiveReply(message);
+
+      if (!reply) {
+        console.log(`Ignoring interactive message type: ${message.interactive?.type} from ${from}`);
+        return;
+      }
+
+      console.log(`Received interactive reply from ${from}: ${reply.id}`);
+      messageText = await this.fieldAgent.describeInteractiveReply(reply, tenantId);
+    }
+    // Quick reply buttons of a template message ("Geliyoruz" / "İptal" under a reminder)
+    else if (messageType === 'button') {
+      messageText = message.button?.text || message.button?.payload || '';
+      console.log(`Received template button reply from ${from}: ${messageText}`);
+    }
+    // Ignore other message types
+    else {
+      console.log(`Ignoring message type: ${messageType} from ${from}`);
+      return;
+    }
+
+    if (!messageText || messageText.trim() === '') {
+      return;
+    }
+
+    // Customers answering a reminder ("geliyoruz"/"iptal") or a waitlist offer ("evet"/"hayır")
+    // are handled before the agent
+    await reminderService.recordInboundMessage(tenantId, from);
+
+    const reminderReply = await reminderService.handleReply(from, messageText, tenantId);
+    if (reminderReply?.buttons) {
+      try {
+        await this.whatsappClient.sendButtons(from, reminderReply.text, reminderReply.buttons);
+      } catch (error) {
+        // Buttons are a convenience, the typed "evet"/"hayır" works too
+        await this.sendReply(from, reminderReply.text);
+      }
+      return;
+    }
+    if (reminderReply) {
+      await this.sendReply(from, reminderReply.text);
+      return;
+    }
+
+    const waitlistReply = await waitlistService.handleReply(from, messageText, tenantId);
+    if (waitlistReply) {
+      await this.sendReply(from, waitlistReply);
+      return;
+    }
+
+    // Get Field Agent response for the text (either from text message or transcribed audio)
+    const agentResponse = await this.fieldAgent.processMessage(from, messageText, tenantId);
+
+    // Empty when the agent already replied itself (e.g. with confirmation buttons)
+    if (agentResponse) {
+      await this.sendReply(from, agentResponse);
+    }
+  }
+
+  /**
+   * The request has been carried out by now, so a failed reply is logged instead of retried:
+   * a retry would run the request a second time
+   */
+  private async sendReply(to: string, text: string): Promise<void> {
+    try {
+      await this.whatsappClient.sendMessage(to, text);
+    } catch (error) {
+      console.error(`Error sending reply to ${to}:`, error);
+    }
+  }
+}
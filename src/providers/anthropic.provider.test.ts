@@ -0,0 +1,138 @@
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { AnthropicProvider } from './anthropic.provider';
+import { createFakeAnthropicApi, FakeAnthropicApi } from '../fake-anthropic-api';
+import { Message, ToolDefinition } from './types';
+
+const TOOLS: ToolDefinition[] = [{
+  name: 'check_availability',
+  description: 'Bir gün için boş saatleri listeler',
+  parameters: {
+    type: 'object',
+    properties: { date: { type: 'string' }, pitch_id: { type: 'number' } },
+    required: ['date'],
+  },
+}];
+
+describe('AnthropicProvider against the fake Messages API', () => {
+  let fake: FakeAnthropicApi;
+  let server: Server;
+  let provider: AnthropicProvider;
+
+  beforeAll(async () => {
+    fake = createFakeAnthropicApi();
+    server = fake.app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    provider = new AnthropicProvider('fake-key', 'claude-test', `http://127.0.0.1:${(server.address() as AddressInfo).port}/`);
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    fake.requests.length = 0;
+    fake.responses.length = 0;
+    // The fake logs every request it receives
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sends tools and the system prompt, and turns tool_use blocks into tool calls', async () => {
+    fake.responses.push({
+      content: [
+        { type: 'text', text: 'Bakıyorum.' },
+        { type: 'tool_use', name: 'check_availability', input: { date: '2025-11-14', pitch_id: 2 } },
+      ],
+    });
+
+    const response = await provider.createCompletion([
+      { role: 'system', content: 'Halı saha asistanısın.' },
+      { role: 'system', content: 'Bugün 13.11.2025.' },
+      { role: 'user', content: 'yarın 2. sahada boş saat var mı?' },
+    ], TOOLS, 512);
+
+    const [request] = fake.requests;
+    expect(request).toMatchObject({
+      model: 'claude-test',
+      max_tokens: 512,
+      system: 'Halı saha asistanısın.\n\nBugün 13.11.2025.',
+      messages: [{ role: 'user', content: [{ type: 'text', text: 'yarın 2. sahada boş saat var mı?' }] }],
+      tools: [{ name: 'check_availability', description: TOOLS[0].description, input_schema: TOOLS[0].parameters }],
+      tool_choice: { type: 'auto' },
+    });
+
+    expect(response.message.content).toBe('Bakıyorum.');
+    expect(response.message.tool_calls).toEqual([{
+      id: expect.stringMatching(/^toolu_fake_/),
+      type: 'function',
+      function: { name: 'check_availability', arguments: JSON.stringify({ date: '2025-11-14', pitch_id: 2 }) },
+    }]);
+    expect(response.model).toBe('claude-test');
+    expect(response.usage!.total_tokens).toBe(response.usage!.prompt_tokens + response.usage!.completion_tokens);
+  });
+
+  it('sends a plain answer without tool calls or tools', async () => {
+    const response = await provider.createCompletion([{ role: 'user', content: 'merhaba' }], [], 100);
+
+    expect(fake.requests[0].tools).toBeUndefined();
+    expect(fake.requests[0].system).toBeUndefined();
+    expect(response.message).toEqual({ role: 'assistant', content: 'Tamam.' });
+  });
+
+  it('replays parallel tool calls and their results as alternating tool_use and tool_result turns', async () => {
+    const history: Message[] = [
+      { role: 'system', content: 'Halı saha asistanısın.' },
+      { role: 'user', content: 'yarın 1. ve 2. sahada boş saat var mı?' },
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [
+          { id: 'toolu_a', type: 'function', function: { name: 'check_availability', arguments: '{"date":"2025-11-14","pitch_id":1}' } },
+          { id: 'toolu_b', type: 'function', function: { name: 'check_availability', arguments: '{"date":"2025-11-14","pitch_id":2}' } },
+        ],
+      },
+      { role: 'tool', tool_call_id: 'toolu_a', content: '{"free":["20:00"]}' },
+      { role: 'tool', tool_call_id: 'toolu_b', content: '{"free":[]}' },
+    ];
+
+    const response = await provider.createCompletion(history, TOOLS, 512);
+
+    expect(fake.requests[0].messages).toEqual([
+      { role: 'user', content: [{ type: 'text', text: 'yarın 1. ve 2. sahada boş saat var mı?' }] },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'tool_use', id: 'toolu_a', name: 'check_availability', input: { date: '2025-11-14', pitch_id: 1 } },
+          { type: 'tool_use', id: 'toolu_b', name: 'check_availability', input: { date: '2025-11-14', pitch_id: 2 } },
+        ],
+      },
+      {
+        role: 'user',
+        content: [
+          { type: 'tool_result', tool_use_id: 'toolu_a', content: '{"free":["20:00"]}' },
+          { type: 'tool_result', tool_use_id: 'toolu_b', content: '{"free":[]}' },
+        ],
+      },
+    ]);
+    expect(response.message.content).toBe('Tamam.');
+  });
+
+  it('fails when a tool call is left without its result', async () => {
+    await expect(provider.createCompletion([
+      { role: 'user', content: 'yarın boş saat var mı?' },
+      {
+        role: 'assistant',
+        content: 'Bakıyorum.',
+        tool_calls: [{ id: 'toolu_a', type: 'function', function: { name: 'check_availability', arguments: '{"date":"2025-11-14"}' } }],
+      },
+      { role: 'user', content: 'hala bekliyorum' },
+    ], TOOLS, 512)).rejects.toMatchObject({
+      response: { status: 400, data: { error: { message: expect.stringContaining('without a tool_result') } } },
+    });
+    expect(fake.requests).toHaveLength(0);
+  });
+});
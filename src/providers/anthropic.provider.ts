@@ -0,0 +1,154 @@
+import axios from 'axios';
+import { LLMProvider, Message, ToolDefinition, CompletionResponse, ToolCall } from './types';
+
+type AnthropicBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: any }
+  | { type: 'tool_result'; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: AnthropicBlock[];
+}
+
+/**
+ * Claude through the Anthropic Messages API. Tool calls travel as tool_use blocks in assistant
+ * turns and their results as tool_result blocks in the following user turn.
+ */
+export class AnthropicProvider implements LLMProvider {
+  private apiKey: string;
+  private model: string;
+  private baseUrl: string;
+
+  private readonly API_VERSION = '2023-06-01';
+
+  // baseUrl can point at a local stub (npm run fake:anthropic)
+  constructor(apiKey: string, model: string, baseUrl: string = 'https://api.anthropic.com') {
+    this.apiKey = apiKey;
+    this.model = model;
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  async createCompletion(
+    messages: Message[],
+    tools: ToolDefinition[],
+    maxTokens: number
+  ): Promise<CompletionResponse> {
+    const system = messages
+      .filter(msg => msg.role === 'system')
+      .map(msg => msg.content)
+      .join('\n\n');
+
+    const response = await axios.post(
+      `${this.baseUrl}/v1/messages`,
+      {
+        model: this.model,
+        max_tokens: maxTokens,
+        ...(system ? { system } : {}),
+        messages: this.toAnthropicMessages(messages),
+        ...(tools.length > 0 ? {
+          tools: tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: tool.parameters,
+          })),
+          tool_choice: { type: 'auto' },
+        } : {}),
+      },
+      {
+        headers: {
+          'x-api-key': this.apiKey,
+          'anthropic-version': this.API_VERSION,
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+
+    const data = response.data;
+    const blocks: any[] = data.content || [];
+
+    const genericMessage: Message = {
+      role: 'assistant',
+      content: blocks
+        .filter(block => block.type === 'text')
+        .map(block => block.text)
+        .join(''),
+    };
+
+    const toolCalls: ToolCall[] = blocks
+      .filter(block => block.type === 'tool_use')
+      .map(block => ({
+        id: block.id,
+        type: 'function',
+        function: {
+          name: block.name,
+          arguments: JSON.stringify(block.input || {}),
+        },
+      }));
+
+    if (toolCalls.length > 0) {
+      genericMessage.tool_calls = toolCalls;
+    }
+
+    return {
+      message: genericMessage,
+      model: data.model || this.model,
+      usage: data.usage ? {
+        prompt_tokens: data.usage.input_tokens || 0,
+        completion_tokens: data.usage.output_tokens || 0,
+        total_tokens: (data.usage.input_tokens || 0) + (data.usage.output_tokens || 0),
+      } : undefined,
+    };
+  }
+
+  /**
+   * The API wants user and assistant turns to alternate, so consecutive messages of the same
+   * role (e.g. the results of parallel tool calls) are merged into one turn
+   */
+  private toAnthropicMessages(messages: Message[]): AnthropicMessage[] {
+    const converted: AnthropicMessage[] = [];
+
+    const append = (role: 'user' | 'assistant', blocks: AnthropicBlock[]) => {
+      if (blocks.length === 0) {
+        return;
+      }
+
+      const last = converted[converted.length - 1];
+      if (last && last.role === role) {
+        last.content.push(...blocks);
+      } else {
+        converted.push({ role, content: blocks });
+      }
+    };
+
+    for (const msg of messages) {
+      if (msg.role === 'system') {
+        continue;
+      }
+
+      if (msg.role === 'tool') {
+        append('user', [{ type: 'tool_result', tool_use_id: msg.tool_call_id || '', content: msg.content }]);
+        continue;
+      }
+
+      // Empty text blocks are rejected
+      const blocks: AnthropicBlock[] = msg.content?.trim() ? [{ type: 'text', text: msg.content }] : [];
+
+      if (msg.role === 'assistant') {
+        for (const toolCall of msg.tool_calls || []) {
+          blocks.push({
+            type: 'tool_use',
+            id: toolCall.id,
+            name: toolCall.function.name,
+            input: JSON.parse(toolCall.function.arguments || '{}'),
+          });
+        }
+        append('assistant', blocks);
+      } else {
+        append('user', blocks);
+      }
+    }
+
+    return converted;
+  }
+}
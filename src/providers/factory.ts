@@ -0,0 +1,63 @@
+import { config } from '../config';
+import { LLMProvider, LLMProviderName, LLM_PROVIDER_NAMES } from './types';
+import { OpenAIProvider } from './openai.provider';
+import { GeminiProvider } from './gemini.provider';
+import { AnthropicProvider } from './anthropic.provider';
+import { LocalProvider } from './local.provider';
+import { FallbackProvider, FallbackEntry } from './fallback.provider';
+
+function createProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAIProvider(config.llm.openai.apiKey, config.llm.openai.model);
+    case 'gemini':
+      return new GeminiProvider(config.llm.gemini.project, config.llm.gemini.location, config.llm.gemini.model);
+    case 'anthropic':
+      return new AnthropicProvider(config.llm.anthropic.apiKey, config.llm.anthropic.model, config.llm.anthropic.baseUrl);
+    case 'local':
+      return new LocalProvider(config.llm.local.baseUrl, config.llm.local.model, config.llm.local.toolMode, config.llm.local.apiKey);
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
+
+/**
+ * The model a provider is configured with
+ */
+export function getConfiguredModel(name: LLMProviderName): string {
+  switch (name) {
+    case 'openai':
+      return config.llm.openai.model;
+    case 'gemini':
+      return config.llm.gemini.model;
+    case 'anthropic':
+      return config.llm.anthropic.model;
+    case 'local':
+      return config.llm.local.model;
+    default:
+      return name;
+  }
+}
+
+/**
+ * The configured primary provider followed by its fallbacks, wrapped with timeouts, retries
+ * and a circuit breaker
+ */
+export function createLLMProvider(): LLMProvider {
+  const names = Array.from(new Set([config.llm.provider, ...config.llm.fallbackProviders]));
+
+  const entries: FallbackEntry[] = names.map(name => {
+    if (!LLM_PROVIDER_NAMES.includes(name)) {
+      throw new Error(`Unknown LLM provider: ${name}`);
+    }
+    return { name, provider: createProvider(name), keepsDataLocal: name === 'local' };
+  });
+
+  return new FallbackProvider(entries, {
+    timeoutMs: config.llm.timeoutMs,
+    maxRetries: config.llm.maxRetries,
+    backoffMs: config.llm.retryBackoffMs,
+    failureThreshold: config.llm.circuitFailureThreshold,
+    cooldownMs: config.llm.circuitCooldownMs,
+  });
+}
@@ -0,0 +1,216 @@
+import { FallbackProvider, FallbackOptions } from './fallback.provider';
+import { CompletionResponse, LLMProvider, LLMProviderName, Message } from './types';
+
+type Behaviour = 'ok' | 'fail' | 'reject' | 'hang';
+
+/**
+ * Answers, fails with a server error, rejects the request (400) or never answers, one
+ * behaviour per call; the last one repeats
+ */
+class FakeProvider implements LLMProvider {
+  calls: number[] = [];
+
+  constructor(private name: LLMProviderName, private log: string[], private behaviours: Behaviour[]) {}
+
+  async createCompletion(): Promise<CompletionResponse> {
+    this.calls.push(Date.now());
+    this.log.push(this.name);
+    const behaviour = this.behaviours[Math.min(this.calls.length - 1, this.behaviours.length - 1)];
+
+    switch (behaviour) {
+      case 'ok':
+        return { message: { role: 'assistant', content: `${this.name} answered` } };
+      case 'fail':
+        throw Object.assign(new Error(`${this.name} is down`), { status: 503 });
+      case 'reject':
+        throw Object.assign(new Error(`${this.name} rejected the request`), { status: 400 });
+      case 'hang':
+        return new Promise<CompletionResponse>(() => undefined);
+    }
+  }
+}
+
+const OPTIONS: FallbackOptions = {
+  timeoutMs: 50,
+  maxRetries: 2,
+  backoffMs: 20,
+  failureThreshold: 3,
+  cooldownMs: 60_000,
+};
+
+const MESSAGES: Message[] = [{ role: 'user', content: 'yarın akşam boş saat var mı?' }];
+
+describe('FallbackProvider', () => {
+  let log: string[];
+
+  const complete = (provider: FallbackProvider, preferredProvider?: LLMProviderName) =>
+    provider.createCompletion(MESSAGES, [], 100, { preferredProvider });
+
+  beforeEach(() => {
+    log = [];
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('answers from the first provider when it works', async () => {
+    const gemini = new FakeProvider('gemini', log, ['ok']);
+    const openai = new FakeProvider('openai', log, ['ok']);
+    const provider = new FallbackProvider([{ name: 'gemini', provider: gemini }, { name: 'openai', provider: openai }], OPTIONS);
+
+    const response = await complete(provider);
+
+    expect(response.message.content).toBe('gemini answered');
+    expect(log).toEqual(['gemini']);
+  });
+
+  it('retries with exponential backoff before falling back', async () => {
+    const gemini = new FakeProvider('gemini', log, ['fail']);
+    const openai = new FakeProvider('openai', log, ['ok']);
+    const provider = new FallbackProvider([{ name: 'gemini', provider: gemini }, { name: 'openai', provider: openai }], OPTIONS);
+
+    const response = await complete(provider);
+
+    expect(response.message.content).toBe('openai answered');
+    expect(log).toEqual(['gemini', 'gemini', 'gemini', 'openai']);
+
+    const [first, second, third] = gemini.calls;
+    // Timers may fire a millisecond early
+    expect(second - first).toBeGreaterThanOrEqual(OPTIONS.backoffMs - 1);
+    expect(third - second).toBeGreaterThanOrEqual(OPTIONS.backoffMs * 2 - 1);
+  });
+
+  it('recovers on a retry of the same provider', async () => {
+    const gemini = new FakeProvider('gemini', log, ['fail', 'ok']);
+    const openai = new FakeProvider('openai', log, ['ok']);
+    const provider = new FallbackProvider([{ name: 'gemini', provider: gemini }, { name: 'openai', provider: openai }], OPTIONS);
+
+    const response = await complete(provider);
+
+    expect(response.message.content).toBe('gemini answered');
+    expect(log).toEqual(['gemini', 'gemini']);
+  });
+
+  it('does not retry a rejected request', async () => {
+    const gemini = new FakeProvider('gemini', log, ['reject']);
+    const openai = new FakeProvider('openai', log, ['ok']);
+    const provider = new FallbackProvider([{ name: 'gemini', provider: gemini }, { name: 'openai', provider: openai }], OPTIONS);
+
+    await complete(provider);
+
+    expect(log).toEqual(['gemini', 'openai']);
+  });
+
+  it('treats a call that hangs as failed after the timeout', async () => {
+    const gemini = new FakeProvider('gemini', log, ['hang']);
+    const openai = new FakeProvider('openai', log, ['ok']);
+    const provider = new FallbackProvider(
+      [{ name: 'gemini', provider: gemini }, { name: 'openai', provider: openai }],
+      { ...OPTIONS, maxRetries: 0 }
+    );
+
+    const response = await complete(provider);
+
+    expect(response.message.content).toBe('openai answered');
+    expect(console.error).toHaveBeenCalledWith(
+      'LLM provider gemini failed (attempt 1):',
+      `LLM provider gemini timed out after ${OPTIONS.timeoutMs}ms`
+    );
+  });
+
+  it('throws the last error when every provider fails', async () => {
+    const provider = new FallbackProvider([
+      { name: 'gemini', provider: new FakeProvider('gemini', log, ['fail']) },
+      { name: 'openai', provider: new FakeProvider('openai', log, ['reject']) },
+    ], { ...OPTIONS, maxRetries: 0 });
+
+    await expect(complete(provider)).rejects.toThrow('openai rejected the request');
+    expect(log).toEqual(['gemini', 'openai']);
+  });
+
+  it('skips a provider with an open circuit until the cooldown is over', async () => {
+    let now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+
+    const gemini = new FakeProvider('gemini', log, ['fail', 'fail', 'fail', 'ok']);
+    const openai = new FakeProvider('openai', log, ['ok']);
+    const provider = new FallbackProvider(
+      [{ name: 'gemini', provider: gemini }, { name: 'openai', provider: openai }],
+      { ...OPTIONS, maxRetries: 0 }
+    );
+
+    // Three failed calls open gemini's circuit
+    for (let i = 0; i < 3; i++) {
+      await complete(provider);
+    }
+    expect(log).toEqual(['gemini', 'openai', 'gemini', 'openai', 'gemini', 'openai']);
+
+    log.length = 0;
+    await complete(provider);
+    expect(log).toEqual(['openai']);
+
+    now += OPTIONS.cooldownMs + 1;
+    log.length = 0;
+    const response = await complete(provider);
+    expect(log).toEqual(['gemini']);
+    expect(response.message.content).toBe('gemini answered');
+  });
+
+  it('stops retrying a provider once its circuit opens', async () => {
+    const gemini = new FakeProvider('gemini', log, ['fail']);
+    const openai = new FakeProvider('openai', log, ['ok']);
+    const provider = new FallbackProvider(
+      [{ name: 'gemini', provider: gemini }, { name: 'openai', provider: openai }],
+      { ...OPTIONS, maxRetries: 5, backoffMs: 1, failureThreshold: 2 }
+    );
+
+    await complete(provider);
+
+    expect(log).toEqual(['gemini', 'gemini', 'openai']);
+  });
+
+  it('still tries the last provider when every circuit is open', async () => {
+    const provider = new FallbackProvider([
+      { name: 'gemini', provider: new FakeProvider('gemini', log, ['fail']) },
+      { name: 'openai', provider: new FakeProvider('openai', log, ['fail', 'ok']) },
+    ], { ...OPTIONS, maxRetries: 0, failureThreshold: 1 });
+
+    await expect(complete(provider)).rejects.toThrow('openai is down');
+
+    log.length = 0;
+    const response = await complete(provider);
+    expect(log).toEqual(['openai']);
+    expect(response.message.content).toBe('openai answered');
+  });
+
+  it('tries the preferred provider first and keeps the others as fallbacks', async () => {
+    const provider = new FallbackProvider([
+      { name: 'gemini', provider: new FakeProvider('gemini', log, ['ok']) },
+      { name: 'openai', provider: new FakeProvider('openai', log, ['fail']) },
+    ], { ...OPTIONS, maxRetries: 0 });
+
+    const response = await complete(provider, 'openai');
+
+    expect(log).toEqual(['openai', 'gemini']);
+    expect(response.message.content).toBe('gemini answered');
+  });
+
+  it('never sends a local-preferring tenant to a cloud provider', async () => {
+    const gemini = new FakeProvider('gemini', log, ['ok']);
+    const local = new FakeProvider('local', log, ['fail']);
+    const provider = new FallbackProvider([
+      { name: 'gemini', provider: gemini },
+      { name: 'local', provider: local, keepsDataLocal: true },
+    ], { ...OPTIONS, backoffMs: 1, failureThreshold: 1 });
+
+    await expect(complete(provider, 'local')).rejects.toThrow('local is down');
+    // Also once the local circuit is open
+    await expect(complete(provider, 'local')).rejects.toThrow('local is down');
+
+    expect(gemini.calls).toHaveLength(0);
+    expect(log).toEqual(['local', 'local']);
+  });
+});
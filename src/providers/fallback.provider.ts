@@ -0,0 +1,158 @@
+import {
+  LLMProvider,
+  LLMProviderName,
+  Message,
+  ToolDefinition,
+  CompletionResponse,
+  CompletionOptions,
+} from './types';
+
+export interface FallbackEntry {
+  name: LLMProviderName;
+  provider: LLMProvider;
+  // Runs on our own hardware; a tenant that prefers it never falls back to a cloud provider
+  keepsDataLocal?: boolean;
+}
+
+export interface FallbackOptions {
+  // A call that takes longer counts as failed
+  timeoutMs: number;
+  // Extra tries on the same provider before moving on to the next one
+  maxRetries: number;
+  // First retry delay, doubled for every further try
+  backoffMs: number;
+  // Consecutive failures that open a provider's circuit
+  failureThreshold: number;
+  // How long an open circuit skips the provider before it is tried again
+  cooldownMs: number;
+}
+
+interface CircuitState {
+  failures: number;
+  openUntil: number;
+}
+
+/**
+ * Tries a chain of providers in order (the preferred one first) so an outage at one vendor does
+ * not take the bot down. Each call has a timeout and is retried with exponential backoff; a
+ * provider that keeps failing is skipped for a while (circuit breaker).
+ */
+export class FallbackProvider implements LLMProvider {
+  private entries: FallbackEntry[];
+  private options: FallbackOptions;
+  private circuits = new Map<LLMProviderName, CircuitState>();
+
+  constructor(entries: FallbackEntry[], options: FallbackOptions) {
+    if (entries.length === 0) {
+      throw new Error('FallbackProvider needs at least one provider');
+    }
+
+    this.entries = entries;
+    this.options = options;
+  }
+
+  async createCompletion(
+    messages: Message[],
+    tools: ToolDefinition[],
+    maxTokens: number,
+    options?: CompletionOptions
+  ): Promise<CompletionResponse> {
+    const chain = this.getChain(options?.preferredProvider);
+    let lastError: any;
+
+    for (const entry of chain) {
+      // When every circuit is open the last provider is still tried rather than giving up
+      if (this.isOpen(entry.name) && entry !== chain[chain.length - 1]) {
+        console.warn(`LLM provider ${entry.name} is unavailable (circuit open), skipping`);
+        continue;
+      }
+
+      for (let attempt = 0; attempt <= this.options.maxRetries; attempt++) {
+        if (attempt > 0) {
+          await this.sleep(this.options.backoffMs * 2 ** (attempt - 1));
+        }
+
+        try {
+          const response = await this.withTimeout(
+            entry.provider.createCompletion(messages, tools, maxTokens, options),
+            entry.name
+          );
+          this.recordSuccess(entry.name);
+          return response;
+        } catch (error: any) {
+          lastError = error;
+          this.recordFailure(entry.name);
+          console.error(`LLM provider ${entry.name} failed (attempt ${attempt + 1}):`, error?.message || error);
+
+          if (!this.isRetryable(error) || this.isOpen(entry.name)) {
+            break;
+          }
+        }
+      }
+
+      if (entry !== chain[chain.length - 1]) {
+        console.warn(`Falling back from LLM provider ${entry.name}`);
+      }
+    }
+
+    throw lastError;
+  }
+
+  private getChain(preferred?: LLMProviderName | null): FallbackEntry[] {
+    const first = this.entries.find(entry => entry.name === preferred);
+    if (first?.keepsDataLocal) {
+      return [first];
+    }
+    return first ? [first, ...this.entries.filter(entry => entry !== first)] : this.entries;
+  }
+
+  private isOpen(name: LLMProviderName): boolean {
+    const circuit = this.circuits.get(name);
+    return !!circuit && circuit.openUntil > Date.now();
+  }
+
+  private recordSuccess(name: LLMProviderName): void {
+    this.circuits.delete(name);
+  }
+
+  private recordFailure(name: LLMProviderName): void {
+    const circuit = this.circuits.get(name) || { failures: 0, openUntil: 0 };
+    circuit.failures++;
+
+    // After the cooldown a single failure re-opens the circuit
+    if (circuit.failures >= this.options.failureThreshold) {
+      circuit.openUntil = Date.now() + this.options.cooldownMs;
+      console.warn(`LLM provider ${name} circuit opened for ${this.options.cooldownMs / 1000}s`);
+    }
+
+    this.circuits.set(name, circuit);
+  }
+
+  /**
+   * Rejected requests (bad key, invalid request) fail the same way every time; rate limits,
+   * server errors, network errors and timeouts are worth another try
+   */
+  private isRetryable(error: any): boolean {
+    const status = error?.status ?? error?.response?.status;
+    if (typeof status !== 'number') {
+      return true;
+    }
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  private withTimeout<T>(promise: Promise<T>, name: LLMProviderName): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error(`LLM provider ${name} timed out after ${this.options.timeoutMs}ms`)),
+        this.options.timeoutMs
+      );
+    });
+
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
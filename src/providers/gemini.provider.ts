@@ -46,6 +46,15 @@ export class GeminiProvider implements LLMProvider {
     let systemInstruction = '';
     const contents: any[] = [];
 
+    // Gemini matches function responses by name. Calls made by another provider earlier in the
+    // turn (after a fallback) carry that provider's ids, so look their names up.
+    const callNames = new Map<string, string>();
+    for (const msg of messages) {
+      for (const toolCall of msg.tool_calls || []) {
+        callNames.set(toolCall.id, toolCall.function.name);
+      }
+    }
+
     for (const msg of messages) {
       if (msg.role === 'system') {
         systemInstruction = msg.content;
@@ -87,7 +96,7 @@ export class GeminiProvider implements LLMProvider {
           role: 'function',
           parts: [{
             functionResponse: {
-              name: msg.tool_call_id || 'unknown',
+              name: callNames.get(msg.tool_call_id || '') || msg.tool_call_id || 'unknown',
               response: {
                 result: msg.content,
               },
@@ -144,6 +153,7 @@ export class GeminiProvider implements LLMProvider {
 
       return {
         message: genericMessage,
+        model: this.model,
         usage: response.usageMetadata ? {
           prompt_tokens: response.usageMetadata.promptTokenCount || 0,
           completion_tokens: response.usageMetadata.candidatesTokenCount || 0,
@@ -206,6 +216,7 @@ export class GeminiProvider implements LLMProvider {
 
     return {
       message: genericMessage,
+      model: this.model,
       usage,
     };
   }
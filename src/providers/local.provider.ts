@@ -0,0 +1,194 @@
+import { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { OpenAIProvider } from './openai.provider';
+import { Message, ToolDefinition, CompletionResponse, ToolCall } from './types';
+
+/**
+ * How tools are offered to the model: the server's native function calling, a JSON reply
+ * format described in the prompt, or native first with a switch to JSON when the server
+ * rejects tools
+ */
+export type LocalToolMode = 'native' | 'json' | 'auto';
+
+/**
+ * Open-weight models on the tenant's own hardware behind an OpenAI-compatible API
+ * (llama.cpp server, Ollama, vLLM), so customer data never leaves the premises.
+ */
+export class LocalProvider extends OpenAIProvider {
+  private toolMode: LocalToolMode;
+  private callCounter = 0;
+
+  constructor(baseURL: string, model: string, toolMode: LocalToolMode = 'auto', apiKey: string = 'local') {
+    // Local servers ignore the key, but the client refuses to start without one
+    super(apiKey || 'local', model, baseURL);
+    this.toolMode = toolMode;
+  }
+
+  async createCompletion(
+    messages: Message[],
+    tools: ToolDefinition[],
+    maxTokens: number
+  ): Promise<CompletionResponse> {
+    if (tools.length === 0) {
+      const response = await this.client.chat.completions.create({
+        model: this.model,
+        messages: this.toOpenAIMessages(messages),
+        max_tokens: maxTokens,
+      });
+      return this.toCompletionResponse(response);
+    }
+
+    if (this.toolMode === 'json') {
+      return await this.createJsonCompletion(messages, tools, maxTokens);
+    }
+
+    try {
+      const response = await this.client.chat.completions.create({
+        model: this.model,
+        messages: this.toOpenAIMessages(messages),
+        tools: this.toOpenAITools(tools),
+        tool_choice: 'auto',
+        max_tokens: maxTokens,
+      });
+      return this.toCompletionResponse(response);
+    } catch (error: any) {
+      if (this.toolMode === 'auto' && this.isToolsUnsupported(error)) {
+        console.warn(`Local model ${this.model} has no native function calling, switching to JSON tool calls`);
+        this.toolMode = 'json';
+        return await this.createJsonCompletion(messages, tools, maxTokens);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Tools are described in the system prompt and the model answers with a JSON object,
+   * either {"tool_calls": [...]} or {"content": "..."}
+   */
+  private async createJsonCompletion(
+    messages: Message[],
+    tools: ToolDefinition[],
+    maxTokens: number
+  ): Promise<CompletionResponse> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: this.toJsonModeMessages(messages, tools),
+      response_format: { type: 'json_object' },
+      max_tokens: maxTokens,
+    });
+
+    const text = response.choices[0].message.content || '';
+
+    return {
+      message: this.parseJsonReply(text, tools),
+      model: response.model || this.model,
+      usage: response.usage ? {
+        prompt_tokens: response.usage.prompt_tokens,
+        completion_tokens: response.usage.completion_tokens,
+        total_tokens: response.usage.total_tokens,
+      } : undefined,
+    };
+  }
+
+  /**
+   * Models without function calling usually have no tool role either, so earlier tool calls
+   * become JSON assistant turns and their results user turns
+   */
+  private toJsonModeMessages(messages: Message[], tools: ToolDefinition[]): ChatCompletionMessageParam[] {
+    const callNames = new Map<string, string>();
+    const converted: ChatCompletionMessageParam[] = [];
+    let hasSystem = false;
+
+    for (const msg of messages) {
+      if (msg.role === 'system') {
+        converted.push({ role: 'system', content: `${msg.content}\n\n${this.getToolInstructions(tools)}` });
+        hasSystem = true;
+      } else if (msg.role === 'tool') {
+        const name = callNames.get(msg.tool_call_id || '') || 'araç';
+        converted.push({ role: 'user', content: `[${name} sonucu]\n${msg.content}` });
+      } else if (msg.role === 'assistant' && msg.tool_calls) {
+        msg.tool_calls.forEach(call => callNames.set(call.id, call.function.name));
+        converted.push({
+          role: 'assistant',
+          content: JSON.stringify({
+            tool_calls: msg.tool_calls.map(call => ({
+              name: call.function.name,
+              arguments: JSON.parse(call.function.arguments || '{}'),
+            })),
+          }),
+        });
+      } else if (msg.role === 'assistant') {
+        converted.push({ role: 'assistant', content: JSON.stringify({ content: msg.content }) });
+      } else {
+        converted.push({ role: 'user', content: msg.content });
+      }
+    }
+
+    if (!hasSystem) {
+      converted.unshift({ role: 'system', content: this.getToolInstructions(tools) });
+    }
+
+    return converted;
+  }
+
+  private getToolInstructions(tools: ToolDefinition[]): string {
+    const toolList = tools
+      .map(tool => `- ${tool.name}: ${tool.description}\n  parametreler: ${JSON.stringify(tool.parameters)}`)
+      .join('\n');
+
+    return `ARAÇLAR:
+${toolList}
+
+YANIT BİÇİMİ: Her zaman tek bir JSON nesnesiyle yanıt ver, başka hiçbir şey yazma.
+- Araç çağırmak için: {"tool_calls": [{"name": "araç_adı", "arguments": {...}}]}
+- Kullanıcıya cevap vermek için: {"content": "mesaj"}
+Araç sonuçları "[araç_adı sonucu]" ile başlayan mesajlarla gelir.`;
+  }
+
+  /**
+   * Read the model's JSON reply. Anything that is not a valid tool call is passed on as text,
+   * so a model that ignores the format still gets its answer through.
+   */
+  private parseJsonReply(text: string, tools: ToolDefinition[]): Message {
+    let parsed: any;
+    try {
+      // Some models wrap the object in a code fence or add a sentence around it
+      const start = text.indexOf('{');
+      const end = text.lastIndexOf('}');
+      parsed = JSON.parse(start >= 0 && end > start ? text.slice(start, end + 1) : text);
+    } catch (error) {
+      return { role: 'assistant', content: text.trim() };
+    }
+
+    const toolNames = tools.map(tool => tool.name);
+    const toolCalls: ToolCall[] = (Array.isArray(parsed?.tool_calls) ? parsed.tool_calls : [])
+      .filter((call: any) => typeof call?.name === 'string' && toolNames.includes(call.name))
+      .map((call: any) => ({
+        id: `local_call_${++this.callCounter}`,
+        type: 'function',
+        function: {
+          name: call.name,
+          arguments: JSON.stringify(call.arguments || {}),
+        },
+      }));
+
+    const message: Message = {
+      role: 'assistant',
+      content: typeof parsed?.content === 'string' ? parsed.content : '',
+    };
+
+    if (toolCalls.length > 0) {
+      message.tool_calls = toolCalls;
+    } else if (!message.content) {
+      message.content = text.trim();
+    }
+
+    return message;
+  }
+
+  private isToolsUnsupported(error: any): boolean {
+    const status = error?.status ?? error?.response?.status;
+    const detail = String(error?.message || '').toLowerCase();
+    return (status === 400 || status === 422 || status === 501) &&
+      (detail.includes('tool') || detail.includes('function'));
+  }
+}
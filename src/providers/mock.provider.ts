@@ -0,0 +1,82 @@
+import { LLMProvider, Message, ToolDefinition, CompletionResponse, ToolCall } from './types';
+
+/**
+ * One scripted model answer: text, tool calls, or both
+ */
+export interface MockCompletion {
+  content?: string;
+  tool_calls?: { name: string; arguments?: Record<string, any> }[];
+}
+
+export interface MockCall {
+  messages: Message[];
+  tools: string[];
+}
+
+/**
+ * Deterministic LLMProvider for tests and scenario replays. Completions that offer tools (the
+ * agent's own calls) are answered from a script, in order; calls without tools (tool routing,
+ * conversation summaries) get auxiliaryContent, which makes those stages fall back to their
+ * defaults. Every agent call is recorded.
+ */
+export class MockProvider implements LLMProvider {
+  readonly calls: MockCall[] = [];
+  auxiliaryContent = '';
+
+  private script: MockCompletion[] = [];
+  private model: string;
+  private callCounter = 0;
+
+  constructor(model: string = 'mock') {
+    this.model = model;
+  }
+
+  enqueue(...completions: MockCompletion[]): void {
+    this.script.push(...completions);
+  }
+
+  /**
+   * Scripted completions that were never asked for
+   */
+  remaining(): MockCompletion[] {
+    return [...this.script];
+  }
+
+  reset(): void {
+    this.script = [];
+    this.calls.length = 0;
+  }
+
+  async createCompletion(
+    messages: Message[],
+    tools: ToolDefinition[],
+    maxTokens: number
+  ): Promise<CompletionResponse> {
+    if (tools.length === 0) {
+      return { message: { role: 'assistant', content: this.auxiliaryContent }, model: this.model };
+    }
+
+    this.calls.push({ messages: [...messages], tools: tools.map(tool => tool.name) });
+
+    const next = this.script.shift();
+    if (!next) {
+      const lastUserMessage = [...messages].reverse().find(message => message.role === 'user');
+      throw new Error(`MockProvider: no scripted completion left (last user message: "${lastUserMessage?.content}")`);
+    }
+
+    const message: Message = { role: 'assistant', content: next.content || '' };
+
+    if (next.tool_calls && next.tool_calls.length > 0) {
+      message.tool_calls = next.tool_calls.map((call): ToolCall => ({
+        id: `mock_call_${++this.callCounter}`,
+        type: 'function',
+        function: {
+          name: call.name,
+          arguments: JSON.stringify(call.arguments || {}),
+        },
+      }));
+    }
+
+    return { message, model: this.model };
+  }
+}
@@ -1,13 +1,14 @@
 import OpenAI from 'openai';
 import { LLMProvider, Message, ToolDefinition, CompletionResponse, ToolCall } from './types';
-import { ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources/chat/completions';
+import { ChatCompletion, ChatCompletionMessageParam, ChatCompletionTool } from 'openai/resources/chat/completions';
 
 export class OpenAIProvider implements LLMProvider {
-  private client: OpenAI;
-  private model: string;
+  protected client: OpenAI;
+  protected model: string;
 
-  constructor(apiKey: string, model: string) {
-    this.client = new OpenAI({ apiKey });
+  // baseURL points the client at any OpenAI-compatible server
+  constructor(apiKey: string, model: string, baseURL?: string) {
+    this.client = new OpenAI({ apiKey, baseURL });
     this.model = model;
   }
 
@@ -16,8 +17,22 @@ export class OpenAIProvider implements LLMProvider {
     tools: ToolDefinition[],
     maxTokens: number
   ): Promise<CompletionResponse> {
-    // Convert our generic format to OpenAI format
-    const openaiMessages: ChatCompletionMessageParam[] = messages.map(msg => {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: this.toOpenAIMessages(messages),
+      tools: this.toOpenAITools(tools),
+      tool_choice: 'auto',
+      max_completion_tokens: maxTokens,
+    });
+
+    return this.toCompletionResponse(response);
+  }
+
+  /**
+   * Convert our generic format to OpenAI format
+   */
+  protected toOpenAIMessages(messages: Message[]): ChatCompletionMessageParam[] {
+    return messages.map(msg => {
       if (msg.role === 'tool') {
         return {
           role: 'tool',
@@ -46,8 +61,10 @@ export class OpenAIProvider implements LLMProvider {
         content: msg.content,
       };
     });
+  }
 
-    const openaiTools: ChatCompletionTool[] = tools.map(tool => ({
+  protected toOpenAITools(tools: ToolDefinition[]): ChatCompletionTool[] {
+    return tools.map(tool => ({
       type: 'function',
       function: {
         name: tool.name,
@@ -55,18 +72,14 @@ export class OpenAIProvider implements LLMProvider {
         parameters: tool.parameters,
       },
     }));
+  }
 
-    const response = await this.client.chat.completions.create({
-      model: this.model,
-      messages: openaiMessages,
-      tools: openaiTools,
-      tool_choice: 'auto',
-      max_completion_tokens: maxTokens,
-    });
-
+  /**
+   * Convert OpenAI format back to our generic format
+   */
+  protected toCompletionResponse(response: ChatCompletion): CompletionResponse {
     const assistantMessage = response.choices[0].message;
 
-    // Convert OpenAI format back to our generic format
     const genericMessage: Message = {
       role: 'assistant',
       content: assistantMessage.content || '',
@@ -87,6 +100,7 @@ export class OpenAIProvider implements LLMProvider {
 
     return {
       message: genericMessage,
+      model: response.model || this.model,
       usage: response.usage ? {
         prompt_tokens: response.usage.prompt_tokens,
         completion_tokens: response.usage.completion_tokens,
@@ -24,8 +24,13 @@ export interface ToolCall {
   };
 }
 
+export type LLMProviderName = 'openai' | 'gemini' | 'anthropic' | 'local';
+export const LLM_PROVIDER_NAMES: LLMProviderName[] = ['gemini', 'openai', 'anthropic', 'local'];
+
 export interface CompletionResponse {
   message: Message;
+  // The model that produced the answer, recorded in token usage
+  model?: string;
   usage?: {
     prompt_tokens: number;
     completion_tokens: number;
@@ -33,10 +38,16 @@ export interface CompletionResponse {
   };
 }
 
+export interface CompletionOptions {
+  // Provider to try first, e.g. the tenant's preference; the others remain fallbacks
+  preferredProvider?: LLMProviderName | null;
+}
+
 export interface LLMProvider {
   createCompletion(
     messages: Message[],
     tools: ToolDefinition[],
-    maxTokens: number
+    maxTokens: number,
+    options?: CompletionOptions
   ): Promise<CompletionResponse>;
 }
@@ -0,0 +1,24 @@
+import { config } from '../config';
+import { LLMProvider } from '../providers/types';
+import { ToolRoutingStrategy, ToolRoutingStrategyName } from './types';
+import { KeywordToolRouter } from './keyword.router';
+import { LLMToolRouter } from './llm.router';
+import { HybridToolRouter } from './hybrid.router';
+
+export function createRoutingStrategy(name: ToolRoutingStrategyName, llmProvider: LLMProvider): ToolRoutingStrategy {
+  const keywordRouter = () => new KeywordToolRouter({
+    minScore: config.toolRouting.minScore,
+    relativeScore: config.toolRouting.relativeScore,
+  });
+
+  switch (name) {
+    case 'keyword':
+      return keywordRouter();
+    case 'llm':
+      return new LLMToolRouter(llmProvider);
+    case 'hybrid':
+      return new HybridToolRouter(keywordRouter(), new LLMToolRouter(llmProvider));
+    default:
+      throw new Error(`Unknown tool routing strategy: ${name}`);
+  }
+}
@@ -0,0 +1,35 @@
+import { ToolDefinition, CompletionOptions } from '../providers/types';
+import { ToolRoutingStrategy, RoutingDecision } from './types';
+
+/**
+ * Keyword scoring first; the LLM is only asked when the keywords are not conclusive, so most
+ * messages are routed without the extra round-trip
+ */
+export class HybridToolRouter implements ToolRoutingStrategy {
+  readonly name = 'hybrid' as const;
+  private primary: ToolRoutingStrategy;
+  private fallback: ToolRoutingStrategy;
+
+  constructor(primary: ToolRoutingStrategy, fallback: ToolRoutingStrategy) {
+    this.primary = primary;
+    this.fallback = fallback;
+  }
+
+  async route(
+    message: string,
+    tools: ToolDefinition[],
+    topN: number,
+    options?: CompletionOptions
+  ): Promise<RoutingDecision> {
+    const decision = await this.primary.route(message, tools, topN, options);
+    if (decision.confident) {
+      return decision;
+    }
+
+    const fallbackDecision = await this.fallback.route(message, tools, topN, options);
+    if (!fallbackDecision.confident) {
+      fallbackDecision.reason = `${decision.strategy}: ${decision.reason}; ${fallbackDecision.strategy}: ${fallbackDecision.reason}`;
+    }
+    return fallbackDecision;
+  }
+}
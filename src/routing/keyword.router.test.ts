@@ -0,0 +1,151 @@
+import { KeywordToolRouter } from './keyword.router';
+import { LLMToolRouter } from './llm.router';
+import { HybridToolRouter } from './hybrid.router';
+import { CompletionResponse, LLMProvider, ToolDefinition } from '../providers/types';
+
+const tool = (name: string, description: string): ToolDefinition => ({
+  name,
+  description,
+  parameters: { type: 'object', properties: {} },
+});
+
+// A part of the staff tools, with the descriptions FieldAgent gives them
+const TOOLS: ToolDefinition[] = [
+  tool('create_reservation', 'Yeni bir rezervasyon oluşturur. ZORUNLU: customer_name ve customer_phone. Soyisim opsiyonel, sadece isim yeterli.'),
+  tool('show_week_table', 'Haftalık rezervasyon tablosunu görsel olarak gösterir'),
+  tool('list_week_reservations', 'Haftalık rezervasyonları numara ile liste halinde gösterir. Kullanıcı "liste halinde", "listele" derse bunu kullan.'),
+  tool('find_free_slots', 'Boş saatleri bulur. "dolu mu", "boş mu", "ne zaman boş", "boş saha var mı" sorularında bunu kullan.'),
+  tool('add_staff', 'Bir WhatsApp numarasını personel olarak ekler veya kayıtlı personelin rolünü değiştirir. Personel olmayanlar sadece müşteri işlemleri yapabilir'),
+  tool('get_price_list', 'Fiyat listesini gösterir; tarih ve saat verilirse o rezervasyonun fiyatını hesaplar'),
+  tool('record_payment', 'Rezervasyon için kapora, ödeme veya iade kaydeder (nakit, kart, IBAN)'),
+  tool('get_sales_analytics', 'Bu hafta veya bu ay kaç saat satıldığını, gelir bilgilerini gösterir'),
+  tool('undo_last_action', 'Kullanıcının kendi yaptığı son rezervasyon değişikliğini (oluşturma, iptal, saat/müşteri değişikliği) geri alır'),
+  tool('cancel_reservation', 'Rezervasyonu iptal eder (önce find_reservations_by_name ile rezervasyon bulunmalı)'),
+];
+
+const OPTIONS = { minScore: 0.2, relativeScore: 0.5 };
+
+/**
+ * Answers with a fixed text, the way a model answers the routing prompt
+ */
+class ScriptedProvider implements LLMProvider {
+  calls = 0;
+
+  constructor(private answer: string | Error) {}
+
+  async createCompletion(): Promise<CompletionResponse> {
+    this.calls++;
+    if (this.answer instanceof Error) {
+      throw this.answer;
+    }
+    return { message: { role: 'assistant', content: this.answer }, usage: { prompt_tokens: 300, completion_tokens: 8, total_tokens: 308 } };
+  }
+}
+
+describe('KeywordToolRouter', () => {
+  const router = new KeywordToolRouter(OPTIONS);
+
+  const cases: { message: string; tool: string }[] = [
+    { message: 'yarın akşam 8-9 Mehmet 05321234567', tool: 'create_reservation' },
+    { message: 'Cuma 21:00 Can için rezervasyon yap, telefonu 0533 111 22 33', tool: 'create_reservation' },
+    { message: 'Bu haftanın tablosunu göster', tool: 'show_week_table' },
+    { message: 'Haftalık maçları listele', tool: 'list_week_reservations' },
+    { message: 'yarın akşam boş saat var mı?', tool: 'find_free_slots' },
+    { message: 'cumartesi 9-10 dolu mu', tool: 'find_free_slots' },
+    { message: '0544 222 33 44 numarasını personel olarak ekle', tool: 'add_staff' },
+    { message: 'hafta sonu saatlik fiyat ne kadar?', tool: 'get_price_list' },
+    { message: 'Ahmet 200 TL kapora verdi', tool: 'record_payment' },
+    { message: 'bu ay ne kadar ciro yaptık', tool: 'get_sales_analytics' },
+    { message: 'yanlışlıkla yaptım, son işlemi geri al', tool: 'undo_last_action' },
+    { message: 'Mehmet in maçını iptal et', tool: 'cancel_reservation' },
+  ];
+
+  it.each(cases)('"$message" → $tool', async ({ message, tool: expected }) => {
+    const decision = await router.route(message, TOOLS, 3);
+
+    expect(decision.confident).toBe(true);
+    expect(decision.strategy).toBe('keyword');
+    expect(decision.tools[0].name).toBe(expected);
+  });
+
+  it('matches Turkish letters, suffixes and capitals the same way', () => {
+    const [plain] = router.score('rezervasyonu iptal et', TOOLS);
+    const [inflected] = router.score('REZERVASYONLARIMIZI İPTAL ETTİK', TOOLS);
+
+    expect(inflected.tool.name).toBe(plain.tool.name);
+    expect(inflected.score).toBeCloseTo(plain.score);
+  });
+
+  it('leaves out tools scoring below the relative share of the best match and keeps to topN', async () => {
+    const scores = router.score('yarın akşam boş saat var mı?', TOOLS);
+    const decision = await router.route('yarın akşam boş saat var mı?', TOOLS, 2);
+
+    const kept = scores.filter(match => match.score > 0 && match.score >= scores[0].score * OPTIONS.relativeScore);
+    expect(decision.tools.map(chosen => chosen.name)).toEqual(kept.slice(0, 2).map(match => match.tool.name));
+  });
+
+  it('is unsure about a message without any known word', async () => {
+    const decision = await router.route('naber nasılsın', TOOLS, 3);
+
+    expect(decision).toEqual({ tools: [], confident: false, strategy: 'keyword', reason: 'no known words in the message' });
+  });
+
+  it('is unsure about a weak match but still ranks the tools', async () => {
+    const decision = await new KeywordToolRouter({ ...OPTIONS, minScore: 0.99 }).route('yarın akşam boş saat var mı?', TOOLS, 3);
+
+    expect(decision.confident).toBe(false);
+    expect(decision.tools[0].name).toBe('find_free_slots');
+    expect(decision.reason).toMatch(/^best match find_free_slots scored 0\.\d\d, below 0\.99$/);
+  });
+});
+
+describe('HybridToolRouter', () => {
+  const hybrid = (provider: LLMProvider, options = OPTIONS) =>
+    new HybridToolRouter(new KeywordToolRouter(options), new LLMToolRouter(provider));
+
+  it('keeps a confident keyword match without asking the LLM', async () => {
+    const provider = new ScriptedProvider('get_price_list');
+
+    const decision = await hybrid(provider).route('Bu haftanın tablosunu göster', TOOLS, 3);
+
+    expect(provider.calls).toBe(0);
+    expect(decision.strategy).toBe('keyword');
+    expect(decision.tools[0].name).toBe('show_week_table');
+  });
+
+  it('asks the LLM when the keywords find nothing', async () => {
+    const provider = new ScriptedProvider('1. `get_sales_analytics`\n2. get_price_list');
+
+    const decision = await hybrid(provider).route('geçen aya göre nasıl gidiyoruz', TOOLS, 3);
+
+    expect(provider.calls).toBe(1);
+    expect(decision).toEqual({
+      tools: [TOOLS[7], TOOLS[5]],
+      confident: true,
+      strategy: 'llm',
+      tokens: 308,
+    });
+  });
+
+  it('asks the LLM when the keyword match is weak', async () => {
+    const provider = new ScriptedProvider('find_free_slots');
+
+    const decision = await hybrid(provider, { ...OPTIONS, minScore: 0.99 }).route('yarın akşam boş saat var mı?', TOOLS, 3);
+
+    expect(provider.calls).toBe(1);
+    expect(decision.strategy).toBe('llm');
+    expect(decision.tools.map(chosen => chosen.name)).toEqual(['find_free_slots']);
+  });
+
+  it('reports both reasons when the LLM cannot choose either', async () => {
+    const provider = new ScriptedProvider(new Error('LLM provider openai timed out after 15000ms'));
+
+    const decision = await hybrid(provider).route('naber nasılsın', TOOLS, 3);
+
+    expect(decision.confident).toBe(false);
+    expect(decision.tools).toEqual([]);
+    expect(decision.reason).toBe(
+      'keyword: no known words in the message; llm: LLM call failed: LLM provider openai timed out after 15000ms'
+    );
+  });
+});
@@ -0,0 +1,195 @@
+import { ToolDefinition } from '../providers/types';
+import { ToolRoutingStrategy, RoutingDecision } from './types';
+
+export interface KeywordRouterOptions {
+  // Best cosine similarity below which the match counts as unsure
+  minScore: number;
+  // Tools scoring less than this share of the best match are left out
+  relativeScore: number;
+}
+
+// Words staff actually use for each tool, on top of its description. #phone, #time, #amount and
+// #percent stand for the phone numbers, times, amounts and percentages a message contains.
+const TOOL_KEYWORDS: Record<string, string> = {
+  create_reservation: 'rezervasyon yap oluştur ekle yaz kaydet rezerve ayır maç ayarla isim telefonu numarası #phone #time',
+  create_recurring_reservation: 'abonelik abone her sabit düzenli #phone #time',
+  list_recurring_reservations: 'abonelikler aboneler abonelik listesi sabit müşteriler tekrarlayan',
+  cancel_recurring_occurrence: 'aboneliğin abonelikte iptal sadece bu seferlik gelmeyecek abone yok',
+  cancel_recurring_series: 'aboneliği tamamen iptal bitir sonlandır abonelik sil artık gelmeyecek',
+  show_week_table: 'tablo tabloyu çizelge görsel resim program haftanın durumu doluluk göster',
+  list_week_reservations: 'liste listele listesi haftalık rezervasyonlar bu haftaki maçlar kimler var',
+  find_free_slots: 'boş boşluk müsait uygun yer dolu mu boş saat var mı ne zaman boş #time',
+  list_pitches: 'sahalar saha listesi kaç saha var hangi sahalar',
+  get_schedule_settings: 'çalışma saatleri açılış kapanış kaçta açık kaçta kapanıyor kapalı günler slot süresi',
+  update_schedule_settings: 'çalışma saatlerini değiştir kapat aç tatil bakım günü günleri kapalı olacak olsun açılış saati kapanış saati slot süresini ayarla',
+  get_cancellation_policy: 'iptal politikası iptal kuralları ücretsiz iptal süresi geç iptal ücreti kapora iadesi ne',
+  update_cancellation_policy: 'iptal politikasını değiştir iptal ücreti kapora iade edilmesin geç iptal kuralı ayarla olsun #percent',
+  get_reminder_settings: 'hatırlatma ayarları hatırlatmalar açık mı ne zaman hatırlatma gidiyor',
+  update_reminder_settings: 'hatırlatma aç kapat hatırlat önce gönder hatırlatmayı değiştir saat önce hatırlatsın',
+  get_message_templates: 'şablon şablonlar mesaj şablonları whatsapp şablonu template',
+  update_message_template: 'şablonu değiştir şablon adı şablon dili template güncelle parametre',
+  list_staff: 'personel çalışanlar yetkililer kimler yetkili numaralar personel listesi',
+  add_staff: 'personel ekle çalışan ekle yetki ver rol değiştir muhasebeci resepsiyon sahibi yetkili yap #phone',
+  remove_staff: 'personel çıkar çalışanı sil yetkisini al personelden çıkar #phone',
+  update_unknown_sender_mode: 'bilinmeyen numaralar yabancı numara müşteri olarak karşıla reddet kayıtsız numaralar',
+  get_price_list: 'fiyat fiyatlar ücret ücreti ne kadar kaç para saatlik fiyat fiyat listesi #time',
+  add_price_rule: 'fiyat kuralı ekle fiyatı yap olsun hafta sonu fiyat akşam fiyatı zam indirim bayram fiyatı #amount',
+  delete_price_rule: 'fiyat kuralını sil kaldır fiyat kuralı iptal',
+  join_waitlist: 'bekleme listesine ekle sıraya yaz boşalırsa haber ver yer açılırsa beklesin #phone',
+  list_waitlist: 'bekleme listesi bekleyenler sırada kimler var',
+  remove_from_waitlist: 'bekleme listesinden çıkar sil beklemeyi iptal',
+  record_payment: 'ödeme kapora aldım ödedi yatırdı nakit kart kartla iban havale iade iadesi yaptım verdi #amount',
+  get_reservation_payments: 'ödemeleri ne kadar ödenmiş kalan borç ödeme durumu tamam mı',
+  list_unpaid_reservations: 'ödenmemiş borçlu borcu olanlar ödemesi eksik kimler ödemedi alacak',
+  get_sales_analytics: 'satış gelir kazanç ciro kaç saat sattık bu ay bu hafta rapor istatistik para kazandık',
+  get_loyal_customers: 'sadık müşteriler en çok gelen düzenli müşteriler en iyi müşteriler',
+  get_cancellation_customers: 'en çok iptal eden müşteriler iptalciler sürekli iptal',
+  get_no_show_customers: 'gelmeyen müşteriler gelmeyenler kaçıranlar ekti',
+  mark_no_show: 'gelmedi gelmediler maça gelmedi gelmedi olarak işaretle ekti',
+  undo_last_action: 'geri al son işlemi geri al vazgeç yanlışlıkla yaptım eski haline getir',
+  find_reservations_by_name: 'adına rezervasyon bul ara kimin rezervasyonu var mı rezervasyonları maçı ne zamandı hangi gün',
+  cancel_reservation: 'iptal et sil rezervasyonu iptal maçı iptal gelmeyecek kaldır',
+  cancel_all_week_reservations: 'bütün haftayı iptal tüm rezervasyonları iptal haftanın hepsini sil hepsini iptal',
+  get_current_time: 'bugün tarih saat kaç günlerden ne ayın kaçı hangi gün',
+  update_customer_info: 'müşteri adını değiştir ismini düzelt telefonunu güncelle numarasını değiştir #phone',
+  update_reservation_time: 'saatini değiştir ertele kaydır başka saate al tarihini değiştir öne çek #time',
+  book_reservation: 'rezervasyon yapmak istiyorum yer ayırt saha kiralamak istiyorum maç yapacağız',
+  list_my_reservations: 'rezervasyonlarım benim rezervasyonum var mı maçlarım',
+  cancel_my_reservation: 'rezervasyonumu iptal gelemeyeceğim maçımı iptal',
+};
+
+const TURKISH_LETTERS: Record<string, string> = {
+  ç: 'c', ğ: 'g', ı: 'i', ö: 'o', ş: 's', ü: 'u', â: 'a', î: 'i', û: 'u',
+};
+
+// Written the way they look after normalizing
+const STOP_WORDS = new Set([
+  've', 'veya', 'ya', 'bir', 'bu', 'su', 'o', 'da', 'de', 'ki', 'mi', 'mu', 'icin', 'ile', 'ne',
+  'ben', 'biz', 'sen', 'siz', 'bana', 'bize', 'beni', 'lutfen', 'acaba', 'gibi', 'daha', 'cok',
+  'et', 'abi', 'hocam', 'merhaba', 'selam', 'tamam', 'olarak', 'olan', 'sey', 'yani',
+]);
+
+// Turkish suffixes pile up, so words are compared by their first five letters
+const STEM_LENGTH = 5;
+
+type TermVector = Map<string, number>;
+
+/**
+ * Scores tools against a message with TF-IDF over their descriptions and the Turkish words
+ * staff use for them. Runs in-process without any network call.
+ */
+export class KeywordToolRouter implements ToolRoutingStrategy {
+  readonly name = 'keyword' as const;
+  private options: KeywordRouterOptions;
+  private termCounts = new WeakMap<ToolDefinition, TermVector>();
+
+  constructor(options: KeywordRouterOptions) {
+    this.options = options;
+  }
+
+  async route(message: string, tools: ToolDefinition[], topN: number): Promise<RoutingDecision> {
+    const scored = this.score(message, tools);
+    const best = scored[0];
+
+    if (!best || best.score === 0) {
+      return { tools: [], confident: false, strategy: this.name, reason: 'no known words in the message' };
+    }
+
+    const selected = scored
+      .filter(match => match.score > 0 && match.score >= best.score * this.options.relativeScore)
+      .slice(0, topN)
+      .map(match => match.tool);
+
+    if (best.score < this.options.minScore) {
+      return {
+        tools: selected,
+        confident: false,
+        strategy: this.name,
+        reason: `best match ${best.tool.name} scored ${best.score.toFixed(2)}, below ${this.options.minScore}`,
+      };
+    }
+
+    return { tools: selected, confident: true, strategy: this.name };
+  }
+
+  /**
+   * Cosine similarity of the message to every tool, best first
+   */
+  score(message: string, tools: ToolDefinition[]): { tool: ToolDefinition; score: number }[] {
+    const documents = tools.map(tool => this.getTermCounts(tool));
+
+    // Words found in many tools say little about which one is meant
+    const documentFrequency = new Map<string, number>();
+    for (const counts of documents) {
+      counts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+    }
+    const idf = (term: string) => Math.log(1 + tools.length / (documentFrequency.get(term) || tools.length));
+
+    const query: TermVector = new Map();
+    for (const term of tokenize(message)) {
+      if (documentFrequency.has(term)) {
+        query.set(term, idf(term));
+      }
+    }
+    const queryNorm = norm(query);
+
+    return tools
+      .map((tool, i) => {
+        if (queryNorm === 0) {
+          return { tool, score: 0 };
+        }
+
+        const weights: TermVector = new Map();
+        documents[i].forEach((count, term) => weights.set(term, (1 + Math.log(count)) * idf(term)));
+
+        let dot = 0;
+        query.forEach((weight, term) => {
+          dot += weight * (weights.get(term) || 0);
+        });
+
+        return { tool, score: dot / (queryNorm * norm(weights)) };
+      })
+      .sort((a, b) => b.score - a.score);
+  }
+
+  private getTermCounts(tool: ToolDefinition): TermVector {
+    let counts = this.termCounts.get(tool);
+    if (!counts) {
+      counts = new Map();
+      for (const term of tokenize(`${tool.description} ${TOOL_KEYWORDS[tool.name] || ''}`)) {
+        counts.set(term, (counts.get(term) || 0) + 1);
+      }
+      this.termCounts.set(tool, counts);
+    }
+    return counts;
+  }
+}
+
+/**
+ * Stems of the Turkish words in a text. Phone numbers, amounts, percentages and times become
+ * markers (#phone...), which point at the right tool better than the digits.
+ */
+function tokenize(text: string): string[] {
+  const words = text
+    // Tool and parameter names in the descriptions (find_reservations_by_name)
+    .replace(/\b[a-z]+(_[a-z]+)+\b/g, ' ')
+    .replace(/(\+?90|0)?\s*5\d{2}\s*\d{3}\s*\d{2}\s*\d{2}/g, ' #phone ')
+    .replace(/\d+\s*(tl|lira|₺)|₺\s*\d+/gi, ' #amount ')
+    .replace(/%\s*\d+|\d+\s*%/g, ' #percent ')
+    .replace(/\b\d{1,2}([:.]\d{2})?\s*[-–]\s*\d{1,2}([:.]\d{2})?\b|\b\d{1,2}[:.]\d{2}\b/g, ' #time ')
+    .toLocaleLowerCase('tr-TR')
+    .replace(/[çğıöşüâîû]/g, letter => TURKISH_LETTERS[letter])
+    .split(/[^a-z0-9#]+/);
+
+  return words
+    .filter(word => word.length >= 2 && !STOP_WORDS.has(word) && !/^\d+$/.test(word))
+    .map(word => word.startsWith('#') ? word : word.slice(0, STEM_LENGTH));
+}
+
+function norm(vector: TermVector): number {
+  let sum = 0;
+  vector.forEach(weight => {
+    sum += weight * weight;
+  });
+  return Math.sqrt(sum);
+}
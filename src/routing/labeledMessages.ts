@@ -0,0 +1,106 @@
+/**
+ * Staff messages with the tools that can serve them, first the one that should be called.
+ * Used by evaluate-routing.ts to compare the routing strategies; add the messages routing
+ * gets wrong in production here.
+ */
+export interface LabeledMessage {
+  message: string;
+  tools: string[];
+}
+
+export const LABELED_MESSAGES: LabeledMessage[] = [
+  // Reservations
+  { message: 'Bu hafta pazartesi 9-10 saatlerini Ahmet Yılmaz için rezerve et. Numarası 0545 403 19 19', tools: ['create_reservation'] },
+  { message: 'yarın akşam 8-9 Mehmet 05321234567', tools: ['create_reservation'] },
+  { message: 'Cuma 21:00 Can için rezervasyon yap, telefonu 0533 111 22 33', tools: ['create_reservation'] },
+  { message: 'Saha 2ye cumartesi 19-20 arası Emre abiyi yaz', tools: ['create_reservation'] },
+  { message: 'Ali her salı 20-21 abone olmak istiyor, numarası 05441112233', tools: ['create_recurring_reservation'] },
+  { message: 'Burak için iki haftada bir perşembe 22:00 abonelik aç', tools: ['create_recurring_reservation'] },
+  { message: 'abonelikleri göster', tools: ['list_recurring_reservations'] },
+  { message: 'Hangi takımların sabit aboneliği var?', tools: ['list_recurring_reservations'] },
+  { message: 'Kerem in aboneliğinde sadece bu haftaki maçı iptal et', tools: ['cancel_recurring_occurrence', 'list_recurring_reservations'] },
+  { message: 'Serkan ın aboneliğini tamamen bitir, artık gelmeyecekler', tools: ['cancel_recurring_series', 'list_recurring_reservations'] },
+
+  // Week overview
+  { message: 'Bu haftanın tablosunu göster', tools: ['show_week_table'] },
+  { message: 'gelecek haftanın çizelgesini at', tools: ['show_week_table'] },
+  { message: 'bu haftaki rezervasyonları liste halinde ver', tools: ['list_week_reservations'] },
+  { message: 'Haftalık maçları listele', tools: ['list_week_reservations'] },
+  { message: 'yarın akşam boş saat var mı?', tools: ['find_free_slots'] },
+  { message: 'cumartesi 9-10 dolu mu', tools: ['find_free_slots'] },
+  { message: 'Bu hafta ne zaman boş yer var', tools: ['find_free_slots'] },
+  { message: 'Kaç sahamız var?', tools: ['list_pitches'] },
+
+  // Opening hours
+  { message: 'Çalışma saatlerimiz neydi?', tools: ['get_schedule_settings'] },
+  { message: 'Hafta içi kaçta kapanıyoruz', tools: ['get_schedule_settings'] },
+  { message: 'Pazar günleri kapalı olsun', tools: ['update_schedule_settings'] },
+  { message: 'Açılış saatini 10:00 yap', tools: ['update_schedule_settings'] },
+  { message: '15 Ağustos bakım için kapalıyız', tools: ['update_schedule_settings'] },
+  { message: 'slot süresini 90 dakika yap', tools: ['update_schedule_settings'] },
+
+  // Cancellation policy
+  { message: 'İptal politikamız ne?', tools: ['get_cancellation_policy'] },
+  { message: 'Geç iptalde ne kadar ücret alıyoruz', tools: ['get_cancellation_policy'] },
+  { message: '24 saatten sonra yapılan iptallerde %50 ücret alalım', tools: ['update_cancellation_policy'] },
+  { message: 'Kapora artık iade edilmesin', tools: ['update_cancellation_policy'] },
+
+  // Reminders and templates
+  { message: 'Hatırlatmalar açık mı?', tools: ['get_reminder_settings'] },
+  { message: 'Maçtan 3 saat önce hatırlatma gönder', tools: ['update_reminder_settings'] },
+  { message: 'hatırlatmaları kapat', tools: ['update_reminder_settings'] },
+  { message: 'WhatsApp şablonlarımızı göster', tools: ['get_message_templates'] },
+  { message: 'Hatırlatma şablonunun adını mac_hatirlatma_v2 yap', tools: ['update_message_template'] },
+
+  // Staff
+  { message: 'Personel listesini göster', tools: ['list_staff'] },
+  { message: '05051234567 numarasını resepsiyon olarak ekle', tools: ['add_staff'] },
+  { message: 'Muhasebeci Ayşe hanımı ekle 05369876543', tools: ['add_staff'] },
+  { message: '05051234567 artık bizde çalışmıyor, personelden çıkar', tools: ['remove_staff'] },
+  { message: 'Kayıtlı olmayan numaralar yazınca kibarca reddet', tools: ['update_unknown_sender_mode'] },
+
+  // Prices
+  { message: 'Fiyatlarımız ne kadar?', tools: ['get_price_list'] },
+  { message: 'Cumartesi akşam 9-10 kaç para?', tools: ['get_price_list'] },
+  { message: 'Hafta sonu akşamları saatlik fiyat 1500 TL olsun', tools: ['add_price_rule'] },
+  { message: 'Bayramda fiyatlara 200 lira zam yap', tools: ['add_price_rule'] },
+  { message: '3 numaralı fiyat kuralını sil', tools: ['delete_price_rule', 'get_price_list'] },
+
+  // Waitlist
+  { message: 'Cuma 21-22 dolu, Hakan ı bekleme listesine yaz 05412223344', tools: ['join_waitlist'] },
+  { message: 'Bekleme listesinde kimler var?', tools: ['list_waitlist'] },
+  { message: 'Hakan ı bekleme listesinden çıkar', tools: ['remove_from_waitlist', 'list_waitlist'] },
+
+  // Payments
+  { message: 'Ahmet 500 TL kapora verdi', tools: ['record_payment', 'find_reservations_by_name'] },
+  { message: 'Mehmet kalan ücreti kartla ödedi', tools: ['record_payment', 'find_reservations_by_name'] },
+  { message: 'Can a 300 lira kapora iadesi yaptım', tools: ['record_payment', 'find_reservations_by_name'] },
+  { message: 'Emre nin maçının ödemesi tamam mı, ne kadar kaldı?', tools: ['get_reservation_payments', 'find_reservations_by_name'] },
+  { message: 'Kimlerin borcu var?', tools: ['list_unpaid_reservations'] },
+  { message: 'Ödemesi eksik olan rezervasyonlar', tools: ['list_unpaid_reservations'] },
+
+  // Reports
+  { message: 'Bu ay kaç saat sattık?', tools: ['get_sales_analytics'] },
+  { message: 'Bu haftaki gelir ne kadar', tools: ['get_sales_analytics'] },
+  { message: 'En sadık müşterilerimiz kimler', tools: ['get_loyal_customers'] },
+  { message: 'En çok iptal eden müşterileri göster', tools: ['get_cancellation_customers'] },
+  { message: 'Rezervasyon yapıp gelmeyenler kimler?', tools: ['get_no_show_customers'] },
+  { message: 'Dün akşamki Kerem maça gelmedi', tools: ['mark_no_show', 'find_reservations_by_name'] },
+
+  // Changes and cancellations
+  { message: 'son yaptığımı geri al', tools: ['undo_last_action'] },
+  { message: 'Yanlışlıkla iptal ettim, geri al', tools: ['undo_last_action'] },
+  { message: 'Ahmet adına rezervasyon var mı?', tools: ['find_reservations_by_name'] },
+  { message: 'Mehmet in maçı ne zamandı', tools: ['find_reservations_by_name'] },
+  { message: 'Ali nin rezervasyonunu iptal et', tools: ['find_reservations_by_name', 'cancel_reservation'] },
+  { message: 'Yarınki Can ın maçını sil', tools: ['find_reservations_by_name', 'cancel_reservation'] },
+  { message: 'Bu haftanın bütün rezervasyonlarını iptal et', tools: ['cancel_all_week_reservations'] },
+  { message: 'Emre nin maçını 22:00 ye kaydır', tools: ['update_reservation_time', 'find_reservations_by_name'] },
+  { message: 'Burak ın rezervasyonunu perşembeye ertele', tools: ['update_reservation_time', 'find_reservations_by_name'] },
+  { message: 'Hakan ın telefon numarasını 05551112233 olarak düzelt', tools: ['update_customer_info', 'find_reservations_by_name'] },
+  { message: 'Rezervasyondaki ismi Mehmet Demir olarak değiştir', tools: ['update_customer_info', 'find_reservations_by_name'] },
+
+  // Date and time
+  { message: 'Bugün ayın kaçı?', tools: ['get_current_time'] },
+  { message: 'saat kaç', tools: ['get_current_time'] },
+];
@@ -0,0 +1,79 @@
+import { LLMProvider, Message, ToolDefinition, CompletionOptions } from '../providers/types';
+import { ToolRoutingStrategy, RoutingDecision } from './types';
+
+/**
+ * Asks the LLM to pick the tools from their names and descriptions. Understands paraphrases
+ * the keyword scorer misses, at the cost of an extra round-trip per message.
+ */
+export class LLMToolRouter implements ToolRoutingStrategy {
+  readonly name = 'llm' as const;
+  private llmProvider: LLMProvider;
+
+  constructor(llmProvider: LLMProvider) {
+    this.llmProvider = llmProvider;
+  }
+
+  async route(
+    message: string,
+    tools: ToolDefinition[],
+    topN: number,
+    options?: CompletionOptions
+  ): Promise<RoutingDecision> {
+    const routingPrompt: Message[] = [
+      {
+        role: 'system',
+        content: `Sen bir tool seçim asistanısın. Kullanıcının mesajına göre en alakalı ${topN} aracı seç.
+
+MEVCUT ARAÇLAR:
+${tools.map((t, i) => `${i + 1}. ${t.name}: ${t.description}`).join('\n')}
+
+GÖREV: Kullanıcının mesajını analiz et ve yukarıdaki listeden en alakalı ${topN} aracı seç.
+Yanıtını SADECE araç isimlerini virgülle ayırarak ver (başka hiçbir şey yazma):
+
+Örnek: create_reservation,show_week_table,get_current_time`
+      },
+      {
+        role: 'user',
+        content: message
+      }
+    ];
+
+    let response;
+    try {
+      // No tools and a low token limit: this is only the routing stage
+      response = await this.llmProvider.createCompletion(routingPrompt, [], 200, options);
+    } catch (error: any) {
+      return { tools: [], confident: false, strategy: this.name, reason: `LLM call failed: ${error?.message || error}` };
+    }
+
+    const answer = response.message.content || '';
+    const selectedTools = this.findToolNames(answer, tools)
+      .slice(0, topN)
+      .map(name => tools.find(tool => tool.name === name)!);
+
+    if (selectedTools.length === 0) {
+      return {
+        tools: [],
+        confident: false,
+        strategy: this.name,
+        reason: `no known tool in the LLM answer "${answer.trim().slice(0, 100)}"`,
+        tokens: response.usage?.total_tokens,
+      };
+    }
+
+    return { tools: selectedTools, confident: true, strategy: this.name, tokens: response.usage?.total_tokens };
+  }
+
+  /**
+   * Tool names in the order the model wrote them. Models do not always stick to a bare comma
+   * separated list (numbering, backticks, one per line), so the names are searched for rather
+   * than split out.
+   */
+  private findToolNames(answer: string, tools: ToolDefinition[]): string[] {
+    const found = tools
+      .map(tool => ({ name: tool.name, index: answer.search(new RegExp(`(^|[^a-z_])${tool.name}($|[^a-z_])`)) }))
+      .filter(match => match.index >= 0);
+
+    return found.sort((a, b) => a.index - b.index).map(match => match.name);
+  }
+}
@@ -0,0 +1,32 @@
+import { ToolDefinition, CompletionOptions } from '../providers/types';
+
+export type ToolRoutingStrategyName = 'keyword' | 'llm' | 'hybrid';
+export const TOOL_ROUTING_STRATEGY_NAMES: ToolRoutingStrategyName[] = ['keyword', 'llm', 'hybrid'];
+
+export interface RoutingDecision {
+  // Best match first; empty when the strategy could not choose
+  tools: ToolDefinition[];
+  // False when the match is too weak to rely on
+  confident: boolean;
+  // The strategy that made the decision (a hybrid router reports the one it ended up using)
+  strategy: ToolRoutingStrategyName;
+  // Why the strategy is unsure or could not choose, for the logs
+  reason?: string;
+  // Tokens an LLM spent on the decision
+  tokens?: number;
+}
+
+/**
+ * Picks the tools worth sending along with a message, so the main LLM call does not carry
+ * every tool schema
+ */
+export interface ToolRoutingStrategy {
+  readonly name: ToolRoutingStrategyName;
+
+  route(
+    message: string,
+    tools: ToolDefinition[],
+    topN: number,
+    options?: CompletionOptions
+  ): Promise<RoutingDecision>;
+}
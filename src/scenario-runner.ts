@@ -0,0 +1,311 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from 'yaml';
+import { FieldAgent, ToolCallTrace } from './fieldAgent';
+import { MockProvider, MockCompletion } from './providers/mock.provider';
+import { runMigration } from './database/migrate';
+import { db } from './database/db';
+import { cacheService } from './services/cacheService';
+import { tenantService } from './services/tenantService';
+import { pitchService } from './services/pitchService';
+import { staffService, StaffRole } from './services/staffService';
+import { turkishDateParser } from './turkishDateParser';
+import { WhatsAppClient, InteractiveList, TemplateParameters } from './whatsappClient';
+
+/**
+ * Replays conversation scenarios (JSON or YAML) through FieldAgent.processMessage with a
+ * scripted LLM and checks the replies, the tools that ran and the reservations left behind.
+ *
+ * Point DATABASE_URL and REDIS_URL at throwaway instances: every scenario runs against a fresh
+ * tenant, which is deleted afterwards unless --keep is given.
+ *
+ *   npm run test:scenarios -- scenarios/            (every .json/.yaml/.yml file below it)
+ *   npm run test:scenarios -- scenarios/booking.yaml --keep
+ *
+ * Scenario format:
+ *
+ *   name: Staff books a match for tomorrow
+ *   user: "905551112233"             # sender, defaults to 905550000000
+ *   setup:
+ *     pitches: ["Saha 1"]            # defaults to a single "Saha 1"
+ *     staff:                         # without staff every sender is a customer
+ *       - { phone: "905551112233", role: owner }
+ *   turns:
+ *     - user: "yarın akşam 9-10 Ahmet 05321234567"
+ *       llm:                         # what the model answers, in order
+ *         - tool_calls:
+ *             - name: create_reservation
+ *               arguments: { customer_name: Ahmet, customer_phone: "05321234567", date: yarın, time_slot: "akşam 9-10" }
+ *         - content: "Ahmet için yarın 21:00-22:00 rezervasyonu oluşturuldu"
+ *       expect:
+ *         reply: ["oluşturuldu"]     # substrings of everything sent back this turn
+ *         tools:                     # tools run this turn, in order
+ *           - { name: create_reservation, result: "✅" }
+ *   expect:
+ *     reservationCount: 1
+ *     reservations:
+ *       - { customer_name: Ahmet, status: active, pitch: Saha 1, when: "yarın 21:00-22:00" }
+ */
+
+interface ScenarioTurn {
+  user: string;
+  from?: string;
+  llm?: MockCompletion[];
+  expect?: {
+    reply?: string | string[];
+    notReply?: string | string[];
+    tools?: { name: string; result?: string | string[] }[];
+  };
+}
+
+interface ReservationExpectation {
+  customer_name?: string;
+  phone_number?: string;
+  status?: string;
+  pitch?: string;
+  // Turkish date/time expression, e.g. "yarın 21:00-22:00"
+  when?: string;
+}
+
+interface Scenario {
+  name?: string;
+  user?: string;
+  setup?: {
+    pitches?: string[];
+    staff?: { phone: string; role: StaffRole; name?: string }[];
+  };
+  turns: ScenarioTurn[];
+  expect?: {
+    reservationCount?: number;
+    reservations?: ReservationExpectation[];
+  };
+}
+
+const DEFAULT_USER = '905550000000';
+
+/**
+ * Captures what the agent sends on its own (confirmation buttons, option lists, images).
+ * Number formatting is inherited, nothing reaches the Graph API.
+ */
+class RecordingWhatsAppClient extends WhatsAppClient {
+  sent: string[] = [];
+
+  async sendMessage(to: string, message: string): Promise<void> {
+    this.sent.push(message);
+  }
+
+  async sendTemplate(to: string, templateName: string, languageCode: string, bodyParameters: TemplateParameters = []): Promise<void> {
+    this.sent.push(`[template ${templateName}]`);
+  }
+
+  async sendButtons(to: string, body: string, buttons: { id: string; title: string }[]): Promise<void> {
+    this.sent.push(`${body}\n${buttons.map(button => `[${button.title}]`).join(' ')}`);
+  }
+
+  async sendList(to: string, list: InteractiveList): Promise<void> {
+    const rows = list.sections.flatMap(section => section.rows.map(row => `- ${row.title}`));
+    this.sent.push(`${list.body}\n${rows.join('\n')}`);
+  }
+
+  async sendImage(to: string, imageBuffer: Buffer): Promise<void> {
+    this.sent.push('[image]');
+  }
+
+  async markAsRead(messageId: string): Promise<void> {}
+}
+
+function toList(value: string | string[] | undefined): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+function loadScenario(file: string): Scenario {
+  const text = fs.readFileSync(file, 'utf-8');
+  const scenario = (file.endsWith('.json') ? JSON.parse(text) : YAML.parse(text)) as Scenario;
+
+  if (!scenario || !Array.isArray(scenario.turns) || scenario.turns.length === 0) {
+    throw new Error(`${file}: a scenario needs at least one turn`);
+  }
+
+  return scenario;
+}
+
+function findScenarioFiles(target: string): string[] {
+  if (!fs.statSync(target).isDirectory()) {
+    return [target];
+  }
+
+  return fs.readdirSync(target)
+    .sort()
+    .flatMap(entry => {
+      const fullPath = path.join(target, entry);
+      if (fs.statSync(fullPath).isDirectory()) {
+        return findScenarioFiles(fullPath);
+      }
+      return /\.(json|ya?ml)$/.test(entry) ? [fullPath] : [];
+    });
+}
+
+function checkReservation(expected: ReservationExpectation, reservation: any): boolean {
+  if (expected.customer_name !== undefined && reservation.customer_name !== expected.customer_name) {
+    return false;
+  }
+  if (expected.phone_number !== undefined &&
+    reservation.phone_number.replace(/\D/g, '').slice(-10) !== expected.phone_number.replace(/\D/g, '').slice(-10)) {
+    return false;
+  }
+  if (expected.status !== undefined && reservation.status !== expected.status) {
+    return false;
+  }
+  if (expected.pitch !== undefined && reservation.pitch_name !== expected.pitch) {
+    return false;
+  }
+  if (expected.when !== undefined) {
+    const parsed = turkishDateParser.parse(expected.when);
+    if (!parsed?.startTime || new Date(reservation.start_time).getTime() !== parsed.startTime.getTime()) {
+      return false;
+    }
+    if (!parsed.endInferred && parsed.endTime && new Date(reservation.end_time).getTime() !== parsed.endTime.getTime()) {
+      return false;
+    }
+  }
+  return true;
+}
+
+async function runScenario(scenario: Scenario, label: string, keep: boolean): Promise<string[]> {
+  const failures: string[] = [];
+  // Stands in for the business number, which has room for 20 characters
+  const tenant = await tenantService.onboardTenant(`sc${Date.now()}-${label}`, scenario.name || label);
+
+  try {
+    for (const pitch of scenario.setup?.pitches || ['Saha 1']) {
+      await pitchService.createPitch(tenant.id, pitch);
+    }
+    for (const member of scenario.setup?.staff || []) {
+      await staffService.addStaff(tenant.id, member.phone, member.role, member.name);
+    }
+
+    const provider = new MockProvider();
+    const client = new RecordingWhatsAppClient();
+    const agent = new FieldAgent(client, provider);
+
+    let traces: ToolCallTrace[] = [];
+    agent.onToolCall = trace => traces.push(trace);
+
+    for (const [index, turn] of scenario.turns.entries()) {
+      const where = `turn ${index + 1} ("${turn.user}")`;
+      traces = [];
+      client.sent = [];
+      provider.enqueue(...(turn.llm || []));
+
+      const reply = await agent.processMessage(turn.from || scenario.user || DEFAULT_USER, turn.user, tenant.id);
+      const output = [...client.sent, reply].join('\n');
+
+      const unused = provider.remaining();
+      if (unused.length > 0) {
+        failures.push(`${where}: ${unused.length} scripted LLM answer(s) were never requested`);
+        provider.reset();
+      }
+
+      for (const expected of toList(turn.expect?.reply)) {
+        if (!output.includes(expected)) {
+          failures.push(`${where}: reply does not contain "${expected}"\n      reply: ${output.replace(/\n/g, '\n             ')}`);
+        }
+      }
+      for (const unexpected of toList(turn.expect?.notReply)) {
+        if (output.includes(unexpected)) {
+          failures.push(`${where}: reply contains "${unexpected}"`);
+        }
+      }
+
+      if (turn.expect?.tools) {
+        const expectedNames = turn.expect.tools.map(tool => tool.name);
+        const actualNames = traces.map(trace => trace.name);
+        if (expectedNames.join(',') !== actualNames.join(',')) {
+          failures.push(`${where}: expected tools [${expectedNames.join(', ')}], ran [${actualNames.join(', ')}]`);
+        } else {
+          turn.expect.tools.forEach((tool, i) => {
+            for (const expected of toList(tool.result)) {
+              if (!traces[i].result.includes(expected)) {
+                failures.push(`${where}: ${tool.name} result does not contain "${expected}"\n      result: ${traces[i].result}`);
+              }
+            }
+          });
+        }
+      }
+    }
+
+    if (scenario.expect) {
+      const reservations = await db.getAllReservations(tenant.id);
+
+      if (scenario.expect.reservationCount !== undefined && reservations.length !== scenario.expect.reservationCount) {
+        failures.push(`expected ${scenario.expect.reservationCount} reservation(s), found ${reservations.length}`);
+      }
+
+      for (const expected of scenario.expect.reservations || []) {
+        if (!reservations.some((reservation: any) => checkReservation(expected, reservation))) {
+          failures.push(`no reservation matches ${JSON.stringify(expected)}`);
+        }
+      }
+    }
+  } finally {
+    if (keep) {
+      console.log(`   Tenant ${tenant.id} kept for inspection`);
+    } else {
+      await tenantService.deleteTenant(tenant.id);
+    }
+  }
+
+  return failures;
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const keep = args.includes('--keep');
+  const targets = args.filter(arg => !arg.startsWith('--'));
+
+  const files = (targets.length > 0 ? targets : ['scenarios']).flatMap(findScenarioFiles);
+  if (files.length === 0) {
+    console.error('No scenario files found');
+    process.exit(1);
+  }
+
+  await runMigration();
+
+  let failed = 0;
+  for (const [index, file] of files.entries()) {
+    let failures: string[];
+    let name = file;
+
+    try {
+      const scenario = loadScenario(file);
+      name = scenario.name || file;
+      failures = await runScenario(scenario, String(index + 1), keep);
+    } catch (error: any) {
+      failures = [`crashed: ${error.stack || error.message}`];
+    }
+
+    if (failures.length === 0) {
+      console.log(`✅ ${name}`);
+    } else {
+      failed++;
+      console.log(`❌ ${name} (${file})`);
+      failures.forEach(failure => console.log(`   - ${failure}`));
+    }
+  }
+
+  console.log(`\n${files.length - failed}/${files.length} scenario(s) passed`);
+
+  await db.end();
+  await cacheService.disconnect();
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+if (require.main === module) {
+  main().catch(error => {
+    console.error('Scenario runner failed:', error);
+    process.exit(1);
+  });
+}
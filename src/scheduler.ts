@@ -0,0 +1,88 @@
+import { reservationService } from './services/reservationService';
+import { waitlistService } from './services/waitlistService';
+import { reminderService } from './services/reminderService';
+import { messageQueueService } from './services/messageQueueService';
+
+interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<void>;
+}
+
+const jobs: ScheduledJob[] = [
+  {
+    // Pass expired waitlist holds on to the next customer
+    name: 'waitlist-holds',
+    intervalMs: 60 * 1000,
+    run: () => waitlistService.expireHolds(),
+  },
+  {
+    // Remind customers of their upcoming match
+    name: 'reservation-reminders',
+    intervalMs: 60 * 1000,
+    run: async () => {
+      const sent = await reminderService.sendDueReminders();
+      if (sent > 0) {
+        console.log(`🔔 ${sent} reservation reminder(s) sent`);
+      }
+    },
+  },
+  {
+    // Move reservations that have ended from active to completed
+    name: 'complete-reservations',
+    intervalMs: 5 * 60 * 1000,
+    run: async () => {
+      const completed = await reservationService.completePastReservations();
+      if (completed > 0) {
+        console.log(`✔️ ${completed} reservation(s) marked as completed`);
+      }
+    },
+  },
+  {
+    // Retry messages whose worker stopped mid-processing, e.g. in a restart
+    name: 'message-queue-recovery',
+    intervalMs: 60 * 1000,
+    run: async () => {
+      const released = await messageQueueService.releaseStaleJobs();
+      if (released > 0) {
+        console.log(`📨 ${released} stuck message job(s) released`);
+      }
+    },
+  },
+  {
+    // Processed messages are only kept for a week
+    name: 'message-queue-cleanup',
+    intervalMs: 60 * 60 * 1000,
+    run: async () => {
+      await messageQueueService.deleteFinishedJobs();
+    },
+  },
+];
+
+/**
+ * Start all periodic background jobs. A job never overlaps with its own previous run.
+ */
+export function startScheduledJobs(): void {
+  for (const job of jobs) {
+    let running = false;
+
+    const tick = async () => {
+      if (running) {
+        return;
+      }
+
+      running = true;
+      try {
+        await job.run();
+      } catch (error) {
+        console.error(`Scheduled job ${job.name} failed:`, error);
+      } finally {
+        running = false;
+      }
+    };
+
+    setInterval(tick, job.intervalMs);
+  }
+
+  console.log(`⏱️ Started ${jobs.length} scheduled jobs`);
+}
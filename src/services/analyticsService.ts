@@ -3,8 +3,13 @@ import { cacheService } from './cacheService';
 
 export interface SalesAnalytics {
   total_reservations: number;
+  completed_reservations: number;
+  no_show_reservations: number;
   total_hours: number;
   total_revenue: number;
+  cancellation_fee_revenue: number;
+  collected_revenue: number;
+  outstanding_revenue: number;
   period: string;
 }
 
@@ -15,16 +20,18 @@ export interface CustomerAnalytics {
   reservation_count: number;
   total_spent?: number;
   cancellation_count?: number;
+  no_show_count?: number;
 }
 
 class AnalyticsService {
   async getSalesAnalytics(
     startDate: Date,
     endDate: Date,
-    period: string
+    period: string,
+    tenantId: number = 1
   ): Promise<SalesAnalytics> {
     const cacheKey = cacheService.getAnalyticsCacheKey(
-      'sales',
+      `sales:${tenantId}`,
       startDate.toISOString(),
       endDate.toISOString()
     );
@@ -34,12 +41,17 @@ class AnalyticsService {
       return cached;
     }
 
-    const result = await db.getTotalHoursSold(startDate, endDate, 1); // TODO: Pass tenantId
+    const result = await db.getTotalHoursSold(startDate, endDate, tenantId);
 
     const analytics: SalesAnalytics = {
       total_reservations: parseInt(result.total_reservations) || 0,
+      completed_reservations: parseInt(result.completed_reservations) || 0,
+      no_show_reservations: parseInt(result.no_show_reservations) || 0,
       total_hours: parseFloat(result.total_hours) || 0,
       total_revenue: parseFloat(result.total_revenue) || 0,
+      cancellation_fee_revenue: parseFloat(result.cancellation_fee_revenue) || 0,
+      collected_revenue: parseFloat(result.collected_revenue) || 0,
+      outstanding_revenue: parseFloat(result.outstanding_revenue) || 0,
       period,
     };
 
@@ -49,19 +61,19 @@ class AnalyticsService {
     return analytics;
   }
 
-  async getThisWeekAnalytics(): Promise<SalesAnalytics> {
+  async getThisWeekAnalytics(tenantId: number = 1): Promise<SalesAnalytics> {
     const { startDate, endDate } = this.getWeekRange(0);
-    return this.getSalesAnalytics(startDate, endDate, 'Bu Hafta');
+    return this.getSalesAnalytics(startDate, endDate, 'Bu Hafta', tenantId);
   }
 
-  async getThisMonthAnalytics(): Promise<SalesAnalytics> {
+  async getThisMonthAnalytics(tenantId: number = 1): Promise<SalesAnalytics> {
     const { startDate, endDate } = this.getMonthRange(0);
-    return this.getSalesAnalytics(startDate, endDate, 'Bu Ay');
+    return this.getSalesAnalytics(startDate, endDate, 'Bu Ay', tenantId);
   }
 
-  async getLastMonthAnalytics(): Promise<SalesAnalytics> {
+  async getLastMonthAnalytics(tenantId: number = 1): Promise<SalesAnalytics> {
     const { startDate, endDate } = this.getMonthRange(-1);
-    return this.getSalesAnalytics(startDate, endDate, 'Geçen Ay');
+    return this.getSalesAnalytics(startDate, endDate, 'Geçen Ay', tenantId);
   }
 
   async getMostLoyalCustomers(
@@ -90,15 +102,31 @@ class AnalyticsService {
     return customers;
   }
 
-  async getCustomersWithMostCancellations(limit: number = 10): Promise<CustomerAnalytics[]> {
-    const cacheKey = 'analytics:cancellation_customers';
+  async getCustomersWithMostCancellations(limit: number = 10, tenantId: number = 1): Promise<CustomerAnalytics[]> {
+    const cacheKey = `analytics:cancellation_customers:${tenantId}:${limit}`;
 
     const cached = await cacheService.get<CustomerAnalytics[]>(cacheKey);
     if (cached) {
       return cached;
     }
 
-    const customers = await db.getCustomersWithMostCancellations(limit);
+    const customers = await db.getCustomersWithMostCancellations(tenantId, limit);
+
+    // Cache for 15 minutes
+    await cacheService.set(cacheKey, customers, 900);
+
+    return customers;
+  }
+
+  async getCustomersWithMostNoShows(limit: number = 10, tenantId: number = 1): Promise<CustomerAnalytics[]> {
+    const cacheKey = `analytics:no_show_customers:${tenantId}:${limit}`;
+
+    const cached = await cacheService.get<CustomerAnalytics[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const customers = await db.getCustomersWithMostNoShows(tenantId, limit);
 
     // Cache for 15 minutes
     await cacheService.set(cacheKey, customers, 900);
@@ -128,9 +156,14 @@ class AnalyticsService {
 
   formatSalesAnalyticsMessage(analytics: SalesAnalytics): string {
     return `📊 ${analytics.period} Satış Raporu\n\n` +
-      `📅 Toplam Rezervasyon: ${analytics.total_reservations}\n` +
+      `📅 Toplam Rezervasyon: ${analytics.total_reservations} ` +
+      `(✔️ ${analytics.completed_reservations} oynandı, ⏳ ${analytics.total_reservations - analytics.completed_reservations} bekliyor)\n` +
+      `🚫 Gelmeyen: ${analytics.no_show_reservations}\n` +
       `⏰ Toplam Saat: ${analytics.total_hours.toFixed(1)} saat\n` +
-      `💰 Toplam Gelir: ${analytics.total_revenue.toFixed(2)} TL`;
+      `💰 Toplam Gelir: ${analytics.total_revenue.toFixed(2)} TL\n` +
+      (analytics.cancellation_fee_revenue > 0 ? `💸 İptal Ücretleri: ${analytics.cancellation_fee_revenue.toFixed(2)} TL\n` : '') +
+      `✅ Tahsil Edilen: ${analytics.collected_revenue.toFixed(2)} TL\n` +
+      `⏳ Bekleyen: ${analytics.outstanding_revenue.toFixed(2)} TL`;
   }
 
   formatLoyalCustomersMessage(customers: CustomerAnalytics[]): string {
@@ -163,7 +196,31 @@ class AnalyticsService {
     customers.forEach((customer, index) => {
       message += `${index + 1}. ${customer.name}\n`;
       message += `   📞 ${customer.phone_number}\n`;
-      message += `   ❌ ${customer.cancellation_count} iptal\n\n`;
+      message += `   ❌ ${customer.cancellation_count} iptal\n`;
+      if (customer.no_show_count && Number(customer.no_show_count) > 0) {
+        message += `   🚫 ${customer.no_show_count} kez gelmedi\n`;
+      }
+      message += '\n';
+    });
+
+    return message;
+  }
+
+  formatNoShowCustomersMessage(customers: CustomerAnalytics[]): string {
+    if (customers.length === 0) {
+      return '📊 Gelmeyen müşteri kaydı bulunmamaktadır.';
+    }
+
+    let message = '🚫 En Çok Gelmeyen Müşteriler\n\n';
+
+    customers.forEach((customer, index) => {
+      message += `${index + 1}. ${customer.name}\n`;
+      message += `   📞 ${customer.phone_number}\n`;
+      message += `   🚫 ${customer.no_show_count} kez gelmedi\n`;
+      if (customer.cancellation_count && Number(customer.cancellation_count) > 0) {
+        message += `   ❌ ${customer.cancellation_count} iptal\n`;
+      }
+      message += '\n';
     });
 
     return message;
@@ -53,6 +53,20 @@ class CacheService {
     }
   }
 
+  /**
+   * Atomically set a key only if it does not exist yet. Returns false when it already existed.
+   * When Redis is unreachable this returns true, so callers carry on rather than drop work.
+   */
+  async setIfAbsent(key: string, value: any, expirationSeconds: number): Promise<boolean> {
+    try {
+      const result = await this.redis.set(key, JSON.stringify(value), 'EX', expirationSeconds, 'NX');
+      return result === 'OK';
+    } catch (error) {
+      console.error('Cache setIfAbsent error:', error);
+      return true;
+    }
+  }
+
   async del(key: string): Promise<void> {
     try {
       await this.redis.del(key);
@@ -102,9 +116,9 @@ class CacheService {
     return fresh;
   }
 
-  // Generate cache key for week table
-  getWeekTableCacheKey(weekOffset: number): string {
-    return `week_table:${weekOffset}`;
+  // Generate cache key for week table (all pitches of the tenant)
+  getWeekTableCacheKey(tenantId: number, weekOffset: number): string {
+    return `week_table:${tenantId}:${weekOffset}`;
   }
 
   // Generate cache key for analytics
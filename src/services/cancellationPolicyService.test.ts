@@ -0,0 +1,105 @@
+import { cancellationPolicyService, CancellationCharge, CancellationPolicy } from './cancellationPolicyService';
+
+jest.mock('./tenantService', () => ({ tenantService: {} }));
+jest.mock('./cacheService', () => ({ cacheService: {} }));
+
+// Friday night's last match: on the business day of Friday, on the calendar day of Saturday
+const KICKOFF = new Date(2025, 10, 15, 0, 30);
+const PRICE = 1200;
+
+const before = (hours: number, seconds: number = 0) => new Date(KICKOFF.getTime() - (hours * 3600 + seconds) * 1000);
+
+const LATE_FEE: CancellationPolicy = { freeWindowHours: 24, feePercent: 50, depositRefund: 'free_window_only' };
+
+describe('cancellationPolicyService.calculateCharge', () => {
+  const cases: {
+    name: string;
+    policy: CancellationPolicy;
+    now: Date;
+    paid: number;
+    deposit: number;
+    price?: number | null;
+    waived?: boolean;
+    charge: Partial<CancellationCharge>;
+  }[] = [
+    {
+      name: 'two days ahead is free and refunds the deposit',
+      policy: LATE_FEE, now: before(48), paid: 300, deposit: 300,
+      charge: { lateCancellation: false, hoursBeforeStart: 48, fee: 0, depositKept: 0, amountDue: 0, balance: -300 },
+    },
+    {
+      name: 'exactly at the end of the free window is still free',
+      policy: LATE_FEE, now: before(24), paid: 0, deposit: 0,
+      charge: { lateCancellation: false, hoursBeforeStart: 24, fee: 0, amountDue: 0 },
+    },
+    {
+      name: 'one second inside the free window is late',
+      policy: LATE_FEE, now: before(24, -1), paid: 0, deposit: 0,
+      charge: { lateCancellation: true, fee: 600, amountDue: 600, balance: 600 },
+    },
+    {
+      name: 'a minute inside the free window keeps the deposit towards the fee',
+      policy: LATE_FEE, now: before(23, 59 * 60), paid: 300, deposit: 300,
+      charge: { lateCancellation: true, hoursBeforeStart: 23.98, fee: 600, depositKept: 300, amountDue: 600, balance: 300 },
+    },
+    {
+      name: 'Friday 22:00 for the Friday night 00:30 match counts 2.5 hours, not a day',
+      policy: LATE_FEE, now: new Date(2025, 10, 14, 22, 0), paid: 0, deposit: 0,
+      charge: { lateCancellation: true, hoursBeforeStart: 2.5, fee: 600, amountDue: 600 },
+    },
+    {
+      name: 'Friday 00:30, a calendar day but a whole business day earlier, is free',
+      policy: LATE_FEE, now: new Date(2025, 10, 14, 0, 30), paid: 0, deposit: 0,
+      charge: { lateCancellation: false, hoursBeforeStart: 24, fee: 0 },
+    },
+    {
+      name: 'after kickoff is late',
+      policy: LATE_FEE, now: before(-0.5), paid: 0, deposit: 0,
+      charge: { lateCancellation: true, hoursBeforeStart: -0.5, fee: 600 },
+    },
+    {
+      name: 'a kept deposit larger than the fee is what the customer owes',
+      policy: { ...LATE_FEE, feePercent: 10 }, now: before(3), paid: 300, deposit: 300,
+      charge: { fee: 120, depositKept: 300, amountDue: 300, balance: 0 },
+    },
+    {
+      name: 'a deposit that is never refunded is kept inside the free window too',
+      policy: { ...LATE_FEE, depositRefund: 'never' }, now: before(48), paid: 500, deposit: 200,
+      charge: { lateCancellation: false, fee: 0, depositKept: 200, amountDue: 200, balance: -300 },
+    },
+    {
+      name: 'a deposit that is always refunded is not kept on a late cancellation',
+      policy: { ...LATE_FEE, depositRefund: 'always' }, now: before(3), paid: 300, deposit: 300,
+      charge: { fee: 600, depositKept: 0, amountDue: 600, balance: 300 },
+    },
+    {
+      name: 'a waived cancellation refunds everything paid',
+      policy: { ...LATE_FEE, depositRefund: 'never' }, now: before(1), paid: 300, deposit: 300, waived: true,
+      charge: { waived: true, lateCancellation: true, fee: 0, depositKept: 0, amountDue: 0, balance: -300 },
+    },
+    {
+      name: 'a reservation without a price has no fee',
+      policy: LATE_FEE, now: before(1), paid: 0, deposit: 0, price: null,
+      charge: { lateCancellation: true, fee: 0, amountDue: 0 },
+    },
+    {
+      name: 'fees are rounded to kuruş',
+      policy: { ...LATE_FEE, feePercent: 15 }, now: before(1), paid: 10.1, deposit: 0, price: 333,
+      charge: { fee: 49.95, amountDue: 49.95, balance: 39.85 },
+    },
+  ];
+
+  it.each(cases)('$name', ({ policy, now, paid, deposit, price, waived, charge }) => {
+    const result = cancellationPolicyService.calculateCharge(
+      policy,
+      price === undefined ? PRICE : price,
+      KICKOFF,
+      paid,
+      deposit,
+      waived,
+      now
+    );
+
+    expect(result).toMatchObject({ ...charge, paidAmount: paid });
+  });
+});
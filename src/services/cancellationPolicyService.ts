@@ -0,0 +1,187 @@
+import { tenantService } from './tenantService';
+import { cacheService } from './cacheService';
+
+export type DepositRefund = 'always' | 'free_window_only' | 'never';
+
+export interface CancellationPolicy {
+  // Cancelling at least this many hours before kickoff is free
+  freeWindowHours: number;
+  // Share of the price charged for a late cancellation
+  feePercent: number;
+  // When a paid deposit (kapora) is given back on cancellation
+  depositRefund: DepositRefund;
+}
+
+export interface CancellationCharge {
+  lateCancellation: boolean;
+  waived: boolean;
+  hoursBeforeStart: number;
+  fee: number;
+  depositKept: number;
+  amountDue: number; // what the cancellation costs the customer
+  paidAmount: number;
+  balance: number; // > 0 customer still owes, < 0 refund due to the customer
+}
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  freeWindowHours: 24,
+  feePercent: 0,
+  depositRefund: 'always',
+};
+
+class CancellationPolicyService {
+  async getPolicy(tenantId: number): Promise<CancellationPolicy> {
+    const cacheKey = this.getCacheKey(tenantId);
+    const cached = await cacheService.get<CancellationPolicy>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const tenant = await tenantService.getTenantById(tenantId);
+    const policy: CancellationPolicy = {
+      ...DEFAULT_CANCELLATION_POLICY,
+      ...(tenant?.settings?.cancellationPolicy || {}),
+    };
+
+    // Cache for 10 minutes
+    await cacheService.set(cacheKey, policy, 600);
+
+    return policy;
+  }
+
+  async updatePolicy(tenantId: number, changes: Partial<CancellationPolicy>): Promise<CancellationPolicy> {
+    const tenant = await tenantService.getTenantById(tenantId);
+    if (!tenant) {
+      throw new Error('İşletme bulunamadı');
+    }
+
+    const current = await this.getPolicy(tenantId);
+    const policy: CancellationPolicy = {
+      freeWindowHours: changes.freeWindowHours ?? current.freeWindowHours,
+      feePercent: changes.feePercent ?? current.feePercent,
+      depositRefund: changes.depositRefund ?? current.depositRefund,
+    };
+
+    if (policy.freeWindowHours < 0 || policy.freeWindowHours > 24 * 14) {
+      throw new Error('Ücretsiz iptal süresi 0 ile 336 saat arasında olmalı');
+    }
+
+    if (policy.feePercent < 0 || policy.feePercent > 100) {
+      throw new Error('İptal ücreti yüzdesi 0 ile 100 arasında olmalı');
+    }
+
+    if (!['always', 'free_window_only', 'never'].includes(policy.depositRefund)) {
+      throw new Error('Kapora iadesi always, free_window_only veya never olmalı');
+    }
+
+    await tenantService.updateTenant(tenantId, {
+      settings: { ...tenant.settings, cancellationPolicy: policy },
+    });
+    await cacheService.del(this.getCacheKey(tenantId));
+
+    return policy;
+  }
+
+  /**
+   * Work out what cancelling a reservation costs. Deposits count towards the fee, so the
+   * customer owes the larger of the fee and the kept deposit.
+   */
+  calculateCharge(
+    policy: CancellationPolicy,
+    price: number | null,
+    startTime: Date,
+    paidAmount: number,
+    depositAmount: number,
+    waived: boolean = false,
+    now: Date = new Date()
+  ): CancellationCharge {
+    const msBeforeStart = startTime.getTime() - now.getTime();
+    const hoursBeforeStart = Math.round(msBeforeStart / 36000) / 100;
+    // Compared unrounded, a cancellation seconds inside the window is late
+    const lateCancellation = msBeforeStart < policy.freeWindowHours * 60 * 60 * 1000;
+
+    let fee = 0;
+    let depositKept = 0;
+
+    if (!waived) {
+      if (lateCancellation && price) {
+        fee = Math.round(price * policy.feePercent) / 100;
+      }
+
+      if (policy.depositRefund === 'never' || (policy.depositRefund === 'free_window_only' && lateCancellation)) {
+        depositKept = depositAmount;
+      }
+    }
+
+    const amountDue = Math.max(fee, depositKept);
+
+    return {
+      lateCancellation,
+      waived,
+      hoursBeforeStart,
+      fee,
+      depositKept,
+      amountDue,
+      paidAmount,
+      balance: Math.round((amountDue - paidAmount) * 100) / 100,
+    };
+  }
+
+  formatPolicyMessage(policy: CancellationPolicy): string {
+    const depositText = {
+      always: 'Her zaman iade edilir',
+      free_window_only: `Sadece ${policy.freeWindowHours} saatten önce iptalde iade edilir`,
+      never: 'İade edilmez',
+    }[policy.depositRefund];
+
+    return `📜 İptal Politikası\n\n` +
+      `⏰ Ücretsiz iptal: maçtan en az ${policy.freeWindowHours} saat önce\n` +
+      `💸 Geç iptal ücreti: fiyatın %${policy.feePercent}'i\n` +
+      `💰 Kapora: ${depositText}`;
+  }
+
+  formatChargeMessage(charge: CancellationCharge): string {
+    if (charge.waived) {
+      return charge.paidAmount > 0
+        ? `💸 İptal ücreti alınmadı. Müşteriye ${charge.paidAmount} TL iade edilmeli.`
+        : `💸 İptal ücreti alınmadı.`;
+    }
+
+    let message = charge.lateCancellation
+      ? `⚠️ Geç iptal (${this.formatTimeLeft(charge.hoursBeforeStart)})\n`
+      : `✅ Ücretsiz iptal süresi içinde\n`;
+
+    if (charge.fee > 0) {
+      message += `💸 İptal ücreti: ${charge.fee} TL\n`;
+    }
+    if (charge.depositKept > 0) {
+      message += `💰 Kapora iade edilmez: ${charge.depositKept} TL\n`;
+    }
+
+    if (charge.balance > 0) {
+      message += `👉 Müşterinin borcu: ${charge.balance} TL`;
+    } else if (charge.balance < 0) {
+      message += `👉 Müşteriye iade: ${-charge.balance} TL`;
+    } else {
+      message += charge.amountDue > 0 ? `👉 Ücret ödenen tutardan karşılandı, borç yok` : `👉 Müşterinin borcu yok`;
+    }
+
+    return message;
+  }
+
+  private formatTimeLeft(hours: number): string {
+    if (hours < 0) {
+      return 'maç başladıktan sonra';
+    }
+    if (hours < 1) {
+      return `maça ${Math.round(hours * 60)} dakika kala`;
+    }
+    return `maça ${Math.floor(hours)} saat kala`;
+  }
+
+  private getCacheKey(tenantId: number): string {
+    return `cancellation_policy:${tenantId}`;
+  }
+}
+
+export const cancellationPolicyService = new CancellationPolicyService();
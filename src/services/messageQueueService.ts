@@ -0,0 +1,167 @@
+import { db } from '../database/db';
+import { config } from '../config';
+import { cacheService } from './cacheService';
+
+export interface MessageJob {
+  id: number;
+  tenant_id: number;
+  user_id: string;
+  message_id: string;
+  payload: any; // the WhatsApp message object as received in the webhook
+  status: 'pending' | 'processing' | 'done' | 'dead';
+  attempts: number;
+  last_error: string | null;
+  created_at: Date;
+}
+
+export type MessageJobHandler = (job: MessageJob) => Promise<void>;
+
+export interface MessageQueueStats {
+  pending: number;
+  processing: number;
+  done: number;
+  dead: number;
+}
+
+/**
+ * Incoming WhatsApp messages are stored in Postgres before the webhook is acknowledged and
+ * processed here in the background. Each sender's messages run one at a time in arrival order,
+ * failures are retried with growing delays and end up in the dead letters after the last attempt.
+ */
+class MessageQueueService {
+  // Meta redelivers a webhook for a while when it does not get a 200 in time
+  private readonly DEDUP_TTL_SECONDS = 24 * 60 * 60;
+  private readonly RETRY_DELAYS_SECONDS = [10, 60, 5 * 60];
+  private readonly IDLE_POLL_MS = 5000;
+
+  private handler: MessageJobHandler | null = null;
+  private activeWorkers = 0;
+  private pollTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Store an incoming message for processing. Returns false for a message we have already seen.
+   */
+  async enqueue(tenantId: number, userId: string, message: any): Promise<boolean> {
+    // Redis catches redeliveries cheaply, the unique message_id is the safety net behind it
+    const isNew = await cacheService.setIfAbsent(this.getDedupKey(message.id), 1, this.DEDUP_TTL_SECONDS);
+    if (!isNew) {
+      return false;
+    }
+
+    let job: MessageJob | undefined;
+    try {
+      job = await db.enqueueMessageJob(tenantId, userId, message.id, message);
+    } catch (error) {
+      // Not stored, so Meta's redelivery must not be treated as a duplicate
+      await cacheService.del(this.getDedupKey(message.id));
+      throw error;
+    }
+
+    if (!job) {
+      return false;
+    }
+
+    this.wake();
+    return true;
+  }
+
+  /**
+   * Start processing queued messages in this process
+   */
+  start(handler: MessageJobHandler): void {
+    this.handler = handler;
+    this.wake();
+    console.log(`📨 Message queue started with ${config.messageQueue.concurrency} worker(s)`);
+  }
+
+  /**
+   * Put messages back whose worker died mid-processing. Runs periodically from the scheduler.
+   */
+  async releaseStaleJobs(): Promise<number> {
+    // Well beyond the slowest LLM loop with a voice transcription in front of it
+    return await db.releaseStaleMessageJobs(10, config.messageQueue.maxAttempts);
+  }
+
+  async deleteFinishedJobs(): Promise<number> {
+    return await db.deleteFinishedMessageJobs(7);
+  }
+
+  async getStats(): Promise<MessageQueueStats> {
+    const rows = await db.getMessageQueueStats();
+    const count = (status: string) =>
+      parseInt(rows.find((row: any) => row.status === status)?.job_count || '0', 10);
+
+    return {
+      pending: count('pending'),
+      processing: count('processing'),
+      done: count('done'),
+      dead: count('dead'),
+    };
+  }
+
+  /**
+   * Fill the free worker slots. Called on start, after every enqueue and on an idle timer that
+   * also picks up retries and messages stored by other replicas.
+   */
+  private wake(): void {
+    if (!this.handler) {
+      return;
+    }
+
+    while (this.activeWorkers < config.messageQueue.concurrency) {
+      this.activeWorkers++;
+      this.runWorker().finally(() => {
+        this.activeWorkers--;
+      });
+    }
+  }
+
+  private async runWorker(): Promise<void> {
+    try {
+      let job: MessageJob | undefined;
+      while ((job = await db.claimNextMessageJob())) {
+        await this.process(job);
+      }
+    } catch (error) {
+      console.error('Message queue worker error:', error);
+    }
+
+    this.scheduleIdlePoll();
+  }
+
+  private async process(job: MessageJob): Promise<void> {
+    try {
+      await this.handler!(job);
+      await db.completeMessageJob(job.id);
+    } catch (error: any) {
+      const reason = error?.response?.data?.error?.message || error?.message || String(error);
+
+      if (job.attempts >= config.messageQueue.maxAttempts) {
+        console.error(`💀 Message ${job.message_id} from ${job.user_id} failed ${job.attempts} times, moved to dead letters:`, error);
+        await db.deadLetterMessageJob(job.id, reason);
+        return;
+      }
+
+      const delay = this.RETRY_DELAYS_SECONDS[Math.min(job.attempts - 1, this.RETRY_DELAYS_SECONDS.length - 1)];
+      console.warn(`Message ${job.message_id} from ${job.user_id} failed (attempt ${job.attempts}), retrying in ${delay}s:`, reason);
+      await db.retryMessageJob(job.id, delay, reason);
+    }
+  }
+
+  private scheduleIdlePoll(): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.pollTimer = setTimeout(() => {
+      this.pollTimer = null;
+      this.wake();
+    }, this.IDLE_POLL_MS);
+  }
+
+  private getDedupKey(messageId: string): string {
+    return `processed_message:${messageId}`;
+  }
+}
+
+export const messageQueueService = new MessageQueueService();
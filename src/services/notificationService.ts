@@ -0,0 +1,202 @@
+import { db } from '../database/db';
+import { tenantService } from './tenantService';
+import { cacheService } from './cacheService';
+import { WhatsAppClient, TemplateParameters } from '../whatsappClient';
+
+// Customer-facing messages we send without the customer writing first
+export type NotificationType = 'reservation_reminder' | 'waitlist_offer';
+export type NotificationChannel = 'text' | 'template';
+
+// Placeholder style the template was approved with: {{1}}, {{2}} or {{customer_name}}
+export type TemplateParameterFormat = 'positional' | 'named';
+
+export interface TemplateConfig {
+  name: string;
+  language: string; // WhatsApp language code, e.g. "tr" or "en_US"
+  parameterFormat: TemplateParameterFormat;
+}
+
+export type TemplateRegistry = { [type in NotificationType]: TemplateConfig };
+
+export interface Notification {
+  type: NotificationType;
+  phoneNumber: string;
+  // Free-form message, used while the customer's 24-hour window is open
+  text: string;
+  // Template values by the names in NOTIFICATION_PARAMETERS
+  parameters: { [name: string]: string };
+  // When the customer last wrote to us; looked up when not given
+  lastMessageAt?: Date | null;
+}
+
+/**
+ * The values each notification fills into its template. Positional templates get them in this order.
+ */
+export const NOTIFICATION_PARAMETERS: { [type in NotificationType]: string[] } = {
+  reservation_reminder: ['customer_name', 'date', 'time', 'pitch'],
+  waitlist_offer: ['customer_name', 'date', 'time', 'hold_until'],
+};
+
+export const DEFAULT_TEMPLATES: TemplateRegistry = {
+  reservation_reminder: { name: 'reservation_reminder', language: 'tr', parameterFormat: 'positional' },
+  waitlist_offer: { name: 'waitlist_offer', language: 'tr', parameterFormat: 'positional' },
+};
+
+class NotificationService {
+  // WhatsApp only delivers free-form messages within this window after the customer's last message
+  private readonly SESSION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+  private readonly TYPE_LABELS: { [type in NotificationType]: string } = {
+    reservation_reminder: 'Maç hatırlatması',
+    waitlist_offer: 'Bekleme listesi teklifi',
+  };
+
+  private whatsappClient = new WhatsAppClient();
+
+  async getTemplates(tenantId: number): Promise<TemplateRegistry> {
+    const cacheKey = this.getCacheKey(tenantId);
+    const cached = await cacheService.get<TemplateRegistry>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const tenant = await tenantService.getTenantById(tenantId);
+    const stored = tenant?.settings?.templates || {};
+    // Reminder templates used to be configured with the reminder settings
+    const legacyReminder = tenant?.settings?.reminders || {};
+
+    const templates: TemplateRegistry = {
+      reservation_reminder: {
+        ...DEFAULT_TEMPLATES.reservation_reminder,
+        ...(legacyReminder.templateName ? { name: legacyReminder.templateName } : {}),
+        ...(legacyReminder.templateLanguage ? { language: legacyReminder.templateLanguage } : {}),
+        ...(stored.reservation_reminder || {}),
+      },
+      waitlist_offer: { ...DEFAULT_TEMPLATES.waitlist_offer, ...(stored.waitlist_offer || {}) },
+    };
+
+    // Cache for 10 minutes
+    await cacheService.set(cacheKey, templates, 600);
+
+    return templates;
+  }
+
+  async updateTemplate(tenantId: number, type: NotificationType, changes: Partial<TemplateConfig>): Promise<TemplateRegistry> {
+    if (!NOTIFICATION_PARAMETERS[type]) {
+      throw new Error(`Bilinmeyen bildirim türü: ${type}`);
+    }
+
+    const tenant = await tenantService.getTenantById(tenantId);
+    if (!tenant) {
+      throw new Error('İşletme bulunamadı');
+    }
+
+    const templates = await this.getTemplates(tenantId);
+    const template: TemplateConfig = {
+      name: changes.name?.trim() ?? templates[type].name,
+      language: changes.language?.trim() ?? templates[type].language,
+      parameterFormat: changes.parameterFormat ?? templates[type].parameterFormat,
+    };
+
+    // Meta only accepts lowercase letters, digits and underscores in template names
+    if (!/^[a-z0-9_]{1,512}$/.test(template.name)) {
+      throw new Error('Şablon adı sadece küçük harf, rakam ve alt çizgi içerebilir');
+    }
+
+    if (!/^[a-z]{2,3}(_[A-Z]{2})?$/.test(template.language)) {
+      throw new Error('Dil kodu "tr" veya "en_US" biçiminde olmalı');
+    }
+
+    if (template.parameterFormat !== 'positional' && template.parameterFormat !== 'named') {
+      throw new Error('Parametre biçimi positional veya named olmalı');
+    }
+
+    await tenantService.updateTenant(tenantId, {
+      settings: { ...tenant.settings, templates: { ...(tenant.settings?.templates || {}), [type]: template } },
+    });
+    await cacheService.del(this.getCacheKey(tenantId));
+
+    return { ...templates, [type]: template };
+  }
+
+  /**
+   * Send a notification as a free-form message while the customer's 24-hour window is open,
+   * otherwise as the tenant's approved template. Returns the channel used.
+   */
+  async send(tenantId: number, notification: Notification): Promise<NotificationChannel> {
+    const to = this.whatsappClient.toWhatsAppNumber(notification.phoneNumber);
+
+    let lastMessageAt = notification.lastMessageAt;
+    if (lastMessageAt === undefined) {
+      const customer = await db.getCustomerByPhoneDigits(notification.phoneNumber, tenantId);
+      lastMessageAt = customer?.last_message_at || null;
+    }
+
+    if (this.getChannel(lastMessageAt ?? null) === 'text') {
+      await this.whatsappClient.sendMessage(to, notification.text);
+      return 'text';
+    }
+
+    const template = (await this.getTemplates(tenantId))[notification.type];
+    await this.whatsappClient.sendTemplate(
+      to,
+      template.name,
+      template.language,
+      this.buildParameters(notification, template)
+    );
+
+    return 'template';
+  }
+
+  /**
+   * How a customer who last wrote at lastMessageAt can be reached right now
+   */
+  getChannel(lastMessageAt: Date | null): NotificationChannel {
+    return lastMessageAt && Date.now() - new Date(lastMessageAt).getTime() < this.SESSION_WINDOW_MS
+      ? 'text'
+      : 'template';
+  }
+
+  formatTemplatesMessage(templates: TemplateRegistry): string {
+    let message = `📄 WhatsApp Mesaj Şablonları\n\n`;
+
+    (Object.keys(templates) as NotificationType[]).forEach(type => {
+      const template = templates[type];
+      message += `• ${this.TYPE_LABELS[type]} (${type})\n`;
+      message += `   Şablon: ${template.name} (${template.language})\n`;
+      message += `   Parametreler: ${this.formatPlaceholders(type, template.parameterFormat)}\n\n`;
+    });
+
+    message += `💬 Müşteri son 24 saatte yazmadıysa bildirimler bu şablonlarla gönderilir. ` +
+      `Şablonlar Meta'da onaylanmış olmalı.`;
+
+    return message;
+  }
+
+  private buildParameters(notification: Notification, template: TemplateConfig): TemplateParameters {
+    const names = NOTIFICATION_PARAMETERS[notification.type];
+
+    if (template.parameterFormat === 'named') {
+      const parameters: { [name: string]: string } = {};
+      for (const name of names) {
+        parameters[name] = notification.parameters[name] || '-';
+      }
+      return parameters;
+    }
+
+    // WhatsApp rejects empty parameter values
+    return names.map(name => notification.parameters[name] || '-');
+  }
+
+  private formatPlaceholders(type: NotificationType, format: TemplateParameterFormat): string {
+    return NOTIFICATION_PARAMETERS[type]
+      .map((name, index) => format === 'named' ? `{{${name}}}` : `{{${index + 1}}} ${name}`)
+      .join(', ');
+  }
+
+  private getCacheKey(tenantId: number): string {
+    return `notification_templates:${tenantId}`;
+  }
+}
+
+export const notificationService = new NotificationService();
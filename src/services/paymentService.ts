@@ -0,0 +1,194 @@
+import { db } from '../database/db';
+import { reservationService, ReservationDetails } from './reservationService';
+
+export type PaymentMethod = 'cash' | 'card' | 'iban';
+export type PaymentType = 'deposit' | 'payment' | 'refund';
+
+export interface Payment {
+  id: number;
+  tenant_id: number;
+  reservation_id: number;
+  customer_id: number;
+  amount: string | number;
+  method: PaymentMethod;
+  type: PaymentType;
+  recorded_by?: string;
+  notes?: string;
+  paid_at: Date;
+}
+
+export interface PaymentInput {
+  reservationId: number;
+  amount: number;
+  method: PaymentMethod;
+  type?: PaymentType;
+  recordedBy?: string;
+  notes?: string;
+}
+
+export interface PaymentSummary {
+  reservation: ReservationDetails;
+  payments: Payment[];
+  amountDue: number | null; // price, or the cancellation fee once cancelled; null when unknown
+  paidAmount: number;
+  remainingAmount: number | null; // null when the reservation has no price
+}
+
+export interface UnpaidReservation extends ReservationDetails {
+  paid_amount: string | number;
+  amount_due: string | number;
+}
+
+class PaymentService {
+  private readonly METHOD_LABELS: { [method in PaymentMethod]: string } = {
+    cash: 'Nakit',
+    card: 'Kart',
+    iban: 'IBAN/Havale',
+  };
+
+  private readonly TYPE_LABELS: { [type in PaymentType]: string } = {
+    deposit: 'Kapora',
+    payment: 'Ödeme',
+    refund: 'İade',
+  };
+
+  async recordPayment(input: PaymentInput, tenantId: number): Promise<{ payment: Payment; summary: PaymentSummary }> {
+    if (!(input.amount > 0)) {
+      throw new Error('Ödeme tutarı sıfırdan büyük olmalı');
+    }
+
+    const before = await this.getPaymentSummary(input.reservationId, tenantId);
+    const type = input.type || 'payment';
+
+    if (before.reservation.status === 'cancelled' && type !== 'refund' && !before.remainingAmount) {
+      throw new Error('İptal edilmiş rezervasyona ödeme alınamaz');
+    }
+
+    if (type === 'refund' && input.amount > before.paidAmount) {
+      throw new Error(`İade tutarı ödenen tutardan (${before.paidAmount} TL) fazla olamaz`);
+    }
+
+    if (type !== 'refund' && before.remainingAmount !== null && input.amount > before.remainingAmount) {
+      throw new Error(`Ödeme kalan tutardan (${before.remainingAmount} TL) fazla olamaz`);
+    }
+
+    const payment = await db.createPayment(
+      tenantId,
+      input.reservationId,
+      before.reservation.customer_id,
+      input.amount,
+      input.method,
+      type,
+      input.recordedBy,
+      input.notes
+    );
+
+    const summary = await this.getPaymentSummary(input.reservationId, tenantId);
+
+    return { payment, summary };
+  }
+
+  async getPaymentSummary(reservationId: number, tenantId: number): Promise<PaymentSummary> {
+    const reservation = await reservationService.getReservationById(reservationId, tenantId);
+    const payments: Payment[] = await db.getPaymentsByReservation(reservationId, tenantId);
+    const paidAmount = this.sumPayments(payments);
+    // A cancelled reservation only owes its cancellation fee
+    const due = reservation.status === 'cancelled' ? reservation.cancellation_fee : reservation.price;
+    const amountDue = due !== undefined && due !== null ? Number(due) : null;
+
+    return {
+      reservation,
+      payments,
+      amountDue,
+      paidAmount,
+      remainingAmount: amountDue !== null ? Math.max(Math.round((amountDue - paidAmount) * 100) / 100, 0) : null,
+    };
+  }
+
+  async listUnpaidReservations(tenantId: number, startDate?: Date, endDate?: Date): Promise<UnpaidReservation[]> {
+    return await db.getUnpaidReservations(tenantId, startDate, endDate);
+  }
+
+  /**
+   * Map what staff type ("nakit", "kredi kartı", "havale", "eft") to a stored payment method
+   */
+  parseMethod(method: string): PaymentMethod {
+    const text = method.toLocaleLowerCase('tr-TR');
+
+    if (text.includes('nakit') || text === 'cash') {
+      return 'cash';
+    }
+    if (text.includes('kart') || text === 'card') {
+      return 'card';
+    }
+    if (text.includes('iban') || text.includes('havale') || text.includes('eft')) {
+      return 'iban';
+    }
+
+    throw new Error(`Ödeme yöntemi anlaşılamadı: "${method}". Nakit, kart veya IBAN olmalı`);
+  }
+
+  formatSummary(summary: PaymentSummary): string {
+    let message = summary.reservation.status === 'cancelled'
+      ? `💸 İptal ücreti: ${summary.amountDue ?? 0} TL\n`
+      : `💰 Fiyat: ${summary.reservation.price ? `${summary.reservation.price} TL` : 'belirtilmemiş'}\n`;
+    message += `✅ Ödenen: ${summary.paidAmount} TL\n`;
+
+    if (summary.remainingAmount !== null) {
+      message += summary.remainingAmount > 0
+        ? `⏳ Kalan: ${summary.remainingAmount} TL\n`
+        : `🎉 Ödeme tamamlandı\n`;
+    }
+
+    if (summary.payments.length > 0) {
+      message += `\n🧾 Ödemeler:\n`;
+      summary.payments.forEach(payment => {
+        message += `   • ${new Date(payment.paid_at).toLocaleDateString('tr-TR')} ${this.TYPE_LABELS[payment.type]} - ` +
+          `${Number(payment.amount)} TL (${this.METHOD_LABELS[payment.method]})\n`;
+      });
+    }
+
+    return message;
+  }
+
+  formatUnpaidMessage(reservations: UnpaidReservation[]): string {
+    let total = 0;
+    let message = `💸 ${reservations.length} rezervasyonun ödemesi eksik:\n\n`;
+
+    reservations.forEach((res, index) => {
+      const startTime = new Date(res.start_time);
+      const endTime = new Date(res.end_time);
+      const remaining = Number(res.amount_due) - Number(res.paid_amount);
+      total += remaining;
+
+      message += `${index + 1}. 🆔 ID: ${res.id} - ${res.customer_name}\n`;
+      message += `   📞 ${res.phone_number}\n`;
+      message += `   📅 ${startTime.toLocaleDateString('tr-TR')} ` +
+        `${startTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}-${endTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}\n`;
+      message += `   ${res.status === 'cancelled' ? '💸 İptal ücreti' : '💰'} ${Number(res.amount_due)} TL, ` +
+        `ödenen ${Number(res.paid_amount)} TL, kalan ${remaining} TL\n\n`;
+    });
+
+    message += `⏳ Toplam alacak: ${Math.round(total * 100) / 100} TL`;
+
+    return message;
+  }
+
+  getTypeLabel(type: PaymentType): string {
+    return this.TYPE_LABELS[type];
+  }
+
+  getMethodLabel(method: PaymentMethod): string {
+    return this.METHOD_LABELS[method];
+  }
+
+  private sumPayments(payments: Payment[]): number {
+    const total = payments.reduce(
+      (sum, payment) => sum + (payment.type === 'refund' ? -Number(payment.amount) : Number(payment.amount)),
+      0
+    );
+    return Math.round(total * 100) / 100;
+  }
+}
+
+export const paymentService = new PaymentService();
@@ -0,0 +1,57 @@
+import { pendingActionService, PendingAction } from './pendingActionService';
+import { cacheService } from './cacheService';
+
+jest.mock('./cacheService', () => ({
+  cacheService: { set: jest.fn(), get: jest.fn(), del: jest.fn() },
+}));
+
+const action: PendingAction = {
+  token: '4821',
+  steps: [{ functionName: 'cancel_reservation', args: { reservation_id: 7 }, summary: 'Ahmet, Cuma 21:00-22:00 iptal edilecek.' }],
+  origin: 'agent',
+  createdAt: '2025-11-12T14:00:00.000Z',
+};
+
+describe('pendingActionService.parseReply', () => {
+  const cases: { text: string; reply: 'confirm' | 'cancel' | null }[] = [
+    { text: 'evet', reply: 'confirm' },
+    { text: '  Evet! ', reply: 'confirm' },
+    { text: 'EVET, onaylıyorum.', reply: 'confirm' },
+    { text: 'Tamam', reply: 'confirm' },
+    { text: '4821', reply: 'confirm' },
+    { text: 'confirm:4821', reply: 'confirm' },
+    { text: 'confirm:1234', reply: null },
+    { text: 'evet ama iptal etme', reply: null },
+    { text: 'evet, saatini 22:00 yap', reply: null },
+    { text: 'tamam da yarınki maçı da iptal et', reply: null },
+    { text: 'hayır', reply: 'cancel' },
+    { text: 'Vazgeçtim.', reply: 'cancel' },
+    { text: 'iptal etme', reply: 'cancel' },
+    { text: 'cancel:4821', reply: 'cancel' },
+    { text: 'Cuma maçını göster', reply: null },
+  ];
+
+  it.each(cases)('"$text" → $reply', ({ text, reply }) => {
+    expect(pendingActionService.parseReply(text, action)).toBe(reply);
+  });
+});
+
+describe('pendingActionService.create', () => {
+  it('keeps every step of the turn under one token', async () => {
+    const steps = [
+      action.steps[0],
+      { functionName: 'cancel_reservation', args: { reservation_id: 9 }, summary: 'Mehmet, Cumartesi 20:00-21:00 iptal edilecek.' },
+    ];
+
+    const created = await pendingActionService.create(1, '905551112233', steps, 'Ahmet ve Mehmet i iptal et');
+
+    expect(created.steps).toEqual(steps);
+    expect(cacheService.set).toHaveBeenCalledWith('pending_action:1:905551112233', created, 300);
+
+    const prompt = pendingActionService.formatPrompt(created);
+    expect(prompt).toContain('Bu 2 işlem birlikte yapılacak');
+    expect(prompt).toContain('1) Ahmet, Cuma 21:00-22:00 iptal edilecek.');
+    expect(prompt).toContain('2) Mehmet, Cumartesi 20:00-21:00 iptal edilecek.');
+    expect(prompt).toContain(created.token);
+  });
+});
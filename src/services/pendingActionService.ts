@@ -0,0 +1,132 @@
+import { randomInt } from 'crypto';
+import { cacheService } from './cacheService';
+
+/**
+ * One destructive tool call waiting for confirmation
+ */
+export interface PendingStep {
+  functionName: string;
+  args: any;
+  summary: string;
+}
+
+export interface PendingAction {
+  token: string;
+  // Every destructive call of the turn, confirmed or rejected together and run in order
+  steps: PendingStep[];
+  sourceMessage?: string; // the request being confirmed, kept for the reservation history
+  // Who asked for the confirmation and runs the steps once confirmed
+  origin: PendingActionOrigin;
+  createdAt: string;
+}
+
+// 'agent': a tool call in FieldAgent, 'reminder': an "iptal" answer to a reminder
+export type PendingActionOrigin = 'agent' | 'reminder';
+
+export type PendingActionReply = 'confirm' | 'cancel';
+
+/**
+ * Destructive agent actions wait here until the user confirms them in their next message
+ */
+class PendingActionService {
+  private readonly TTL_SECONDS = 5 * 60;
+  // A confirmation must be the whole message: "evet ama iptal etme" confirms nothing
+  private readonly CONFIRM_ANSWERS = ['evet', 'onayla', 'onayliyorum', 'evet onayliyorum', 'onay', 'eminim', 'tamam'];
+  private readonly CANCEL_PATTERN = /^(hayir|vazgec|vazgectim|dur|iptal etme)\b/;
+
+  async create(
+    tenantId: number,
+    userId: string,
+    steps: PendingStep[],
+    sourceMessage?: string,
+    origin: PendingActionOrigin = 'agent'
+  ): Promise<PendingAction> {
+    const action: PendingAction = {
+      token: randomInt(1000, 10000).toString(),
+      steps,
+      sourceMessage,
+      origin,
+      createdAt: new Date().toISOString(),
+    };
+
+    // A new request replaces whatever was waiting before
+    await cacheService.set(this.getCacheKey(tenantId, userId), action, this.TTL_SECONDS);
+
+    return action;
+  }
+
+  /**
+   * Remove and return the action waiting for this user. Only the very next message can confirm it.
+   * With an origin, an action asked for by someone else is left in place.
+   */
+  async take(tenantId: number, userId: string, origin?: PendingActionOrigin): Promise<PendingAction | null> {
+    const key = this.getCacheKey(tenantId, userId);
+    const action = await cacheService.get<PendingAction>(key);
+
+    if (action && origin && action.origin !== origin) {
+      return null;
+    }
+
+    if (action) {
+      await cacheService.del(key);
+    }
+
+    return action;
+  }
+
+  /**
+   * Whether a message confirms or rejects the pending action. Accepts "evet"/"hayır", the
+   * confirmation code itself, and the ids of the interactive reply buttons.
+   */
+  parseReply(text: string, action: PendingAction): PendingActionReply | null {
+    const answer = this.normalize(text);
+
+    if (answer === `confirm:${action.token}` || answer === action.token || this.CONFIRM_ANSWERS.includes(answer)) {
+      return 'confirm';
+    }
+
+    if (answer === `cancel:${action.token}` || this.CANCEL_PATTERN.test(answer)) {
+      return 'cancel';
+    }
+
+    return null;
+  }
+
+  getButtons(action: PendingAction): { id: string; title: string }[] {
+    return [
+      { id: `confirm:${action.token}`, title: '✅ Onayla' },
+      { id: `cancel:${action.token}`, title: '❌ Vazgeç' },
+    ];
+  }
+
+  formatPrompt(action: PendingAction): string {
+    const summary = action.steps.length === 1
+      ? action.steps[0].summary
+      : `Bu ${action.steps.length} işlem birlikte yapılacak:\n\n` +
+        action.steps.map((step, index) => `${index + 1}) ${step.summary}`).join('\n\n');
+
+    return `${summary}\n\n` +
+      `⚠️ Onaylıyor musunuz? Onaylamak için "EVET" (onay kodu: ${action.token}), vazgeçmek için "HAYIR" yazın.\n` +
+      `⏳ Onay ${this.TTL_SECONDS / 60} dakika geçerli.`;
+  }
+
+  private normalize(text: string): string {
+    return text
+      .toLocaleLowerCase('tr-TR')
+      .replace(/ı/g, 'i')
+      .replace(/ğ/g, 'g')
+      .replace(/ü/g, 'u')
+      .replace(/ş/g, 's')
+      .replace(/ö/g, 'o')
+      .replace(/ç/g, 'c')
+      .replace(/[.!?,]+/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  private getCacheKey(tenantId: number, userId: string): string {
+    return `pending_action:${tenantId}:${userId}`;
+  }
+}
+
+export const pendingActionService = new PendingActionService();
@@ -0,0 +1,68 @@
+import { db } from '../database/db';
+
+export interface Pitch {
+  id: number;
+  tenant_id: number;
+  name: string;
+  sort_order: number;
+  is_active: boolean;
+}
+
+class PitchService {
+  async listPitches(tenantId: number): Promise<Pitch[]> {
+    return await db.getPitches(tenantId);
+  }
+
+  async createPitch(tenantId: number, name: string): Promise<Pitch> {
+    const pitches = await this.listPitches(tenantId);
+    return await db.createPitch(tenantId, name.trim(), pitches.length + 1);
+  }
+
+  /**
+   * Resolve a user supplied pitch reference ("2", "Saha 2", "kapalı saha") to a pitch.
+   * When the tenant has a single pitch the reference is optional.
+   */
+  async resolvePitch(tenantId: number, pitchRef?: string | number): Promise<Pitch> {
+    const pitches = await this.listPitches(tenantId);
+
+    if (pitches.length === 0) {
+      throw new Error('Bu işletme için tanımlı saha bulunamadı');
+    }
+
+    if (pitchRef === undefined || pitchRef === null || `${pitchRef}`.trim() === '') {
+      if (pitches.length === 1) {
+        return pitches[0];
+      }
+      throw new Error(`Hangi saha? Mevcut sahalar: ${this.formatPitchNames(pitches)}`);
+    }
+
+    const ref = `${pitchRef}`.trim().toLocaleLowerCase('tr-TR');
+
+    const byName = pitches.find(p => p.name.toLocaleLowerCase('tr-TR') === ref);
+    if (byName) {
+      return byName;
+    }
+
+    // "2", "saha 2", "2. saha" → the second pitch in display order
+    const numberMatch = ref.match(/(\d+)/);
+    if (numberMatch) {
+      const index = parseInt(numberMatch[1]) - 1;
+      if (index >= 0 && index < pitches.length) {
+        return pitches[index];
+      }
+    }
+
+    const partial = pitches.filter(p => p.name.toLocaleLowerCase('tr-TR').includes(ref));
+    if (partial.length === 1) {
+      return partial[0];
+    }
+
+    throw new Error(`"${pitchRef}" adında saha bulunamadı. Mevcut sahalar: ${this.formatPitchNames(pitches)}`);
+  }
+
+  formatPitchNames(pitches: Pitch[]): string {
+    return pitches.map(p => p.name).join(', ');
+  }
+}
+
+export const pitchService = new PitchService();
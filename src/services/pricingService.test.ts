@@ -0,0 +1,101 @@
+import { pricingService, PricingRule } from './pricingService';
+import { db } from '../database/db';
+import { tenantService } from './tenantService';
+
+jest.mock('../database/db', () => ({
+  db: { getPricingRules: jest.fn() },
+}));
+jest.mock('./cacheService', () => ({
+  cacheService: { get: jest.fn(async () => null), set: jest.fn(), del: jest.fn() },
+}));
+jest.mock('./tenantService', () => ({
+  tenantService: { getTenantById: jest.fn() },
+}));
+
+let nextId = 1;
+const rule = (name: string, hourlyPrice: number, start: string, end: string, extra: Partial<PricingRule> = {}): PricingRule => ({
+  id: nextId++,
+  tenant_id: 1,
+  name,
+  pitch_id: null,
+  weekdays: null,
+  start_time: `${start}:00`,
+  end_time: `${end}:00`,
+  min_duration_minutes: null,
+  max_duration_minutes: null,
+  valid_from: null,
+  valid_to: null,
+  hourly_price: hourlyPrice.toFixed(2),
+  priority: 0,
+  ...extra,
+});
+
+// In the order the database may return them: the base price first
+const RULES: PricingRule[] = [
+  rule('Standart', 800, '12:00', '06:00'),
+  rule('Akşam', 1000, '18:00', '00:00', { priority: 1 }),
+  rule('Gece', 700, '00:00', '06:00', { priority: 1 }),
+  rule('Hafta sonu', 1100, '12:00', '06:00', { weekdays: [6, 0] }),
+  // Friday and Saturday nights, i.e. the hours after midnight of those business days
+  rule('Hafta sonu gecesi', 900, '00:00', '06:00', { weekdays: [5, 6], priority: 2 }),
+  rule('Kapalı saha', 1500, '12:00', '06:00', { pitch_id: 2 }),
+  rule('2 saat paket', 750, '12:00', '18:00', { min_duration_minutes: 120 }),
+  rule('Yılbaşı', 2000, '12:00', '06:00', { valid_from: new Date(2025, 11, 31), valid_to: new Date(2026, 0, 1) }),
+];
+
+// 12 November 2025 is a Wednesday
+const at = (day: number, hour: number, minute: number = 0) => new Date(2025, 10, day, hour, minute);
+
+describe('pricingService.calculatePrice', () => {
+  beforeEach(() => {
+    jest.mocked(db.getPricingRules).mockReset().mockResolvedValue(RULES);
+    jest.mocked(tenantService.getTenantById).mockReset().mockResolvedValue({ settings: {} } as any);
+  });
+
+  const cases: { name: string; pitchId?: number; start: Date; end: Date; total: number; rules: string[] }[] = [
+    { name: 'a weekday afternoon gets the base price', start: at(12, 14), end: at(12, 15), total: 800, rules: ['Standart'] },
+    { name: 'a higher priority beats an overlapping rule listed first', start: at(12, 20), end: at(12, 21), total: 1000, rules: ['Akşam'] },
+    { name: 'a weekday rule beats the everyday rule on Saturday', start: at(15, 14), end: at(15, 15), total: 1100, rules: ['Hafta sonu'] },
+    { name: 'the weekend rule does not apply on a weekday', start: at(13, 14), end: at(13, 15), total: 800, rules: ['Standart'] },
+    { name: 'priority beats the weekday rule on a Saturday evening', start: at(15, 20), end: at(15, 21), total: 1000, rules: ['Akşam'] },
+    { name: 'a pitch rule only prices its pitch', pitchId: 2, start: at(12, 14), end: at(12, 15), total: 1500, rules: ['Kapalı saha'] },
+    { name: 'a minimum duration rule prices long bookings only', start: at(12, 14), end: at(12, 16), total: 1500, rules: ['2 saat paket'] },
+    { name: 'a booking across midnight is priced hour by hour', start: at(12, 23), end: at(13, 1), total: 1700, rules: ['Akşam', 'Gece'] },
+    { name: 'Thursday 01:00 is Wednesday night', start: at(13, 1), end: at(13, 2), total: 700, rules: ['Gece'] },
+    { name: 'Saturday 01:00 is Friday night and gets the weekend night price', start: at(15, 1), end: at(15, 2), total: 900, rules: ['Hafta sonu gecesi'] },
+    { name: 'Friday 01:00 is Thursday night, not a weekend night', start: at(14, 1), end: at(14, 2), total: 700, rules: ['Gece'] },
+    { name: 'Monday 01:00 is Sunday night, not a weekend night', start: at(17, 1), end: at(17, 2), total: 700, rules: ['Gece'] },
+    { name: 'a part slot is charged by the minute', start: at(12, 19), end: at(12, 20, 30), total: 1500, rules: ['Akşam'] },
+    { name: 'a holiday period beats every other rule', start: new Date(2025, 11, 31, 20), end: new Date(2025, 11, 31, 21), total: 2000, rules: ['Yılbaşı'] },
+    { name: 'the night after the last holiday day still belongs to it', start: new Date(2026, 0, 2, 1), end: new Date(2026, 0, 2, 2), total: 2000, rules: ['Yılbaşı'] },
+  ];
+
+  it.each(cases)('$name', async ({ pitchId, start, end, total, rules }) => {
+    const quote = await pricingService.calculatePrice(1, pitchId ?? 1, start, end);
+
+    expect(quote!.total).toBe(total);
+    expect(quote!.segments.map(segment => segment.rule.name)).toEqual(rules);
+  });
+
+  it('keeps the minutes and amount of each rule in a booking across midnight', async () => {
+    const quote = await pricingService.calculatePrice(1, 1, at(12, 22), at(13, 1));
+
+    expect(quote!.segments.map(({ rule: { name }, minutes, amount }) => ({ name, minutes, amount }))).toEqual([
+      { name: 'Akşam', minutes: 120, amount: 2000 },
+      { name: 'Gece', minutes: 60, amount: 700 },
+    ]);
+  });
+
+  it('has no price when part of the booking is not covered by a rule', async () => {
+    jest.mocked(db.getPricingRules).mockResolvedValue([rule('Akşam', 1000, '18:00', '00:00')]);
+
+    expect(await pricingService.calculatePrice(1, 1, at(12, 23), at(13, 1))).toBeNull();
+    expect(await pricingService.calculatePrice(1, 1, at(12, 22), at(12, 23))).not.toBeNull();
+  });
+
+  it('has no price without rules', async () => {
+    jest.mocked(db.getPricingRules).mockResolvedValue([]);
+
+    expect(await pricingService.calculatePrice(1, 1, at(12, 14), at(12, 15))).toBeNull();
+  });
+});
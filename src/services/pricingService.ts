@@ -0,0 +1,266 @@
+import { db } from '../database/db';
+import { cacheService } from './cacheService';
+import { scheduleService } from './scheduleService';
+import { turkishDateParser } from '../turkishDateParser';
+
+export interface PricingRule {
+  id: number;
+  tenant_id: number;
+  name: string;
+  pitch_id: number | null;
+  pitch_name?: string | null;
+  weekdays: number[] | null;
+  start_time: string; // "HH:MM:SS"
+  end_time: string;
+  min_duration_minutes: number | null;
+  max_duration_minutes: number | null;
+  valid_from: Date | null;
+  valid_to: Date | null;
+  hourly_price: string | number;
+  priority: number;
+}
+
+export interface PricingRuleInput {
+  name: string;
+  hourlyPrice: number;
+  startMinutes?: number; // minutes from business-day midnight, see TurkishDateParser
+  endMinutes?: number;
+  pitchId?: number;
+  weekdays?: number[];
+  minDurationMinutes?: number;
+  maxDurationMinutes?: number;
+  validFrom?: Date;
+  validTo?: Date;
+  priority?: number;
+}
+
+export interface PriceQuote {
+  total: number;
+  segments: { rule: PricingRule; minutes: number; amount: number }[];
+}
+
+class PricingService {
+  private readonly DAY_NAMES = ['Pazar', 'Pazartesi', 'Salı', 'Çarşamba', 'Perşembe', 'Cuma', 'Cumartesi'];
+  private readonly BUSINESS_DAY_START_MINUTES = 6 * 60;
+
+  async listRules(tenantId: number): Promise<PricingRule[]> {
+    const cacheKey = this.getCacheKey(tenantId);
+    const cached = await cacheService.get<PricingRule[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const rules = await db.getPricingRules(tenantId) as PricingRule[];
+
+    // Cache for 10 minutes
+    await cacheService.set(cacheKey, rules, 600);
+
+    return rules;
+  }
+
+  async addRule(tenantId: number, input: PricingRuleInput): Promise<PricingRule> {
+    if (!(input.hourlyPrice >= 0)) {
+      throw new Error('Saatlik fiyat geçerli bir sayı olmalı');
+    }
+
+    if (input.validFrom && input.validTo && input.validTo < input.validFrom) {
+      throw new Error('Dönem bitiş tarihi başlangıçtan önce olamaz');
+    }
+
+    const rule = await db.createPricingRule(
+      tenantId,
+      input.name,
+      input.hourlyPrice,
+      scheduleService.formatMinutes(input.startMinutes ?? this.BUSINESS_DAY_START_MINUTES),
+      scheduleService.formatMinutes(input.endMinutes ?? this.BUSINESS_DAY_START_MINUTES),
+      input.pitchId,
+      input.weekdays,
+      input.minDurationMinutes,
+      input.maxDurationMinutes,
+      input.validFrom,
+      input.validTo,
+      input.priority
+    );
+    await cacheService.del(this.getCacheKey(tenantId));
+
+    return rule;
+  }
+
+  async deleteRule(tenantId: number, ruleId: number): Promise<PricingRule> {
+    const rule = await db.deactivatePricingRule(ruleId, tenantId);
+    if (!rule) {
+      throw new Error('Fiyat kuralı bulunamadı');
+    }
+    await cacheService.del(this.getCacheKey(tenantId));
+
+    return rule;
+  }
+
+  /**
+   * Price a booking slot by slot using the best matching rule for each slot.
+   * Returns null when any part of the booking is not covered by a rule.
+   */
+  async calculatePrice(tenantId: number, pitchId: number, startTime: Date, endTime: Date): Promise<PriceQuote | null> {
+    const rules = await this.listRules(tenantId);
+    if (rules.length === 0) {
+      return null;
+    }
+
+    const settings = await scheduleService.getSettings(tenantId);
+    const businessDay = turkishDateParser.getBusinessDay(startTime);
+    const startMinutes = Math.round((startTime.getTime() - businessDay.getTime()) / 60000);
+    const endMinutes = Math.round((endTime.getTime() - businessDay.getTime()) / 60000);
+    const duration = endMinutes - startMinutes;
+
+    if (duration <= 0) {
+      return null;
+    }
+
+    const candidates = rules
+      .filter(rule => this.appliesTo(rule, pitchId, businessDay, duration))
+      .sort((a, b) => this.rank(b) - this.rank(a));
+
+    const segments: PriceQuote['segments'] = [];
+
+    for (let minute = startMinutes; minute < endMinutes; minute += settings.slotMinutes) {
+      const minutes = Math.min(settings.slotMinutes, endMinutes - minute);
+      const rule = candidates.find(r => this.coversMinute(r, minute));
+
+      if (!rule) {
+        return null;
+      }
+
+      const amount = Number(rule.hourly_price) * minutes / 60;
+      const last = segments[segments.length - 1];
+      if (last && last.rule.id === rule.id) {
+        last.minutes += minutes;
+        last.amount += amount;
+      } else {
+        segments.push({ rule, minutes, amount });
+      }
+    }
+
+    const total = Math.round(segments.reduce((sum, s) => sum + s.amount, 0) * 100) / 100;
+
+    return { total, segments };
+  }
+
+  formatQuote(quote: PriceQuote): string {
+    let message = `💰 Toplam: ${quote.total} TL\n`;
+
+    if (quote.segments.length > 1) {
+      quote.segments.forEach(segment => {
+        message += `   • ${segment.rule.name}: ${segment.minutes} dk × ${Number(segment.rule.hourly_price)} TL/saat = ${Math.round(segment.amount * 100) / 100} TL\n`;
+      });
+    } else {
+      message += `   (${quote.segments[0].rule.name}, ${Number(quote.segments[0].rule.hourly_price)} TL/saat)\n`;
+    }
+
+    return message;
+  }
+
+  formatPriceList(rules: PricingRule[]): string {
+    let message = '💰 Fiyat Listesi\n\n';
+
+    rules.forEach(rule => {
+      message += `🆔 ${rule.id} - ${rule.name}: ${Number(rule.hourly_price)} TL/saat\n`;
+      message += `   ${this.describeRule(rule)}\n\n`;
+    });
+
+    return message.trimEnd();
+  }
+
+  private describeRule(rule: PricingRule): string {
+    const parts: string[] = [];
+
+    if (rule.valid_from || rule.valid_to) {
+      const from = rule.valid_from ? new Date(rule.valid_from).toLocaleDateString('tr-TR') : '...';
+      const to = rule.valid_to ? new Date(rule.valid_to).toLocaleDateString('tr-TR') : '...';
+      parts.push(`📅 ${from} - ${to}`);
+    }
+
+    parts.push(rule.weekdays ? rule.weekdays.map(d => this.DAY_NAMES[d]).join(', ') : 'Her gün');
+
+    const startMinutes = this.toBusinessMinutes(rule.start_time);
+    const endMinutes = this.getEndMinutes(rule);
+    if (endMinutes - startMinutes < 24 * 60) {
+      parts.push(`${scheduleService.formatMinutes(startMinutes)}-${scheduleService.formatMinutes(endMinutes)}`);
+    }
+
+    if (rule.pitch_name) {
+      parts.push(`🏟️ ${rule.pitch_name}`);
+    }
+
+    if (rule.min_duration_minutes) {
+      parts.push(`en az ${rule.min_duration_minutes} dk`);
+    }
+
+    if (rule.max_duration_minutes) {
+      parts.push(`en fazla ${rule.max_duration_minutes} dk`);
+    }
+
+    return parts.join(' | ');
+  }
+
+  private appliesTo(rule: PricingRule, pitchId: number, businessDay: Date, duration: number): boolean {
+    if (rule.pitch_id && rule.pitch_id !== pitchId) {
+      return false;
+    }
+
+    if (rule.weekdays && !rule.weekdays.includes(businessDay.getDay())) {
+      return false;
+    }
+
+    const dayKey = scheduleService.toDateKey(businessDay);
+    if (rule.valid_from && dayKey < scheduleService.toDateKey(new Date(rule.valid_from))) {
+      return false;
+    }
+    if (rule.valid_to && dayKey > scheduleService.toDateKey(new Date(rule.valid_to))) {
+      return false;
+    }
+
+    if (rule.min_duration_minutes && duration < rule.min_duration_minutes) {
+      return false;
+    }
+    if (rule.max_duration_minutes && duration > rule.max_duration_minutes) {
+      return false;
+    }
+
+    return true;
+  }
+
+  private coversMinute(rule: PricingRule, minute: number): boolean {
+    return minute >= this.toBusinessMinutes(rule.start_time) && minute < this.getEndMinutes(rule);
+  }
+
+  /**
+   * Holiday periods beat everything, then explicit priority, then the more specific rule
+   */
+  private rank(rule: PricingRule): number {
+    let score = rule.priority * 10;
+    if (rule.valid_from || rule.valid_to) score += 10000;
+    if (rule.pitch_id) score += 4;
+    if (rule.min_duration_minutes || rule.max_duration_minutes) score += 2;
+    if (rule.weekdays) score += 1;
+    return score;
+  }
+
+  private getEndMinutes(rule: PricingRule): number {
+    const startMinutes = this.toBusinessMinutes(rule.start_time);
+    const endMinutes = this.toBusinessMinutes(rule.end_time);
+    return endMinutes <= startMinutes ? endMinutes + 24 * 60 : endMinutes;
+  }
+
+  // "01:00:00" → 1500: hours before 06:00 belong to the previous business day
+  private toBusinessMinutes(time: string): number {
+    const [hour, minute] = time.split(':').map(Number);
+    const minutes = hour * 60 + (minute || 0);
+    return minutes < this.BUSINESS_DAY_START_MINUTES ? minutes + 24 * 60 : minutes;
+  }
+
+  private getCacheKey(tenantId: number): string {
+    return `pricing_rules:${tenantId}`;
+  }
+}
+
+export const pricingService = new PricingService();
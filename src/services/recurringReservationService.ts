@@ -0,0 +1,292 @@
+import { db } from '../database/db';
+import { randomUUID } from 'crypto';
+import { reservationService, ReservationDetails, AuditContext } from './reservationService';
+import { scheduleService } from './scheduleService';
+
+export interface ReservationSeriesInput {
+  customerName: string;
+  customerPhone: string;
+  pitchId: number;
+  firstStartTime: Date;
+  firstEndTime: Date;
+  intervalWeeks: 1 | 2;
+  endDate?: Date;
+  occurrences?: number;
+  price?: number;
+  notes?: string;
+}
+
+export interface ReservationSeries {
+  id: number;
+  tenant_id: number;
+  customer_id: number;
+  customer_name: string;
+  phone_number: string;
+  pitch_id: number;
+  pitch_name: string;
+  start_date: Date;
+  end_date: Date;
+  start_time: string;
+  end_time: string;
+  interval_weeks: number;
+  occurrence_count: number;
+  status: string;
+  price?: number;
+  notes?: string;
+  upcoming_count?: number;
+}
+
+export interface SeriesOccurrence {
+  startTime: Date;
+  endTime: Date;
+}
+
+export interface SeriesConflict extends SeriesOccurrence {
+  conflictingReservations: ReservationDetails[];
+  reason?: string;
+}
+
+export interface SeriesCreationResult {
+  series: ReservationSeries | null;
+  created: ReservationDetails[];
+  conflicts: SeriesConflict[];
+}
+
+class RecurringReservationService {
+  private readonly MAX_OCCURRENCES = 52;
+
+  /**
+   * Expand a series definition into concrete weekly (or biweekly) slots
+   */
+  planOccurrences(input: ReservationSeriesInput): SeriesOccurrence[] {
+    if (!input.endDate && !input.occurrences) {
+      throw new Error('Abonelik için bitiş tarihi veya hafta sayısı gerekli');
+    }
+
+    if (input.occurrences !== undefined && input.occurrences < 1) {
+      throw new Error('Hafta sayısı en az 1 olmalı');
+    }
+
+    const limit = Math.min(input.occurrences || this.MAX_OCCURRENCES, this.MAX_OCCURRENCES);
+    const occurrences: SeriesOccurrence[] = [];
+
+    for (let i = 0; i < limit; i++) {
+      const startTime = new Date(input.firstStartTime);
+      startTime.setDate(startTime.getDate() + i * 7 * input.intervalWeeks);
+      const endTime = new Date(input.firstEndTime);
+      endTime.setDate(endTime.getDate() + i * 7 * input.intervalWeeks);
+
+      if (input.endDate && this.toDateOnly(startTime) > this.toDateOnly(input.endDate)) {
+        break;
+      }
+
+      occurrences.push({ startTime, endTime });
+    }
+
+    if (occurrences.length === 0) {
+      throw new Error('Bitiş tarihi ilk rezervasyondan önce olamaz');
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * Report which weeks of a planned series collide with existing reservations on the pitch
+   * or fall on a day the facility is closed
+   */
+  async findConflicts(
+    pitchId: number,
+    occurrences: SeriesOccurrence[],
+    tenantId: number
+  ): Promise<SeriesConflict[]> {
+    const conflicts: SeriesConflict[] = [];
+
+    for (const occurrence of occurrences) {
+      try {
+        await scheduleService.validateSlot(tenantId, occurrence.startTime, occurrence.endTime);
+      } catch (error: any) {
+        conflicts.push({ ...occurrence, conflictingReservations: [], reason: error.message });
+        continue;
+      }
+
+      const conflictingReservations = await reservationService.findConflictingReservations(
+        pitchId,
+        occurrence.startTime,
+        occurrence.endTime,
+        tenantId
+      );
+
+      if (conflictingReservations.length > 0) {
+        conflicts.push({ ...occurrence, conflictingReservations });
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Create a series and its reservations. When any week conflicts and skipConflicts is false,
+   * nothing is created and the conflicts are returned so the user can decide.
+   */
+  async createSeries(
+    input: ReservationSeriesInput,
+    tenantId: number,
+    skipConflicts: boolean = false,
+    audit: AuditContext = {}
+  ): Promise<SeriesCreationResult> {
+    const occurrences = this.planOccurrences(input);
+    const conflicts = await this.findConflicts(input.pitchId, occurrences, tenantId);
+
+    if (conflicts.length > 0 && !skipConflicts) {
+      return { series: null, created: [], conflicts };
+    }
+
+    const conflictStarts = new Set(conflicts.map(c => c.startTime.getTime()));
+    const freeOccurrences = occurrences.filter(o => !conflictStarts.has(o.startTime.getTime()));
+
+    if (freeOccurrences.length === 0) {
+      throw new Error('Aboneliğin tüm haftaları dolu, rezervasyon oluşturulamadı');
+    }
+
+    const customer = await reservationService.getOrCreateCustomer(input.customerName, input.customerPhone, tenantId);
+
+    const lastOccurrence = occurrences[occurrences.length - 1];
+    const seriesRow = await db.createReservationSeries(
+      tenantId,
+      customer.id,
+      input.pitchId,
+      this.toDateOnly(occurrences[0].startTime),
+      this.toDateOnly(lastOccurrence.startTime),
+      this.formatTime(input.firstStartTime),
+      this.formatTime(input.firstEndTime),
+      input.intervalWeeks,
+      occurrences.length,
+      input.price,
+      input.notes
+    );
+
+    // The whole series is one action, so undoing it removes every occurrence
+    const action: AuditContext = { ...audit, actionId: randomUUID() };
+    const created: ReservationDetails[] = [];
+
+    for (const occurrence of freeOccurrences) {
+      try {
+        const reservation = await reservationService.createReservation({
+          customerName: input.customerName,
+          customerPhone: input.customerPhone,
+          pitchId: input.pitchId,
+          startTime: occurrence.startTime,
+          endTime: occurrence.endTime,
+          price: input.price,
+          notes: input.notes,
+          seriesId: seriesRow.id,
+        }, tenantId, action);
+        created.push(reservation);
+      } catch (error) {
+        // Someone booked the slot after the conflict check; report it instead of failing the series
+        console.error('Error creating series occurrence:', error);
+        conflicts.push({ ...occurrence, conflictingReservations: [], reason: (error as Error).message });
+      }
+    }
+
+    const series = await db.getReservationSeriesById(seriesRow.id, tenantId);
+
+    return { series, created, conflicts };
+  }
+
+  async listActiveSeries(tenantId: number, customerName?: string): Promise<ReservationSeries[]> {
+    return await db.getActiveReservationSeries(tenantId, customerName);
+  }
+
+  async getSeries(seriesId: number, tenantId: number): Promise<ReservationSeries> {
+    const series = await db.getReservationSeriesById(seriesId, tenantId);
+
+    if (!series) {
+      throw new Error('Abonelik bulunamadı');
+    }
+
+    return series;
+  }
+
+  /**
+   * The active reservation of a series that falls in the given week
+   */
+  async findOccurrence(seriesId: number, weekOffset: number, tenantId: number): Promise<ReservationDetails> {
+    await this.getSeries(seriesId, tenantId);
+
+    const weekStart = reservationService.getWeekStartDate(weekOffset);
+    const weekEnd = reservationService.getWeekEndDate(weekOffset);
+    const reservations: ReservationDetails[] = await db.getSeriesReservations(seriesId, tenantId, weekStart);
+    const occurrence = reservations.find(r => new Date(r.start_time) <= weekEnd);
+
+    if (!occurrence) {
+      throw new Error('Bu hafta için aboneliğe ait aktif rezervasyon bulunamadı');
+    }
+
+    return occurrence;
+  }
+
+  /**
+   * Cancel only the occurrence of a series that falls in the given week
+   */
+  async cancelOccurrence(
+    seriesId: number,
+    weekOffset: number,
+    tenantId: number,
+    audit: AuditContext = {}
+  ): Promise<ReservationDetails> {
+    const occurrence = await this.findOccurrence(seriesId, weekOffset, tenantId);
+    return await reservationService.cancelReservation(occurrence.id, tenantId, audit);
+  }
+
+  /**
+   * Cancel the whole series: all upcoming occurrences are cancelled, past ones are kept
+   */
+  async cancelSeries(
+    seriesId: number,
+    tenantId: number,
+    audit: AuditContext = {}
+  ): Promise<{ series: ReservationSeries; cancelled: ReservationDetails[] }> {
+    const series = await db.getReservationSeriesById(seriesId, tenantId);
+
+    if (!series) {
+      throw new Error('Abonelik bulunamadı');
+    }
+
+    if (series.status === 'cancelled') {
+      throw new Error('Bu abonelik zaten iptal edilmiş');
+    }
+
+    const upcoming: ReservationDetails[] = await db.getSeriesReservations(seriesId, tenantId, new Date());
+    const action: AuditContext = { ...audit, actionId: randomUUID() };
+    const cancelled: ReservationDetails[] = [];
+
+    for (const reservation of upcoming) {
+      cancelled.push(await reservationService.cancelReservation(reservation.id, tenantId, action));
+    }
+
+    await db.cancelReservationSeries(seriesId, tenantId);
+
+    return { series, cancelled };
+  }
+
+  formatSeriesSchedule(series: ReservationSeries): string {
+    const dayNames = ['Pazar', 'Pazartesi', 'Salı', 'Çarşamba', 'Perşembe', 'Cuma', 'Cumartesi'];
+    const dayName = dayNames[new Date(series.start_date).getDay()];
+    const frequency = series.interval_weeks === 2 ? 'İki haftada bir' : 'Her hafta';
+
+    return `${frequency} ${dayName} ${series.start_time.substring(0, 5)}-${series.end_time.substring(0, 5)}`;
+  }
+
+  private toDateOnly(date: Date): Date {
+    const result = new Date(date);
+    result.setHours(0, 0, 0, 0);
+    return result;
+  }
+
+  private formatTime(date: Date): string {
+    return `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+  }
+}
+
+export const recurringReservationService = new RecurringReservationService();
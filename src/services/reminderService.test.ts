@@ -0,0 +1,93 @@
+import { reminderService } from './reminderService';
+import { reservationService } from './reservationService';
+import { db } from '../database/db';
+
+jest.mock('../database/db', () => ({
+  db: { getRemindedReservationByPhone: jest.fn(), confirmReservation: jest.fn(), addReservationHistory: jest.fn() },
+}));
+jest.mock('./reservationService', () => ({
+  reservationService: { cancelReservation: jest.fn() },
+}));
+jest.mock('./tenantService', () => ({ tenantService: {} }));
+jest.mock('./notificationService', () => ({ notificationService: {} }));
+jest.mock('./cacheService', () => {
+  const store = new Map<string, any>();
+  return {
+    cacheService: {
+      get: jest.fn(async (key: string) => store.get(key) ?? null),
+      set: jest.fn(async (key: string, value: any) => { store.set(key, value); }),
+      del: jest.fn(async (key: string) => { store.delete(key); }),
+    },
+  };
+});
+
+const CUSTOMER = '905327778899';
+
+const reservation = {
+  id: 42,
+  customer_name: 'Kerem',
+  start_time: new Date(2025, 10, 14, 21, 0),
+  end_time: new Date(2025, 10, 14, 22, 0),
+};
+
+describe('reminderService.handleReply', () => {
+  beforeEach(() => {
+    jest.mocked(db.getRemindedReservationByPhone).mockReset().mockResolvedValue(reservation);
+    jest.mocked(reservationService.cancelReservation).mockReset().mockResolvedValue({
+      ...reservation,
+      cancellation_charge: { balance: 250 },
+    } as any);
+  });
+
+  it('asks for confirmation instead of cancelling on "iptal"', async () => {
+    const reply = await reminderService.handleReply(CUSTOMER, 'iptal', 1);
+
+    expect(reservationService.cancelReservation).not.toHaveBeenCalled();
+    expect(reply!.text).toContain('rezervasyonunuz iptal edilecek');
+    expect(reply!.text).toContain('Onaylıyor musunuz?');
+    expect(reply!.buttons!.map(button => button.id)).toEqual([
+      expect.stringMatching(/^confirm:\d{4}$/),
+      expect.stringMatching(/^cancel:\d{4}$/),
+    ]);
+  });
+
+  it('cancels once the customer confirms', async () => {
+    await reminderService.handleReply(CUSTOMER, 'iptal', 1);
+    const reply = await reminderService.handleReply(CUSTOMER, 'Evet', 1);
+
+    expect(reservationService.cancelReservation).toHaveBeenCalledWith(42, 1, { actor: CUSTOMER, sourceMessage: 'iptal' });
+    expect(reply!.text).toContain('rezervasyonunuz iptal edildi');
+    expect(reply!.text).toContain('250 TL iptal ücreti');
+  });
+
+  it('cancels with the confirmation button', async () => {
+    const prompt = await reminderService.handleReply(CUSTOMER, 'gelemiyoruz', 1);
+    await reminderService.handleReply(CUSTOMER, prompt!.buttons![0].id, 1);
+
+    expect(reservationService.cancelReservation).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the reservation when the customer says no', async () => {
+    await reminderService.handleReply(CUSTOMER, 'iptal', 1);
+    const reply = await reminderService.handleReply(CUSTOMER, 'hayır', 1);
+
+    expect(reservationService.cancelReservation).not.toHaveBeenCalled();
+    expect(reply!.text).toContain('Vazgeçildi');
+  });
+
+  it('drops the cancellation when the next message is something else', async () => {
+    await reminderService.handleReply(CUSTOMER, 'iptal', 1);
+
+    expect(await reminderService.handleReply(CUSTOMER, 'saat kaçta açıksınız?', 1)).toBeNull();
+    expect(await reminderService.handleReply(CUSTOMER, 'evet', 1)).toBeNull();
+    expect(reservationService.cancelReservation).not.toHaveBeenCalled();
+  });
+
+  it('confirms attendance right away', async () => {
+    const reply = await reminderService.handleReply(CUSTOMER, 'geliyoruz', 1);
+
+    expect(db.confirmReservation).toHaveBeenCalledWith(42, 1);
+    expect(reply!.text).toContain('Teşekkürler Kerem');
+    expect(reply!.buttons).toBeUndefined();
+  });
+});
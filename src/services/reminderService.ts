@@ -0,0 +1,310 @@
+import { db } from '../database/db';
+import { tenantService } from './tenantService';
+import { cacheService } from './cacheService';
+import { reservationService, ReservationDetails } from './reservationService';
+import { notificationService } from './notificationService';
+import { pendingActionService, PendingAction } from './pendingActionService';
+
+export interface ReminderSettings {
+  enabled: boolean;
+  // How long before kickoff each reminder goes out
+  offsetsMinutes: number[];
+}
+
+interface ReminderCandidate extends ReservationDetails {
+  last_message_at: Date | null;
+  reminded_offsets: number[];
+}
+
+export interface ReminderReply {
+  text: string;
+  // Confirmation buttons, the text alone works when they cannot be sent
+  buttons?: { id: string; title: string }[];
+}
+
+export const DEFAULT_REMINDER_SETTINGS: ReminderSettings = {
+  enabled: true,
+  offsetsMinutes: [24 * 60, 2 * 60],
+};
+
+class ReminderService {
+  private readonly MAX_OFFSET_MINUTES = 7 * 24 * 60;
+  private readonly CONFIRM_PATTERN = /^(geliyoruz|geliyorum|gelecegiz|gelecegim|oradayiz|oradayim|onayliyorum)\b/;
+  private readonly CANCEL_PATTERN = /^(iptal|gelemiyoruz|gelemiyorum|gelmeyecegiz|gelmeyecegim)\b/;
+
+  async getSettings(tenantId: number): Promise<ReminderSettings> {
+    const cacheKey = this.getCacheKey(tenantId);
+    const cached = await cacheService.get<ReminderSettings>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const tenant = await tenantService.getTenantById(tenantId);
+    const settings: ReminderSettings = {
+      enabled: tenant?.settings?.reminders?.enabled ?? DEFAULT_REMINDER_SETTINGS.enabled,
+      offsetsMinutes: tenant?.settings?.reminders?.offsetsMinutes ?? DEFAULT_REMINDER_SETTINGS.offsetsMinutes,
+    };
+
+    // Cache for 10 minutes
+    await cacheService.set(cacheKey, settings, 600);
+
+    return settings;
+  }
+
+  async updateSettings(tenantId: number, changes: Partial<ReminderSettings>): Promise<ReminderSettings> {
+    const tenant = await tenantService.getTenantById(tenantId);
+    if (!tenant) {
+      throw new Error('İşletme bulunamadı');
+    }
+
+    const current = await this.getSettings(tenantId);
+    const settings: ReminderSettings = {
+      enabled: changes.enabled ?? current.enabled,
+      offsetsMinutes: changes.offsetsMinutes ?? current.offsetsMinutes,
+    };
+
+    if (settings.offsetsMinutes.some(offset => !(offset >= 15 && offset <= this.MAX_OFFSET_MINUTES))) {
+      throw new Error('Hatırlatma zamanı maçtan 15 dakika ile 7 gün önce arasında olmalı');
+    }
+
+    settings.offsetsMinutes = Array.from(new Set(settings.offsetsMinutes.map(Math.round))).sort((a, b) => b - a);
+
+    // Keep the template fields older installs stored here, the template registry still reads them
+    await tenantService.updateTenant(tenantId, {
+      settings: { ...tenant.settings, reminders: { ...(tenant.settings?.reminders || {}), ...settings } },
+    });
+    await cacheService.del(this.getCacheKey(tenantId));
+
+    return settings;
+  }
+
+  /**
+   * Remember when a customer last wrote to us, so reminders know whether a free-form
+   * message is still allowed
+   */
+  async recordInboundMessage(tenantId: number, phoneNumber: string): Promise<void> {
+    await db.touchCustomerLastMessage(tenantId, phoneNumber);
+  }
+
+  /**
+   * Send every reminder that is due across all tenants. Runs periodically from the server.
+   * Returns the number of reminders sent.
+   */
+  async sendDueReminders(): Promise<number> {
+    const tenants = await tenantService.listTenants({ activeOnly: true });
+    let sent = 0;
+
+    for (const tenant of tenants) {
+      const settings = await this.getSettings(tenant.id);
+      if (!settings.enabled || settings.offsetsMinutes.length === 0) {
+        continue;
+      }
+
+      const candidates: ReminderCandidate[] = await db.getReservationsForReminders(
+        tenant.id,
+        Math.max(...settings.offsetsMinutes)
+      );
+
+      for (const reservation of candidates) {
+        const offset = await this.pickDueOffset(reservation, settings.offsetsMinutes, tenant.id);
+        if (offset !== null && await this.sendReminder(reservation, offset, tenant.id)) {
+          sent++;
+        }
+      }
+    }
+
+    return sent;
+  }
+
+  /**
+   * Handle "geliyoruz"/"iptal" answers from a customer who got a reminder. "iptal" only asks
+   * for confirmation, the reservation is cancelled when the customer confirms in their next message.
+   * Returns the reply to send, or null when the message is not an answer to a reminder.
+   */
+  async handleReply(phoneNumber: string, text: string, tenantId: number): Promise<ReminderReply | null> {
+    const pendingCancellation = await pendingActionService.take(tenantId, phoneNumber, 'reminder');
+    if (pendingCancellation) {
+      const reply = pendingActionService.parseReply(text, pendingCancellation);
+
+      if (reply === 'confirm') {
+        return { text: await this.cancelConfirmed(pendingCancellation, phoneNumber, tenantId) };
+      }
+      if (reply === 'cancel') {
+        return { text: '👍 Vazgeçildi, rezervasyonunuz duruyor. Sizi bekliyoruz ⚽' };
+      }
+      // Anything else drops the cancellation and is handled as a new message
+    }
+
+    const answer = this.normalize(text);
+    const confirmed = this.CONFIRM_PATTERN.test(answer);
+    const cancelled = this.CANCEL_PATTERN.test(answer);
+
+    // Longer messages ("iptal et Ahmet'in rezervasyonunu") are requests for the agent
+    if ((!confirmed && !cancelled) || answer.split(/\s+/).length > 3) {
+      return null;
+    }
+
+    const reservation: ReservationDetails | undefined = await db.getRemindedReservationByPhone(tenantId, phoneNumber);
+    if (!reservation) {
+      return null;
+    }
+
+    const startTime = new Date(reservation.start_time);
+    const endTime = new Date(reservation.end_time);
+    const slot = `${startTime.toLocaleDateString('tr-TR', { weekday: 'long', day: 'numeric', month: 'long' })} ` +
+      `${this.formatTime(startTime)}-${this.formatTime(endTime)}`;
+
+    if (confirmed) {
+      await db.confirmReservation(reservation.id, tenantId);
+      await db.addReservationHistory(tenantId, reservation.id, 'confirmed', {}, phoneNumber);
+      return { text: `✅ Teşekkürler ${reservation.customer_name}! ${slot} maçınız için sizi bekliyoruz ⚽` };
+    }
+
+    const action = await pendingActionService.create(tenantId, phoneNumber, [{
+      functionName: 'cancel_my_reservation',
+      args: { reservation_id: reservation.id },
+      summary: `🗑️ ${slot} rezervasyonunuz iptal edilecek.`,
+    }], text, 'reminder');
+
+    return { text: pendingActionService.formatPrompt(action), buttons: pendingActionService.getButtons(action) };
+  }
+
+  private async cancelConfirmed(action: PendingAction, phoneNumber: string, tenantId: number): Promise<string> {
+    try {
+      const result = await reservationService.cancelReservation(action.steps[0].args.reservation_id, tenantId, {
+        actor: phoneNumber,
+        sourceMessage: action.sourceMessage,
+      });
+      const startTime = new Date(result.start_time);
+      const endTime = new Date(result.end_time);
+      const balance = result.cancellation_charge?.balance || 0;
+
+      return `❌ ${startTime.toLocaleDateString('tr-TR', { weekday: 'long', day: 'numeric', month: 'long' })} ` +
+        `${this.formatTime(startTime)}-${this.formatTime(endTime)} rezervasyonunuz iptal edildi.` +
+        `${balance > 0 ? `\n\nİptal politikamız gereği ${balance} TL iptal ücreti uygulanmıştır.` : ''}` +
+        `\n\nHaber verdiğiniz için teşekkürler!`;
+    } catch (error: any) {
+      return `❌ ${error.message || 'Rezervasyon iptal edilemedi'}`;
+    }
+  }
+
+  formatSettingsMessage(settings: ReminderSettings): string {
+    const offsets = settings.offsetsMinutes.map(offset => this.formatOffset(offset)).join(', ');
+
+    return `🔔 Hatırlatma Ayarları\n\n` +
+      `${settings.enabled ? '✅ Açık' : '⛔ Kapalı'}\n` +
+      `⏰ Gönderim: maçtan ${offsets || '-'} önce\n\n` +
+      `💬 Müşteri "geliyoruz" yazarsa onaylanır, "iptal" yazıp onaylarsa rezervasyon iptal edilir.`;
+  }
+
+  /**
+   * The reminder to send now, or null. Only the closest due reminder goes out; earlier ones the
+   * server missed (e.g. while it was down) are marked skipped so the customer gets one message.
+   * Reminders for times before the booking was made are never sent.
+   */
+  private async pickDueOffset(reservation: ReminderCandidate, offsets: number[], tenantId: number): Promise<number | null> {
+    const now = Date.now();
+    const startTime = new Date(reservation.start_time);
+    const createdAt = new Date(reservation.created_at).getTime();
+
+    const due = offsets
+      .filter(offset => !reservation.reminded_offsets.includes(offset))
+      .filter(offset => {
+        const sendAt = startTime.getTime() - offset * 60000;
+        return sendAt <= now && createdAt <= sendAt;
+      })
+      .sort((a, b) => a - b);
+
+    if (due.length === 0) {
+      return null;
+    }
+
+    for (const missed of due.slice(1)) {
+      await db.claimReminder(tenantId, reservation.id, missed, startTime, 'skipped');
+    }
+
+    return due[0];
+  }
+
+  private async sendReminder(reservation: ReminderCandidate, offset: number, tenantId: number): Promise<boolean> {
+    const startTime = new Date(reservation.start_time);
+
+    // Claim before sending: if the server restarts mid-send the reminder is not sent again
+    const claim = await db.claimReminder(tenantId, reservation.id, offset, startTime);
+    if (!claim) {
+      return false;
+    }
+
+    const endTime = new Date(reservation.end_time);
+    let channel = notificationService.getChannel(reservation.last_message_at);
+
+    try {
+      channel = await notificationService.send(tenantId, {
+        type: 'reservation_reminder',
+        phoneNumber: reservation.phone_number,
+        text: this.formatReminderMessage(reservation),
+        parameters: {
+          customer_name: reservation.customer_name,
+          date: startTime.toLocaleDateString('tr-TR', { weekday: 'long', day: 'numeric', month: 'long' }),
+          time: `${this.formatTime(startTime)}-${this.formatTime(endTime)}`,
+          pitch: reservation.pitch_name || '',
+        },
+        lastMessageAt: reservation.last_message_at,
+      });
+    } catch (error: any) {
+      console.error('Error sending reservation reminder:', error);
+      await db.updateReminderStatus(claim.id, 'failed', channel, error.response?.data?.error?.message || error.message);
+      return false;
+    }
+
+    await db.updateReminderStatus(claim.id, 'sent', channel);
+    await db.addReservationHistory(tenantId, reservation.id, 'reminder_sent', { offsetMinutes: offset, channel });
+
+    return true;
+  }
+
+  private formatReminderMessage(reservation: ReservationDetails): string {
+    const startTime = new Date(reservation.start_time);
+    const endTime = new Date(reservation.end_time);
+
+    return `Merhaba ${reservation.customer_name}! ⚽\n\n` +
+      `Maçınızı hatırlatmak isteriz:\n` +
+      `📅 ${startTime.toLocaleDateString('tr-TR', { weekday: 'long', day: 'numeric', month: 'long' })}\n` +
+      `⏰ ${this.formatTime(startTime)}-${this.formatTime(endTime)}\n` +
+      `🏟️ ${reservation.pitch_name}\n\n` +
+      `Geliyorsanız "GELİYORUZ", gelemeyecekseniz "İPTAL" yazın.`;
+  }
+
+  private formatOffset(minutes: number): string {
+    if (minutes >= 48 * 60 && minutes % (24 * 60) === 0) {
+      return `${minutes / (24 * 60)} gün`;
+    }
+    if (minutes % 60 === 0) {
+      return `${minutes / 60} saat`;
+    }
+    return `${minutes} dakika`;
+  }
+
+  private formatTime(date: Date): string {
+    return date.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' });
+  }
+
+  private normalize(text: string): string {
+    return text
+      .toLocaleLowerCase('tr-TR')
+      .replace(/ı/g, 'i')
+      .replace(/ğ/g, 'g')
+      .replace(/ü/g, 'u')
+      .replace(/ş/g, 's')
+      .replace(/ö/g, 'o')
+      .replace(/ç/g, 'c')
+      .replace(/[.!,]+/g, ' ')
+      .trim();
+  }
+
+  private getCacheKey(tenantId: number): string {
+    return `reminder_settings:${tenantId}`;
+  }
+}
+
+export const reminderService = new ReminderService();
@@ -0,0 +1,306 @@
+import { reservationService } from './reservationService';
+import { db } from '../database/db';
+import { tenantService } from './tenantService';
+import { cacheService } from './cacheService';
+
+jest.mock('../database/db', () => ({
+  db: {
+    getReservationById: jest.fn(),
+    getPitches: jest.fn(),
+    getReservationsOverlappingRange: jest.fn(),
+    getPaymentsByReservation: jest.fn(),
+    cancelReservation: jest.fn(),
+    addReservationHistory: jest.fn(),
+    getLastReservationAction: jest.fn(),
+    hasLaterReservationChanges: jest.fn(),
+    revertReservationAction: jest.fn(),
+  },
+}));
+jest.mock('./cacheService', () => ({
+  cacheService: {
+    get: jest.fn(async () => null),
+    set: jest.fn(),
+    del: jest.fn(),
+    getWeekTableCacheKey: jest.fn((tenantId: number, offset: number) => `week_table:${tenantId}:${offset}`),
+  },
+}));
+jest.mock('./tenantService', () => ({
+  tenantService: { getTenantById: jest.fn() },
+}));
+jest.mock('./waitlistService', () => ({
+  waitlistService: { offerFreedSlot: jest.fn(async () => null) },
+}));
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const reservation = (hoursFromNow: number) => ({
+  id: 7,
+  customer_id: 3,
+  customer_name: 'Ahmet',
+  phone_number: '05551112233',
+  pitch_id: 1,
+  start_time: new Date(Date.now() + hoursFromNow * HOUR_MS),
+  end_time: new Date(Date.now() + (hoursFromNow + 1) * HOUR_MS),
+  status: 'active',
+  price: '1200.00',
+  created_at: new Date(),
+});
+
+const payment = (type: 'deposit' | 'payment' | 'refund', amount: string) => ({ type, amount });
+
+describe('reservationService.cancelReservation charges', () => {
+  const cancel = async (hoursFromNow: number, payments: any[], options = {}) => {
+    jest.mocked(db.getReservationById).mockResolvedValue(reservation(hoursFromNow));
+    jest.mocked(db.getPaymentsByReservation).mockResolvedValue(payments);
+    return (await reservationService.cancelReservation(7, 1, { actor: '905551112233', ...options })).cancellation_charge!;
+  };
+
+  beforeEach(() => {
+    jest.mocked(tenantService.getTenantById).mockReset().mockResolvedValue({
+      settings: { cancellationPolicy: { freeWindowHours: 24, feePercent: 50, depositRefund: 'free_window_only' } },
+    } as any);
+    jest.mocked(db.cancelReservation).mockReset().mockResolvedValue({ status: 'cancelled' });
+    jest.mocked(db.addReservationHistory).mockReset();
+  });
+
+  it('stores the fee of a late cancellation and records it with the policy', async () => {
+    const charge = await cancel(2, [payment('deposit', '300.00')]);
+
+    expect(charge).toMatchObject({ lateCancellation: true, fee: 600, depositKept: 300, amountDue: 600, balance: 300 });
+    expect(db.cancelReservation).toHaveBeenCalledWith(7, 1, 600);
+    expect(db.addReservationHistory).toHaveBeenCalledWith(
+      1, 7, 'cancelled',
+      expect.objectContaining({ amountDue: 600, policy: expect.objectContaining({ feePercent: 50 }) }),
+      '905551112233',
+      expect.objectContaining({ afterState: expect.objectContaining({ status: 'cancelled' }) })
+    );
+  });
+
+  it('refunds deposit and payments inside the free window', async () => {
+    const charge = await cancel(30, [payment('deposit', '300.00'), payment('payment', '200.00')]);
+
+    expect(charge).toMatchObject({ lateCancellation: false, amountDue: 0, paidAmount: 500, balance: -500 });
+    expect(db.cancelReservation).toHaveBeenCalledWith(7, 1, 0);
+  });
+
+  it('counts refunds against what was paid and keeps no more deposit than is left', async () => {
+    const charge = await cancel(2, [payment('deposit', '300.00'), payment('refund', '250.00')]);
+
+    expect(charge).toMatchObject({ paidAmount: 50, depositKept: 50, fee: 600, balance: 550 });
+  });
+
+  it('charges nothing for a waived cancellation', async () => {
+    const charge = await cancel(2, [payment('deposit', '300.00')], { waiveFee: true });
+
+    expect(charge).toMatchObject({ waived: true, amountDue: 0, balance: -300 });
+    expect(db.cancelReservation).toHaveBeenCalledWith(7, 1, 0);
+  });
+});
+
+// 12 November 2025 is a Wednesday
+const at = (day: number, hour: number, minute: number = 0) => new Date(2025, 10, day, hour, minute);
+
+const PITCHES = [{ id: 1, name: 'Saha 1' }, { id: 2, name: 'Saha 2' }];
+
+const booked = (pitchId: number, start: Date, end: Date) => ({ pitch_id: pitchId, start_time: start, end_time: end, status: 'active' });
+
+const WEDNESDAY = [
+  // Tuesday night, before Wednesday opens
+  booked(1, at(12, 1), at(12, 2)),
+  booked(1, at(12, 20), at(12, 22)),
+  booked(1, at(12, 23), at(13, 1)),
+  // Ends off the hour grid
+  booked(2, at(12, 12), at(12, 17, 30)),
+];
+
+const describeSlots = (slots: { pitchName: string; startTime: Date; endTime: Date }[]) =>
+  slots.map(slot => `${slot.pitchName} ${slot.startTime.getDate()} ${slot.startTime.getHours()}-${slot.endTime.getDate()} ${slot.endTime.getHours()}`);
+
+describe('reservationService free slots', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(2025, 10, 10, 9), doNotFake: ['nextTick', 'setImmediate'] });
+    jest.mocked(tenantService.getTenantById).mockReset().mockResolvedValue({ settings: {} } as any);
+    jest.mocked(db.getPitches).mockReset().mockResolvedValue(PITCHES);
+    jest.mocked(db.getReservationsOverlappingRange).mockReset().mockResolvedValue(WEDNESDAY);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('findFreeSlots', () => {
+    it('lists the gaps of every pitch until closing after midnight', async () => {
+      const slots = await reservationService.findFreeSlots({ startDate: at(12, 0) }, 1);
+
+      expect(describeSlots(slots)).toEqual([
+        'Saha 1 12 12-12 20',
+        'Saha 2 12 18-13 6',
+        'Saha 1 12 22-12 23',
+        'Saha 1 13 1-13 6',
+      ]);
+    });
+
+    it('limits the hours with the after-midnight convention', async () => {
+      const slots = await reservationService.findFreeSlots({ startDate: at(12, 0), fromHour: 22, toHour: 26 }, 1);
+
+      expect(describeSlots(slots)).toEqual(['Saha 1 12 22-12 23', 'Saha 2 12 22-13 2', 'Saha 1 13 1-13 2']);
+    });
+
+    it('leaves out gaps shorter than the asked duration and other pitches', async () => {
+      const slots = await reservationService.findFreeSlots({ startDate: at(12, 0), pitchId: 1, minDurationMinutes: 120 }, 1);
+
+      expect(describeSlots(slots)).toEqual(['Saha 1 12 12-12 20', 'Saha 1 13 1-13 6']);
+    });
+
+    it('starts at the next slot after the current time', async () => {
+      jest.setSystemTime(at(12, 20, 30));
+
+      const slots = await reservationService.findFreeSlots({ startDate: at(12, 0) }, 1);
+
+      expect(describeSlots(slots)).toEqual(['Saha 2 12 21-13 6', 'Saha 1 12 22-12 23', 'Saha 1 13 1-13 6']);
+    });
+
+    it('skips a closed day and continues with the next', async () => {
+      jest.mocked(tenantService.getTenantById).mockResolvedValue({ settings: { schedule: { closedDates: ['2025-11-12'] } } } as any);
+
+      const slots = await reservationService.findFreeSlots({ startDate: at(12, 0), days: 2, pitchId: 2 }, 1);
+
+      expect(describeSlots(slots)).toEqual(['Saha 2 13 12-14 6']);
+    });
+  });
+
+  describe('findAlternativeSlots', () => {
+    it('offers the same time on another pitch first, then the nearest hours on the asked pitch', async () => {
+      const slots = await reservationService.findAlternativeSlots(at(12, 20), at(12, 21), 1, 1);
+
+      expect(describeSlots(slots)).toEqual(['Saha 2 12 20-12 21', 'Saha 1 12 19-12 20', 'Saha 2 12 19-12 20']);
+    });
+
+    it('looks past midnight within the same business day', async () => {
+      const slots = await reservationService.findAlternativeSlots(at(13, 0), at(13, 1), 1, 1, 4);
+
+      expect(describeSlots(slots)).toEqual(['Saha 2 13 0-13 1', 'Saha 1 13 1-13 2', 'Saha 2 12 23-13 0', 'Saha 2 13 1-13 2']);
+    });
+
+    it('moves to the next day when the asked day is full', async () => {
+      jest.mocked(db.getPitches).mockResolvedValue([PITCHES[0]]);
+      jest.mocked(db.getReservationsOverlappingRange).mockResolvedValue([booked(1, at(12, 12), at(13, 6))]);
+
+      const slots = await reservationService.findAlternativeSlots(at(12, 23), at(13, 1), 1, 1, 1);
+
+      expect(describeSlots(slots)).toEqual(['Saha 1 13 12-13 14']);
+    });
+  });
+});
+
+describe('reservationService.undoLastAction', () => {
+  const ACTOR = '905551112233';
+
+  const state = (start: Date, extra: Record<string, any> = {}) => ({
+    id: 7,
+    status: 'active',
+    customer_id: 3,
+    customer_name: 'Ahmet',
+    phone_number: '05551112233',
+    pitch_id: 1,
+    pitch_name: 'Saha 1',
+    start_time: start.toISOString(),
+    end_time: new Date(start.getTime() + HOUR_MS).toISOString(),
+    price: '1200.00',
+    cancelled_at: null,
+    cancellation_fee: null,
+    ...extra,
+  });
+
+  const cancellation = {
+    id: 41,
+    reservation_id: 7,
+    event: 'cancelled',
+    action_id: 'action-1',
+    before_state: state(at(12, 20)),
+    after_state: state(at(12, 20), { status: 'cancelled', cancelled_at: at(12, 18).toISOString(), cancellation_fee: '600.00' }),
+  };
+
+  // Moved from Wednesday to the next Monday, on another pitch
+  const timeChange = {
+    id: 42,
+    reservation_id: 7,
+    event: 'updated',
+    action_id: 'action-2',
+    before_state: state(at(12, 20)),
+    after_state: state(at(17, 22), { pitch_id: 2, pitch_name: 'Saha 2' }),
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(2025, 10, 11, 9), doNotFake: ['nextTick', 'setImmediate'] });
+    jest.mocked(db.getLastReservationAction).mockReset();
+    jest.mocked(db.hasLaterReservationChanges).mockReset().mockResolvedValue(false);
+    jest.mocked(db.revertReservationAction).mockReset();
+    jest.mocked(cacheService.del).mockClear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('refuses when the reservation was changed again after the action', async () => {
+    jest.mocked(db.getLastReservationAction).mockResolvedValue([cancellation]);
+    jest.mocked(db.hasLaterReservationChanges).mockResolvedValue(true);
+
+    await expect(reservationService.undoLastAction(1, { actor: ACTOR })).rejects.toThrow(
+      'Bu işlemden sonra rezervasyon tekrar değiştirilmiş, geri alınamaz'
+    );
+    expect(db.hasLaterReservationChanges).toHaveBeenCalledWith(1, [7], 41);
+    expect(db.revertReservationAction).not.toHaveBeenCalled();
+  });
+
+  it('checks for later changes after the last entry of an action touching several reservations', async () => {
+    const other = { ...cancellation, id: 44, reservation_id: 9, before_state: state(at(13, 21), { id: 9 }) };
+    jest.mocked(db.getLastReservationAction).mockResolvedValue([cancellation, other]);
+
+    await reservationService.undoLastAction(1, { actor: ACTOR });
+
+    expect(db.hasLaterReservationChanges).toHaveBeenCalledWith(1, [7, 9], 44);
+  });
+
+  it('refuses without an actor or an action to undo', async () => {
+    await expect(reservationService.undoLastAction(1, {})).rejects.toThrow('Geri alınacak işlemin sahibi belirlenemedi');
+
+    jest.mocked(db.getLastReservationAction).mockResolvedValue([]);
+    await expect(reservationService.undoLastAction(1, { actor: ACTOR })).rejects.toThrow('Geri alınacak bir işleminiz bulunamadı');
+    expect(db.revertReservationAction).not.toHaveBeenCalled();
+  });
+
+  it('reactivates a cancelled reservation', async () => {
+    jest.mocked(db.getLastReservationAction).mockResolvedValue([cancellation]);
+
+    const results = await reservationService.undoLastAction(1, { actor: ACTOR, sourceMessage: 'geri al' });
+
+    expect(db.revertReservationAction).toHaveBeenCalledWith(1, [cancellation], ACTOR, 'geri al');
+    expect(results).toEqual([{ event: 'cancelled', before: cancellation.before_state, after: cancellation.after_state }]);
+    expect(reservationService.formatUndoMessage(results)).toContain('✅ Ahmet - 12 Kasım Çarşamba 20:00-21:00 rezervasyonu tekrar aktif');
+  });
+
+  it('moves a changed reservation back to its old time and clears both weeks from the cache', async () => {
+    jest.mocked(db.getLastReservationAction).mockResolvedValue([timeChange]);
+
+    const results = await reservationService.undoLastAction(1, { actor: ACTOR });
+
+    expect(db.revertReservationAction).toHaveBeenCalledWith(1, [timeChange], ACTOR, undefined);
+    // The week of 10 November and the next one, each with its neighbours
+    const cleared = jest.mocked(cacheService.del).mock.calls.map(([key]) => key);
+    expect(new Set(cleared)).toEqual(new Set(['week_table:1:-1', 'week_table:1:0', 'week_table:1:1', 'week_table:1:2']));
+    expect(reservationService.formatUndoMessage(results)).toContain(
+      '🔄 Ahmet rezervasyonu eski saatine döndü: 12 Kasım Çarşamba 20:00-21:00 (Saha 1)'
+    );
+  });
+
+  it('explains a revert blocked by a booking in the old slot', async () => {
+    jest.mocked(db.getLastReservationAction).mockResolvedValue([timeChange]);
+    jest.mocked(db.revertReservationAction).mockRejectedValue(Object.assign(new Error('conflicting key value'), { code: '23P01' }));
+
+    await expect(reservationService.undoLastAction(1, { actor: ACTOR })).rejects.toThrow(
+      'Eski saat artık başka bir rezervasyonla dolu, işlem geri alınamaz'
+    );
+  });
+});
@@ -1,13 +1,21 @@
+import { randomUUID } from 'crypto';
 import { db } from '../database/db';
 import { cacheService } from './cacheService';
+import { scheduleService } from './scheduleService';
+import { pricingService } from './pricingService';
+import { waitlistService } from './waitlistService';
+import { cancellationPolicyService, CancellationCharge } from './cancellationPolicyService';
+import { turkishDateParser } from '../turkishDateParser';
 
 export interface ReservationInput {
   customerName: string;
   customerPhone: string;
+  pitchId: number;
   startTime: Date;
   endTime: Date;
   price?: number;
   notes?: string;
+  seriesId?: number;
 }
 
 export interface ReservationDetails {
@@ -15,74 +23,158 @@ export interface ReservationDetails {
   customer_id: number;
   customer_name: string;
   phone_number: string;
+  pitch_id: number;
+  pitch_name?: string;
   start_time: Date;
   end_time: Date;
   status: string;
   price?: number;
   notes?: string;
+  series_id?: number | null;
   created_at: Date;
+  cancelled_at?: Date | null;
+  cancellation_fee?: number | null;
+  confirmed_at?: Date | null; // customer answered a reminder with "geliyoruz"
+  waitlist_offered_to?: string; // set on cancellation when the freed slot went to a waitlisted customer
+  cancellation_charge?: CancellationCharge; // set on cancellation
+}
+
+/**
+ * Who changed a reservation and why, stored with every entry of its history
+ */
+export interface AuditContext {
+  actor?: string; // WhatsApp number of the user who asked for the change; unset for the scheduler
+  sourceMessage?: string; // the message that led to the change
+  actionId?: string; // shared by all changes made for one request, so they are undone together
+}
+
+export interface CancelOptions extends AuditContext {
+  waiveFee?: boolean; // facility-side cancellations (weather, maintenance) are free
+}
+
+export interface UndoResult {
+  event: string;
+  before: ReservationDetails | null;
+  after: ReservationDetails | null;
+}
+
+export interface FreeSlot {
+  pitchId: number;
+  pitchName: string;
+  startTime: Date;
+  endTime: Date;
+}
+
+export interface FreeSlotQuery {
+  startDate: Date;
+  days?: number;
+  pitchId?: number;
+  fromHour?: number;
+  toHour?: number;
+  minDurationMinutes?: number;
 }
 
 class ReservationService {
-  async createReservation(input: ReservationInput, tenantId: number): Promise<ReservationDetails> {
-    // Get or create customer
-    let customer = await db.getCustomerByPhone(input.customerPhone, tenantId);
+  async getOrCreateCustomer(customerName: string, customerPhone: string, tenantId: number) {
+    let customer = await db.getCustomerByPhone(customerPhone, tenantId);
 
     if (!customer) {
-      customer = await db.createCustomer(input.customerName, input.customerPhone, tenantId);
-    } else if (customer.name !== input.customerName) {
+      customer = await db.createCustomer(customerName, customerPhone, tenantId);
+    } else if (customer.name !== customerName) {
       // Update customer name if different
-      customer = await db.createCustomer(input.customerName, input.customerPhone, tenantId);
+      customer = await db.createCustomer(customerName, customerPhone, tenantId);
     }
 
-    // Create reservation
-    const reservation = await db.createReservation(
-      customer.id,
-      tenantId,
-      input.startTime,
-      input.endTime,
-      input.price,
-      input.notes
-    );
+    return customer;
+  }
 
-    // Invalidate week table cache
-    await this.invalidateWeekCache(input.startTime);
+  async createReservation(input: ReservationInput, tenantId: number, audit: AuditContext = {}): Promise<ReservationDetails> {
+    // Get or create customer
+    const customer = await this.getOrCreateCustomer(input.customerName, input.customerPhone, tenantId);
 
-    return {
+    const pitch = await db.getPitchById(input.pitchId, tenantId);
+    if (!pitch) {
+      throw new Error('Saha bulunamadı');
+    }
+
+    // Reject closed days, out-of-hours and off-grid slots before touching the database
+    await scheduleService.validateSlot(tenantId, input.startTime, input.endTime);
+
+    // A freed slot offered to a waitlisted customer stays theirs until the hold expires
+    const holds = await db.getActiveWaitlistHolds(tenantId, pitch.id, input.startTime, input.endTime);
+    const otherHold = holds.find((hold: any) => !this.isSamePhoneNumber(hold.phone_number, input.customerPhone));
+    if (otherHold) {
+      throw new Error(
+        `${pitch.name} bu saatte bekleme listesindeki müşteriye ayrıldı ` +
+        `(${new Date(otherHold.hold_expires_at).toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}'e kadar)`
+      );
+    }
+
+    // No explicit price: quote it from the tenant's pricing rules
+    let price = input.price;
+    if (price === undefined || price === null) {
+      const quote = await pricingService.calculatePrice(tenantId, pitch.id, input.startTime, input.endTime);
+      price = quote?.total;
+    }
+
+    // Create reservation
+    let reservation;
+    try {
+      reservation = await db.createReservation(
+        customer.id,
+        tenantId,
+        pitch.id,
+        input.startTime,
+        input.endTime,
+        price,
+        input.notes,
+        input.seriesId
+      );
+    } catch (error) {
+      throw this.translateOverlapError(error, pitch.name);
+    }
+
+    const details: ReservationDetails = {
       ...reservation,
       customer_name: customer.name,
       phone_number: customer.phone_number,
+      pitch_name: pitch.name,
     };
+    await this.recordChange(tenantId, 'created', null, details, this.beginAction(audit));
+
+    // Invalidate week table cache
+    await this.invalidateWeekCache(tenantId, input.startTime);
+
+    return details;
   }
 
-  async getReservationsByWeek(weekOffset: number = 0, tenantId: number = 1): Promise<ReservationDetails[]> {
+  async getReservationsByWeek(weekOffset: number = 0, tenantId: number = 1, pitchId?: number): Promise<ReservationDetails[]> {
     const { startDate, endDate } = this.getWeekRange(weekOffset);
 
-    const cacheKey = cacheService.getWeekTableCacheKey(weekOffset);
-    const cached = await cacheService.get<ReservationDetails[]>(cacheKey);
-
-    if (cached) {
-      return cached;
-    }
+    const cacheKey = cacheService.getWeekTableCacheKey(tenantId, weekOffset);
+    let reservations = await cacheService.get<ReservationDetails[]>(cacheKey);
 
-    const reservations = await db.getReservationsByDateRange(startDate, endDate, tenantId);
+    if (!reservations) {
+      reservations = await db.getReservationsByDateRange(startDate, endDate, tenantId) as ReservationDetails[];
 
-    // Cache for 5 minutes
-    await cacheService.set(cacheKey, reservations, 300);
+      // Cache for 5 minutes (all pitches, filtered below)
+      await cacheService.set(cacheKey, reservations, 300);
+    }
 
-    return reservations;
+    return pitchId ? reservations.filter(r => r.pitch_id === pitchId) : reservations;
   }
 
   async findReservationsByCustomerName(customerName: string, tenantId: number = 1): Promise<ReservationDetails[]> {
-    // Search for active reservations by customer name (case-insensitive, partial match)
-    // Include all active reservations (past and future) to allow finding any active reservation
+    // Search for reservations by customer name (case-insensitive, partial match)
+    // Include past ones (completed / no-show) too, so payments and no-shows can be recorded
     const query = `
-      SELECT r.*, c.name as customer_name, c.phone_number
+      SELECT r.*, c.name as customer_name, c.phone_number, p.name as pitch_name
       FROM reservations r
       JOIN customers c ON r.customer_id = c.id
+      JOIN pitches p ON r.pitch_id = p.id
       WHERE LOWER(c.name) LIKE LOWER($1)
       AND r.tenant_id = $2
-      AND r.status = 'active'
+      AND r.status IN ('active', 'completed', 'no_show')
       ORDER BY r.start_time DESC
     `;
 
@@ -90,7 +182,32 @@ class ReservationService {
     return result.rows;
   }
 
-  async cancelReservation(reservationId: number, tenantId: number = 1): Promise<ReservationDetails> {
+  /**
+   * The customer record for a WhatsApp sender ("905551234567"), matched on the last 10 digits
+   * so bookings staff typed as "0555 123 45 67" are found too
+   */
+  async findCustomerByWhatsAppNumber(whatsappNumber: string, tenantId: number): Promise<{ id: number; name: string; phone_number: string } | undefined> {
+    return await db.getCustomerByPhoneDigits(whatsappNumber, tenantId);
+  }
+
+  /**
+   * A customer's own active reservations that have not ended yet
+   */
+  async getUpcomingReservationsByPhone(phoneNumber: string, tenantId: number): Promise<ReservationDetails[]> {
+    return await db.getUpcomingReservationsByPhone(phoneNumber, tenantId);
+  }
+
+  async getReservationById(reservationId: number, tenantId: number = 1): Promise<ReservationDetails> {
+    const reservation = await db.getReservationById(reservationId, tenantId);
+
+    if (!reservation) {
+      throw new Error('Rezervasyon bulunamadı');
+    }
+
+    return reservation;
+  }
+
+  async cancelReservation(reservationId: number, tenantId: number = 1, options: CancelOptions = {}): Promise<ReservationDetails> {
     const reservation = await db.getReservationById(reservationId, tenantId);
 
     if (!reservation) {
@@ -101,36 +218,297 @@ class ReservationService {
       throw new Error('Bu rezervasyon zaten iptal edilmiş');
     }
 
-    await db.cancelReservation(reservationId, tenantId);
+    if (reservation.status !== 'active') {
+      throw new Error('Oynanmış veya gelinmemiş rezervasyon iptal edilemez');
+    }
+
+    reservation.cancellation_charge = await this.applyCancellation(reservation, tenantId, this.beginAction(options));
 
     // Invalidate cache
-    await this.invalidateWeekCache(new Date(reservation.start_time));
+    await this.invalidateWeekCache(tenantId, new Date(reservation.start_time));
+
+    // Offer the freed slot to the waitlist; a failed notification must not undo the cancellation
+    try {
+      const offer = await waitlistService.offerFreedSlot(
+        tenantId,
+        reservation.pitch_id,
+        new Date(reservation.start_time),
+        new Date(reservation.end_time)
+      );
+      if (offer) {
+        reservation.waitlist_offered_to = offer.customer_name;
+      }
+    } catch (error) {
+      console.error('Error offering freed slot to waitlist:', error);
+    }
 
     return reservation;
   }
 
-  async cancelAllWeekReservations(weekOffset: number = 0, tenantId: number = 1): Promise<{ cancelled: number; reservations: ReservationDetails[] }> {
-    // Get all active reservations for the week
-    const reservations = await this.getReservationsByWeek(weekOffset, tenantId);
+  /**
+   * Active reservations of a week straight from the database, a cached week may be stale.
+   * The confirmation of a bulk cancellation lists exactly these.
+   */
+  async getActiveWeekReservations(weekOffset: number = 0, tenantId: number = 1): Promise<ReservationDetails[]> {
+    const { startDate, endDate } = this.getWeekRange(weekOffset);
+    return (await db.getReservationsByDateRange(startDate, endDate, tenantId) as ReservationDetails[])
+      .filter(r => r.status === 'active');
+  }
+
+  async cancelAllWeekReservations(
+    weekOffset: number = 0,
+    tenantId: number = 1,
+    options: CancelOptions = {}
+  ): Promise<{ cancelled: number; reservations: ReservationDetails[] }> {
+    const reservations = await this.getActiveWeekReservations(weekOffset, tenantId);
 
     if (reservations.length === 0) {
       return { cancelled: 0, reservations: [] };
     }
 
-    // Cancel each reservation
+    // Cancel each reservation. Bulk cancellations (e.g. closing for a week) are not offered
+    // to the waitlist, and are undone as one action.
+    const action = this.beginAction(options);
     const cancelledReservations: ReservationDetails[] = [];
     for (const reservation of reservations) {
-      await db.cancelReservation(reservation.id, tenantId);
+      reservation.cancellation_charge = await this.applyCancellation(reservation, tenantId, action);
       cancelledReservations.push(reservation);
     }
 
     // Invalidate cache for the week
     const weekStartDate = this.getWeekStartDate(weekOffset);
-    await this.invalidateWeekCache(weekStartDate);
+    await this.invalidateWeekCache(tenantId, weekStartDate);
 
     return { cancelled: cancelledReservations.length, reservations: cancelledReservations };
   }
 
+  /**
+   * Cancel with the tenant's cancellation policy: work out the fee, store it on the
+   * reservation and record the outcome in its history.
+   */
+  private async applyCancellation(
+    reservation: ReservationDetails,
+    tenantId: number,
+    options: CancelOptions
+  ): Promise<CancellationCharge> {
+    const policy = await cancellationPolicyService.getPolicy(tenantId);
+    const payments = await db.getPaymentsByReservation(reservation.id, tenantId);
+
+    let paidAmount = 0;
+    let depositAmount = 0;
+    for (const payment of payments) {
+      const amount = Number(payment.amount);
+      paidAmount += payment.type === 'refund' ? -amount : amount;
+      if (payment.type === 'deposit') {
+        depositAmount += amount;
+      }
+    }
+
+    const charge = cancellationPolicyService.calculateCharge(
+      policy,
+      reservation.price ? Number(reservation.price) : null,
+      new Date(reservation.start_time),
+      Math.round(paidAmount * 100) / 100,
+      Math.min(depositAmount, Math.max(paidAmount, 0)),
+      !!options.waiveFee
+    );
+
+    const cancelled = await db.cancelReservation(reservation.id, tenantId, charge.amountDue);
+    await this.recordChange(tenantId, 'cancelled', reservation, { ...reservation, ...cancelled }, options, { ...charge, policy });
+
+    return charge;
+  }
+
+  /**
+   * Move reservations that have ended to 'completed'. Run periodically by the scheduler.
+   */
+  async completePastReservations(): Promise<number> {
+    const completed = await db.completePastReservations();
+
+    const weeks = new Set<string>();
+    for (const reservation of completed) {
+      const week = `${reservation.tenant_id}:${this.calculateWeekOffset(new Date(reservation.start_time))}`;
+      if (!weeks.has(week)) {
+        weeks.add(week);
+        await this.invalidateWeekCache(reservation.tenant_id, new Date(reservation.start_time));
+      }
+    }
+
+    return completed.length;
+  }
+
+  async markNoShow(reservationId: number, tenantId: number = 1, audit: AuditContext = {}): Promise<ReservationDetails> {
+    const reservation = await this.getReservationById(reservationId, tenantId);
+
+    if (reservation.status === 'no_show') {
+      throw new Error('Bu rezervasyon zaten gelinmedi olarak işaretlenmiş');
+    }
+
+    if (reservation.status === 'cancelled') {
+      throw new Error('İptal edilmiş rezervasyon gelinmedi olarak işaretlenemez');
+    }
+
+    if (new Date(reservation.start_time) > new Date()) {
+      throw new Error('Henüz başlamamış rezervasyon gelinmedi olarak işaretlenemez');
+    }
+
+    await db.markReservationNoShow(reservationId, tenantId);
+    await this.recordChange(tenantId, 'no_show', reservation, { ...reservation, status: 'no_show' }, this.beginAction(audit));
+    await this.invalidateWeekCache(tenantId, new Date(reservation.start_time));
+
+    return { ...reservation, status: 'no_show' };
+  }
+
+  async findConflictingReservations(
+    pitchId: number,
+    startTime: Date,
+    endTime: Date,
+    tenantId: number = 1,
+    excludeReservationId?: number
+  ): Promise<ReservationDetails[]> {
+    return await db.getOverlappingReservations(tenantId, pitchId, startTime, endTime, excludeReservationId);
+  }
+
+  /**
+   * Free windows per pitch and business day, at least minDurationMinutes long, within the
+   * tenant's opening hours and aligned to its slot grid. fromHour/toHour use the parseTimeSlot
+   * convention (24+ is after midnight).
+   */
+  async findFreeSlots(query: FreeSlotQuery, tenantId: number = 1): Promise<FreeSlot[]> {
+    const days = query.days || 1;
+    const minDurationMinutes = query.minDurationMinutes || 60;
+    const fromMinutes = query.fromHour !== undefined ? Math.round(query.fromHour * 60) : 0;
+    const toMinutes = query.toHour !== undefined ? Math.round(query.toHour * 60) : Number.MAX_SAFE_INTEGER;
+
+    const settings = await scheduleService.getSettings(tenantId);
+    const slotMinutes = settings.slotMinutes;
+
+    let pitches = await db.getPitches(tenantId);
+    if (query.pitchId) {
+      pitches = pitches.filter((p: any) => p.id === query.pitchId);
+    }
+
+    const firstDay = new Date(query.startDate);
+    firstDay.setHours(0, 0, 0, 0);
+    // Fetch one extra day so after-midnight reservations of the last day are included
+    const rangeEnd = new Date(firstDay);
+    rangeEnd.setDate(firstDay.getDate() + days + 1);
+
+    const reservations: ReservationDetails[] = await db.getReservationsOverlappingRange(firstDay, rangeEnd, tenantId);
+    const now = new Date();
+    const slots: FreeSlot[] = [];
+
+    for (let dayIndex = 0; dayIndex < days; dayIndex++) {
+      const day = new Date(firstDay);
+      day.setDate(firstDay.getDate() + dayIndex);
+
+      const hours = scheduleService.getHoursForDay(settings, day);
+      if (!hours) {
+        continue;
+      }
+
+      // Round a minute offset up to the next slot boundary counted from opening time
+      const alignUp = (minutes: number) =>
+        hours.openMinutes + Math.ceil((minutes - hours.openMinutes) / slotMinutes) * slotMinutes;
+      const toMinuteOffset = (date: Date) => Math.round((date.getTime() - day.getTime()) / 60000);
+
+      // Nothing in the past can still be booked
+      const windowStartMinutes = alignUp(Math.max(hours.openMinutes, fromMinutes, toMinuteOffset(now)));
+      const windowEndMinutes = Math.min(hours.closeMinutes, toMinutes);
+
+      if (windowStartMinutes >= windowEndMinutes) {
+        continue;
+      }
+
+      for (const pitch of pitches) {
+        const busy = reservations
+          .filter(r => r.pitch_id === pitch.id)
+          .map(r => ({ start: toMinuteOffset(new Date(r.start_time)), end: toMinuteOffset(new Date(r.end_time)) }))
+          .filter(b => b.start < windowEndMinutes && b.end > windowStartMinutes)
+          .sort((a, b) => a.start - b.start);
+
+        const pushSlot = (from: number, to: number) => {
+          if (to - from >= minDurationMinutes) {
+            slots.push({
+              pitchId: pitch.id,
+              pitchName: pitch.name,
+              startTime: turkishDateParser.toDateTime(day, from),
+              endTime: turkishDateParser.toDateTime(day, to),
+            });
+          }
+        };
+
+        let cursor = windowStartMinutes;
+        for (const interval of busy) {
+          pushSlot(cursor, interval.start);
+          if (interval.end > cursor) {
+            cursor = alignUp(interval.end);
+          }
+        }
+
+        pushSlot(cursor, windowEndMinutes);
+      }
+    }
+
+    return slots.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+
+  /**
+   * Nearest bookable alternatives to a requested slot: same time on another pitch,
+   * then the closest earlier/later times, then the following days.
+   */
+  async findAlternativeSlots(
+    startTime: Date,
+    endTime: Date,
+    tenantId: number = 1,
+    preferredPitchId?: number,
+    limit: number = 3
+  ): Promise<FreeSlot[]> {
+    const durationMs = endTime.getTime() - startTime.getTime();
+    const settings = await scheduleService.getSettings(tenantId);
+    const stepMs = settings.slotMinutes * 60 * 1000;
+
+    const windows = await this.findFreeSlots({
+      startDate: turkishDateParser.getBusinessDay(startTime),
+      days: 8,
+      minDurationMinutes: durationMs / 60000,
+    }, tenantId);
+
+    const candidates: (FreeSlot & { distance: number })[] = [];
+
+    for (const window of windows) {
+      for (let start = window.startTime.getTime(); start + durationMs <= window.endTime.getTime(); start += stepMs) {
+        candidates.push({
+          pitchId: window.pitchId,
+          pitchName: window.pitchName,
+          startTime: new Date(start),
+          endTime: new Date(start + durationMs),
+          distance: Math.abs(start - startTime.getTime()),
+        });
+      }
+    }
+
+    candidates.sort((a, b) => {
+      if (a.distance !== b.distance) return a.distance - b.distance;
+      // Prefer the pitch the customer asked for on ties
+      if (a.pitchId === preferredPitchId) return -1;
+      if (b.pitchId === preferredPitchId) return 1;
+      return a.startTime.getTime() - b.startTime.getTime();
+    });
+
+    return candidates.slice(0, limit).map(({ distance, ...slot }) => slot);
+  }
+
+  formatFreeSlots(slots: FreeSlot[], showPitch: boolean = true): string {
+    return slots.map(slot => {
+      const dayName = slot.startTime.toLocaleDateString('tr-TR', { weekday: 'long' });
+      const date = slot.startTime.toLocaleDateString('tr-TR');
+      const from = slot.startTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' });
+      const to = slot.endTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' });
+      return `• ${dayName} ${date} ${from}-${to}${showPitch ? ` (${slot.pitchName})` : ''}`;
+    }).join('\n');
+  }
+
   async checkDuplicateReservation(
     customerPhone: string,
     startTime: Date,
@@ -164,7 +542,8 @@ class ReservationService {
     reservationId: number,
     newName?: string,
     newPhone?: string,
-    tenantId: number = 1
+    tenantId: number = 1,
+    audit: AuditContext = {}
   ): Promise<ReservationDetails> {
     const reservation = await db.getReservationById(reservationId, tenantId);
 
@@ -179,11 +558,13 @@ class ReservationService {
     // Update customer info
     await db.updateCustomer(reservation.customer_id, tenantId, newName, newPhone);
 
+    const updated = await db.getReservationById(reservationId, tenantId);
+    await this.recordChange(tenantId, 'customer_updated', reservation, updated, this.beginAction(audit));
+
     // Invalidate cache
-    await this.invalidateWeekCache(new Date(reservation.start_time));
+    await this.invalidateWeekCache(tenantId, new Date(reservation.start_time));
 
-    // Return updated reservation
-    return await db.getReservationById(reservationId, tenantId);
+    return updated;
   }
 
   async updateReservationTime(
@@ -191,7 +572,9 @@ class ReservationService {
     newStartTime?: Date,
     newEndTime?: Date,
     newPrice?: number,
-    tenantId: number = 1
+    newPitchId?: number,
+    tenantId: number = 1,
+    audit: AuditContext = {}
   ): Promise<ReservationDetails> {
     const reservation = await db.getReservationById(reservationId, tenantId);
 
@@ -203,13 +586,20 @@ class ReservationService {
       throw new Error('İptal edilmiş rezervasyon güncellenemez');
     }
 
+    if (reservation.status !== 'active') {
+      throw new Error('Oynanmış veya gelinmemiş rezervasyon güncellenemez');
+    }
+
     // Check for conflicts if time is being changed
     if (newStartTime && newEndTime) {
+      await scheduleService.validateSlot(tenantId, newStartTime, newEndTime);
+
       const hasConflict = await this.checkDuplicateReservation(
         reservation.phone_number,
         newStartTime,
         newEndTime,
-        reservationId // Exclude current reservation from conflict check
+        reservationId, // Exclude current reservation from conflict check
+        tenantId
       );
 
       if (hasConflict) {
@@ -217,17 +607,187 @@ class ReservationService {
       }
     }
 
+    // Moving the booking re-quotes it unless a price was given explicitly
+    if (newPrice === undefined && ((newStartTime && newEndTime) || newPitchId)) {
+      const quote = await pricingService.calculatePrice(
+        tenantId,
+        newPitchId || reservation.pitch_id,
+        newStartTime || new Date(reservation.start_time),
+        newEndTime || new Date(reservation.end_time)
+      );
+      newPrice = quote?.total;
+    }
+
     // Update reservation
-    await db.updateReservation(reservationId, tenantId, newStartTime, newEndTime, newPrice);
+    try {
+      await db.updateReservation(reservationId, tenantId, newStartTime, newEndTime, newPrice, undefined, newPitchId);
+    } catch (error) {
+      throw this.translateOverlapError(error);
+    }
+
+    const updated = await db.getReservationById(reservationId, tenantId);
+    await this.recordChange(tenantId, 'updated', reservation, updated, this.beginAction(audit));
 
     // Invalidate cache for both old and new dates
-    await this.invalidateWeekCache(new Date(reservation.start_time));
+    await this.invalidateWeekCache(tenantId, new Date(reservation.start_time));
     if (newStartTime) {
-      await this.invalidateWeekCache(newStartTime);
+      await this.invalidateWeekCache(tenantId, newStartTime);
     }
 
-    // Return updated reservation
-    return await db.getReservationById(reservationId, tenantId);
+    return updated;
+  }
+
+  /**
+   * Revert the most recent change made by this user, as long as nobody has changed the same
+   * reservations since. Changes made together (e.g. a cancelled week) are undone together.
+   */
+  async undoLastAction(tenantId: number, audit: AuditContext): Promise<UndoResult[]> {
+    if (!audit.actor) {
+      throw new Error('Geri alınacak işlemin sahibi belirlenemedi');
+    }
+
+    const entries = await db.getLastReservationAction(tenantId, audit.actor);
+    if (entries.length === 0) {
+      throw new Error('Geri alınacak bir işleminiz bulunamadı');
+    }
+
+    const reservationIds: number[] = Array.from(new Set(entries.map((entry: any) => entry.reservation_id)));
+    const lastEntryId = Math.max(...entries.map((entry: any) => entry.id));
+
+    if (await db.hasLaterReservationChanges(tenantId, reservationIds, lastEntryId)) {
+      throw new Error('Bu işlemden sonra rezervasyon tekrar değiştirilmiş, geri alınamaz');
+    }
+
+    try {
+      await db.revertReservationAction(tenantId, entries, audit.actor, audit.sourceMessage);
+    } catch (error: any) {
+      // The old slot may have been booked by someone else in the meantime
+      if (error?.code === '23P01') {
+        throw new Error('Eski saat artık başka bir rezervasyonla dolu, işlem geri alınamaz');
+      }
+      throw error;
+    }
+
+    for (const entry of entries) {
+      for (const state of [entry.before_state, entry.after_state]) {
+        if (state?.start_time) {
+          await this.invalidateWeekCache(tenantId, new Date(state.start_time));
+        }
+      }
+    }
+
+    return entries.map((entry: any) => ({
+      event: entry.event,
+      before: entry.before_state,
+      after: entry.after_state,
+    }));
+  }
+
+  formatUndoMessage(results: UndoResult[]): string {
+    let message = `↩️ Son işleminiz geri alındı:\n\n`;
+
+    results.forEach(({ event, before, after }) => {
+      const reservation = (before || after)!;
+      const startTime = new Date(reservation.start_time);
+      const endTime = new Date(reservation.end_time);
+      const slot = `${startTime.toLocaleDateString('tr-TR', { weekday: 'long', day: 'numeric', month: 'long' })} ` +
+        `${startTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}-` +
+        `${endTime.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' })}`;
+
+      switch (event) {
+        case 'created':
+          message += `🗑️ ${reservation.customer_name} - ${slot} rezervasyonu kaldırıldı\n`;
+          break;
+        case 'cancelled':
+          message += `✅ ${reservation.customer_name} - ${slot} rezervasyonu tekrar aktif\n`;
+          break;
+        case 'customer_updated':
+          message += `👤 Müşteri bilgisi eski haline döndü: ${reservation.customer_name} (📞 ${reservation.phone_number})\n`;
+          break;
+        case 'updated':
+          message += `🔄 ${reservation.customer_name} rezervasyonu eski saatine döndü: ${slot}` +
+            `${reservation.pitch_name ? ` (${reservation.pitch_name})` : ''}\n`;
+          break;
+        default:
+          message += `↩️ ${reservation.customer_name} - ${slot} rezervasyonu eski durumuna döndü\n`;
+      }
+    });
+
+    return message.trimEnd();
+  }
+
+  /**
+   * Short label for non-active statuses in reservation lists ('' for active)
+   */
+  formatStatus(status: string): string {
+    switch (status) {
+      case 'completed':
+        return '✔️ Oynandı';
+      case 'no_show':
+        return '🚫 Gelmedi';
+      case 'cancelled':
+        return '❌ İptal';
+      default:
+        return '';
+    }
+  }
+
+  /**
+   * Give a change its own action id unless it is part of a larger one
+   */
+  private beginAction<T extends AuditContext>(audit: T): T {
+    return audit.actionId ? audit : { ...audit, actionId: randomUUID() };
+  }
+
+  private async recordChange(
+    tenantId: number,
+    event: string,
+    before: ReservationDetails | null,
+    after: ReservationDetails | null,
+    audit: AuditContext,
+    details: Record<string, any> = {}
+  ): Promise<void> {
+    await db.addReservationHistory(tenantId, (before || after)!.id, event, details, audit.actor, {
+      beforeState: before && this.toAuditState(before),
+      afterState: after && this.toAuditState(after),
+      sourceMessage: audit.sourceMessage,
+      actionId: audit.actionId,
+    });
+  }
+
+  /**
+   * The fields of a reservation that changes touch and an undo restores
+   */
+  private toAuditState(reservation: ReservationDetails) {
+    return {
+      id: reservation.id,
+      status: reservation.status,
+      customer_id: reservation.customer_id,
+      customer_name: reservation.customer_name,
+      phone_number: reservation.phone_number,
+      pitch_id: reservation.pitch_id,
+      pitch_name: reservation.pitch_name,
+      start_time: reservation.start_time,
+      end_time: reservation.end_time,
+      price: reservation.price ?? null,
+      cancelled_at: reservation.cancelled_at ?? null,
+      cancellation_fee: reservation.cancellation_fee ?? null,
+    };
+  }
+
+  isSamePhoneNumber(a: string, b: string): boolean {
+    // "0555 123 45 67" and "905551234567" are the same customer
+    return a.replace(/\D/g, '').slice(-10) === b.replace(/\D/g, '').slice(-10);
+  }
+
+  private translateOverlapError(error: any, pitchName?: string): Error {
+    // 23P01 = exclusion_violation raised by no_overlapping_reservations_per_pitch
+    if (error?.code === '23P01') {
+      return new Error(pitchName
+        ? `${pitchName} bu saatte dolu, başka bir rezervasyonla çakışıyor`
+        : 'Seçilen saha bu saatte dolu, başka bir rezervasyonla çakışıyor');
+    }
+    return error;
   }
 
   private getWeekRange(weekOffset: number = 0): { startDate: Date; endDate: Date } {
@@ -246,13 +806,13 @@ class ReservationService {
     return { startDate, endDate };
   }
 
-  private async invalidateWeekCache(date: Date): Promise<void> {
+  private async invalidateWeekCache(tenantId: number, date: Date): Promise<void> {
     // Calculate which week offset this date belongs to
     const targetWeekOffset = this.calculateWeekOffset(date);
 
-    // Invalidate target week and nearby weeks
+    // Invalidate target week and nearby weeks of this tenant only
     for (let offset = targetWeekOffset - 1; offset <= targetWeekOffset + 1; offset++) {
-      const cacheKey = cacheService.getWeekTableCacheKey(offset);
+      const cacheKey = cacheService.getWeekTableCacheKey(tenantId, offset);
       await cacheService.del(cacheKey);
     }
   }
@@ -285,54 +845,55 @@ class ReservationService {
     return this.getWeekRange(weekOffset).endDate;
   }
 
-  parseTimeSlot(hour: string): { startHour: number; endHour: number } {
-    // Check if it's explicitly marked as morning
-    const isMorning = /sabah|morning|am/i.test(hour);
-
-    // Parse formats like "9-10", "14-15", "18:00-19:00", "sabah 9-10"
-    const match = hour.match(/(\d+)(?::00)?-(\d+)(?::00)?/);
-    if (!match) {
-      throw new Error('Invalid time format');
+  /**
+   * Parse a time slot ("9-10", "sabah 9-10", "20:30-22:00", "gece 1-2") into business-day hours.
+   * Hours past midnight are returned as 24+ so createReservationTime moves them to the next day.
+   */
+  parseTimeSlot(timeSlot: string): { startHour: number; endHour: number } {
+    const range = turkishDateParser.parseTimeRange(timeSlot);
+    if (!range) {
+      throw new Error(`Saat anlaşılamadı: "${timeSlot}". Örnek: "9-10", "sabah 9-10", "20:30-22:00"`);
     }
 
-    let startHour = parseInt(match[1]);
-    let endHour = parseInt(match[2]);
+    return {
+      startHour: range.startMinutes / 60,
+      endHour: range.endMinutes / 60,
+    };
+  }
 
-    // Default behavior: if hour is 6-12, it's already correct (morning or evening edge cases)
-    // If hour is 1-5 without "sabah" keyword, treat as early morning (01:00-05:00)
-    // If hour is 13-23, use as-is
-    // Otherwise, if hour is 6-12 and no "sabah" keyword, convert to PM (add 12)
+  /**
+   * Resolve a raw date expression ("yarın", "haftaya salı", "15 Kasım", "2025-11-15")
+   * plus a time slot into concrete start/end times on that business day.
+   */
+  parseSlot(dateExpression: string, timeSlot: string): { date: Date; startTime: Date; endTime: Date } {
+    const parsed = turkishDateParser.parse(`${dateExpression} ${timeSlot}`);
 
-    if (!isMorning) {
-      // Convert to PM (evening) if hour is between 6-12
-      if (startHour >= 6 && startHour <= 12) {
-        startHour += 12;
-      }
-      if (endHour >= 6 && endHour <= 12) {
-        endHour += 12;
-      }
-      // Hours 1-5 without "sabah" are treated as early morning (past midnight)
-      // Hours 13-23 stay as-is
+    if (!parsed || !parsed.hasDate) {
+      throw new Error(`Tarih anlaşılamadı: "${dateExpression}". Örnek: "yarın", "cuma", "haftaya salı", "15 Kasım", "2025-11-15"`);
     }
 
-    return {
-      startHour,
-      endHour,
-    };
+    if (!parsed.startTime || !parsed.endTime) {
+      throw new Error(`Saat anlaşılamadı: "${timeSlot}". Örnek: "9-10", "sabah 9-10", "20:30-22:00"`);
+    }
+
+    return { date: parsed.date, startTime: parsed.startTime, endTime: parsed.endTime };
   }
 
-  createReservationTime(date: Date, hour: number): Date {
-    const result = new Date(date);
+  parseDate(dateExpression: string): Date {
+    const date = turkishDateParser.parseDate(dateExpression);
 
-    // If hour is 24 or greater, it means next day
-    if (hour >= 24) {
-      result.setDate(result.getDate() + 1);
-      result.setHours(hour - 24, 0, 0, 0);
-    } else {
-      result.setHours(hour, 0, 0, 0);
+    if (!date) {
+      throw new Error(`Tarih anlaşılamadı: "${dateExpression}". Örnek: "yarın", "cuma", "haftaya salı", "15 Kasım", "2025-11-15"`);
     }
 
-    return result;
+    return date;
+  }
+
+  createReservationTime(date: Date, hour: number): Date {
+    // Fractional hours carry minutes (20.5 → 20:30); 24+ means after midnight (next calendar day)
+    const day = new Date(date);
+    day.setHours(0, 0, 0, 0);
+    return turkishDateParser.toDateTime(day, Math.round(hour * 60));
   }
 }
 
@@ -0,0 +1,86 @@
+import { scheduleService } from './scheduleService';
+import { tenantService } from './tenantService';
+
+jest.mock('./cacheService', () => ({
+  cacheService: { get: jest.fn(async () => null), set: jest.fn(), del: jest.fn() },
+}));
+jest.mock('./tenantService', () => ({
+  tenantService: { getTenantById: jest.fn() },
+}));
+
+// 12 November 2025 is a Wednesday
+const at = (day: number, hour: number, minute: number = 0) => new Date(2025, 10, day, hour, minute);
+
+describe('scheduleService.validateSlot', () => {
+  const useSchedule = (schedule: any = {}) =>
+    jest.mocked(tenantService.getTenantById).mockResolvedValue({ settings: { schedule } } as any);
+
+  beforeEach(() => {
+    jest.mocked(tenantService.getTenantById).mockReset();
+    useSchedule();
+  });
+
+  describe('with the default 12:00-06:00 hours', () => {
+    const valid: { name: string; start: Date; end: Date }[] = [
+      { name: 'the first hour', start: at(12, 12), end: at(12, 13) },
+      { name: 'an evening hour', start: at(12, 21), end: at(12, 22) },
+      { name: 'an hour across midnight', start: at(12, 23), end: at(13, 0) },
+      { name: 'two hours across midnight', start: at(12, 23), end: at(13, 1) },
+      { name: 'the last hour, after midnight', start: at(13, 5), end: at(13, 6) },
+    ];
+
+    it.each(valid)('accepts $name', async ({ start, end }) => {
+      await expect(scheduleService.validateSlot(1, start, end)).resolves.toBeUndefined();
+    });
+
+    const invalid: { name: string; start: Date; end: Date; error: string }[] = [
+      { name: 'a morning hour before opening', start: at(12, 10), end: at(12, 11), error: 'Çalışma saatleri dışında. Çarşamba: 12:00-06:00' },
+      { name: 'an hour running past closing', start: at(13, 5), end: at(13, 7), error: 'Çalışma saatleri dışında. Çarşamba: 12:00-06:00' },
+      { name: 'an hour starting at closing', start: at(13, 6), end: at(13, 7), error: 'Çalışma saatleri dışında. Perşembe: 12:00-06:00' },
+      { name: 'an end before the start', start: at(12, 22), end: at(12, 21), error: 'Bitiş saati başlangıç saatinden sonra olmalı' },
+      { name: 'a start off the hour grid', start: at(12, 20, 30), end: at(12, 21, 30), error: "Rezervasyonlar 60 dakikalık dilimlerle yapılır (12:00'dan başlayarak)" },
+      { name: 'a duration off the hour grid', start: at(12, 20), end: at(12, 21, 30), error: "Rezervasyonlar 60 dakikalık dilimlerle yapılır (12:00'dan başlayarak)" },
+    ];
+
+    it.each(invalid)('rejects $name', async ({ start, end, error }) => {
+      await expect(scheduleService.validateSlot(1, start, end)).rejects.toThrow(error);
+    });
+  });
+
+  it('aligns the slot grid to the opening time', async () => {
+    useSchedule({ slotMinutes: 90, openingHours: { '3': { open: '16:30', close: '01:30' } } });
+
+    await expect(scheduleService.validateSlot(1, at(12, 18), at(12, 19, 30))).resolves.toBeUndefined();
+    await expect(scheduleService.validateSlot(1, at(13, 0), at(13, 1, 30))).resolves.toBeUndefined();
+    await expect(scheduleService.validateSlot(1, at(12, 18), at(12, 20))).rejects.toThrow(
+      "Rezervasyonlar 90 dakikalık dilimlerle yapılır (16:30'dan başlayarak)"
+    );
+    await expect(scheduleService.validateSlot(1, at(12, 17), at(12, 18, 30))).rejects.toThrow('90 dakikalık dilimlerle');
+    await expect(scheduleService.validateSlot(1, at(13, 1), at(13, 2, 30))).rejects.toThrow('Çarşamba: 16:30-01:30');
+  });
+
+  it('rejects a closed date, including the hours after its midnight', async () => {
+    useSchedule({ closedDates: ['2025-11-12'] });
+
+    await expect(scheduleService.validateSlot(1, at(12, 20), at(12, 21))).rejects.toThrow('12.11.2025 tarihinde tesis kapalı');
+    await expect(scheduleService.validateSlot(1, at(13, 1), at(13, 2))).rejects.toThrow('12.11.2025 tarihinde tesis kapalı');
+    await expect(scheduleService.validateSlot(1, at(13, 20), at(13, 21))).resolves.toBeUndefined();
+  });
+
+  it('keeps the night after a closed date open for the day before', async () => {
+    useSchedule({ closedDates: ['2025-11-13'] });
+
+    // Thursday 01:00 is still Wednesday night
+    await expect(scheduleService.validateSlot(1, at(13, 1), at(13, 2))).resolves.toBeUndefined();
+    await expect(scheduleService.validateSlot(1, at(13, 20), at(13, 21))).rejects.toThrow('13.11.2025 tarihinde tesis kapalı');
+  });
+
+  it('rejects a weekday the facility does not open', async () => {
+    useSchedule({ openingHours: { '0': null } });
+
+    // 16 November 2025 is a Sunday; Monday 01:00 is still Sunday night
+    await expect(scheduleService.validateSlot(1, at(16, 20), at(16, 21))).rejects.toThrow('Pazar günleri tesis kapalı');
+    await expect(scheduleService.validateSlot(1, at(17, 1), at(17, 2))).rejects.toThrow('Pazar günleri tesis kapalı');
+    await expect(scheduleService.validateSlot(1, at(17, 20), at(17, 21))).resolves.toBeUndefined();
+  });
+});
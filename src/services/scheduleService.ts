@@ -0,0 +1,209 @@
+import { tenantService } from './tenantService';
+import { cacheService } from './cacheService';
+import { turkishDateParser } from '../turkishDateParser';
+
+export interface DayHours {
+  open: string; // "HH:MM"
+  close: string; // "HH:MM", at or before open means after midnight
+}
+
+export interface ScheduleSettings {
+  // Keyed by JS weekday (0 = Pazar ... 6 = Cumartesi); null = closed all day
+  openingHours: { [weekday: string]: DayHours | null };
+  // Business days the facility is closed (holidays, maintenance), "YYYY-MM-DD"
+  closedDates: string[];
+  slotMinutes: number;
+}
+
+export const DEFAULT_SCHEDULE_SETTINGS: ScheduleSettings = {
+  openingHours: {
+    '0': { open: '12:00', close: '06:00' },
+    '1': { open: '12:00', close: '06:00' },
+    '2': { open: '12:00', close: '06:00' },
+    '3': { open: '12:00', close: '06:00' },
+    '4': { open: '12:00', close: '06:00' },
+    '5': { open: '12:00', close: '06:00' },
+    '6': { open: '12:00', close: '06:00' },
+  },
+  closedDates: [],
+  slotMinutes: 60,
+};
+
+export const SLOT_MINUTE_OPTIONS = [30, 60, 90];
+
+class ScheduleService {
+  private readonly DAY_NAMES = ['Pazar', 'Pazartesi', 'Salı', 'Çarşamba', 'Perşembe', 'Cuma', 'Cumartesi'];
+
+  async getSettings(tenantId: number): Promise<ScheduleSettings> {
+    const cacheKey = this.getCacheKey(tenantId);
+    const cached = await cacheService.get<ScheduleSettings>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const tenant = await tenantService.getTenantById(tenantId);
+    const stored = tenant?.settings?.schedule || {};
+
+    const settings: ScheduleSettings = {
+      openingHours: { ...DEFAULT_SCHEDULE_SETTINGS.openingHours, ...(stored.openingHours || {}) },
+      closedDates: stored.closedDates || [],
+      slotMinutes: stored.slotMinutes || DEFAULT_SCHEDULE_SETTINGS.slotMinutes,
+    };
+
+    // Cache for 10 minutes
+    await cacheService.set(cacheKey, settings, 600);
+
+    return settings;
+  }
+
+  async updateSettings(tenantId: number, changes: Partial<ScheduleSettings>): Promise<ScheduleSettings> {
+    const tenant = await tenantService.getTenantById(tenantId);
+    if (!tenant) {
+      throw new Error('İşletme bulunamadı');
+    }
+
+    const current = await this.getSettings(tenantId);
+    const schedule: ScheduleSettings = {
+      openingHours: { ...current.openingHours, ...(changes.openingHours || {}) },
+      closedDates: changes.closedDates || current.closedDates,
+      slotMinutes: changes.slotMinutes || current.slotMinutes,
+    };
+
+    if (!SLOT_MINUTE_OPTIONS.includes(schedule.slotMinutes)) {
+      throw new Error(`Slot süresi ${SLOT_MINUTE_OPTIONS.join(', ')} dakikadan biri olmalı`);
+    }
+
+    for (const hours of Object.values(schedule.openingHours)) {
+      if (hours && (!this.isValidTime(hours.open) || !this.isValidTime(hours.close))) {
+        throw new Error('Çalışma saatleri SS:DD formatında olmalı (örn: 12:00)');
+      }
+    }
+
+    await tenantService.updateTenant(tenantId, {
+      settings: { ...tenant.settings, schedule },
+    });
+    await cacheService.del(this.getCacheKey(tenantId));
+
+    return schedule;
+  }
+
+  async setDayHours(tenantId: number, weekday: number, hours: DayHours | null): Promise<ScheduleSettings> {
+    return this.updateSettings(tenantId, { openingHours: { [weekday.toString()]: hours } });
+  }
+
+  async addClosedDate(tenantId: number, date: Date): Promise<ScheduleSettings> {
+    const settings = await this.getSettings(tenantId);
+    const key = this.toDateKey(date);
+    const closedDates = Array.from(new Set([...settings.closedDates, key])).sort();
+    return this.updateSettings(tenantId, { closedDates });
+  }
+
+  async removeClosedDate(tenantId: number, date: Date): Promise<ScheduleSettings> {
+    const settings = await this.getSettings(tenantId);
+    const key = this.toDateKey(date);
+    return this.updateSettings(tenantId, { closedDates: settings.closedDates.filter(d => d !== key) });
+  }
+
+  /**
+   * Opening window of a business day in minutes from its midnight, or null when closed
+   */
+  getHoursForDay(settings: ScheduleSettings, businessDay: Date): { openMinutes: number; closeMinutes: number } | null {
+    if (settings.closedDates.includes(this.toDateKey(businessDay))) {
+      return null;
+    }
+
+    const hours = settings.openingHours[businessDay.getDay().toString()];
+    if (!hours) {
+      return null;
+    }
+
+    const openMinutes = this.toMinutes(hours.open);
+    let closeMinutes = this.toMinutes(hours.close);
+    if (closeMinutes <= openMinutes) {
+      closeMinutes += 24 * 60;
+    }
+
+    return { openMinutes, closeMinutes };
+  }
+
+  /**
+   * Throws a user-facing error when a slot falls on a closed day, outside opening hours
+   * or off the tenant's slot grid.
+   */
+  async validateSlot(tenantId: number, startTime: Date, endTime: Date): Promise<void> {
+    const settings = await this.getSettings(tenantId);
+    const businessDay = turkishDateParser.getBusinessDay(startTime);
+    const dayName = this.DAY_NAMES[businessDay.getDay()];
+    const hours = this.getHoursForDay(settings, businessDay);
+
+    if (settings.closedDates.includes(this.toDateKey(businessDay))) {
+      throw new Error(`${businessDay.toLocaleDateString('tr-TR')} tarihinde tesis kapalı`);
+    }
+
+    if (!hours) {
+      throw new Error(`${dayName} günleri tesis kapalı`);
+    }
+
+    const startMinutes = Math.round((startTime.getTime() - businessDay.getTime()) / 60000);
+    const endMinutes = Math.round((endTime.getTime() - businessDay.getTime()) / 60000);
+
+    if (endMinutes <= startMinutes) {
+      throw new Error('Bitiş saati başlangıç saatinden sonra olmalı');
+    }
+
+    if (startMinutes < hours.openMinutes || endMinutes > hours.closeMinutes) {
+      throw new Error(`Çalışma saatleri dışında. ${dayName}: ${this.formatMinutes(hours.openMinutes)}-${this.formatMinutes(hours.closeMinutes)}`);
+    }
+
+    if ((startMinutes - hours.openMinutes) % settings.slotMinutes !== 0 || (endMinutes - startMinutes) % settings.slotMinutes !== 0) {
+      throw new Error(`Rezervasyonlar ${settings.slotMinutes} dakikalık dilimlerle yapılır (${this.formatMinutes(hours.openMinutes)}'dan başlayarak)`);
+    }
+  }
+
+  formatSettingsMessage(settings: ScheduleSettings): string {
+    let message = '🕒 Çalışma Saatleri\n\n';
+
+    // Monday first, as in the week table
+    [1, 2, 3, 4, 5, 6, 0].forEach(weekday => {
+      const hours = settings.openingHours[weekday.toString()];
+      message += `${this.DAY_NAMES[weekday]}: ${hours ? `${hours.open}-${hours.close}` : 'Kapalı'}\n`;
+    });
+
+    message += `\n⏱️ Slot süresi: ${settings.slotMinutes} dakika\n`;
+
+    if (settings.closedDates.length > 0) {
+      message += `\n🚫 Kapalı günler:\n`;
+      settings.closedDates.forEach(date => {
+        const [year, month, day] = date.split('-').map(Number);
+        message += `• ${new Date(year, month - 1, day).toLocaleDateString('tr-TR', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' })}\n`;
+      });
+    }
+
+    return message;
+  }
+
+  formatMinutes(minutes: number): string {
+    const minuteOfDay = minutes % (24 * 60);
+    return `${Math.floor(minuteOfDay / 60).toString().padStart(2, '0')}:${(minuteOfDay % 60).toString().padStart(2, '0')}`;
+  }
+
+  toDateKey(date: Date): string {
+    return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+  }
+
+  private toMinutes(time: string): number {
+    const [hour, minute] = time.split(':').map(Number);
+    return hour * 60 + (minute || 0);
+  }
+
+  private isValidTime(time: string): boolean {
+    const match = time.match(/^(\d{1,2}):(\d{2})$/);
+    return !!match && parseInt(match[1]) <= 24 && parseInt(match[2]) < 60;
+  }
+
+  private getCacheKey(tenantId: number): string {
+    return `schedule_settings:${tenantId}`;
+  }
+}
+
+export const scheduleService = new ScheduleService();
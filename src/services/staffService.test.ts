@@ -0,0 +1,63 @@
+import { staffService, StaffMember } from './staffService';
+import { db } from '../database/db';
+import { config } from '../config';
+import { tenantService } from './tenantService';
+
+jest.mock('../database/db', () => ({
+  db: { getStaffMembers: jest.fn(), addStaffMember: jest.fn() },
+}));
+jest.mock('./cacheService', () => ({
+  cacheService: { get: jest.fn(), set: jest.fn(), del: jest.fn() },
+}));
+jest.mock('./tenantService', () => ({
+  tenantService: { getTenantById: jest.fn() },
+}));
+
+const OWNER_ONLY_TOOLS = ['cancel_all_week_reservations', 'add_staff', 'remove_staff', 'update_unknown_sender_mode'];
+
+const owner: StaffMember = {
+  id: 1, tenant_id: 1, phone_number: '905551112233', name: null, role: 'owner', created_at: new Date(),
+};
+
+describe('staffService.getSenderRole on a tenant without staff', () => {
+  beforeEach(() => {
+    config.whatsapp.ownerPhoneNumber = '';
+    jest.mocked(db.getStaffMembers).mockReset().mockResolvedValue([]);
+    jest.mocked(db.addStaffMember).mockReset().mockResolvedValue(owner);
+    jest.mocked(tenantService.getTenantById).mockReset().mockResolvedValue({ settings: {} } as any);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('treats an unregistered number as a customer that cannot use owner-only tools', async () => {
+    const role = await staffService.getSenderRole(1, '905327778899');
+
+    expect(role).toBe('customer');
+    for (const tool of OWNER_ONLY_TOOLS) {
+      expect(staffService.canUseTool(role!, tool)).toBe(false);
+    }
+    expect(db.addStaffMember).not.toHaveBeenCalled();
+  });
+
+  it('refuses an unregistered number when unknown senders are refused', async () => {
+    jest.mocked(tenantService.getTenantById).mockResolvedValue({ settings: { unknownSenders: 'refuse' } } as any);
+
+    expect(await staffService.getSenderRole(1, '905327778899')).toBeNull();
+  });
+
+  it('registers the configured owner and keeps everyone else a customer', async () => {
+    config.whatsapp.ownerPhoneNumber = '905551112233';
+
+    expect(await staffService.getSenderRole(1, '905327778899')).toBe('customer');
+    expect(db.addStaffMember).toHaveBeenCalledWith(1, '905551112233', 'owner', undefined);
+
+    expect(await staffService.getSenderRole(1, '0555 111 22 33')).toBe('owner');
+  });
+
+  it('does not advertise a way to claim the owner role', () => {
+    expect(staffService.formatStaffMessage([], 'customer')).not.toMatch(/işletme sahibi/);
+  });
+});
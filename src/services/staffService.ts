@@ -0,0 +1,257 @@
+import { db } from '../database/db';
+import { config } from '../config';
+import { cacheService } from './cacheService';
+import { tenantService } from './tenantService';
+
+export type StaffRole = 'owner' | 'desk' | 'accountant';
+export type SenderRole = StaffRole | 'customer';
+
+// What happens to a number that is not registered staff
+export type UnknownSenderMode = 'customer' | 'refuse';
+
+export interface StaffMember {
+  id: number;
+  tenant_id: number;
+  phone_number: string;
+  name: string | null;
+  role: StaffRole;
+  created_at: Date;
+}
+
+const STAFF_ROLES: StaffRole[] = ['owner', 'desk', 'accountant'];
+const DESK_ROLES: SenderRole[] = ['owner', 'desk'];
+const OWNER_ONLY: SenderRole[] = ['owner'];
+const EVERYONE: SenderRole[] = [...STAFF_ROLES, 'customer'];
+
+/**
+ * Which roles may call each agent tool. Tools missing from the matrix are owner-only.
+ */
+export const TOOL_PERMISSIONS: { [tool: string]: SenderRole[] } = {
+  // Read-only, also offered to customers
+  find_free_slots: EVERYONE,
+  list_pitches: EVERYONE,
+  get_price_list: EVERYONE,
+  get_cancellation_policy: EVERYONE,
+  get_current_time: EVERYONE,
+
+  // Read-only views for every staff member
+  show_week_table: STAFF_ROLES,
+  list_week_reservations: STAFF_ROLES,
+  find_reservations_by_name: STAFF_ROLES,
+  list_recurring_reservations: STAFF_ROLES,
+  get_schedule_settings: STAFF_ROLES,
+  get_reminder_settings: STAFF_ROLES,
+  get_message_templates: STAFF_ROLES,
+  list_waitlist: STAFF_ROLES,
+  get_reservation_payments: STAFF_ROLES,
+  list_unpaid_reservations: STAFF_ROLES,
+  get_loyal_customers: STAFF_ROLES,
+  get_cancellation_customers: STAFF_ROLES,
+  get_no_show_customers: STAFF_ROLES,
+
+  // Day-to-day desk work
+  create_reservation: DESK_ROLES,
+  create_recurring_reservation: DESK_ROLES,
+  cancel_recurring_occurrence: DESK_ROLES,
+  cancel_recurring_series: DESK_ROLES,
+  cancel_reservation: DESK_ROLES,
+  update_customer_info: DESK_ROLES,
+  update_reservation_time: DESK_ROLES,
+  join_waitlist: DESK_ROLES,
+  remove_from_waitlist: DESK_ROLES,
+  record_payment: DESK_ROLES,
+  mark_no_show: DESK_ROLES,
+
+  // Only ever reverts the sender's own last change
+  undo_last_action: [...DESK_ROLES, 'customer'],
+
+  // Bulk changes, revenue, settings and staff
+  cancel_all_week_reservations: OWNER_ONLY,
+  get_sales_analytics: OWNER_ONLY,
+  update_schedule_settings: OWNER_ONLY,
+  update_cancellation_policy: OWNER_ONLY,
+  update_reminder_settings: OWNER_ONLY,
+  update_message_template: OWNER_ONLY,
+  add_price_rule: OWNER_ONLY,
+  delete_price_rule: OWNER_ONLY,
+  list_staff: OWNER_ONLY,
+  add_staff: OWNER_ONLY,
+  remove_staff: OWNER_ONLY,
+  update_unknown_sender_mode: OWNER_ONLY,
+
+  // Customer self-service, always scoped to the sender's own number
+  book_reservation: ['customer'],
+  list_my_reservations: ['customer'],
+  cancel_my_reservation: ['customer'],
+};
+
+class StaffService {
+  private readonly ROLE_LABELS: { [role in SenderRole]: string } = {
+    owner: 'İşletme sahibi',
+    desk: 'Personel',
+    accountant: 'Muhasebe (sadece görüntüleme)',
+    customer: 'Müşteri',
+  };
+
+  async listStaff(tenantId: number): Promise<StaffMember[]> {
+    const cacheKey = this.getCacheKey(tenantId);
+    const cached = await cacheService.get<StaffMember[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const staff = await db.getStaffMembers(tenantId) as StaffMember[];
+
+    // Cache for 10 minutes
+    await cacheService.set(cacheKey, staff, 600);
+
+    return staff;
+  }
+
+  /**
+   * The role of a WhatsApp sender, or null when unknown numbers are refused.
+   * A tenant without staff gets the configured owner (OWNER_PHONE_NUMBER); nobody can claim
+   * the owner role just by writing first.
+   */
+  async getSenderRole(tenantId: number, phoneNumber: string): Promise<SenderRole | null> {
+    let staff = await this.listStaff(tenantId);
+
+    if (staff.length === 0 && config.whatsapp.ownerPhoneNumber) {
+      staff = [await this.addStaff(tenantId, config.whatsapp.ownerPhoneNumber, 'owner')];
+      console.log(`👤 Registered ${config.whatsapp.ownerPhoneNumber} as owner of tenant ${tenantId}`);
+    }
+
+    const member = staff.find(m => this.isSamePhoneNumber(m.phone_number, phoneNumber));
+    if (member) {
+      return member.role;
+    }
+
+    return await this.getUnknownSenderMode(tenantId) === 'refuse' ? null : 'customer';
+  }
+
+  canUseTool(role: SenderRole, toolName: string): boolean {
+    return (TOOL_PERMISSIONS[toolName] || OWNER_ONLY).includes(role);
+  }
+
+  async addStaff(tenantId: number, phoneNumber: string, role: StaffRole = 'desk', name?: string): Promise<StaffMember> {
+    const phone = phoneNumber.replace(/\s+/g, '');
+
+    if (phone.replace(/\D/g, '').length < 10) {
+      throw new Error('Geçerli bir telefon numarası girin');
+    }
+
+    if (!STAFF_ROLES.includes(role)) {
+      throw new Error('Rol owner, desk veya accountant olmalı');
+    }
+
+    const staff = await this.listStaff(tenantId);
+    const existing = staff.find(member => this.isSamePhoneNumber(member.phone_number, phone));
+
+    // The first number registered runs the business, otherwise nobody could manage staff
+    if (staff.length === 0 && role !== 'owner') {
+      throw new Error('İlk kaydedilen personel işletme sahibi (owner) olmalı');
+    }
+
+    if (existing?.role === 'owner' && role !== 'owner' && this.countOwners(staff) === 1) {
+      throw new Error('Son işletme sahibinin yetkisi düşürülemez, önce başka bir owner ekleyin');
+    }
+
+    const member = await db.addStaffMember(tenantId, existing ? existing.phone_number : phone, role, name);
+    await cacheService.del(this.getCacheKey(tenantId));
+
+    return member;
+  }
+
+  async removeStaff(tenantId: number, phoneNumber: string): Promise<StaffMember> {
+    const staff = await this.listStaff(tenantId);
+    const member = staff.find(m => this.isSamePhoneNumber(m.phone_number, phoneNumber));
+
+    if (!member) {
+      throw new Error('Bu numara personel listesinde yok');
+    }
+
+    // Without an owner nobody could manage staff or settings any more
+    if (member.role === 'owner' && this.countOwners(staff) === 1) {
+      throw new Error('Son işletme sahibi silinemez, önce başka bir owner ekleyin');
+    }
+
+    await db.removeStaffMember(member.id, tenantId);
+    await cacheService.del(this.getCacheKey(tenantId));
+
+    return member;
+  }
+
+  async getUnknownSenderMode(tenantId: number): Promise<UnknownSenderMode> {
+    const cacheKey = this.getModeCacheKey(tenantId);
+    const cached = await cacheService.get<UnknownSenderMode>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const tenant = await tenantService.getTenantById(tenantId);
+    const mode: UnknownSenderMode = tenant?.settings?.unknownSenders === 'refuse' ? 'refuse' : 'customer';
+
+    // Cache for 10 minutes
+    await cacheService.set(cacheKey, mode, 600);
+
+    return mode;
+  }
+
+  async setUnknownSenderMode(tenantId: number, mode: UnknownSenderMode): Promise<UnknownSenderMode> {
+    if (mode !== 'customer' && mode !== 'refuse') {
+      throw new Error('Mod customer veya refuse olmalı');
+    }
+
+    const tenant = await tenantService.getTenantById(tenantId);
+    if (!tenant) {
+      throw new Error('İşletme bulunamadı');
+    }
+
+    await tenantService.updateTenant(tenantId, {
+      settings: { ...tenant.settings, unknownSenders: mode },
+    });
+    await cacheService.del(this.getModeCacheKey(tenantId));
+
+    return mode;
+  }
+
+  getRoleLabel(role: SenderRole): string {
+    return this.ROLE_LABELS[role];
+  }
+
+  formatStaffMessage(staff: StaffMember[], unknownSenderMode: UnknownSenderMode): string {
+    if (staff.length === 0) {
+      return `👥 Kayıtlı personel yok.`;
+    }
+
+    let message = `👥 ${staff.length} personel kayıtlı:\n\n`;
+    staff.forEach((member, index) => {
+      message += `${index + 1}. ${member.name || 'İsimsiz'} - 📞 ${member.phone_number} - ${this.ROLE_LABELS[member.role]}\n`;
+    });
+
+    message += unknownSenderMode === 'refuse'
+      ? `\n🚫 Kayıtlı olmayan numaralara hizmet verilmiyor`
+      : `\n🙋 Kayıtlı olmayan numaralar müşteri olarak karşılanıyor`;
+
+    return message;
+  }
+
+  private countOwners(staff: StaffMember[]): number {
+    return staff.filter(member => member.role === 'owner').length;
+  }
+
+  private isSamePhoneNumber(a: string, b: string): boolean {
+    // "0555 123 45 67" and "905551234567" are the same person
+    return a.replace(/\D/g, '').slice(-10) === b.replace(/\D/g, '').slice(-10);
+  }
+
+  private getCacheKey(tenantId: number): string {
+    return `staff:${tenantId}`;
+  }
+
+  private getModeCacheKey(tenantId: number): string {
+    return `unknown_sender_mode:${tenantId}`;
+  }
+}
+
+export const staffService = new StaffService();
@@ -1,5 +1,8 @@
 import { createCanvas } from 'canvas';
 import { ReservationDetails } from './reservationService';
+import { Pitch } from './pitchService';
+import { scheduleService, ScheduleSettings, DEFAULT_SCHEDULE_SETTINGS } from './scheduleService';
+import { turkishDateParser } from '../turkishDateParser';
 
 interface TimeSlot {
   hour: number;
@@ -7,25 +10,46 @@ interface TimeSlot {
   reservation?: ReservationDetails;
 }
 
+// Column geometry: one column per pitch inside each day column
+interface TableLayout {
+  pitches: Pitch[];
+  columnWidth: number;
+  dayWidth: number;
+  headerHeight: number;
+  // Row start times in minutes from business-day midnight, one row per slot
+  rows: number[];
+  slotMinutes: number;
+  // Opening window per day of the week (Monday first), null when closed
+  dayHours: ({ openMinutes: number; closeMinutes: number } | null)[];
+}
+
 class TableVisualizationService {
   private readonly CELL_WIDTH = 130;
   private readonly CELL_HEIGHT = 55; // Increased from 50 to 55 for better content fit
   private readonly HEADER_HEIGHT = 70;
   private readonly TIME_COLUMN_WIDTH = 140;
+  private readonly PITCH_CELL_WIDTH = 100;
+  private readonly PITCH_HEADER_HEIGHT = 28;
   private readonly DAYS = ['Pazartesi', 'Salı', 'Çarşamba', 'Perşembe', 'Cuma', 'Cumartesi', 'Pazar'];
-  // 12:00 to 06:00 (next day) = 19 hours
-  private readonly HOURS = [12, 13, 14, 15, 16, 17, 18, 19, 20, 21, 22, 23, 0, 1, 2, 3, 4, 5, 6];
   // Use DejaVu Sans font which supports Turkish characters
   private readonly FONT_FAMILY = '"DejaVu Sans", "Noto Sans", sans-serif';
 
+  /**
+   * Render the week grid. Pass a single pitch (or none) for the classic one-field table,
+   * or several pitches to render them side by side under each day.
+   * Rows follow the tenant's opening hours and slot length; closed cells are shaded.
+   */
   async generateWeekTable(
     reservations: ReservationDetails[],
-    weekStartDate: Date
+    weekStartDate: Date,
+    pitches: Pitch[] = [],
+    schedule: ScheduleSettings = DEFAULT_SCHEDULE_SETTINGS
   ): Promise<Buffer> {
-    const width = this.TIME_COLUMN_WIDTH + this.CELL_WIDTH * 7;
-    const height = this.HEADER_HEIGHT + this.CELL_HEIGHT * this.HOURS.length;
+    const layout = this.getLayout(pitches, schedule, weekStartDate);
+    const width = this.TIME_COLUMN_WIDTH + layout.dayWidth * 7;
+    const height = layout.headerHeight + this.CELL_HEIGHT * layout.rows.length;
 
-    console.log(`\n🎨 Generating table: ${width}x${height}px, ${reservations.length} reservations`);
+    console.log(`\n🎨 Generating table: ${width}x${height}px, ${reservations.length} reservations, ${Math.max(pitches.length, 1)} pitch(es)`);
 
     const canvas = createCanvas(width, height);
     const ctx = canvas.getContext('2d');
@@ -35,21 +59,70 @@ class TableVisualizationService {
     ctx.fillRect(0, 0, width, height);
 
     // Draw header
-    this.drawHeader(ctx, weekStartDate);
+    this.drawHeader(ctx, weekStartDate, layout);
 
     // Draw time column and grid
-    this.drawTimeColumn(ctx);
-    this.drawGrid(ctx);
+    this.drawTimeColumn(ctx, layout);
+    this.drawGrid(ctx, layout);
 
     // Fill reservations
-    this.fillReservations(ctx, reservations, weekStartDate);
+    this.fillReservations(ctx, reservations, weekStartDate, layout);
 
     return canvas.toBuffer('image/png');
   }
 
-  private drawHeader(ctx: any, weekStartDate: Date): void {
+  private getLayout(pitches: Pitch[], schedule: ScheduleSettings, weekStartDate: Date): TableLayout {
+    const dayHours = this.DAYS.map((_, index) => {
+      const date = new Date(weekStartDate);
+      date.setDate(weekStartDate.getDate() + index);
+      return scheduleService.getHoursForDay(schedule, date);
+    });
+
+    // Span from the earliest opening to the latest closing of the week; fall back to the
+    // default hours when the whole week is closed so the table still has rows
+    const openDays = dayHours.filter((hours): hours is { openMinutes: number; closeMinutes: number } => hours !== null);
+    const fallback = scheduleService.getHoursForDay(DEFAULT_SCHEDULE_SETTINGS, weekStartDate)!;
+    const firstMinute = openDays.length > 0 ? Math.min(...openDays.map(h => h.openMinutes)) : fallback.openMinutes;
+    const lastMinute = openDays.length > 0 ? Math.max(...openDays.map(h => h.closeMinutes)) : fallback.closeMinutes;
+
+    const rows: number[] = [];
+    for (let minute = firstMinute; minute < lastMinute; minute += schedule.slotMinutes) {
+      rows.push(minute);
+    }
+
+    const base = { rows, slotMinutes: schedule.slotMinutes, dayHours };
+
+    if (pitches.length <= 1) {
+      return {
+        ...base,
+        pitches,
+        columnWidth: this.CELL_WIDTH,
+        dayWidth: this.CELL_WIDTH,
+        headerHeight: this.HEADER_HEIGHT,
+      };
+    }
+
+    return {
+      ...base,
+      pitches,
+      columnWidth: this.PITCH_CELL_WIDTH,
+      dayWidth: this.PITCH_CELL_WIDTH * pitches.length,
+      headerHeight: this.HEADER_HEIGHT + this.PITCH_HEADER_HEIGHT,
+    };
+  }
+
+  private isOpen(layout: TableLayout, day: number, rowMinute: number): boolean {
+    const hours = layout.dayHours[day];
+    return !!hours && rowMinute >= hours.openMinutes && rowMinute + layout.slotMinutes <= hours.closeMinutes;
+  }
+
+  private getColumnX(layout: TableLayout, day: number, pitchIndex: number): number {
+    return this.TIME_COLUMN_WIDTH + layout.dayWidth * day + layout.columnWidth * pitchIndex;
+  }
+
+  private drawHeader(ctx: any, weekStartDate: Date, layout: TableLayout): void {
     ctx.fillStyle = '#2c3e50';
-    ctx.fillRect(0, 0, this.TIME_COLUMN_WIDTH + this.CELL_WIDTH * 7, this.HEADER_HEIGHT);
+    ctx.fillRect(0, 0, this.TIME_COLUMN_WIDTH + layout.dayWidth * 7, layout.headerHeight);
 
     ctx.fillStyle = '#ffffff';
     ctx.font = `bold 15px ${this.FONT_FAMILY}`;
@@ -57,7 +130,7 @@ class TableVisualizationService {
     ctx.textBaseline = 'middle';
 
     // Time column header
-    ctx.fillText('Saat', this.TIME_COLUMN_WIDTH / 2, this.HEADER_HEIGHT / 2);
+    ctx.fillText('Saat', this.TIME_COLUMN_WIDTH / 2, layout.headerHeight / 2);
 
     // Day headers
     this.DAYS.forEach((day, index) => {
@@ -66,7 +139,7 @@ class TableVisualizationService {
       const dayNum = date.getDate();
       const month = date.getMonth() + 1;
 
-      const x = this.TIME_COLUMN_WIDTH + this.CELL_WIDTH * index + this.CELL_WIDTH / 2;
+      const x = this.TIME_COLUMN_WIDTH + layout.dayWidth * index + layout.dayWidth / 2;
 
       // Use DejaVu Sans for Turkish character support
       ctx.font = `bold 14px ${this.FONT_FAMILY}`;
@@ -74,17 +147,32 @@ class TableVisualizationService {
 
       ctx.font = `12px ${this.FONT_FAMILY}`;
       ctx.fillText(`${dayNum}/${month}`, x, this.HEADER_HEIGHT / 2 + 12);
+
+      // Pitch sub-headers when rendering several pitches side by side
+      if (layout.pitches.length > 1) {
+        ctx.font = `11px ${this.FONT_FAMILY}`;
+        layout.pitches.forEach((pitch, pitchIndex) => {
+          const pitchX = this.getColumnX(layout, index, pitchIndex);
+          ctx.fillStyle = '#34495e';
+          ctx.fillRect(pitchX, this.HEADER_HEIGHT, layout.columnWidth, this.PITCH_HEADER_HEIGHT);
+          ctx.strokeStyle = '#2c3e50';
+          ctx.strokeRect(pitchX, this.HEADER_HEIGHT, layout.columnWidth, this.PITCH_HEADER_HEIGHT);
+          ctx.fillStyle = '#ffffff';
+          ctx.fillText(pitch.name, pitchX + layout.columnWidth / 2, this.HEADER_HEIGHT + this.PITCH_HEADER_HEIGHT / 2);
+        });
+        ctx.font = `bold 14px ${this.FONT_FAMILY}`;
+      }
     });
   }
 
-  private drawTimeColumn(ctx: any): void {
+  private drawTimeColumn(ctx: any, layout: TableLayout): void {
     ctx.fillStyle = '#34495e';
     ctx.font = `13px ${this.FONT_FAMILY}`;
     ctx.textAlign = 'center';
     ctx.textBaseline = 'middle';
 
-    this.HOURS.forEach((hour, index) => {
-      const y = this.HEADER_HEIGHT + this.CELL_HEIGHT * index;
+    layout.rows.forEach((rowMinute, index) => {
+      const y = layout.headerHeight + this.CELL_HEIGHT * index;
 
       // Background
       ctx.fillStyle = '#ecf0f1';
@@ -96,8 +184,7 @@ class TableVisualizationService {
 
       // Time text with range format
       ctx.fillStyle = '#2c3e50';
-      const nextHour = index < this.HOURS.length - 1 ? this.HOURS[index + 1] : (hour + 1) % 24;
-      const timeText = `${hour.toString().padStart(2, '0')}:00-${nextHour.toString().padStart(2, '0')}:00`;
+      const timeText = `${scheduleService.formatMinutes(rowMinute)}-${scheduleService.formatMinutes(rowMinute + layout.slotMinutes)}`;
       ctx.fillText(
         timeText,
         this.TIME_COLUMN_WIDTH / 2,
@@ -106,22 +193,39 @@ class TableVisualizationService {
     });
   }
 
-  private drawGrid(ctx: any): void {
+  private drawGrid(ctx: any, layout: TableLayout): void {
     ctx.strokeStyle = '#bdc3c7';
     ctx.lineWidth = 1;
 
+    const columnsPerDay = Math.max(layout.pitches.length, 1);
+
     // Draw cells
     for (let day = 0; day < 7; day++) {
-      for (let hour = 0; hour < this.HOURS.length; hour++) {
-        const x = this.TIME_COLUMN_WIDTH + this.CELL_WIDTH * day;
-        const y = this.HEADER_HEIGHT + this.CELL_HEIGHT * hour;
-
-        // Empty cell background
-        ctx.fillStyle = '#ffffff';
-        ctx.fillRect(x, y, this.CELL_WIDTH, this.CELL_HEIGHT);
+      for (let column = 0; column < columnsPerDay; column++) {
+        for (let row = 0; row < layout.rows.length; row++) {
+          const x = this.getColumnX(layout, day, column);
+          const y = layout.headerHeight + this.CELL_HEIGHT * row;
+
+          // Empty cell background, shaded when the facility is closed
+          ctx.fillStyle = this.isOpen(layout, day, layout.rows[row]) ? '#ffffff' : '#dfe4ea';
+          ctx.fillRect(x, y, layout.columnWidth, this.CELL_HEIGHT);
+
+          // Border
+          ctx.strokeRect(x, y, layout.columnWidth, this.CELL_HEIGHT);
+        }
+      }
 
-        // Border
-        ctx.strokeRect(x, y, this.CELL_WIDTH, this.CELL_HEIGHT);
+      // Thicker separator between days when pitches are side by side
+      if (columnsPerDay > 1) {
+        ctx.strokeStyle = '#7f8c8d';
+        ctx.lineWidth = 2;
+        const x = this.getColumnX(layout, day, 0);
+        ctx.beginPath();
+        ctx.moveTo(x, layout.headerHeight);
+        ctx.lineTo(x, layout.headerHeight + this.CELL_HEIGHT * layout.rows.length);
+        ctx.stroke();
+        ctx.strokeStyle = '#bdc3c7';
+        ctx.lineWidth = 1;
       }
     }
   }
@@ -129,7 +233,8 @@ class TableVisualizationService {
   private fillReservations(
     ctx: any,
     reservations: ReservationDetails[],
-    weekStartDate: Date
+    weekStartDate: Date,
+    layout: TableLayout
   ): void {
     console.log(`📝 Filling ${reservations.length} reservations...`);
 
@@ -139,9 +244,10 @@ class TableVisualizationService {
 
       console.log(`  ${idx + 1}. ${reservation.customer_name} - ${startTime.toLocaleString('tr-TR')} to ${endTime.toLocaleString('tr-TR')}`);
 
-      // Calculate day offset from week start
-      const dayDiff = Math.floor(
-        (startTime.getTime() - weekStartDate.getTime()) / (1000 * 60 * 60 * 24)
+      // Calculate day offset from week start; after-midnight games belong to the previous day
+      const businessDay = turkishDateParser.getBusinessDay(startTime);
+      const dayDiff = Math.round(
+        (businessDay.getTime() - weekStartDate.getTime()) / (1000 * 60 * 60 * 24)
       );
 
       console.log(`     Day offset: ${dayDiff} (week start: ${weekStartDate.toLocaleDateString('tr-TR')})`);
@@ -151,31 +257,44 @@ class TableVisualizationService {
         return;
       }
 
-      const startHour = startTime.getHours();
-      const endHour = endTime.getHours();
+      const startMinute = Math.round((startTime.getTime() - businessDay.getTime()) / 60000);
+      const durationMinutes = Math.round((endTime.getTime() - startTime.getTime()) / 60000);
 
-      console.log(`     Hours: ${startHour}:00 - ${endHour}:00`);
+      console.log(`     Time: ${scheduleService.formatMinutes(startMinute)} (${durationMinutes} min)`);
 
-      // Find hour index
-      const startIndex = this.HOURS.indexOf(startHour);
-      if (startIndex === -1) {
-        console.log(`     ⚠️  Skipped - hour ${startHour} not in range (12-6)`);
+      // Find the row the reservation starts in
+      const startIndex = layout.rows.findIndex(row => startMinute < row + layout.slotMinutes);
+      if (startIndex === -1 || startMinute < layout.rows[0]) {
+        console.log(`     ⚠️  Skipped - ${scheduleService.formatMinutes(startMinute)} outside table rows`);
         return;
       }
 
-      const hourSpan = endHour - startHour;
-      console.log(`     ✅ Drawing at position [day=${dayDiff}, hour=${startHour}, span=${hourSpan}]`);
+      // Pick the pitch column (single-pitch tables always use column 0)
+      let pitchIndex = 0;
+      if (layout.pitches.length > 1) {
+        pitchIndex = layout.pitches.findIndex(p => p.id === reservation.pitch_id);
+        if (pitchIndex === -1) {
+          console.log(`     ⚠️  Skipped - pitch ${reservation.pitch_id} not rendered`);
+          return;
+        }
+      }
+
+      const rowSpan = Math.min(
+        Math.max(Math.ceil(durationMinutes / layout.slotMinutes), 1),
+        layout.rows.length - startIndex
+      );
+      console.log(`     ✅ Drawing at position [day=${dayDiff}, pitch=${pitchIndex}, row=${startIndex}, span=${rowSpan}]`);
 
       // Draw reservation cell
-      const x = this.TIME_COLUMN_WIDTH + this.CELL_WIDTH * dayDiff;
-      const y = this.HEADER_HEIGHT + this.CELL_HEIGHT * startIndex;
-      const cellHeight = this.CELL_HEIGHT * hourSpan;
+      const x = this.getColumnX(layout, dayDiff, pitchIndex);
+      const y = layout.headerHeight + this.CELL_HEIGHT * startIndex;
+      const cellHeight = this.CELL_HEIGHT * rowSpan;
 
-      // Reservation background
-      ctx.fillStyle = '#27ae60';
-      ctx.fillRect(x + 2, y + 2, this.CELL_WIDTH - 4, cellHeight - 4);
+      // Reservation background (no-shows stand out)
+      ctx.fillStyle = reservation.status === 'no_show' ? '#e67e22' : '#27ae60';
+      ctx.fillRect(x + 2, y + 2, layout.columnWidth - 4, cellHeight - 4);
 
-      const centerX = x + this.CELL_WIDTH / 2;
+      const centerX = x + layout.columnWidth / 2;
       const cellPadding = 6;
       const availableHeight = cellHeight - (cellPadding * 2);
       let currentY = y + cellPadding;
@@ -189,8 +308,8 @@ class TableVisualizationService {
       const nameParts = fullName.split(' ');
 
       // Adjust font size based on available height
-      const lineHeight = hourSpan === 1 ? 13 : 15; // Smaller spacing for 1-hour slots
-      const fontSize = hourSpan === 1 ? 11 : 12;
+      const lineHeight = rowSpan === 1 ? 13 : 15; // Smaller spacing for single-slot cells
+      const fontSize = rowSpan === 1 ? 11 : 12;
 
       // Display name intelligently based on length
       if (nameParts.length >= 2) {
@@ -223,9 +342,11 @@ class TableVisualizationService {
   async generateWeekTableWithTitle(
     reservations: ReservationDetails[],
     weekStartDate: Date,
-    weekOffset: number
+    weekOffset: number,
+    pitches: Pitch[] = [],
+    schedule: ScheduleSettings = DEFAULT_SCHEDULE_SETTINGS
   ): Promise<Buffer> {
-    const tableBuffer = await this.generateWeekTable(reservations, weekStartDate);
+    const tableBuffer = await this.generateWeekTable(reservations, weekStartDate, pitches, schedule);
 
     // Add title above the table
     const titleHeight = 50;
@@ -250,12 +371,14 @@ class TableVisualizationService {
     const weekEndDate = new Date(weekStartDate);
     weekEndDate.setDate(weekStartDate.getDate() + 6);
 
-    const title = weekOffset === 0
+    const weekTitle = weekOffset === 0
       ? 'Bu Hafta Rezervasyon Tablosu'
       : weekOffset < 0
       ? `${Math.abs(weekOffset)} Hafta Önce Rezervasyon Tablosu`
       : `${weekOffset} Hafta Sonra Rezervasyon Tablosu`;
 
+    const title = pitches.length === 1 ? `${pitches[0].name} - ${weekTitle}` : weekTitle;
+
     ctx.fillText(title, width / 2, titleHeight / 2);
 
     // Draw table
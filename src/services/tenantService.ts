@@ -1,4 +1,7 @@
 import { pool } from '../database/db';
+import { config } from '../config';
+import { cacheService } from './cacheService';
+import { LLMProviderName, LLM_PROVIDER_NAMES } from '../providers/types';
 
 export interface Tenant {
   id: number;
@@ -12,27 +15,69 @@ export interface Tenant {
 
 export class TenantService {
   /**
-   * Get or create a tenant based on WhatsApp phone number
-   * This is the main entry point for automatic tenant provisioning
+   * Find the tenant that owns a WhatsApp business number. This is the main entry point for
+   * routing webhook messages. Returns null for deactivated tenants and for numbers that were
+   * never onboarded; numbers on the allow-list are onboarded on their first message.
    */
-  async getOrCreateTenant(whatsappPhoneNumber: string): Promise<number> {
+  async resolveTenant(whatsappPhoneNumber: string): Promise<number | null> {
+    try {
+      const tenant = await this.getTenantByPhoneNumber(whatsappPhoneNumber);
+
+      if (tenant) {
+        return tenant.isActive ? tenant.id : null;
+      }
+
+      if (!this.isAllowedPhoneNumber(whatsappPhoneNumber)) {
+        return null;
+      }
+
+      const onboarded = await this.onboardTenant(whatsappPhoneNumber);
+      return onboarded.id;
+    } catch (error) {
+      console.error('Error resolving tenant:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Register a WhatsApp business number as an active tenant. Reactivates it if it already exists.
+   */
+  async onboardTenant(whatsappPhoneNumber: string, businessName?: string): Promise<Tenant> {
     try {
-      // Use the database function for atomic get-or-create
       const result = await pool.query(
-        'SELECT get_or_create_tenant($1) as tenant_id',
-        [whatsappPhoneNumber]
+        `INSERT INTO tenants (whatsapp_phone_number, business_name)
+        VALUES ($1, $2)
+        ON CONFLICT (whatsapp_phone_number)
+        DO UPDATE SET is_active = true, business_name = COALESCE($3, tenants.business_name)
+        RETURNING
+          id,
+          whatsapp_phone_number as "whatsappPhoneNumber",
+          business_name as "businessName",
+          is_active as "isActive",
+          settings,
+          created_at as "createdAt",
+          updated_at as "updatedAt"`,
+        [whatsappPhoneNumber, businessName || `Tenant ${whatsappPhoneNumber}`, businessName || null]
       );
 
-      const tenantId = result.rows[0].tenant_id;
-      console.log(`📱 Tenant ID ${tenantId} for WhatsApp number ${whatsappPhoneNumber}`);
+      console.log(`📱 Tenant ${result.rows[0].id} onboarded for WhatsApp number ${whatsappPhoneNumber}`);
 
-      return tenantId;
+      return result.rows[0];
     } catch (error) {
-      console.error('Error getting or creating tenant:', error);
+      console.error('Error onboarding tenant:', error);
       throw error;
     }
   }
 
+  /**
+   * Whether an unknown business number may be onboarded automatically: the number this
+   * deployment sends from, or one listed in WHATSAPP_ALLOWED_PHONE_NUMBER_IDS
+   */
+  isAllowedPhoneNumber(whatsappPhoneNumber: string): boolean {
+    return whatsappPhoneNumber === config.whatsapp.phoneNumberId ||
+      config.whatsapp.allowedPhoneNumberIds.includes(whatsappPhoneNumber);
+  }
+
   /**
    * Get tenant by ID
    */
@@ -144,6 +189,43 @@ export class TenantService {
     }
   }
 
+  /**
+   * The LLM provider the tenant wants tried first, null for the deployment's default order
+   */
+  async getLLMProviderPreference(tenantId: number): Promise<LLMProviderName | null> {
+    const cacheKey = `llm_provider:${tenantId}`;
+    const cached = await cacheService.get<{ provider: LLMProviderName | null }>(cacheKey);
+    if (cached) {
+      return cached.provider;
+    }
+
+    const tenant = await this.getTenantById(tenantId);
+    const stored = tenant?.settings?.llmProvider;
+    const provider = LLM_PROVIDER_NAMES.includes(stored) ? stored as LLMProviderName : null;
+
+    // Cache for 10 minutes
+    await cacheService.set(cacheKey, { provider }, 600);
+
+    return provider;
+  }
+
+  async setLLMProviderPreference(tenantId: number, provider: LLMProviderName | null): Promise<void> {
+    if (provider !== null && !LLM_PROVIDER_NAMES.includes(provider)) {
+      throw new Error(`Unknown LLM provider: ${provider}`);
+    }
+
+    const tenant = await this.getTenantById(tenantId);
+    if (!tenant) {
+      throw new Error(`Tenant ${tenantId} not found`);
+    }
+
+    const { llmProvider, ...settings } = tenant.settings || {};
+    await this.updateTenant(tenantId, {
+      settings: provider ? { ...settings, llmProvider: provider } : settings,
+    });
+    await cacheService.del(`llm_provider:${tenantId}`);
+  }
+
   /**
    * List all tenants
    */
@@ -209,6 +291,19 @@ export class TenantService {
     }
   }
 
+  /**
+   * Permanently delete a tenant with all of its data (customers, reservations, settings)
+   */
+  async deleteTenant(tenantId: number): Promise<void> {
+    try {
+      await pool.query('DELETE FROM tenants WHERE id = $1', [tenantId]);
+      console.log(`🗑️ Tenant ${tenantId} deleted`);
+    } catch (error) {
+      console.error('Error deleting tenant:', error);
+      throw error;
+    }
+  }
+
   /**
    * Get tenant statistics
    */
@@ -0,0 +1,271 @@
+import { db } from '../database/db';
+import { reservationService } from './reservationService';
+import { notificationService } from './notificationService';
+
+export interface WaitlistEntry {
+  id: number;
+  tenant_id: number;
+  customer_id: number;
+  customer_name: string;
+  phone_number: string;
+  pitch_id: number | null;
+  pitch_name?: string | null;
+  window_start: Date;
+  window_end: Date;
+  duration_minutes: number;
+  status: 'waiting' | 'offered' | 'booked' | 'declined' | 'expired' | 'cancelled';
+  offered_pitch_id?: number | null;
+  offered_start_time?: Date | null;
+  offered_end_time?: Date | null;
+  hold_expires_at?: Date | null;
+  reservation_id?: number | null;
+  notes?: string;
+  created_at: Date;
+}
+
+export interface WaitlistInput {
+  customerName: string;
+  customerPhone: string;
+  pitchId?: number; // omitted = any pitch
+  windowStart: Date;
+  windowEnd: Date;
+  durationMinutes?: number;
+  notes?: string;
+}
+
+class WaitlistService {
+  // How long a freed slot is held for the customer it was offered to
+  private readonly HOLD_MINUTES = 30;
+  private readonly ACCEPT_PATTERN = /^(evet|e|tamam|olur|onay|onayliyorum|kabul|istiyorum)\b/;
+  private readonly DECLINE_PATTERN = /^(hayir|h|istemiyorum|vazgec|vazgectim|gerek yok)\b/;
+
+  async joinWaitlist(input: WaitlistInput, tenantId: number): Promise<WaitlistEntry> {
+    const durationMinutes = input.durationMinutes || Math.round((input.windowEnd.getTime() - input.windowStart.getTime()) / 60000);
+
+    if (input.windowEnd <= input.windowStart) {
+      throw new Error('Bitiş saati başlangıç saatinden sonra olmalı');
+    }
+
+    if (input.windowEnd <= new Date()) {
+      throw new Error('Geçmiş bir saat için bekleme listesine eklenemez');
+    }
+
+    if (input.windowStart.getTime() + durationMinutes * 60000 > input.windowEnd.getTime()) {
+      throw new Error('Süre, belirtilen saat aralığından uzun olamaz');
+    }
+
+    const customer = await reservationService.getOrCreateCustomer(input.customerName, input.customerPhone, tenantId);
+
+    const entry = await db.createWaitlistEntry(
+      tenantId,
+      customer.id,
+      input.pitchId || null,
+      input.windowStart,
+      input.windowEnd,
+      durationMinutes,
+      input.notes
+    );
+
+    return await db.getWaitlistEntryById(entry.id, tenantId);
+  }
+
+  async listEntries(tenantId: number, startDate?: Date, endDate?: Date): Promise<WaitlistEntry[]> {
+    return await db.getOpenWaitlistEntries(tenantId, startDate, endDate);
+  }
+
+  async removeEntry(entryId: number, tenantId: number): Promise<WaitlistEntry> {
+    const entry: WaitlistEntry | undefined = await db.getWaitlistEntryById(entryId, tenantId);
+
+    if (!entry) {
+      throw new Error('Bekleme kaydı bulunamadı');
+    }
+
+    if (entry.status !== 'waiting' && entry.status !== 'offered') {
+      throw new Error('Bu bekleme kaydı artık aktif değil');
+    }
+
+    await db.updateWaitlistEntryStatus(entryId, tenantId, 'cancelled');
+
+    // A removed customer's hold goes to the next person in line
+    if (entry.status === 'offered') {
+      await this.offerFreedSlot(tenantId, entry.offered_pitch_id!, new Date(entry.offered_start_time!), new Date(entry.offered_end_time!));
+    }
+
+    return entry;
+  }
+
+  /**
+   * Offer a freed slot to the first waiting customer whose window fits it and hold it for
+   * HOLD_MINUTES. Returns the entry that got the offer, or null when nobody is waiting.
+   */
+  async offerFreedSlot(tenantId: number, pitchId: number, startTime: Date, endTime: Date): Promise<WaitlistEntry | null> {
+    const now = new Date();
+    const entries: WaitlistEntry[] = await db.getWaitingEntriesForSlot(tenantId, pitchId, startTime, endTime);
+
+    for (const entry of entries) {
+      const windowStart = new Date(entry.window_start);
+      const windowEnd = new Date(entry.window_end);
+      const offerStart = new Date(Math.max(startTime.getTime(), windowStart.getTime()));
+      const offerEnd = new Date(offerStart.getTime() + entry.duration_minutes * 60000);
+
+      if (offerStart <= now || offerEnd > endTime || offerEnd > windowEnd) {
+        continue;
+      }
+
+      // The slot may have been partly rebooked since it was freed
+      const conflicts = await reservationService.findConflictingReservations(pitchId, offerStart, offerEnd, tenantId);
+      if (conflicts.length > 0) {
+        continue;
+      }
+
+      const holdExpiresAt = new Date(Math.min(now.getTime() + this.HOLD_MINUTES * 60000, offerStart.getTime()));
+      const offered = await db.offerWaitlistEntry(entry.id, pitchId, offerStart, offerEnd, holdExpiresAt);
+      if (!offered) {
+        continue;
+      }
+
+      try {
+        // Waiting customers often have not written for days, so this usually goes out as a template
+        await notificationService.send(tenantId, {
+          type: 'waitlist_offer',
+          phoneNumber: entry.phone_number,
+          text: this.formatOfferMessage(entry.customer_name, offerStart, offerEnd, holdExpiresAt),
+          parameters: {
+            customer_name: entry.customer_name,
+            date: offerStart.toLocaleDateString('tr-TR', { weekday: 'long', day: 'numeric', month: 'long' }),
+            time: `${this.formatTime(offerStart)}-${this.formatTime(offerEnd)}`,
+            hold_until: this.formatTime(holdExpiresAt),
+          },
+        });
+      } catch (error) {
+        // Unreachable customer: skip to the next one in line
+        console.error('Error sending waitlist offer:', error);
+        await db.updateWaitlistEntryStatus(entry.id, tenantId, 'expired');
+        continue;
+      }
+
+      return { ...entry, ...offered };
+    }
+
+    return null;
+  }
+
+  /**
+   * Handle "evet"/"hayır" answers from a customer holding an offer.
+   * Returns the reply to send, or null when the message is not an answer to an offer.
+   */
+  async handleReply(phoneNumber: string, text: string, tenantId: number): Promise<string | null> {
+    const answer = this.normalize(text);
+    const accepted = this.ACCEPT_PATTERN.test(answer);
+    const declined = this.DECLINE_PATTERN.test(answer);
+
+    if (!accepted && !declined) {
+      return null;
+    }
+
+    const offer: WaitlistEntry | undefined = await db.getActiveWaitlistOfferByPhone(tenantId, phoneNumber);
+    if (!offer) {
+      return null;
+    }
+
+    const startTime = new Date(offer.offered_start_time!);
+    const endTime = new Date(offer.offered_end_time!);
+
+    if (declined) {
+      await db.updateWaitlistEntryStatus(offer.id, tenantId, 'declined');
+      await this.offerFreedSlot(tenantId, offer.offered_pitch_id!, startTime, endTime);
+      return 'Tamam, saati bir sonraki kişiye veriyoruz. Teşekkürler!';
+    }
+
+    try {
+      const reservation = await reservationService.createReservation({
+        customerName: offer.customer_name,
+        customerPhone: offer.phone_number,
+        pitchId: offer.offered_pitch_id!,
+        startTime,
+        endTime,
+        notes: offer.notes || 'Bekleme listesinden',
+      }, tenantId, { actor: phoneNumber, sourceMessage: text });
+
+      await db.updateWaitlistEntryStatus(offer.id, tenantId, 'booked', reservation.id);
+
+      return `✅ Rezervasyonunuz oluşturuldu!\n\n` +
+        `🏟️ ${reservation.pitch_name}\n` +
+        `📅 ${startTime.toLocaleDateString('tr-TR', { weekday: 'long', day: 'numeric', month: 'long' })}\n` +
+        `⏰ ${this.formatTime(startTime)}-${this.formatTime(endTime)}` +
+        `${reservation.price ? `\n💰 ${reservation.price} TL` : ''}`;
+    } catch (error: any) {
+      console.error('Error booking waitlist offer:', error);
+      await db.updateWaitlistEntryStatus(offer.id, tenantId, 'expired');
+      return `❌ Üzgünüz, rezervasyon oluşturulamadı: ${error.message}`;
+    }
+  }
+
+  /**
+   * Pass expired holds on to the next customer and close entries whose window has passed.
+   * Runs periodically from the server.
+   */
+  async expireHolds(): Promise<void> {
+    const expired: WaitlistEntry[] = await db.getExpiredWaitlistOffers();
+
+    for (const offer of expired) {
+      await db.updateWaitlistEntryStatus(offer.id, offer.tenant_id, 'expired');
+      await this.offerFreedSlot(
+        offer.tenant_id,
+        offer.offered_pitch_id!,
+        new Date(offer.offered_start_time!),
+        new Date(offer.offered_end_time!)
+      );
+    }
+
+    await db.expirePastWaitlistEntries();
+  }
+
+  formatEntriesMessage(entries: WaitlistEntry[]): string {
+    let message = `⏳ Bekleme listesinde ${entries.length} kişi var:\n\n`;
+
+    entries.forEach((entry, index) => {
+      const windowStart = new Date(entry.window_start);
+      const windowEnd = new Date(entry.window_end);
+
+      message += `${index + 1}. 🆔 ${entry.id} - ${entry.customer_name}\n`;
+      message += `   📞 ${entry.phone_number}\n`;
+      message += `   📅 ${windowStart.toLocaleDateString('tr-TR', { weekday: 'long', day: 'numeric', month: 'long' })} ` +
+        `${this.formatTime(windowStart)}-${this.formatTime(windowEnd)} (${entry.duration_minutes} dk)\n`;
+      message += `   🏟️ ${entry.pitch_name || 'Herhangi bir saha'}\n`;
+      if (entry.status === 'offered' && entry.hold_expires_at) {
+        message += `   📣 Teklif edildi, ${this.formatTime(new Date(entry.hold_expires_at))}'e kadar ayrıldı\n`;
+      }
+      message += '\n';
+    });
+
+    return message.trimEnd();
+  }
+
+  private formatOfferMessage(customerName: string, startTime: Date, endTime: Date, holdExpiresAt: Date): string {
+    return `Merhaba ${customerName}! 🎉\n\n` +
+      `Beklediğiniz saat boşaldı:\n` +
+      `📅 ${startTime.toLocaleDateString('tr-TR', { weekday: 'long', day: 'numeric', month: 'long' })}\n` +
+      `⏰ ${this.formatTime(startTime)}-${this.formatTime(endTime)}\n\n` +
+      `Saat ${this.formatTime(holdExpiresAt)}'e kadar sizin için ayırdık. ` +
+      `Rezervasyon için "EVET", istemiyorsanız "HAYIR" yazın.`;
+  }
+
+  private formatTime(date: Date): string {
+    return date.toLocaleTimeString('tr-TR', { hour: '2-digit', minute: '2-digit' });
+  }
+
+  private normalize(text: string): string {
+    return text
+      .toLocaleLowerCase('tr-TR')
+      .replace(/ı/g, 'i')
+      .replace(/ğ/g, 'g')
+      .replace(/ü/g, 'u')
+      .replace(/ş/g, 's')
+      .replace(/ö/g, 'o')
+      .replace(/ç/g, 'c')
+      .trim();
+  }
+}
+
+export const waitlistService = new WaitlistService();
@@ -56,7 +56,7 @@ async function testSmartRouting() {
     config.llm.gemini.model
   );
 
-  const router = new ToolRouter(llmProvider, tools);
+  const router = new ToolRouter(llmProvider, tools, 'llm');
 
   const testQueries = [
     'Ahmet için yarın saat 9-10 rezervasyon yap',
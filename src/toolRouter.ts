@@ -1,95 +1,61 @@
-import { LLMProvider, Message, ToolDefinition } from './providers/types';
-
-/**
- * Lightweight tool description for the routing stage
- */
-export interface ToolSummary {
-  name: string;
-  description: string;
-}
+import { config } from './config';
+import { LLMProvider, ToolDefinition, CompletionOptions } from './providers/types';
+import { ToolRoutingStrategy, ToolRoutingStrategyName } from './routing/types';
+import { createRoutingStrategy } from './routing/factory';
 
 /**
  * Smart tool router that uses two-stage tool calling:
- * Stage 1: Send lightweight tool names/descriptions → LLM picks top N relevant tools
+ * Stage 1: A routing strategy (TOOL_ROUTING_STRATEGY) picks the top N relevant tools
  * Stage 2: Send full schemas for only selected tools → LLM executes
  */
 export class ToolRouter {
-  private llmProvider: LLMProvider;
+  private strategy: ToolRoutingStrategy;
   private allTools: ToolDefinition[];
-  private toolSummaries: ToolSummary[];
 
-  constructor(llmProvider: LLMProvider, tools: ToolDefinition[]) {
-    this.llmProvider = llmProvider;
+  constructor(
+    llmProvider: LLMProvider,
+    tools: ToolDefinition[],
+    strategy: ToolRoutingStrategyName = config.toolRouting.strategy
+  ) {
+    this.strategy = createRoutingStrategy(strategy, llmProvider);
     this.allTools = tools;
-
-    // Create lightweight summaries
-    this.toolSummaries = tools.map(tool => ({
-      name: tool.name,
-      description: tool.description
-    }));
   }
 
   /**
-   * Stage 1: Get relevant tools using lightweight descriptions
+   * Stage 1: Get relevant tools.
+   * allowedToolNames limits the choice to the tools the sender may use. When the strategy is
+   * not confident every allowed tool is sent, so a message is never answered without the
+   * tool it needs.
    */
-  async selectRelevantTools(userMessage: string, topN: number = 3): Promise<ToolDefinition[]> {
-    // Create a prompt asking LLM to select most relevant tools
-    const routingPrompt: Message[] = [
-      {
-        role: 'system',
-        content: `Sen bir tool seçim asistanısın. Kullanıcının mesajına göre en alakalı ${topN} aracı seç.
-
-MEVCUT ARAÇLAR:
-${this.toolSummaries.map((t, i) => `${i + 1}. ${t.name}: ${t.description}`).join('\n')}
-
-GÖREV: Kullanıcının mesajını analiz et ve yukarıdaki listeden en alakalı ${topN} aracı seç.
-Yanıtını SADECE araç isimlerini virgülle ayırarak ver (başka hiçbir şey yazma):
-
-Örnek: create_reservation,show_week_table,get_current_time`
-      },
-      {
-        role: 'user',
-        content: userMessage
-      }
-    ];
+  async selectRelevantTools(
+    userMessage: string,
+    topN: number = 3,
+    allowedToolNames?: string[],
+    options?: CompletionOptions
+  ): Promise<ToolDefinition[]> {
+    const tools = allowedToolNames
+      ? this.allTools.filter(tool => allowedToolNames.includes(tool.name))
+      : this.allTools;
 
     try {
-      // Call LLM without tools (lightweight routing call)
-      const response = await this.llmProvider.createCompletion(
-        routingPrompt,
-        [], // No tools in routing stage
-        200 // Low token limit for routing
-      );
-
-      const selectedToolNames = (response.message.content || '')
-        .trim()
-        .split(',')
-        .map(name => name.trim())
-        .filter(name => name.length > 0)
-        .slice(0, topN); // Ensure we only take topN
+      const decision = await this.strategy.route(userMessage, tools, topN, options);
 
       if (process.env.NODE_ENV === 'development') {
         console.log('\n=== Tool Routing ===');
         console.log('User message:', userMessage);
-        console.log('Selected tools:', selectedToolNames);
+        console.log(`Selected tools (${decision.strategy}${decision.confident ? '' : ', unsure'}):`, decision.tools.map(tool => tool.name));
       }
 
-      // Map selected names to full tool definitions
-      const selectedTools = selectedToolNames
-        .map(name => this.allTools.find(t => t.name === name))
-        .filter((tool): tool is ToolDefinition => tool !== undefined);
-
-      // If no tools selected or invalid response, return all tools as fallback
-      if (selectedTools.length === 0) {
-        console.warn('Tool routing failed, falling back to all tools');
-        return this.allTools;
+      if (!decision.confident || decision.tools.length === 0) {
+        console.warn(`Tool routing (${decision.strategy}) is unsure, sending all ${tools.length} tools: ${decision.reason}`);
+        return tools;
       }
 
-      return selectedTools;
+      return decision.tools;
     } catch (error) {
       console.error('Error in tool routing:', error);
       // Fallback to all tools on error
-      return this.allTools;
+      return tools;
     }
   }
 
@@ -105,9 +71,5 @@ Yanıtını SADECE araç isimlerini virgülle ayırarak ver (başka hiçbir şey
    */
   updateTools(tools: ToolDefinition[]): void {
     this.allTools = tools;
-    this.toolSummaries = tools.map(tool => ({
-      name: tool.name,
-      description: tool.description
-    }));
   }
 }
@@ -0,0 +1,85 @@
+import { TurkishDateParser } from './turkishDateParser';
+
+// Wednesday 12 November 2025, 14:00 local time
+const NOW = new Date(2025, 10, 12, 14, 0);
+
+const at = (month: number, day: number, hour = 0, minute = 0) => new Date(2025, month - 1, day, hour, minute);
+
+describe('TurkishDateParser.parse', () => {
+  const parser = new TurkishDateParser();
+
+  const cases: {
+    expression: string;
+    now?: Date;
+    date: Date;
+    start?: Date;
+    end?: Date;
+    endInferred?: boolean;
+  }[] = [
+    { expression: 'yarın akşam 9-10', date: at(11, 13), start: at(11, 13, 21), end: at(11, 13, 22) },
+    { expression: 'önümüzdeki cuma', date: at(11, 14) },
+    { expression: '15 Kasım 20:30-22:00', date: at(11, 15), start: at(11, 15, 20, 30), end: at(11, 15, 22) },
+    // After midnight: the booking belongs to the business day that started the evening before
+    { expression: 'bu gece 1-2', date: at(11, 12), start: at(11, 13, 1), end: at(11, 13, 2) },
+    { expression: 'bu gece 1-2', now: at(11, 13, 0, 30), date: at(11, 12), start: at(11, 13, 1), end: at(11, 13, 2) },
+    { expression: 'haftaya salı', date: at(11, 18) },
+    { expression: 'haftaya salı sabah 9-10', date: at(11, 18), start: at(11, 18, 9), end: at(11, 18, 10) },
+    { expression: 'cumartesi', date: at(11, 15) },
+    { expression: 'YARIN 21:00', date: at(11, 13), start: at(11, 13, 21), end: at(11, 13, 22), endInferred: true },
+    { expression: '3 gün sonra', date: at(11, 15) },
+    { expression: '2025-11-20', date: at(11, 20) },
+    // Midday: a bare 12 is noon and an afternoon end makes the start 24-hour
+    { expression: 'yarın saat 12', date: at(11, 13), start: at(11, 13, 12), end: at(11, 13, 13), endInferred: true },
+    { expression: 'yarın 12-14', date: at(11, 13), start: at(11, 13, 12), end: at(11, 13, 14) },
+    { expression: 'cuma 11-13', date: at(11, 14), start: at(11, 14, 11), end: at(11, 14, 13) },
+  ];
+
+  it.each(cases)('$expression', ({ expression, now, date, start, end, endInferred }) => {
+    const parsed = parser.parse(expression, now || NOW);
+
+    expect(parsed).not.toBeNull();
+    expect(parsed!.date).toEqual(date);
+    expect(parsed!.hasDate).toBe(true);
+    expect(parsed!.startTime).toEqual(start);
+    expect(parsed!.endTime).toEqual(end);
+    expect(parsed!.endInferred).toBe(endInferred ?? false);
+  });
+
+  it('uses the current business day when only a time is given', () => {
+    const parsed = parser.parse('akşam 8-9', NOW);
+
+    expect(parsed!.hasDate).toBe(false);
+    expect(parsed!.startTime).toEqual(at(11, 12, 20));
+    expect(parsed!.endTime).toEqual(at(11, 12, 21));
+  });
+
+  it('returns null without a date or time', () => {
+    expect(parser.parse('merhaba', NOW)).toBeNull();
+  });
+});
+
+describe('TurkishDateParser.parseTimeRange', () => {
+  const parser = new TurkishDateParser();
+
+  it.each([
+    // Without a day part a 12-hour time is read as evening, when pitches are booked
+    ['9-10', 21 * 60, 22 * 60],
+    ['09:00-10:00', 9 * 60, 10 * 60],
+    ['sabah 9-10', 9 * 60, 10 * 60],
+    ['akşam 9-10', 21 * 60, 22 * 60],
+    ['20:30-22:00', 20 * 60 + 30, 22 * 60],
+    ['gece 1-2', 25 * 60, 26 * 60],
+    ['12-13', 12 * 60, 13 * 60],
+    ['12:00-13:00', 12 * 60, 13 * 60],
+    ['12-14', 12 * 60, 14 * 60],
+    ['11-13', 11 * 60, 13 * 60],
+    ['12-1', 12 * 60, 13 * 60],
+    ['saat 12', 12 * 60, 13 * 60],
+    ['11-12', 23 * 60, 24 * 60],
+    ['gece 12-1', 24 * 60, 25 * 60],
+    ['akşam 11-12', 23 * 60, 24 * 60],
+    ['23:00-01:00', 23 * 60, 25 * 60],
+  ])('%s', (expression, startMinutes, endMinutes) => {
+    expect(parser.parseTimeRange(expression)).toMatchObject({ startMinutes, endMinutes });
+  });
+});
@@ -0,0 +1,401 @@
+/**
+ * Result of parsing a Turkish date/time expression.
+ * `date` is the business day (00:00). Times past midnight ("bu gece 1-2") belong to the
+ * previous business day, so startTime/endTime may fall on the next calendar day.
+ */
+export interface ParsedDateTime {
+  date: Date;
+  hasDate: boolean;
+  startTime?: Date;
+  endTime?: Date;
+  endInferred: boolean;
+}
+
+/**
+ * Time range in minutes from the start of the business day (values >= 1440 are after midnight)
+ */
+export interface ParsedTimeRange {
+  startMinutes: number;
+  endMinutes: number;
+  endInferred: boolean;
+}
+
+type DayPart = 'sabah' | 'ogle' | 'ogleden_sonra' | 'aksam' | 'gece' | null;
+
+/**
+ * Deterministic parser for the date/time expressions staff actually type or dictate:
+ * "yarın akşam 9-10", "önümüzdeki cuma", "15 Kasım 20:30-22:00", "bu gece 1-2", "haftaya salı".
+ * Input is folded to ASCII first, so voice transcripts without Turkish characters work too.
+ */
+export class TurkishDateParser {
+  // Business day ends at 06:00; anything earlier belongs to the previous day
+  private readonly BUSINESS_DAY_END_HOUR = 6;
+  private readonly DEFAULT_DURATION_MINUTES = 60;
+
+  // JS getDay() numbering (0 = Sunday). Longer names first so "cumartesi" wins over "cuma".
+  private readonly WEEKDAYS: [string, number][] = [
+    ['pazartesi', 1], ['sali', 2], ['carsamba', 3], ['persembe', 4],
+    ['cumartesi', 6], ['cuma', 5], ['pazar', 0],
+  ];
+
+  private readonly MONTHS = [
+    'ocak', 'subat', 'mart', 'nisan', 'mayis', 'haziran',
+    'temmuz', 'agustos', 'eylul', 'ekim', 'kasim', 'aralik',
+  ];
+
+  /**
+   * Parse a combined expression. Returns null when neither a date nor a time is recognised.
+   * Without a date the current business day is assumed.
+   */
+  parse(expression: string, now: Date = new Date()): ParsedDateTime | null {
+    const text = this.normalize(expression);
+    const { date, rest } = this.extractDate(text, now);
+    const time = this.parseNormalizedTime(rest, text);
+
+    if (!date && !time) {
+      return null;
+    }
+
+    const businessDay = date || this.getBusinessDay(now);
+
+    return {
+      date: businessDay,
+      hasDate: date !== null,
+      startTime: time ? this.toDateTime(businessDay, time.startMinutes) : undefined,
+      endTime: time ? this.toDateTime(businessDay, time.endMinutes) : undefined,
+      endInferred: time ? time.endInferred : false,
+    };
+  }
+
+  /**
+   * Parse only the date part ("yarın", "haftaya salı", "2025-11-15"). Returns the business day.
+   */
+  parseDate(expression: string, now: Date = new Date()): Date | null {
+    return this.extractDate(this.normalize(expression), now).date;
+  }
+
+  /**
+   * Parse only the time part ("9-10", "sabah 9-10", "20:30-22:00", "gece 1-2")
+   */
+  parseTimeRange(expression: string): ParsedTimeRange | null {
+    const text = this.normalize(expression);
+    return this.parseNormalizedTime(text, text);
+  }
+
+  /**
+   * Parse a set of weekdays ("hafta içi", "hafta sonu", "cuma, cumartesi") into JS weekday
+   * numbers. Returns null when no weekday is mentioned.
+   */
+  parseWeekdays(expression: string): number[] | null {
+    const text = this.normalize(expression);
+
+    if (/hafta ?ici/.test(text)) {
+      return [1, 2, 3, 4, 5];
+    }
+
+    if (/hafta ?sonu/.test(text)) {
+      return [6, 0];
+    }
+
+    const days: number[] = [];
+    let rest = text;
+    for (const [name, day] of this.WEEKDAYS) {
+      if (rest.includes(name)) {
+        days.push(day);
+        rest = rest.replace(new RegExp(name, 'g'), ' ');
+      }
+    }
+
+    return days.length > 0 ? days.sort() : null;
+  }
+
+  /**
+   * Business day a moment belongs to: before 06:00 counts as the previous day
+   */
+  getBusinessDay(date: Date): Date {
+    const day = new Date(date);
+    if (day.getHours() < this.BUSINESS_DAY_END_HOUR) {
+      day.setDate(day.getDate() - 1);
+    }
+    day.setHours(0, 0, 0, 0);
+    return day;
+  }
+
+  toDateTime(businessDay: Date, minutes: number): Date {
+    const result = new Date(businessDay);
+    result.setHours(0, 0, 0, 0);
+    result.setDate(result.getDate() + Math.floor(minutes / 1440));
+    const minuteOfDay = minutes % 1440;
+    result.setHours(Math.floor(minuteOfDay / 60), minuteOfDay % 60, 0, 0);
+    return result;
+  }
+
+  private normalize(expression: string): string {
+    return expression
+      .toLocaleLowerCase('tr-TR')
+      .replace(/ç/g, 'c')
+      .replace(/ğ/g, 'g')
+      .replace(/ı/g, 'i')
+      .replace(/ö/g, 'o')
+      .replace(/ş/g, 's')
+      .replace(/ü/g, 'u')
+      .replace(/[’`]/g, "'")
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+
+  /**
+   * Find the date part and return the text with it removed, so its digits are not read as hours
+   */
+  private extractDate(text: string, now: Date): { date: Date | null; rest: string } {
+    const today = this.getBusinessDay(now);
+
+    // ISO date, optionally with a time ("2025-11-15", "2025-11-15T21:00")
+    const iso = text.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})(?:t(\d{1,2}:\d{2})(?::\d{2}(?:\.\d+)?)?z?)?\b/);
+    if (iso) {
+      const date = this.makeDate(parseInt(iso[1]), parseInt(iso[2]), parseInt(iso[3]));
+      const rest = text.replace(iso[0], iso[4] ? ` ${iso[4]} ` : ' ');
+      return { date, rest };
+    }
+
+    // "15 kasim", "15 kasim 2025", "15 kasim'da"
+    const monthPattern = new RegExp(`\\b(\\d{1,2})\\s+(${this.MONTHS.join('|')})\\w*'?\\w*(?:\\s+(\\d{4}))?`);
+    const named = text.match(monthPattern);
+    if (named) {
+      const month = this.MONTHS.indexOf(named[2]) + 1;
+      const date = this.withInferredYear(parseInt(named[1]), month, named[3], today);
+      return { date, rest: text.replace(named[0], ' ') };
+    }
+
+    // "15.11.2025", "15/11/2025", "15/11" (dotted dates need a year to avoid clashing with "21.30")
+    const numeric = text.match(/\b(\d{1,2})\.(\d{1,2})\.(\d{4})\b|\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/);
+    if (numeric) {
+      const day = parseInt(numeric[1] || numeric[4]);
+      const month = parseInt(numeric[2] || numeric[5]);
+      const year = numeric[3] || numeric[6];
+      const date = this.withInferredYear(day, month, year ? (year.length === 2 ? `20${year}` : year) : undefined, today);
+      if (date) {
+        return { date, rest: text.replace(numeric[0], ' ') };
+      }
+    }
+
+    // "ayin 15'i"
+    const dayOfMonth = text.match(/\bayin\s+(\d{1,2})\w*'?\w*/);
+    if (dayOfMonth) {
+      const date = this.withInferredYear(parseInt(dayOfMonth[1]), today.getMonth() + 1, undefined, today);
+      return { date, rest: text.replace(dayOfMonth[0], ' ') };
+    }
+
+    // "3 gun sonra", "2 hafta sonra"
+    const relative = text.match(/\b(\d{1,2})\s+(gun|hafta)\s+sonra\b/);
+    if (relative) {
+      const amount = parseInt(relative[1]) * (relative[2] === 'hafta' ? 7 : 1);
+      return { date: this.addDays(today, amount), rest: text.replace(relative[0], ' ') };
+    }
+
+    // Weekday with an optional week qualifier
+    const weekdayNames = this.WEEKDAYS.map(([name]) => name).join('|');
+    const weekdayPattern = new RegExp(
+      `\\b(?:(bu|gelecek|onumuzdeki|haftaya|gecen)\\s+)?(?:(hafta(?:ya)?)\\s+)?(${weekdayNames})\\w*'?\\w*`
+    );
+    const weekday = text.match(weekdayPattern);
+    if (weekday) {
+      const targetDay = this.WEEKDAYS.find(([name]) => name === weekday[3])![1];
+      const qualifier = weekday[1];
+      const weekWord = weekday[2];
+      const date = this.resolveWeekday(today, targetDay, qualifier, weekWord);
+      return { date, rest: text.replace(weekday[0], ' ') };
+    }
+
+    // Relative day words
+    const relativeDays: [RegExp, number][] = [
+      [/\b(?:obur ?gun|yarindan sonra)\b/, 2],
+      [/\byarin\w*\b/, 1],
+      [/\bdun\w*\b/, -1],
+      [/\b(?:bugun\w*|bu aksam|bu gece|bu sabah|bu ogle\w*)\b/, 0],
+      [/\b(?:haftaya|gelecek hafta|onumuzdeki hafta)\b/, 7],
+    ];
+    for (const [pattern, offset] of relativeDays) {
+      const match = text.match(pattern);
+      if (match) {
+        // Keep day-part words ("bu aksam") visible to the time parser
+        const rest = /aksam|gece|sabah|ogle/.test(match[0]) ? text : text.replace(match[0], ' ');
+        return { date: this.addDays(today, offset), rest };
+      }
+    }
+
+    return { date: null, rest: text };
+  }
+
+  private resolveWeekday(today: Date, targetDay: number, qualifier?: string, weekWord?: string): Date {
+    const todayDay = today.getDay();
+    const mondayOffset = (todayDay + 6) % 7;
+    const targetOffsetFromMonday = (targetDay + 6) % 7;
+    const thisMonday = this.addDays(today, -mondayOffset);
+
+    // "haftaya sali", "gelecek hafta sali", "onumuzdeki hafta sali"
+    if (qualifier === 'haftaya' || weekWord === 'haftaya' || (weekWord && (qualifier === 'gelecek' || qualifier === 'onumuzdeki'))) {
+      return this.addDays(thisMonday, 7 + targetOffsetFromMonday);
+    }
+
+    // "gecen sali", "gecen hafta sali"
+    if (qualifier === 'gecen') {
+      return this.addDays(thisMonday, -7 + targetOffsetFromMonday);
+    }
+
+    // "bu sali" / "bu hafta sali" → this calendar week
+    if (qualifier === 'bu') {
+      return this.addDays(thisMonday, targetOffsetFromMonday);
+    }
+
+    const delta = (targetDay - todayDay + 7) % 7;
+
+    // "onumuzdeki cuma", "gelecek cuma" → the next one after today
+    if (qualifier === 'gelecek' || qualifier === 'onumuzdeki') {
+      return this.addDays(today, delta === 0 ? 7 : delta);
+    }
+
+    // Bare weekday → today or the next occurrence
+    return this.addDays(today, delta);
+  }
+
+  private parseNormalizedTime(text: string, fullText: string): ParsedTimeRange | null {
+    const dayPart = this.detectDayPart(fullText);
+
+    const range = text.match(
+      /(\d{1,2})(?:[:.](\d{2}))?(?:'?[dt][ae]n)?\s*(?:-|–|ile|ila|'?[dt][ae]n)\s*(\d{1,2})(?:[:.](\d{2}))?/
+    );
+
+    if (range) {
+      // "12-14", "11:00-13:00": a start written before an afternoon end is 24-hour too
+      const start = this.resolveMinutes(range[1], range[2], dayPart, parseInt(range[3]) >= 13);
+      // "09:00-10:00": an end written after a 24-hour start is 24-hour too
+      let end = this.resolveMinutes(range[3], range[4], dayPart, this.isExplicit24h(range[1]));
+
+      if (start === null || end === null) {
+        return null;
+      }
+
+      // "11-12" → 23:00-24:00, "23:00-01:00" → ends after midnight
+      while (end <= start) {
+        end += 12 * 60;
+      }
+
+      // "12-1" → 12:00-13:00, the end is the hour after noon rather than after midnight
+      if (end - start > 12 * 60 && end - 12 * 60 > start) {
+        end -= 12 * 60;
+      }
+
+      if (end - start > 12 * 60) {
+        return null;
+      }
+
+      return { startMinutes: start, endMinutes: end, endInferred: false };
+    }
+
+    const single = text.match(/(?:saat\s*)?\b(\d{1,2})(?:[:.](\d{2}))?\b/);
+    if (single) {
+      const start = this.resolveMinutes(single[1], single[2], dayPart);
+      if (start === null) {
+        return null;
+      }
+      return { startMinutes: start, endMinutes: start + this.DEFAULT_DURATION_MINUTES, endInferred: true };
+    }
+
+    return null;
+  }
+
+  private detectDayPart(text: string): DayPart {
+    if (/\bogleden sonra\b/.test(text)) return 'ogleden_sonra';
+    if (/\bsabah\w*\b|\bmorning\b|\bam\b/.test(text)) return 'sabah';
+    if (/\bogle\w*\b/.test(text)) return 'ogle';
+    if (/\baksam\w*\b/.test(text)) return 'aksam';
+    if (/\bgece\w*\b/.test(text)) return 'gece';
+    return null;
+  }
+
+  /**
+   * Convert a spoken hour to minutes from the start of the business day.
+   * Zero-padded or >= 13 hours are taken as 24h clock; otherwise the day part decides.
+   * Without a day part, evening is assumed (halı saha default): 6-11 → 18-23, 1-5 → after midnight,
+   * but 12 is noon.
+   */
+  private resolveMinutes(
+    hourText: string,
+    minuteText: string | undefined,
+    dayPart: DayPart,
+    force24h: boolean = false
+  ): number | null {
+    let hour = parseInt(hourText);
+    const minutes = minuteText ? parseInt(minuteText) : 0;
+
+    if (hour > 24 || minutes > 59) {
+      return null;
+    }
+
+    const explicit24h = force24h || this.isExplicit24h(hourText);
+
+    if (explicit24h) {
+      if (hour < this.BUSINESS_DAY_END_HOUR && dayPart !== 'sabah') {
+        hour += 24;
+      }
+    } else {
+      switch (dayPart) {
+        case 'sabah':
+          break;
+        case 'ogle':
+          if (hour < 6) hour += 12;
+          break;
+        case 'ogleden_sonra':
+          if (hour < 12) hour += 12;
+          break;
+        case 'aksam':
+          hour += 12;
+          break;
+        case 'gece':
+          hour += hour < 6 ? 24 : 12;
+          break;
+        default:
+          if (hour !== 12) hour += hour < 6 ? 24 : 12;
+      }
+    }
+
+    return hour * 60 + minutes;
+  }
+
+  // "13", "00" and "09" can only be 24-hour times
+  private isExplicit24h(hourText: string): boolean {
+    const hour = parseInt(hourText);
+    return hour >= 13 || hour === 0 || (hourText.length === 2 && hourText.startsWith('0'));
+  }
+
+  private withInferredYear(day: number, month: number, yearText: string | undefined, today: Date): Date | null {
+    if (yearText) {
+      return this.makeDate(parseInt(yearText), month, day);
+    }
+
+    const date = this.makeDate(today.getFullYear(), month, day);
+    // A date without a year that already passed means next year ("15 ocak" said in december)
+    if (date && date < today) {
+      return this.makeDate(today.getFullYear() + 1, month, day);
+    }
+    return date;
+  }
+
+  private makeDate(year: number, month: number, day: number): Date | null {
+    const date = new Date(year, month - 1, day);
+    if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+      return null;
+    }
+    return date;
+  }
+
+  private addDays(date: Date, days: number): Date {
+    const result = new Date(date);
+    result.setDate(result.getDate() + days);
+    result.setHours(0, 0, 0, 0);
+    return result;
+  }
+}
+
+export const turkishDateParser = new TurkishDateParser();
@@ -0,0 +1,149 @@
+import { createHmac } from 'crypto';
+import express from 'express';
+import request from 'supertest';
+import { config } from './config';
+import { jsonWithRawBody, webhookRouter } from './webhook';
+import { verifyWebhookSignature } from './webhookSignature';
+import { tenantService } from './services/tenantService';
+import { messageQueueService } from './services/messageQueueService';
+
+jest.mock('./services/tenantService', () => ({
+  tenantService: { resolveTenant: jest.fn() },
+}));
+jest.mock('./services/messageQueueService', () => ({
+  messageQueueService: { enqueue: jest.fn() },
+}));
+
+const APP_SECRET = 'test-app-secret';
+
+// A text message as WhatsApp delivers it, serialized the way Meta sends it
+const payload = JSON.stringify({
+  object: 'whatsapp_business_account',
+  entry: [{
+    id: '102290129340398',
+    changes: [{
+      field: 'messages',
+      value: {
+        messaging_product: 'whatsapp',
+        metadata: { display_phone_number: '905320000000', phone_number_id: '106540352242922' },
+        messages: [{
+          from: '905551112233',
+          id: 'wamid.HBgMOTA1NTUxMTEyMjMzFQIAEhgg',
+          timestamp: '1762956000',
+          type: 'text',
+          text: { body: 'yarın akşam 9-10 boş mu?' },
+        }],
+      },
+    }],
+  }],
+});
+
+const sign = (body: string, secret = APP_SECRET) =>
+  `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+
+describe('verifyWebhookSignature', () => {
+  const rawBody = Buffer.from(payload);
+
+  it('accepts the signature of the exact body', () => {
+    expect(verifyWebhookSignature(rawBody, sign(payload), APP_SECRET)).toBe(true);
+  });
+
+  it('rejects a signature made with another secret', () => {
+    expect(verifyWebhookSignature(rawBody, sign(payload, 'another-secret'), APP_SECRET)).toBe(false);
+  });
+
+  it('rejects a missing header', () => {
+    expect(verifyWebhookSignature(rawBody, undefined, APP_SECRET)).toBe(false);
+  });
+
+  it('rejects a tampered body', () => {
+    const tampered = Buffer.from(payload.replace('9-10', '8-9'));
+    expect(verifyWebhookSignature(tampered, sign(payload), APP_SECRET)).toBe(false);
+  });
+
+  it('rejects re-serialized JSON, only the received bytes match', () => {
+    const reformatted = Buffer.from(JSON.stringify(JSON.parse(payload), null, 2));
+    expect(verifyWebhookSignature(reformatted, sign(payload), APP_SECRET)).toBe(false);
+  });
+
+  it('rejects malformed headers and a missing secret', () => {
+    expect(verifyWebhookSignature(rawBody, sign(payload).replace('sha256', 'sha1'), APP_SECRET)).toBe(false);
+    expect(verifyWebhookSignature(rawBody, 'sha256=abc', APP_SECRET)).toBe(false);
+    expect(verifyWebhookSignature(rawBody, sign(payload), '')).toBe(false);
+  });
+});
+
+describe('POST /webhook', () => {
+  const app = express();
+  app.use(jsonWithRawBody);
+  app.use(webhookRouter);
+
+  const post = (body: string, signature?: string) => {
+    const call = request(app).post('/webhook').set('Content-Type', 'application/json');
+    return (signature ? call.set('X-Hub-Signature-256', signature) : call).send(body);
+  };
+
+  beforeEach(() => {
+    config.whatsapp.appSecret = APP_SECRET;
+    config.whatsapp.skipSignatureCheck = false;
+    jest.mocked(tenantService.resolveTenant).mockReset().mockResolvedValue(1);
+    jest.mocked(messageQueueService.enqueue).mockReset().mockResolvedValue(true);
+    // Rejections and ignored numbers are logged, which is expected here
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('queues the messages of a correctly signed call', async () => {
+    const response = await post(payload, sign(payload));
+
+    expect(response.status).toBe(200);
+    expect(tenantService.resolveTenant).toHaveBeenCalledWith('106540352242922');
+    expect(messageQueueService.enqueue).toHaveBeenCalledWith(
+      1,
+      '905551112233',
+      expect.objectContaining({ id: 'wamid.HBgMOTA1NTUxMTEyMjMzFQIAEhgg', text: { body: 'yarın akşam 9-10 boş mu?' } })
+    );
+  });
+
+  it('rejects a wrong signature', async () => {
+    const response = await post(payload, sign(payload, 'another-secret'));
+
+    expect(response.status).toBe(401);
+    expect(messageQueueService.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('rejects a call without the signature header', async () => {
+    const response = await post(payload);
+
+    expect(response.status).toBe(401);
+    expect(messageQueueService.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('rejects a body changed after signing', async () => {
+    const response = await post(payload.replace('905551112233', '905559998877'), sign(payload));
+
+    expect(response.status).toBe(401);
+    expect(messageQueueService.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('rejects every call while the app secret is not set', async () => {
+    config.whatsapp.appSecret = '';
+
+    const response = await post(payload, sign(payload));
+
+    expect(response.status).toBe(401);
+    expect(messageQueueService.enqueue).not.toHaveBeenCalled();
+  });
+
+  it('ignores messages to a business number that is not a tenant', async () => {
+    jest.mocked(tenantService.resolveTenant).mockResolvedValue(null);
+
+    const response = await post(payload, sign(payload));
+
+    expect(response.status).toBe(200);
+    expect(messageQueueService.enqueue).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,92 @@
+import express, { Request, Response, Router } from 'express';
+import { config } from './config';
+import { tenantService } from './services/tenantService';
+import { messageQueueService } from './services/messageQueueService';
+import { verifyWebhookSignature } from './webhookSignature';
+
+/**
+ * JSON body parser that keeps the exact bytes Meta signed on req.rawBody, the webhook
+ * signature is checked against them
+ */
+export const jsonWithRawBody = express.json({
+  verify: (req, res, buf) => {
+    (req as any).rawBody = buf;
+  },
+});
+
+export const webhookRouter: Router = express.Router();
+
+// Webhook verification endpoint (GET)
+webhookRouter.get('/webhook', (req: Request, res: Response) => {
+  const mode = req.query['hub.mode'];
+  const token = req.query['hub.verify_token'];
+  const challenge = req.query['hub.challenge'];
+
+  if (mode === 'subscribe' && token === config.whatsapp.verifyToken) {
+    console.log('Webhook verified successfully');
+    res.status(200).send(challenge);
+  } else {
+    console.log('Webhook verification failed');
+    res.sendStatus(403);
+  }
+});
+
+// Webhook endpoint to receive messages (POST)
+webhookRouter.post('/webhook', async (req: Request, res: Response) => {
+  try {
+    // Only Meta knows the app secret, so this rejects forged and unsigned calls
+    if (
+      !config.whatsapp.skipSignatureCheck &&
+      !verifyWebhookSignature((req as any).rawBody, req.get('x-hub-signature-256'), config.whatsapp.appSecret)
+    ) {
+      console.warn('Rejected webhook call with a missing or invalid signature');
+      res.sendStatus(401);
+      return;
+    }
+
+    const body = req.body;
+
+    // Check if it's a WhatsApp message
+    if (body.object === 'whatsapp_business_account') {
+      // Process each entry
+      for (const entry of body.entry || []) {
+        for (const change of entry.changes || []) {
+          if (change.field === 'messages') {
+            const value = change.value;
+
+            // Extract tenant information (business WhatsApp phone number)
+            const businessPhoneNumber = value.metadata?.phone_number_id || value.metadata?.display_phone_number || config.whatsapp.phoneNumberId;
+
+            // Only onboarded business numbers are served
+            const tenantId = await tenantService.resolveTenant(businessPhoneNumber);
+            if (!tenantId) {
+              console.warn(`Ignoring messages for unknown or inactive business number ${businessPhoneNumber}`);
+              continue;
+            }
+
+            // Store each message and process it in the background, so Meta gets its 200 right away
+            // instead of waiting for the LLM and retrying the delivery
+            for (const message of value.messages || []) {
+              const queued = await messageQueueService.enqueue(tenantId, message.from, message);
+              if (!queued) {
+                console.log(`Skipping duplicate message: ${message.id}`);
+              }
+            }
+
+            // Handle message status updates (optional)
+            if (value.statuses && value.statuses.length > 0) {
+              console.log('Message status update:', value.statuses);
+            }
+          }
+        }
+      }
+
+      res.sendStatus(200);
+    } else {
+      res.sendStatus(404);
+    }
+  } catch (error) {
+    console.error('Error processing webhook:', error);
+    res.sendStatus(500);
+  }
+});
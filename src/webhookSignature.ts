@@ -0,0 +1,25 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Check the X-Hub-Signature-256 header Meta sends with every webhook call: an HMAC-SHA256 of
+ * the raw request body keyed with the app secret, formatted as "sha256=<hex>".
+ * Must be computed over the exact bytes received, re-serialized JSON does not match.
+ */
+export function verifyWebhookSignature(
+  rawBody: Buffer | undefined,
+  signatureHeader: string | undefined,
+  appSecret: string
+): boolean {
+  if (!rawBody || !signatureHeader || !appSecret) {
+    return false;
+  }
+
+  const [algorithm, signature] = signatureHeader.split('=');
+  if (algorithm !== 'sha256' || !signature || !/^[0-9a-f]{64}$/i.test(signature)) {
+    return false;
+  }
+
+  const expected = createHmac('sha256', appSecret).update(rawBody).digest();
+
+  return timingSafeEqual(expected, Buffer.from(signature, 'hex'));
+}
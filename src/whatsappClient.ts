@@ -2,12 +2,45 @@ import axios from 'axios';
 import FormData from 'form-data';
 import { config } from './config';
 
+export interface InteractiveListRow {
+  id: string;
+  title: string; // max 24 characters
+  description?: string; // max 72 characters
+}
+
+export interface InteractiveListSection {
+  title: string;
+  rows: InteractiveListRow[];
+}
+
+export interface InteractiveList {
+  body: string;
+  buttonText: string; // label of the button that opens the list
+  sections: InteractiveListSection[];
+}
+
+/**
+ * Body parameters of a template: a list for templates with {{1}}, {{2}} placeholders, or
+ * name → value for templates created with named placeholders ({{customer_name}})
+ */
+export type TemplateParameters = string[] | { [name: string]: string };
+
+/**
+ * What the user tapped on a reply button or list message
+ */
+export interface InteractiveReply {
+  id: string;
+  title: string;
+  description?: string;
+}
+
 export class WhatsAppClient {
-  private readonly baseUrl = 'https://graph.facebook.com/v18.0';
+  private readonly baseUrl: string;
   private readonly phoneNumberId: string;
   private readonly accessToken: string;
 
   constructor() {
+    this.baseUrl = config.whatsapp.apiUrl;
     this.phoneNumberId = config.whatsapp.phoneNumberId;
     this.accessToken = config.whatsapp.accessToken;
   }
@@ -41,6 +74,165 @@ export class WhatsAppClient {
     }
   }
 
+  /**
+   * Send a pre-approved template message. Needed to reach a customer who has not written to
+   * us in the last 24 hours, when free-form messages are rejected.
+   */
+  async sendTemplate(
+    to: string,
+    templateName: string,
+    languageCode: string,
+    bodyParameters: TemplateParameters = []
+  ): Promise<void> {
+    try {
+      const url = `${this.baseUrl}/${this.phoneNumberId}/messages`;
+      const parameters = Array.isArray(bodyParameters)
+        ? bodyParameters.map(text => ({ type: 'text', text }))
+        : Object.entries(bodyParameters).map(([name, text]) => ({ type: 'text', parameter_name: name, text }));
+
+      await axios.post(
+        url,
+        {
+          messaging_product: 'whatsapp',
+          to: to,
+          type: 'template',
+          template: {
+            name: templateName,
+            language: { code: languageCode },
+            components: parameters.length > 0 ? [{ type: 'body', parameters }] : [],
+          },
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${this.accessToken}`,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      console.log(`Template ${templateName} sent to ${to}`);
+    } catch (error) {
+      console.error('Error sending WhatsApp template:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a message with up to three quick reply buttons. The tapped button comes back to the
+   * webhook as an "interactive" message carrying the button id.
+   */
+  async sendButtons(to: string, body: string, buttons: { id: string; title: string }[]): Promise<void> {
+    try {
+      const url = `${this.baseUrl}/${this.phoneNumberId}/messages`;
+
+      await axios.post(
+        url,
+        {
+          messaging_product: 'whatsapp',
+          to: to,
+          type: 'interactive',
+          interactive: {
+            type: 'button',
+            body: { text: body },
+            action: {
+              buttons: buttons.slice(0, 3).map(button => ({
+                type: 'reply',
+                reply: { id: button.id, title: button.title.substring(0, 20) },
+              })),
+            },
+          },
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${this.accessToken}`,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      console.log(`Buttons sent to ${to}`);
+    } catch (error) {
+      console.error('Error sending WhatsApp buttons:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Send a list picker with up to ten rows. The chosen row comes back to the webhook as an
+   * "interactive" message carrying the row id.
+   */
+  async sendList(to: string, list: InteractiveList): Promise<void> {
+    try {
+      const url = `${this.baseUrl}/${this.phoneNumberId}/messages`;
+
+      // WhatsApp rejects lists with more than ten rows in total
+      let remaining = 10;
+      const sections = list.sections
+        .map(section => {
+          const rows = section.rows.slice(0, remaining);
+          remaining -= rows.length;
+          return { ...section, rows };
+        })
+        .filter(section => section.rows.length > 0);
+
+      await axios.post(
+        url,
+        {
+          messaging_product: 'whatsapp',
+          to: to,
+          type: 'interactive',
+          interactive: {
+            type: 'list',
+            body: { text: list.body },
+            action: {
+              button: list.buttonText.substring(0, 20),
+              sections: sections.map(section => ({
+                title: section.title.substring(0, 24),
+                rows: section.rows.map(row => ({
+                  id: row.id,
+                  title: row.title.substring(0, 24),
+                  ...(row.description ? { description: row.description.substring(0, 72) } : {}),
+                })),
+              })),
+            },
+          },
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${this.accessToken}`,
+            'Content-Type': 'application/json',
+          },
+        }
+      );
+
+      console.log(`List sent to ${to}`);
+    } catch (error) {
+      console.error('Error sending WhatsApp list:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * The tapped button or list row of an incoming "interactive" webhook message
+   */
+  parseInteractiveReply(message: any): InteractiveReply | null {
+    const interactive = message?.interactive;
+
+    if (interactive?.type === 'button_reply' && interactive.button_reply?.id) {
+      return { id: interactive.button_reply.id, title: interactive.button_reply.title || '' };
+    }
+
+    if (interactive?.type === 'list_reply' && interactive.list_reply?.id) {
+      return {
+        id: interactive.list_reply.id,
+        title: interactive.list_reply.title || '',
+        description: interactive.list_reply.description,
+      };
+    }
+
+    return null;
+  }
+
   async sendImage(to: string, imageBuffer: Buffer): Promise<void> {
     try {
       // First, upload the image to WhatsApp
@@ -90,6 +282,36 @@ export class WhatsAppClient {
     }
   }
 
+  /**
+   * Convert a locally typed number ("0555 123 45 67", "555...") to the international
+   * format the Graph API expects ("905551234567")
+   */
+  toWhatsAppNumber(phoneNumber: string): string {
+    const digits = phoneNumber.replace(/\D/g, '');
+
+    if (digits.length === 11 && digits.startsWith('0')) {
+      return `9${digits}`;
+    }
+    if (digits.length === 10) {
+      return `90${digits}`;
+    }
+
+    return digits;
+  }
+
+  /**
+   * The reverse of toWhatsAppNumber: "905551234567" → "05551234567", the way staff type numbers
+   */
+  toLocalNumber(phoneNumber: string): string {
+    const digits = phoneNumber.replace(/\D/g, '');
+
+    if (digits.length === 12 && digits.startsWith('90')) {
+      return `0${digits.slice(2)}`;
+    }
+
+    return digits;
+  }
+
   async markAsRead(messageId: string): Promise<void> {
     try {
       const url = `${this.baseUrl}/${this.phoneNumberId}/messages`;